@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase/admin";
+import { getRequesterId } from "@/lib/beta/server/auth";
+import { parseRoomAction, runRoomAction } from "@/lib/beta/server/actions";
+import { createAdminRoomRepository } from "@/lib/beta/server/room-repository";
+import { toErrorResponse } from "@/lib/beta/server/responses";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const { roomId } = await params;
+  try {
+    if (!adminDb) throw new Error("SERVER_NOT_CONFIGURED");
+    const requesterId = await getRequesterId(request);
+    const action = parseRoomAction(await request.json().catch(() => null));
+    const result = await runRoomAction(
+      createAdminRoomRepository(adminDb),
+      roomId,
+      requesterId,
+      action
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    return toErrorResponse(error, "Beta room action failed");
+  }
+}
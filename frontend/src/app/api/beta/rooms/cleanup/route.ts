@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase/admin";
+import { releaseExpiredRooms } from "@/lib/beta/server/room-cleanup";
+
+// Run daily by the Vercel cron in vercel.json, which sends CRON_SECRET
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ code: "AUTH_REQUIRED" }, { status: 401 });
+  }
+  if (!adminDb) {
+    return NextResponse.json(
+      { code: "SERVER_NOT_CONFIGURED" },
+      { status: 503 }
+    );
+  }
+  try {
+    const released = await releaseExpiredRooms(adminDb);
+    return NextResponse.json({ released });
+  } catch (error) {
+    console.error("Beta room cleanup failed:", error);
+    return NextResponse.json({ code: "SERVER_ERROR" }, { status: 500 });
+  }
+}
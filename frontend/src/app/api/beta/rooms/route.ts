@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebase/admin";
+import { getRequesterId } from "@/lib/beta/server/auth";
+import {
+  parseCreateRoomRequest,
+  runCreateRoom,
+} from "@/lib/beta/server/actions";
+import { createAdminRoomRepository } from "@/lib/beta/server/room-repository";
+import { toErrorResponse } from "@/lib/beta/server/responses";
+
+// New rooms are opened here so their settings are validated on the server
+export async function POST(request: Request) {
+  try {
+    if (!adminDb) throw new Error("SERVER_NOT_CONFIGURED");
+    const creatorId = await getRequesterId(request);
+    const body = parseCreateRoomRequest(await request.json().catch(() => null));
+    const result = await runCreateRoom(
+      createAdminRoomRepository(adminDb),
+      creatorId,
+      body
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    return toErrorResponse(error, "Beta room creation failed");
+  }
+}
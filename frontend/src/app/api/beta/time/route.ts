@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+
+// Reference clock for beta countdowns; deadlines are enforced against it
+export const dynamic = "force-dynamic";
+
+export function GET() {
+  return NextResponse.json({ now: Date.now() });
+}
@@ -93,8 +93,11 @@ export default function BetaDisplayPage() {
     router.push("/beta");
   };
 
-  const playerList = Object.values(players);
+  const playerList = Object.values(players).filter(
+    (p) => p.role !== "spectator"
+  );
   const playerCount = playerList.length;
+  const spectatorCount = Object.keys(players).length - playerCount;
 
   // Show loading while initializing
   if (!initialized) {
@@ -193,6 +196,11 @@ export default function BetaDisplayPage() {
                 <h3 className="text-sm font-bold uppercase tracking-wider text-black">
                   Players ({playerCount}/{settings?.maxPlayers || 8})
                 </h3>
+                {spectatorCount > 0 && (
+                  <span className="ml-auto text-xs text-neutral-500">
+                    +{spectatorCount} watching
+                  </span>
+                )}
               </div>
 
               {playerCount === 0 ? (
@@ -257,7 +265,9 @@ export default function BetaDisplayPage() {
                 <div className="rounded-lg bg-neutral-200 p-3">
                   <div className="text-neutral-500">Connects Required</div>
                   <div className="font-semibold">
-                    {settings?.connectsRequired || 2}
+                    {settings?.connectsPercent
+                      ? `${settings.connectsPercent}%`
+                      : settings?.connectsRequired || 2}
                   </div>
                 </div>
                 <div className="rounded-lg bg-neutral-200 p-3">
@@ -5,31 +5,51 @@ import { useRouter } from "next/navigation";
 import { useBetaStore } from "@/lib/beta/store";
 import {
   getAllSignullMetrics,
+  getDirectGuessProposalDeadline,
+  getDirectGuessVoteTally,
+  getInterceptProgress,
+  getMatchStandings,
+  getMatchWinnerIds,
+  getOpenDirectGuessProposals,
+  getSettingDeadline,
+  getTeamStandings,
+  getTurns,
+  isMatchOver,
+  isMultiRoundMatch,
   type SignullMetrics,
+  type TeamStanding,
 } from "@/lib/beta/selectors";
+import { HIDDEN_LETTER } from "@/lib/beta/types";
+import { useDeadlineExpiry } from "@/lib/beta/useDeadlineExpiry";
 import { Users } from "lucide-react";
 import { CircularProgress } from "@/components/beta/CircularProgress";
+import { DeadlineCountdown } from "@/components/beta/DeadlineCountdown";
+import { InterceptProgress } from "@/components/beta/InterceptProgress";
+import { TeamBadge, TEAM_NAMES } from "@/components/beta/TeamBadge";
 import { ScoreBreakdownDisplay, GameInsights } from "@/components/beta";
 import { setScoreCountingComplete } from "@/lib/beta/firebase";
 import Image from "next/image";
 import { Logo } from "@/components/ui/Logo";
 
-// Read-only letter blocks for display mode
+// Read-only letter blocks for display mode. Letters a team has revealed but
+// the room hasn't stay blank: the TV is shared by both teams.
 function DisplayLetterBlocks({
   secretWord,
   revealedCount,
   isGameEnded = false,
+  maxWidth = 600,
 }: {
   secretWord: string;
   revealedCount: number;
   isGameEnded?: boolean;
+  maxWidth?: number;
 }) {
   const letters = secretWord.toUpperCase().split("");
   const wordLength = letters.length;
   const effectiveRevealedCount = isGameEnded ? wordLength : revealedCount;
 
   // Larger sizing for TV display
-  const blockSize = Math.max(48, Math.min(80, 600 / wordLength));
+  const blockSize = Math.max(32, Math.min(80, maxWidth / wordLength));
   const fontSize = blockSize * 0.7;
   const gap = Math.min(8, Math.max(4, 160 / wordLength));
 
@@ -54,7 +74,7 @@ function DisplayLetterBlocks({
               fontSize: `${fontSize}px`,
             }}
           >
-            {isRevealed ? letter : "?"}
+            {isRevealed ? (letter === HIDDEN_LETTER ? "" : letter) : "?"}
           </div>
         );
       })}
@@ -62,6 +82,41 @@ function DisplayLetterBlocks({
   );
 }
 
+// One team's race for the word in team mode
+function DisplayTeamProgress({
+  standing,
+  secretWord,
+}: {
+  standing: TeamStanding;
+  secretWord: string;
+}) {
+  return (
+    <div className="flex flex-1 flex-col items-center gap-4 rounded-2xl border-2 border-black p-4">
+      <TeamBadge team={standing.team} size="lg" />
+      <DisplayLetterBlocks
+        secretWord={secretWord}
+        revealedCount={standing.revealedCount}
+        maxWidth={320}
+      />
+      <div className="text-center text-lg">
+        <strong>
+          {standing.revealedCount}/{secretWord.length}
+        </strong>{" "}
+        letters
+        {standing.directGuessesLeft !== null && (
+          <>
+            {" "}
+            · <strong>{standing.directGuessesLeft}</strong> guesses left
+          </>
+        )}
+      </div>
+      <div className="text-center text-sm text-neutral-500">
+        {standing.playerNames.join(", ") || "No players"}
+      </div>
+    </div>
+  );
+}
+
 // Compact signull card for grid display
 function DisplaySignullCard({ data }: { data: SignullMetrics }) {
   const {
@@ -74,7 +129,14 @@ function DisplaySignullCard({ data }: { data: SignullMetrics }) {
     isIntercepted,
     isInactive,
     isFailed,
+    isTimedOut,
+    deadline,
     status,
+    clueHistory,
+    challenge,
+    isVetoed,
+    interceptAttemptsUsed,
+    interceptAttemptsAllowed,
   } = data;
 
   const isPending = status === "pending";
@@ -110,8 +172,34 @@ function DisplaySignullCard({ data }: { data: SignullMetrics }) {
       {/* Clue */}
       <div className="flex-1">
         <p className="text-center text-lg font-medium leading-snug">{clue}</p>
+        {clueHistory.length > 0 && (
+          <p className="text-center text-xs italic text-neutral-400">
+            clue edited
+          </p>
+        )}
       </div>
 
+      {/* Open challenge to the clue */}
+      {isPending && challenge?.status === "pending" && (
+        <p className="mt-2 text-center text-xs font-bold text-red-600">
+          Clue challenged: vote on your phones
+        </p>
+      )}
+
+      {/* Setter's intercept attempts */}
+      {isPending && (
+        <p className="mt-2 text-center text-xs font-bold uppercase tracking-wider text-neutral-500">
+          Intercepts {interceptAttemptsUsed}/{interceptAttemptsAllowed}
+        </p>
+      )}
+
+      {/* Countdown */}
+      {isPending && deadline && (
+        <div className="mt-3 text-center">
+          <DeadlineCountdown deadline={deadline} />
+        </div>
+      )}
+
       {/* Status Badge */}
       {!isPending && (
         <div className="mt-3 text-center">
@@ -128,11 +216,15 @@ function DisplaySignullCard({ data }: { data: SignullMetrics }) {
           >
             {isIntercepted
               ? "Intercepted"
-              : isFailed
-                ? "Failed"
-                : isInactive
-                  ? "Inactive"
-                  : "Resolved"}
+              : isVetoed
+                ? "Vetoed"
+                : isTimedOut
+                  ? "Timed Out"
+                  : isFailed
+                    ? "Failed"
+                    : isInactive
+                      ? "Inactive"
+                      : "Resolved"}
           </span>
         </div>
       )}
@@ -157,7 +249,11 @@ export default function BetaDisplayPlayPage() {
       ? Math.max(gameState.revealedCount ?? 1, 1)
       : (gameState?.revealedCount ?? 0);
   const directGuessesLeft = gameState?.directGuessesLeft ?? 0;
-  const lastDirectGuess = gameState?.lastDirectGuess;
+  const directGuesses = gameState?.directGuesses ?? [];
+  const openProposals = getOpenDirectGuessProposals(gameState);
+  const closedProposals = (gameState?.directGuessProposals ?? []).filter(
+    (p) => p.status === "rejected" || p.status === "expired"
+  );
   const winner = gameState?.winner;
   const players = gameState?.players ?? {};
   const scoreEvents = gameState?.scoreEvents ?? [];
@@ -165,6 +261,10 @@ export default function BetaDisplayPlayPage() {
   const showScoreBreakdown = gameState?.settings?.showScoreBreakdown ?? false;
   const scoreCountingComplete = gameState?.scoreCountingComplete ?? false;
   const insights = gameState?.insights ?? [];
+  const interceptProgress = getInterceptProgress(gameState);
+  const teamStandings = getTeamStandings(gameState);
+  const turns = getTurns(gameState);
+  const winningTeam = gameState?.winningTeam ?? null;
   const setter = Object.values(players).find(
     (player) => player.role === "setter"
   );
@@ -181,6 +281,9 @@ export default function BetaDisplayPlayPage() {
       s.status === "blocked"
   );
 
+  // Display devices also expire timers so a room with no active phones still progresses
+  useDeadlineExpiry();
+
   // Handle score counting complete callback
   const handleScoreCountingComplete = useCallback(async () => {
     if (roomId) {
@@ -238,12 +341,18 @@ export default function BetaDisplayPlayPage() {
           winner={winner}
           secretWord={secretWord}
           onComplete={handleScoreCountingComplete}
+          scope={isMatchOver(gameState) ? "match" : "round"}
+          currentRound={gameState.match.currentRound}
+          roundResults={gameState.match.roundResults}
+          scoringRules={gameState.settings.scoringRules}
         />
       );
     }
 
     // Show final scoreboard after score counting is complete
-    const playerList = Object.values(players).sort((a, b) => b.score - a.score);
+    const playerList = Object.values(players)
+      .filter((p) => p.role !== "spectator")
+      .sort((a, b) => b.score - a.score);
 
     return (
       <main className="min-h-screen bg-surface p-8">
@@ -262,8 +371,65 @@ export default function BetaDisplayPlayPage() {
                 The secret word was:{" "}
                 <span className="font-bold text-primary">{secretWord}</span>
               </p>
+              {winningTeam && (
+                <p className="mt-2 text-2xl font-bold">
+                  {TEAM_NAMES[winningTeam]} Team cracked it first!
+                </p>
+              )}
             </div>
 
+            {/* Match Progress */}
+            {isMultiRoundMatch(gameState) && (
+              <div className="mx-auto mb-8 max-w-3xl space-y-4">
+                {isMatchOver(gameState) ? (
+                  <p className="text-center text-3xl font-bold">
+                    🏆{" "}
+                    {getMatchWinnerIds(gameState)
+                      .map((id) => players[id]?.name ?? "Unknown")
+                      .join(" & ")}{" "}
+                    wins the match!
+                  </p>
+                ) : (
+                  <p className="text-center text-xl font-semibold text-neutral-600">
+                    Round {gameState.match.roundResults.length} of{" "}
+                    {gameState.settings.roundsPerMatch} complete
+                  </p>
+                )}
+                <div className="flex flex-wrap justify-center gap-3">
+                  {gameState.match.roundResults.map((result) => (
+                    <div
+                      key={result.round}
+                      className="rounded-xl border-2 border-black bg-neutral-50 px-4 py-2 text-center"
+                    >
+                      <p className="text-xs font-bold uppercase tracking-wider text-neutral-500">
+                        Round {result.round}
+                      </p>
+                      <p className="text-lg font-bold tracking-wider">
+                        {result.secretWord}
+                      </p>
+                      <p className="text-sm text-neutral-600">
+                        {result.winner === "setter"
+                          ? `${players[result.setterId]?.name ?? "Setter"} held on`
+                          : "Guessers cracked it"}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {getMatchStandings(gameState).map((standing, index) => (
+                    <span
+                      key={standing.playerId}
+                      className={`rounded-full px-3 py-1 text-sm font-semibold ${
+                        index === 0 ? "bg-yellow-200" : "bg-neutral-100"
+                      }`}
+                    >
+                      {standing.playerName}: {standing.total} match pts
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Final Letter Blocks */}
             <div className="mb-8">
               <DisplayLetterBlocks
@@ -285,6 +451,7 @@ export default function BetaDisplayPlayPage() {
                   {(() => {
                     // Convert players record to sorted array (highest score first)
                     const sortedPlayers = Object.values(players)
+                      .filter((player) => player.role !== "spectator")
                       .map((player) => ({
                         id: player.id,
                         name: player.name,
@@ -426,6 +593,11 @@ export default function BetaDisplayPlayPage() {
           <p className="text-xl text-neutral-600">
             Waiting for <b>{setterName}</b> to choose a secret word
           </p>
+          <DeadlineCountdown
+            deadline={getSettingDeadline(gameState)}
+            size="lg"
+            className="mt-6"
+          />
         </div>
       </main>
     );
@@ -461,20 +633,118 @@ export default function BetaDisplayPlayPage() {
 
         {/* Letter Blocks - Prominent Display */}
         <div className="mb-8 rounded-3xl border-2 border-black bg-white p-8 shadow-neobrutalist">
-          <DisplayLetterBlocks
-            secretWord={secretWord}
-            revealedCount={revealedCount}
-          />
+          {teamStandings ? (
+            <div className="flex gap-6">
+              {teamStandings.map((standing) => (
+                <DisplayTeamProgress
+                  key={standing.team}
+                  standing={standing}
+                  secretWord={secretWord}
+                />
+              ))}
+            </div>
+          ) : (
+            <DisplayLetterBlocks
+              secretWord={secretWord}
+              revealedCount={revealedCount}
+            />
+          )}
 
-          {/* Last Direct Guess Banner */}
-          {lastDirectGuess && (
-            <div className="mt-6 rounded-xl bg-red-50 p-4 text-center">
-              <span className="text-lg">
-                <strong>{lastDirectGuess.playerName}</strong> guessed{" "}
-                <strong className="text-red-600">{lastDirectGuess.word}</strong>
-                {" — "}
-                <span className="text-red-600">Wrong!</span>
-              </span>
+          {/* Setter's progress toward an intercept win */}
+          {interceptProgress && (
+            <div className="mt-6 flex justify-center">
+              <InterceptProgress progress={interceptProgress} size="lg" />
+            </div>
+          )}
+
+          {/* Whose turn it is to send a signull */}
+          {turns.length > 0 && (
+            <div className="mt-6 flex items-center justify-center gap-6 text-lg">
+              {turns.map((turn) => (
+                <div key={turn.key} className="flex items-center gap-3">
+                  {turn.key !== "all" && <TeamBadge team={turn.key} />}
+                  {turn.playerName ? (
+                    <span>
+                      <strong>{turn.playerName}</strong>
+                      {turn.hasSent ? "'s signull is in play" : "'s turn"}
+                    </span>
+                  ) : (
+                    <span className="text-neutral-500">
+                      No one left to send
+                    </span>
+                  )}
+                  {turn.deadline && (
+                    <DeadlineCountdown deadline={turn.deadline} />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Direct guesses up for a vote */}
+          {gameState &&
+            openProposals.map((proposal) => {
+              const tally = getDirectGuessVoteTally(gameState, proposal);
+              return (
+                <div
+                  key={proposal.id}
+                  className="mt-6 flex items-center justify-center gap-4 rounded-xl border-2 border-black bg-yellow-50 p-4 text-lg"
+                >
+                  {proposal.team && <TeamBadge team={proposal.team} />}
+                  <span>
+                    <strong>{proposal.playerName}</strong> wants to guess{" "}
+                    <strong className="tracking-wider">{proposal.word}</strong>
+                  </span>
+                  <span className="font-bold tabular-nums">
+                    {tally.approvals}/{tally.needed} yes · {tally.rejections} no
+                  </span>
+                  <DeadlineCountdown
+                    deadline={getDirectGuessProposalDeadline(proposal)}
+                  />
+                </div>
+              );
+            })}
+
+          {/* Proposals the guessers turned down or let run out */}
+          {closedProposals.length > 0 && (
+            <div className="mt-6 flex flex-col gap-1 text-center text-neutral-500">
+              {closedProposals.map((proposal) => (
+                <span key={proposal.id}>
+                  {proposal.playerName}&apos;s <strong>{proposal.word}</strong>{" "}
+                  {proposal.status === "rejected"
+                    ? "was voted down"
+                    : "ran out of time"}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Direct guesses made this round */}
+          {directGuesses.length > 0 && (
+            <div className="mt-6 flex flex-col gap-2 rounded-xl bg-red-50 p-4 text-center">
+              {directGuesses.map((guess) => (
+                <span
+                  key={`${guess.playerId}-${guess.timestamp.getTime()}`}
+                  className="text-lg"
+                >
+                  <strong>{guess.playerName}</strong> guessed{" "}
+                  <strong
+                    className={
+                      guess.isCorrect ? "text-green-600" : "text-red-600"
+                    }
+                  >
+                    {guess.word}
+                  </strong>
+                  {" — "}
+                  <span
+                    className={
+                      guess.isCorrect ? "text-green-600" : "text-red-600"
+                    }
+                  >
+                    {guess.isCorrect ? "Correct!" : "Wrong!"}
+                  </span>
+                </span>
+              ))}
             </div>
           )}
         </div>
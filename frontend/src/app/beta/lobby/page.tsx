@@ -15,8 +15,40 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { copyToClipboard } from "@/lib/utils";
 import { useEnableSoundsOnInteraction } from "@/lib/beta/useSound";
 import { useSoundNotifications } from "@/lib/beta/useSoundNotifications";
+import { usePresence } from "@/lib/beta/usePresence";
+import { useServerNow } from "@/lib/beta/useServerClock";
+import { isPlayerOnline } from "@/lib/beta/selectors";
 import { Logo } from "@/components/ui/Logo";
 import { captureEvent } from "@/lib/posthog";
+import {
+  DEFAULT_TYPO_TOLERANCE,
+  MAX_TYPO_TOLERANCE,
+} from "@/lib/beta/word-match";
+import {
+  CONNECTS_PERCENT_STEP,
+  DEFAULT_CONNECT_ATTEMPTS,
+  DEFAULT_CONNECTS_PERCENT,
+  DEFAULT_DIRECT_GUESS_POLICY,
+  DEFAULT_INTERCEPT_ATTEMPTS,
+  DEFAULT_LATE_JOIN_POLICY,
+  MAX_CONNECT_ATTEMPTS,
+  MAX_DIRECT_GUESSES,
+  MAX_INTERCEPT_ATTEMPTS,
+  MAX_INTERCEPTS_TO_WIN,
+  MAX_ROUNDS_PER_MATCH,
+} from "@/lib/beta/engine";
+import {
+  DEFAULT_SCORING_RULES,
+  MAX_SCORING_POINTS,
+  SCORING_PRESETS,
+} from "@/lib/beta/scoring";
+import type {
+  DirectGuessMode,
+  LateJoinPolicy,
+  ScoringPreset,
+  ScoringRules,
+  SetterRotation,
+} from "@/lib/beta/types";
 
 export default function BetaLobbyPage() {
   const router = useRouter();
@@ -29,6 +61,8 @@ export default function BetaLobbyPage() {
     removePlayerFromRoom,
     updatePlayerName,
     changeSetter,
+    setPlayerTeam,
+    promoteSpectator,
     startGame,
     resetScores,
     teardown,
@@ -46,11 +80,24 @@ export default function BetaLobbyPage() {
   const hostId = gameState?.hostId ?? "";
   const settings = gameState?.settings ?? {
     connectsRequired: 1,
+    connectsPercent: 0,
     playMode: "round_robin" as const,
     majorityThreshold: 1,
-    timeLimitSeconds: 60,
+    timeLimitSeconds: 0,
     maxPlayers: 4,
     wordValidation: "strict" as const,
+    typoTolerance: DEFAULT_TYPO_TOLERANCE,
+    roundsPerMatch: 1,
+    setterRotation: "seat_order" as const,
+    scoringRules: DEFAULT_SCORING_RULES,
+    interceptsToWin: 0,
+    interceptAttempts: DEFAULT_INTERCEPT_ATTEMPTS,
+    connectAttempts: DEFAULT_CONNECT_ATTEMPTS,
+    directGuessPolicy: DEFAULT_DIRECT_GUESS_POLICY,
+    directGuessVoting: false,
+    lateJoinPolicy: DEFAULT_LATE_JOIN_POLICY,
+    skipOfflineGuessers: false,
+    teamMode: false,
     prefixMode: true,
     displaySoundMode: true,
     showScoreBreakdown: true,
@@ -64,6 +111,9 @@ export default function BetaLobbyPage() {
   // Enable sounds on user interaction and play sounds for player events
   useEnableSoundsOnInteraction();
   useSoundNotifications();
+  // Keep this player's online badge fresh for the rest of the room
+  usePresence();
+  const nowMs = useServerNow(true, 5000);
 
   // Redirect logic
   useEffect(() => {
@@ -113,9 +163,12 @@ export default function BetaLobbyPage() {
   };
 
   // Get players as array and sort
-  const playersList = Object.values(players).sort((a, b) =>
-    a.name.localeCompare(b.name)
-  );
+  const playersList = Object.values(players)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((p) => ({ ...p, isAway: !isPlayerOnline(p, nowMs) }));
+  // Spectators watch without a seat and don't count toward the player limit
+  const seatedPlayers = playersList.filter((p) => p.role !== "spectator");
+  const hasFreeSeat = seatedPlayers.length < settings.maxPlayers;
 
   // Calculate max connects (total guessers - 1)
   const totalGuessers = playersList.filter((p) => p.role === "guesser").length;
@@ -127,9 +180,21 @@ export default function BetaLobbyPage() {
   // Check if current player is host (host controls settings and can change setter)
   const isHost = currentPlayerId === hostId;
 
-  // Handle connects required change
+  // Handle connects required change (steps the percentage in percentage rooms)
   const handleConnectsChange = async (delta: number) => {
     if (!isHost || !gameState) return;
+    if (settings.connectsPercent > 0) {
+      updateGameSettings({
+        connectsPercent: Math.max(
+          CONNECTS_PERCENT_STEP,
+          Math.min(
+            100,
+            settings.connectsPercent + delta * CONNECTS_PERCENT_STEP
+          )
+        ),
+      });
+      return;
+    }
     const newValue = Math.max(
       1,
       Math.min(maxConnects, settings.connectsRequired + delta)
@@ -144,6 +209,14 @@ export default function BetaLobbyPage() {
     }
   };
 
+  // Handle switching between a fixed count and a share of the guessers
+  const handleConnectsModeChange = (usePercent: boolean) => {
+    if (!isHost) return;
+    updateGameSettings({
+      connectsPercent: usePercent ? DEFAULT_CONNECTS_PERCENT : 0,
+    });
+  };
+
   // Handle prefix mode toggle
   const handlePrefixModeToggle = () => {
     if (!isHost) return;
@@ -168,6 +241,171 @@ export default function BetaLobbyPage() {
     });
   };
 
+  // Handle word validation mode change
+  const handleWordValidationChange = (mode: "strict" | "relaxed") => {
+    if (!isHost) return;
+    updateGameSettings({
+      wordValidation: mode,
+    });
+  };
+
+  // Handle typo tolerance change
+  const handleTypoToleranceChange = (delta: number) => {
+    if (!isHost) return;
+    updateGameSettings({
+      typoTolerance: Math.max(
+        0,
+        Math.min(MAX_TYPO_TOLERANCE, settings.typoTolerance + delta)
+      ),
+    });
+  };
+
+  // Handle rounds per match change
+  const handleRoundsChange = (delta: number) => {
+    if (!isHost) return;
+    updateGameSettings({
+      roundsPerMatch: Math.max(
+        1,
+        Math.min(MAX_ROUNDS_PER_MATCH, settings.roundsPerMatch + delta)
+      ),
+    });
+  };
+
+  // Handle setter rotation change
+  const handleSetterRotationChange = (rotation: SetterRotation) => {
+    if (!isHost) return;
+    updateGameSettings({
+      setterRotation: rotation,
+    });
+  };
+
+  // Handle intercepts to win change (0 turns it off)
+  const handleInterceptsToWinChange = (delta: number) => {
+    if (!isHost) return;
+    updateGameSettings({
+      interceptsToWin: Math.max(
+        0,
+        Math.min(MAX_INTERCEPTS_TO_WIN, settings.interceptsToWin + delta)
+      ),
+    });
+  };
+
+  // Handle intercept attempts per signull change
+  const handleInterceptAttemptsChange = (delta: number) => {
+    if (!isHost) return;
+    updateGameSettings({
+      interceptAttempts: Math.max(
+        1,
+        Math.min(MAX_INTERCEPT_ATTEMPTS, settings.interceptAttempts + delta)
+      ),
+    });
+  };
+
+  // Handle connect attempts per signull change
+  const handleConnectAttemptsChange = (delta: number) => {
+    if (!isHost) return;
+    updateGameSettings({
+      connectAttempts: Math.max(
+        1,
+        Math.min(MAX_CONNECT_ATTEMPTS, settings.connectAttempts + delta)
+      ),
+    });
+  };
+
+  // Handle direct guess mode change
+  const handleDirectGuessModeChange = (mode: DirectGuessMode) => {
+    if (!isHost) return;
+    updateGameSettings({
+      directGuessPolicy: { ...settings.directGuessPolicy, mode },
+    });
+  };
+
+  // Handle direct guess count change (the miss penalty when unlimited)
+  const handleDirectGuessAmountChange = (delta: number) => {
+    if (!isHost) return;
+    const policy = settings.directGuessPolicy;
+    updateGameSettings({
+      directGuessPolicy:
+        policy.mode === "unlimited"
+          ? {
+              ...policy,
+              penalty: Math.max(
+                0,
+                Math.min(MAX_SCORING_POINTS, policy.penalty + delta)
+              ),
+            }
+          : {
+              ...policy,
+              count: Math.max(
+                1,
+                Math.min(MAX_DIRECT_GUESSES, policy.count + delta)
+              ),
+            },
+    });
+  };
+
+  // Handle direct guess voting toggle
+  const handleDirectGuessVotingToggle = () => {
+    if (!isHost) return;
+    updateGameSettings({
+      directGuessVoting: !settings.directGuessVoting,
+    });
+  };
+
+  // Handle late join policy change
+  const handleLateJoinPolicyChange = (policy: LateJoinPolicy) => {
+    if (!isHost) return;
+    updateGameSettings({
+      lateJoinPolicy: policy,
+    });
+  };
+
+  // Handle skipping guessers who went offline
+  const handleToggleSkipOfflineGuessers = () => {
+    if (!isHost) return;
+    updateGameSettings({
+      skipOfflineGuessers: !settings.skipOfflineGuessers,
+    });
+  };
+
+  // Handle team mode toggle
+  const handleTeamModeToggle = () => {
+    if (!isHost) return;
+    updateGameSettings({
+      teamMode: !settings.teamMode,
+    });
+  };
+
+  // Handle scoring preset change
+  const handleScoringPresetChange = (preset: ScoringPreset) => {
+    if (!isHost) return;
+    updateGameSettings({
+      scoringRules: SCORING_PRESETS[preset],
+    });
+  };
+
+  // Handle single scoring value change
+  const handleScoringRuleChange = (key: keyof ScoringRules, delta: number) => {
+    if (!isHost) return;
+    updateGameSettings({
+      scoringRules: {
+        ...settings.scoringRules,
+        [key]: Math.max(
+          0,
+          Math.min(MAX_SCORING_POINTS, settings.scoringRules[key] + delta)
+        ),
+      },
+    });
+  };
+
+  // Handle time limit change
+  const handleTimeLimitChange = (seconds: number) => {
+    if (!isHost) return;
+    updateGameSettings({
+      timeLimitSeconds: seconds,
+    });
+  };
+
   // Handle remove player
   const handleRemovePlayer = async (playerId: string) => {
     if (!isHost) return;
@@ -178,6 +416,16 @@ export default function BetaLobbyPage() {
     }
   };
 
+  // Handle seating a spectator for the next round
+  const handlePromoteSpectator = async (playerId: string) => {
+    if (!isHost) return;
+    try {
+      await promoteSpectator(playerId);
+    } catch (err) {
+      console.error("Failed to seat spectator:", err);
+    }
+  };
+
   // Handle edit player name
   const handleEditPlayerName = async (playerId: string, newName: string) => {
     try {
@@ -225,7 +473,7 @@ export default function BetaLobbyPage() {
       // Track game start event
       captureEvent("game_started", {
         roomId: roomId,
-        playerCount: playersList.length,
+        playerCount: seatedPlayers.length,
         playMode: settings.playMode,
         connectsRequired: settings.connectsRequired,
         maxPlayers: settings.maxPlayers,
@@ -256,7 +504,7 @@ export default function BetaLobbyPage() {
   };
 
   // Check if game can start (at least 3 players)
-  const canStartGame = playersList.length >= 3;
+  const canStartGame = seatedPlayers.length >= 3;
 
   if (!roomId) {
     return null;
@@ -286,11 +534,43 @@ export default function BetaLobbyPage() {
           <div className="relative">
             <SettingsCard
               connectsRequired={settings.connectsRequired}
+              connectsPercent={settings.connectsPercent}
+              onConnectsModeChange={handleConnectsModeChange}
               onConnectsChange={handleConnectsChange}
               prefixMode={settings.prefixMode}
               onTogglePrefixMode={handlePrefixModeToggle}
               showScoreBreakdown={settings.showScoreBreakdown ?? true}
               onToggleScoreBreakdown={handleScoreBreakdownToggle}
+              wordValidation={settings.wordValidation}
+              onWordValidationChange={handleWordValidationChange}
+              typoTolerance={settings.typoTolerance}
+              onTypoToleranceChange={handleTypoToleranceChange}
+              timeLimitSeconds={settings.timeLimitSeconds}
+              onTimeLimitChange={handleTimeLimitChange}
+              interceptsToWin={settings.interceptsToWin}
+              onInterceptsToWinChange={handleInterceptsToWinChange}
+              interceptAttempts={settings.interceptAttempts}
+              onInterceptAttemptsChange={handleInterceptAttemptsChange}
+              connectAttempts={settings.connectAttempts}
+              onConnectAttemptsChange={handleConnectAttemptsChange}
+              directGuessPolicy={settings.directGuessPolicy}
+              onDirectGuessModeChange={handleDirectGuessModeChange}
+              onDirectGuessAmountChange={handleDirectGuessAmountChange}
+              directGuessVoting={settings.directGuessVoting}
+              onToggleDirectGuessVoting={handleDirectGuessVotingToggle}
+              teamMode={settings.teamMode}
+              onToggleTeamMode={handleTeamModeToggle}
+              roundsPerMatch={settings.roundsPerMatch}
+              onRoundsChange={handleRoundsChange}
+              setterRotation={settings.setterRotation}
+              onSetterRotationChange={handleSetterRotationChange}
+              lateJoinPolicy={settings.lateJoinPolicy}
+              onLateJoinPolicyChange={handleLateJoinPolicyChange}
+              skipOfflineGuessers={settings.skipOfflineGuessers}
+              onToggleSkipOfflineGuessers={handleToggleSkipOfflineGuessers}
+              scoringRules={settings.scoringRules}
+              onScoringPresetChange={handleScoringPresetChange}
+              onScoringRuleChange={handleScoringRuleChange}
               setterName={players[setterUid]?.name || "Unknown"}
               isHost={isHost}
               onSetterChange={() => setShowSetterDropdown(!showSetterDropdown)}
@@ -300,7 +580,7 @@ export default function BetaLobbyPage() {
             {/* Setter Dropdown */}
             {showSetterDropdown && (
               <div className="absolute left-0 right-0 top-full z-50 mt-2 overflow-hidden rounded-xl border-2 border-black bg-white shadow-xl">
-                {playersList.map((p) => (
+                {seatedPlayers.map((p) => (
                   <button
                     key={p.id}
                     onClick={() => handleChangeSetter(p.id)}
@@ -340,6 +620,12 @@ export default function BetaLobbyPage() {
             onRemovePlayer={handleRemovePlayer}
             onEditPlayerName={handleEditPlayerName}
             isHost={isHost}
+            teamMode={settings.teamMode}
+            onSetPlayerTeam={(pid, team) => {
+              void setPlayerTeam(pid, team);
+            }}
+            onPromoteSpectator={handlePromoteSpectator}
+            hasFreeSeat={hasFreeSeat}
           />
 
           <div className="flex items-center justify-center gap-4">
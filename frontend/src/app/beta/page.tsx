@@ -3,8 +3,8 @@
 import { useState, useEffect, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useBetaStore } from "@/lib/beta/store";
-import { generateRoomCode } from "@/lib/beta/firebase";
-import { nicknameSchema, joinGameSchema } from "@/lib/validation";
+import { ROOM_CODE_FORMAT, joinRoomCodeSchema } from "@/lib/beta/room-codes";
+import { nicknameSchema } from "@/lib/validation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -18,7 +18,7 @@ import { getFeaturedPost, getAllPosts } from "@/lib/blog/posts";
 import Link from "next/link";
 
 type NicknameFormData = z.infer<typeof nicknameSchema>;
-type JoinGameFormData = z.infer<typeof joinGameSchema>;
+type JoinGameFormData = z.infer<typeof joinRoomCodeSchema>;
 
 function BetaHomeContent() {
   const router = useRouter();
@@ -55,7 +55,7 @@ function BetaHomeContent() {
   });
 
   const joinGameForm = useForm<JoinGameFormData>({
-    resolver: zodResolver(joinGameSchema),
+    resolver: zodResolver(joinRoomCodeSchema),
     defaultValues: { gameCode: "" },
   });
 
@@ -210,10 +210,7 @@ function BetaHomeContent() {
     setError(null);
 
     try {
-      const roomCode = generateRoomCode();
-      await useBetaStore
-        .getState()
-        .initRoom(roomCode, { createIfMissing: true, isDisplayMode });
+      await useBetaStore.getState().initRoom(null, { isDisplayMode });
 
       const error = useBetaStore.getState().error;
       if (error) {
@@ -347,7 +344,7 @@ function BetaHomeContent() {
                       type="text"
                       placeholder="Enter Game Code"
                       className="w-full rounded-lg border-2 border-black px-4 py-3 uppercase shadow-sm transition-all focus:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] focus:outline-none"
-                      maxLength={6}
+                      maxLength={ROOM_CODE_FORMAT.length}
                       onChange={(e) => {
                         // Convert to uppercase as user types
                         e.target.value = e.target.value.toUpperCase();
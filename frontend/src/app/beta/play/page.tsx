@@ -11,8 +11,13 @@ import {
   FlippableBaseCard,
   useWinningCardContent,
   ScoreBreakdownCard,
+  MatchResultsCard,
+} from "@/components/beta/cards";
+import type {
+  SignullCardProps,
+  WinCondition,
+  WinningCardProps,
 } from "@/components/beta/cards";
-import type { WinCondition, WinningCardProps } from "@/components/beta/cards";
 import {
   ActionBar,
   LetterBlocks,
@@ -23,25 +28,57 @@ import {
   useNotify,
   SignullHistoryInline,
   AudioToggleButton,
+  InterceptProgress,
+  TeamBadge,
+  DirectGuessPanel,
+  DirectGuessVote,
+  RecoveryPanel,
 } from "@/components/beta";
 import { MemoriesModal } from "@/components/beta/MemoriesModal";
 import { AudioSettingsModal } from "@/components/beta/AudioSettingsModal";
 import { useGameNotifications } from "@/lib/beta/useGameNotifications";
 import { useSoundNotifications } from "@/lib/beta/useSoundNotifications";
+import { useDeadlineExpiry } from "@/lib/beta/useDeadlineExpiry";
+import { usePresence } from "@/lib/beta/usePresence";
+import { useServerNow } from "@/lib/beta/useServerClock";
 import { AnimatePresence, motion } from "framer-motion";
 import { useBetaStore } from "@/lib/beta/store";
 import {
   useGame,
   useIsSetter,
+  useIsSpectator,
   getSignullMetrics,
-  hasPlayerConnected,
+  canChangeSignull,
+  canChallengeSignull,
+  canVoteOnChallenge,
+  getChallengeTally,
+  getDirectGuessBudget,
+  getDirectGuessesLeft,
+  getDirectGuessProposalDeadline,
+  getDirectGuessVoteTally,
+  getOpenDirectGuessProposals,
+  getInterceptProgress,
+  getPlayerTeam,
+  getPlayerTurn,
+  getSeatedPlayers,
+  getSettingDeadline,
+  getConnectAttemptsLeft,
+  getTurns,
+  canSendSignullOnTurn,
+  isMatchOver,
+  isSignullVisibleTo,
+  isMultiRoundMatch,
+  isPlayerOnline,
+  getStuckStates,
 } from "@/lib/beta/selectors";
 import type { SignullMetrics } from "@/lib/beta/selectors";
+import { isNearMatch } from "@/lib/beta/word-match";
 import type {
   GameWinner,
   Player,
   PlayerId,
   SignullStatus,
+  TeamId,
 } from "@/lib/beta/types";
 import { useRouter } from "next/navigation";
 import { logScorecard, getSignullStatusLabel } from "@/lib/beta/debug";
@@ -58,6 +95,7 @@ type CardType =
   | "send-signull"
   | "signull"
   | "score-counting"
+  | "match-results"
   | "game-ended";
 
 type BaseCardData = {
@@ -84,7 +122,7 @@ type SendSignullCardData = BaseCardData & {
 type SignullCardData = BaseCardData & {
   type: "signull";
   metrics: SignullMetrics;
-  hasConnected: boolean;
+  connectAttemptsLeft: number;
   messageHistory?: Array<{
     id: string;
     username: string;
@@ -93,6 +131,9 @@ type SignullCardData = BaseCardData & {
     isCorrect?: boolean;
     role?: "setter" | "guesser";
     isClueGiver?: boolean;
+    isNearMatch?: boolean;
+    attempt?: number;
+    attemptsAllowed?: number;
   }>;
 };
 
@@ -102,6 +143,7 @@ type GameEndedCardData = BaseCardData & {
   winCondition?: WinCondition;
   secretWord?: string;
   winningPlayerName?: string;
+  winningTeam?: TeamId | null;
   players?: Record<PlayerId, Player>;
 };
 
@@ -109,6 +151,10 @@ type ScoreCountingCardData = BaseCardData & {
   type: "score-counting";
 };
 
+type MatchResultsCardData = BaseCardData & {
+  type: "match-results";
+};
+
 type CardData =
   | WaitingCardData
   | StartingGameCardData
@@ -116,6 +162,7 @@ type CardData =
   | SendSignullCardData
   | SignullCardData
   | ScoreCountingCardData
+  | MatchResultsCardData
   | GameEndedCardData;
 
 /**
@@ -154,6 +201,7 @@ function GameEndedCardWrapper({
     winCondition: card.winCondition,
     secretWord: card.secretWord,
     winningPlayerName: card.winningPlayerName,
+    winningTeam: card.winningTeam,
     players: card.players,
   };
 
@@ -211,13 +259,27 @@ export default function BetaPlayPage() {
   const game = useGame();
   const userId = useBetaStore((state) => state.userId);
   const isSetter = useIsSetter();
+  const isSpectator = useIsSpectator();
+  const joinsNextRound = useBetaStore(
+    (s) => !!s.userId && !!s.game?.players[s.userId]?.joinsNextRound
+  );
   const addSignull = useBetaStore((state) => state.addSignull);
   const submitConnect = useBetaStore((state) => state.submitConnect);
+  const retractSignull = useBetaStore((state) => state.retractSignull);
+  const editSignullClue = useBetaStore((state) => state.editSignullClue);
+  const challengeSignull = useBetaStore((state) => state.challengeSignull);
+  const voteChallenge = useBetaStore((state) => state.voteChallenge);
+  const skipTurn = useBetaStore((state) => state.skipTurn);
   const submitDirectGuess = useBetaStore((state) => state.submitDirectGuess);
+  const voteDirectGuess = useBetaStore((state) => state.voteDirectGuess);
   const setSecretWord = useBetaStore((state) => state.setSecretWord);
   const backToLobby = useBetaStore((state) => state.backToLobby);
   const playAgain = useBetaStore((state) => state.playAgain);
   const changeSetter = useBetaStore((state) => state.changeSetter);
+  const forceFailSignull = useBetaStore((state) => state.forceFailSignull);
+  const forceSkipTurn = useBetaStore((state) => state.forceSkipTurn);
+  const reassignSetter = useBetaStore((state) => state.reassignSetter);
+  const voidRound = useBetaStore((state) => state.voidRound);
   // const showTutorial = useBetaStore((state) => state.showTutorial);
   const setShowTutorial = useBetaStore((state) => state.setShowTutorial);
 
@@ -229,10 +291,36 @@ export default function BetaPlayPage() {
       ? Math.max(game.revealedCount ?? 1, 1)
       : (game?.revealedCount ?? 0);
   const isWordSet = !!game?.secretWord;
+  const viewerTeam = getPlayerTeam(game, userId);
+  // The setter follows the room's turn order when there is only one
+  const turns = getTurns(game);
+  const turn =
+    getPlayerTurn(game, userId) ?? (turns.length === 1 ? turns[0] : null);
+  const isMyTurn = !!turn && turn.playerId === userId;
+  const canSendOnTurn = canSendSignullOnTurn(game, userId);
+  const turnLabel = !turn
+    ? undefined
+    : isMyTurn
+      ? turn.hasSent
+        ? "Your signull is in play"
+        : "Your turn to send"
+      : turn.playerName
+        ? `${turn.playerName}'s turn`
+        : undefined;
+  // Only seated players can be picked as setter from the room info
+  // Presence badges refresh as heartbeats lapse, not only on room updates
+  const nowMs = useServerNow(true, 5000);
   const players = useMemo(
-    () => Object.values(game?.players || {}),
-    [game?.players]
+    () =>
+      getSeatedPlayers(game).map((p) => ({
+        ...p,
+        isAway: !isPlayerOnline(p, nowMs),
+      })),
+    [game, nowMs]
   );
+  // Only the host can unstick the game, so only they run the watchdog
+  const stuckStates =
+    game?.hostId === userId ? getStuckStates(game, nowMs) : [];
 
   //Redirec to beta home page if no roomId
   useEffect(() => {
@@ -271,7 +359,7 @@ export default function BetaPlayPage() {
           playerCount: Object.keys(game.players).length,
           totalSignulls: Object.keys(game.signullState.itemsById).length,
           revealedLetters: game.revealedCount,
-          directGuessesUsed: 3 - game.directGuessesLeft,
+          directGuessesUsed: game.directGuesses.length,
           playMode: game.settings.playMode,
           connectsRequired: game.settings.connectsRequired,
           flow: "beta",
@@ -307,10 +395,22 @@ export default function BetaPlayPage() {
 
   const connectsRequired = game?.settings.connectsRequired || 3;
   const prefixMode = game?.settings.prefixMode || false;
-  const directGuessesLeft = game?.directGuessesLeft || 0;
+  const directGuessesLeft = getDirectGuessesLeft(game, userId);
+  // Teams only see their own teammates' guesses
+  const directGuessBudget = getDirectGuessBudget(game).filter(
+    (entry) => !viewerTeam || entry.team === viewerTeam
+  );
+  // The vote the viewer's team (or the room) is holding on a direct guess
+  const openProposal = getOpenDirectGuessProposals(game).find(
+    (p) => !viewerTeam || p.team === viewerTeam
+  );
 
   // Centralized notification system - watches game state for events from other players
   useGameNotifications();
+  // Expire the setting phase / pending signulls when their timers run out
+  useDeadlineExpiry();
+  // Heartbeats so the room knows this player is still here
+  usePresence();
   // Sound effects for game events
   useSoundNotifications();
   const notify = useNotify();
@@ -391,10 +491,13 @@ export default function BetaPlayPage() {
 
         const entry = game.signullState.itemsById[signullId];
         if (!entry) return null;
+        // Team mode guessers only follow their own team's signulls
+        if (!isSignullVisibleTo(game, entry, userId)) return null;
 
         // Map history - all connects (includes setter intercepts)
         // Only show actual guesses for resolved signulls, censor for all other states
         const isResolved = metrics.status === "resolved";
+        const hasRetries = metrics.connectAttemptsAllowed > 1;
 
         type HistoryItem = {
           id: string;
@@ -404,6 +507,9 @@ export default function BetaPlayPage() {
           isCorrect?: boolean;
           role?: "setter" | "guesser";
           isClueGiver?: boolean;
+          isNearMatch?: boolean;
+          attempt?: number;
+          attemptsAllowed?: number;
         };
 
         const messageHistory: HistoryItem[] = metrics.allConnects.map(
@@ -420,10 +526,22 @@ export default function BetaPlayPage() {
                   ? c.guess
                   : "Connect Sent",
             timestamp: "Just now", // TODO: Format timestamp
-            // Only include isCorrect for resolved signulls to trigger styling
-            isCorrect: isResolved ? c.isCorrect : undefined,
+            // Only include isCorrect for resolved signulls to trigger styling,
+            // and for your own tries when you may need to try again
+            isCorrect:
+              isResolved || (hasRetries && c.playerId === userId)
+                ? c.isCorrect
+                : undefined,
             role: c.playerRole as "setter" | "guesser",
             isClueGiver: false,
+            // Only flagged where the guess itself is shown
+            isNearMatch:
+              (c.playerRole === "setter" || isResolved) && isNearMatch(c),
+            ...(hasRetries &&
+              c.playerRole === "guesser" && {
+                attempt: c.attempt,
+                attemptsAllowed: metrics.connectAttemptsAllowed,
+              }),
           })
         );
 
@@ -437,17 +555,15 @@ export default function BetaPlayPage() {
           isClueGiver: true,
         });
 
-        const playerHasConnected = hasPlayerConnected(
-          game,
-          signullId,
-          userId || ""
-        );
-
         return {
           id: entry.id,
           type: "signull",
           metrics,
-          hasConnected: playerHasConnected,
+          connectAttemptsLeft: getConnectAttemptsLeft(
+            game,
+            signullId,
+            userId || ""
+          ),
           messageHistory,
         };
       })
@@ -461,7 +577,9 @@ export default function BetaPlayPage() {
       game.signullState.order[String(revealedCount)] || [];
     const hasAnyPendingSignull = currentRoundSignullIds.some((signullId) => {
       const entry = game.signullState.itemsById[signullId];
-      return entry?.status === "pending";
+      return (
+        entry?.status === "pending" && isSignullVisibleTo(game, entry, userId)
+      );
     });
 
     const isWaitingForNext = game.phase === "signulls" && !hasAnyPendingSignull;
@@ -510,20 +628,39 @@ export default function BetaPlayPage() {
         let winningPlayerName: string | undefined;
 
         if (game.winner === "setter") {
-          // Setter wins when guessers run out of direct guesses
-          winCondition = "out_of_guesses";
+          const interceptProgress = getInterceptProgress(game);
+          if (
+            interceptProgress &&
+            interceptProgress.count >= interceptProgress.target
+          ) {
+            // Setter intercepted the room's target number of signulls
+            winCondition = "intercepts_reached";
+          } else {
+            // Setter wins when guessers run out of direct guesses
+            winCondition = "out_of_guesses";
+          }
         } else if (game.winner === "guessers") {
           // Check if all letters were revealed (won by signulls)
-          if (game.revealedCount >= game.secretWord.length) {
+          const winnerRevealedCount =
+            game.winningTeam && game.teams
+              ? game.teams[game.winningTeam].revealedCount
+              : game.revealedCount;
+          if (winnerRevealedCount >= game.secretWord.length) {
             winCondition = "all_letters_revealed";
           } else {
             // Won by direct guess (revealed count is less than word length)
             winCondition = "direct_guess";
-            // TODO: Track who made the winning guess in game state
-            // For now, we don't have this info stored
+            winningPlayerName = game.directGuesses.find(
+              (guess) => guess.isCorrect
+            )?.playerName;
           }
         }
 
+        // Multi-round matches get the running standings behind the result
+        if (isMultiRoundMatch(game)) {
+          mappedCards.unshift({ id: "match-results", type: "match-results" });
+        }
+
         mappedCards.unshift({
           id: "game-ended",
           type: "game-ended",
@@ -531,6 +668,7 @@ export default function BetaPlayPage() {
           winCondition,
           secretWord: game.secretWord,
           winningPlayerName,
+          winningTeam: game.winningTeam,
           players: game.players,
         });
       }
@@ -640,6 +778,20 @@ export default function BetaPlayPage() {
   };
 
   // Handle Signull button click - insert send-signull card
+  const handleSkipTurn = async () => {
+    try {
+      await skipTurn();
+      if (isComposingSignull) {
+        setIsComposingSignull(false);
+        setActiveIndex(indexBeforeSignullRef.current);
+      }
+      showNotification("Turn skipped", "success");
+    } catch (error) {
+      showNotification("Failed to skip turn", "error");
+      console.error(error);
+    }
+  };
+
   const handleSignullClick = () => {
     const currentCard = cards[activeIndex];
 
@@ -741,11 +893,20 @@ export default function BetaPlayPage() {
     }
 
     // Check if setter is trying to connect when signull word matches secret word
-    if (isSetter && currentCard.metrics.word === word) {
+    if (isSetter && currentCard.metrics.isFinal) {
       showNotification("Signull matches the secret word", "error");
       return;
     }
 
+    if (
+      isSetter &&
+      currentCard.metrics.interceptAttemptsUsed >=
+        currentCard.metrics.interceptAttemptsAllowed
+    ) {
+      showNotification("No intercepts left on this signull", "error");
+      return;
+    }
+
     try {
       // We need the signull ID. The card ID is the signull ID (as string)
       await submitConnect(inputValue.trim(), currentCard.id as string);
@@ -760,6 +921,64 @@ export default function BetaPlayPage() {
     }
   };
 
+  const handleRetractSignull = async (signullId: string) => {
+    try {
+      await retractSignull(signullId);
+      showNotification("Signull withdrawn", "success");
+    } catch (error) {
+      showNotification("Failed to withdraw signull", "error");
+      console.error(error);
+    }
+  };
+
+  const handleEditSignullClue = async (signullId: string, clue: string) => {
+    try {
+      await editSignullClue(signullId, clue);
+      showNotification("Clue updated", "success");
+    } catch (error) {
+      showNotification("Failed to update clue", "error");
+      throw error;
+    }
+  };
+
+  const handleChallengeSignull = async (signullId: string) => {
+    try {
+      await challengeSignull(signullId);
+      showNotification("Clue challenged", "success");
+    } catch (error) {
+      showNotification("Failed to challenge clue", "error");
+      console.error(error);
+    }
+  };
+
+  const handleVoteChallenge = async (signullId: string, uphold: boolean) => {
+    try {
+      await voteChallenge(signullId, uphold);
+    } catch (error) {
+      showNotification("Failed to send vote", "error");
+      console.error(error);
+    }
+  };
+
+  // What the viewer may do to a signull card beyond connecting
+  const getSignullCardActions = (
+    signullId: string
+  ): Omit<SignullCardProps, "data"> => ({
+    challengeTally: getChallengeTally(game, signullId),
+    showInterceptAttempts: isSetter,
+    ...(canChangeSignull(game, signullId, userId) && {
+      onRetract: () => handleRetractSignull(signullId),
+      onEditClue: (clue: string) => handleEditSignullClue(signullId, clue),
+    }),
+    ...(canChallengeSignull(game, signullId, userId) && {
+      onChallenge: () => handleChallengeSignull(signullId),
+    }),
+    ...(canVoteOnChallenge(game, signullId, userId) && {
+      onVoteChallenge: (uphold: boolean) =>
+        handleVoteChallenge(signullId, uphold),
+    }),
+  });
+
   // Handle direct guess
   const handleDirectGuessClick = () => {
     setIsDirectGuessMode(true);
@@ -768,7 +987,12 @@ export default function BetaPlayPage() {
   const handleDirectGuessSubmit = async (guess: string) => {
     try {
       await submitDirectGuess(guess);
-      showNotification(`Direct guess: ${guess}`, "success");
+      showNotification(
+        game?.settings.directGuessVoting
+          ? `Proposed ${guess} to your team`
+          : `Direct guess: ${guess}`,
+        "success"
+      );
       setIsDirectGuessMode(false);
     } catch (error) {
       showNotification("Failed to submit guess", "error");
@@ -776,6 +1000,16 @@ export default function BetaPlayPage() {
     }
   };
 
+  const handleDirectGuessVote = async (approve: boolean) => {
+    if (!openProposal) return;
+    try {
+      await voteDirectGuess(openProposal.id, approve);
+    } catch (error) {
+      showNotification("Failed to send vote", "error");
+      console.error(error);
+    }
+  };
+
   const handleDirectGuessCancel = () => {
     setIsDirectGuessMode(false);
   };
@@ -833,6 +1067,16 @@ export default function BetaPlayPage() {
 
     if (!currentCard) return baseState;
 
+    // Spectators follow along without playing
+    if (isSpectator) {
+      return {
+        ...baseState,
+        placeholder: joinsNextRound
+          ? "Watching until the next round"
+          : "Watching as a spectator",
+      };
+    }
+
     if (currentCard.type === "send-signull") {
       return {
         value: signullWord,
@@ -863,27 +1107,43 @@ export default function BetaPlayPage() {
 
       // Check specific disable conditions for signull response
       const isMySignull = signullCard.metrics.clueGiverId === userId;
-      const alreadyConnected = signullCard.hasConnected;
+      const { connectAttemptsLeft } = signullCard;
       const isPending = signullCard.metrics.status === "pending";
 
+      const hasInterceptsLeft =
+        signullCard.metrics.interceptAttemptsUsed <
+        signullCard.metrics.interceptAttemptsAllowed;
+
       // Logic for disabling input:
       // 1. If not pending, it's resolved/failed -> disabled
       // 2. If it's my own signull -> disabled
-      // 3. If I'm a guesser and already connected -> disabled (unless setter, who can intercept multiple times?)
-      //    Actually, setter usually only intercepts once effectively, but let's stick to current logic:
-      //    "If user is setter, they can always input (as long as pending)"
-      //    "If user is guesser, they can only input if they haven't connected yet"
+      // 3. If I'm the setter and out of intercept attempts -> disabled
+      // 4. If I'm a guesser who hit it or used every attempt -> disabled
+      // 5. If I joined after it was sent -> disabled
+
+      const joinedAfterSignull =
+        !isSetter &&
+        !isMySignull &&
+        !signullCard.metrics.eligibleGuesserIds.includes(userId ?? "");
 
       let inputDisabled = true;
       if (isPending && !isMySignull) {
-        if (isSetter) inputDisabled = false;
-        else if (!alreadyConnected) inputDisabled = false;
+        if (isSetter) inputDisabled = !hasInterceptsLeft;
+        else if (connectAttemptsLeft > 0) inputDisabled = false;
       }
+      const isRetry =
+        !isSetter &&
+        connectAttemptsLeft > 0 &&
+        connectAttemptsLeft < signullCard.metrics.connectAttemptsAllowed;
 
       return {
         value: inputValue,
         onChange: setInputValue,
-        placeholder: "Your Response",
+        placeholder: joinedAfterSignull
+          ? "Sent before you joined"
+          : isRetry
+            ? `Try again (${connectAttemptsLeft} left)`
+            : "Your Response",
         onSubmit: handleConnect,
         submitDisabled: !inputValue.trim() || inputDisabled,
         inputDisabled,
@@ -908,6 +1168,8 @@ export default function BetaPlayPage() {
     inputValue,
     userId,
     isSetter,
+    isSpectator,
+    joinsNextRound,
     isSubmittingSignull,
     handleSignullSubmit,
     handleSecretWordSubmit,
@@ -933,6 +1195,7 @@ export default function BetaPlayPage() {
               players={players}
               currentPlayerId={userId || undefined}
               connectsRequired={connectsRequired}
+              connectsPercent={game?.settings.connectsPercent}
               prefixMode={prefixMode}
               canChangeSetter={
                 game?.hostId === userId && game?.phase === "setting"
@@ -961,10 +1224,64 @@ export default function BetaPlayPage() {
               revealedCount={revealedCount}
               isDirectGuessMode={isDirectGuessMode}
               isGameEnded={game?.phase === "ended"}
+              team={viewerTeam}
               onSubmit={handleDirectGuessSubmit}
               onCancel={handleDirectGuessCancel}
               className=""
             />
+            {game?.phase === "signulls" &&
+              (getInterceptProgress(game) || viewerTeam) && (
+                <div className="mt-1 flex justify-center gap-2">
+                  {viewerTeam && <TeamBadge team={viewerTeam} />}
+                  <InterceptProgress progress={getInterceptProgress(game)} />
+                </div>
+              )}
+            {game?.phase === "signulls" && (
+              <DirectGuessPanel
+                className="mt-1"
+                policy={game.settings.directGuessPolicy}
+                budget={directGuessBudget}
+                sharedGuessesLeft={directGuessesLeft}
+                currentPlayerId={userId || undefined}
+                canGuess={
+                  !isSetter &&
+                  !isSpectator &&
+                  directGuessesLeft !== 0 &&
+                  !openProposal
+                }
+                onGuessClick={handleDirectGuessClick}
+              />
+            )}
+            {game && openProposal && (
+              <DirectGuessVote
+                className="mt-1"
+                proposal={openProposal}
+                tally={getDirectGuessVoteTally(game, openProposal)}
+                deadline={getDirectGuessProposalDeadline(openProposal)}
+                currentPlayerId={userId || undefined}
+                onVote={handleDirectGuessVote}
+              />
+            )}
+          </div>
+        )}
+
+        {game && stuckStates.length > 0 && (
+          <div className="px-6">
+            <RecoveryPanel
+              className="mt-1"
+              issues={stuckStates}
+              setterCandidates={players
+                .filter((p) => p.role === "guesser" && !p.isAway)
+                .map((p) => ({ id: p.id, name: p.name }))}
+              recentLog={game.recoveryLog.slice(-3)}
+              playerNames={Object.fromEntries(
+                Object.values(game.players).map((p) => [p.id, p.name])
+              )}
+              onForceFailSignull={(id) => void forceFailSignull(id)}
+              onSkipTurn={(key) => void forceSkipTurn(key)}
+              onReassignSetter={(id) => void reassignSetter(id)}
+              onVoidRound={() => void voidRound()}
+            />
           </div>
         )}
 
@@ -1049,7 +1366,11 @@ export default function BetaPlayPage() {
                   case "starting-game":
                     return <StartingGameCard />;
                   case "enter-secret":
-                    return <EnterSecretWordCard />;
+                    return (
+                      <EnterSecretWordCard
+                        deadline={getSettingDeadline(game)}
+                      />
+                    );
                   case "send-signull":
                     return (
                       <SendASignullCard
@@ -1060,9 +1381,16 @@ export default function BetaPlayPage() {
                       />
                     );
                   case "signull":
-                    return <SignullCard data={card.metrics} />;
+                    return (
+                      <SignullCard
+                        data={card.metrics}
+                        {...getSignullCardActions(card.metrics.signullId)}
+                      />
+                    );
                   case "score-counting":
                     return <ScoreBreakdownCard />;
+                  case "match-results":
+                    return <MatchResultsCard />;
                   case "game-ended":
                     // Game ended card is handled separately with FlippableBaseCard
                     return null;
@@ -1153,10 +1481,30 @@ export default function BetaPlayPage() {
                 onSubmit={currentActionState.onSubmit}
                 placeholder={currentActionState.placeholder}
                 disableInput={currentActionState.inputDisabled}
-                disableSignull={isSetter || game?.phase === "setting"}
+                disableSignull={
+                  isSetter ||
+                  isSpectator ||
+                  game?.phase === "setting" ||
+                  (!canSendOnTurn && !isComposingSignull)
+                }
+                turnLabel={turnLabel}
+                onSkipTurn={
+                  isMyTurn && !turn?.hasSent
+                    ? () => {
+                        void handleSkipTurn();
+                      }
+                    : undefined
+                }
                 disableSubmit={currentActionState.submitDisabled}
                 isGameEnded={game?.phase === "ended"}
                 isHost={userId === game?.hostId}
+                playAgainLabel={
+                  !isMultiRoundMatch(game)
+                    ? undefined
+                    : isMatchOver(game)
+                      ? "New Match"
+                      : "Next Round"
+                }
                 onPlayAgain={() => {
                   void playAgain();
                 }}
@@ -1189,6 +1537,8 @@ export default function BetaPlayPage() {
           onClose={() => setIsMemoriesModalOpen(false)}
           secretWord={game.secretWord}
           signullEntries={Object.values(game.signullState.itemsById)}
+          winner={game.winner}
+          insights={game.insights}
         />
       )}
     </div>
@@ -79,13 +79,22 @@ function TourContent() {
       status: "pending" as const,
       correctConnectsFromGuessers: 0,
       totalConnectsFromGuessers: 0,
+      connectAttemptsAllowed: 1,
       connectsRequired: 2,
       totalActiveGuessers: 2,
+      eligibleGuesserIds: ["1"],
       isComplete: false,
       isIntercepted: false,
       isInactive: false,
       isFailed: false,
       isFinal: false,
+      isTimedOut: false,
+      deadline: null,
+      clueHistory: [],
+      challenge: null,
+      isVetoed: false,
+      interceptAttemptsUsed: 0,
+      interceptAttemptsAllowed: 1,
       allConnects: [
         {
           playerId: "h2",
@@ -94,6 +103,7 @@ function TourContent() {
           guess: "PLANT",
           isCorrect: true,
           timestamp: new Date(),
+          attempt: 1,
         },
       ],
     },
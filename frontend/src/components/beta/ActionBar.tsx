@@ -32,12 +32,18 @@ interface ActionBarProps {
   isGameEnded?: boolean;
   /** Callback when Play Again button is clicked */
   onPlayAgain?: () => void;
+  /** Label for the Play Again button (e.g. "Next Round" during a match) */
+  playAgainLabel?: string;
   /** Callback when Back to Lobby button is clicked */
   onBackToLobby?: () => void;
   /** Callback when Memories button is clicked */
   onMemoriesClick?: () => void;
   /** Whether the current user is the host */
   isHost?: boolean;
+  /** Whose turn it is to send a signull, in rooms that take turns */
+  turnLabel?: string;
+  /** Set while it's the viewer's turn and they haven't sent a signull yet */
+  onSkipTurn?: () => void;
 }
 
 export function ActionBar({
@@ -54,10 +60,13 @@ export function ActionBar({
   className = "",
   isGameEnded = false,
   onPlayAgain,
+  playAgainLabel = "Play Again",
   onBackToLobby,
   onMemoriesClick,
   isSignullPressed,
   isHost = false,
+  turnLabel,
+  onSkipTurn,
 }: ActionBarProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   // const [isSignullPressed, setIsSignullPressed] = useState(false);
@@ -100,7 +109,7 @@ export function ActionBar({
               onClick={onPlayAgain}
               className="flex h-12 items-center justify-center rounded-full border-2 border-black bg-white px-6 text-sm font-bold uppercase tracking-wider text-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] active:translate-y-[2px] active:shadow-none"
             >
-              Play Again
+              {playAgainLabel}
             </button>
           </div>
 
@@ -118,8 +127,8 @@ export function ActionBar({
               />
             </svg>
             <p className="text-xs text-blue-900">
-              You can change the setter from the top-right menu after pressing
-              Play Again for the next turn.
+              You can change the setter from the top-right menu after pressing{" "}
+              {playAgainLabel} for the next turn.
             </p>
           </div>
         </div>
@@ -153,8 +162,25 @@ export function ActionBar({
 
   return (
     <div
-      className={`z-50 mt-4 flex h-20 flex-shrink-0 items-center gap-3 bg-neutral-100 p-6 transition-all duration-200 ${className}`}
+      className={`relative z-50 mt-4 flex h-20 flex-shrink-0 items-center gap-3 bg-neutral-100 p-6 transition-all duration-200 ${className}`}
     >
+      {/* Whose turn it is to send a signull */}
+      {turnLabel && (
+        <div className="absolute -top-4 left-0 right-0 flex items-center justify-center gap-2">
+          <span className="rounded-full border-2 border-black bg-yellow-100 px-3 py-0.5 text-[10px] font-bold uppercase tracking-wider text-black">
+            {turnLabel}
+          </span>
+          {onSkipTurn && (
+            <button
+              onClick={onSkipTurn}
+              className="rounded-full border-2 border-black bg-white px-3 py-0.5 text-[10px] font-bold uppercase tracking-wider text-black active:scale-95"
+            >
+              Skip
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Signull Button */}
       <RoundButton
         id="tour-action-bar-signull"
@@ -0,0 +1,50 @@
+"use client";
+
+import { Timer } from "lucide-react";
+import { useServerNow } from "@/lib/beta/useServerClock";
+
+interface DeadlineCountdownProps {
+  deadline: Date | null;
+  size?: "sm" | "lg";
+  className?: string;
+}
+
+// Seconds left at or below which the countdown turns red
+const URGENT_SECONDS = 10;
+
+const formatRemaining = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0
+    ? `${minutes}:${rest.toString().padStart(2, "0")}`
+    : `${rest}s`;
+};
+
+/**
+ * DeadlineCountdown Component
+ *
+ * Time left until a deadline, measured against the server clock.
+ * Renders nothing when there is no deadline.
+ */
+export function DeadlineCountdown({
+  deadline,
+  size = "sm",
+  className = "",
+}: DeadlineCountdownProps) {
+  const now = useServerNow(deadline !== null);
+  if (!deadline) return null;
+
+  const secondsLeft = Math.max(0, Math.ceil((deadline.getTime() - now) / 1000));
+  const isUrgent = secondsLeft <= URGENT_SECONDS;
+  const sizeClasses =
+    size === "lg" ? "gap-2 px-4 py-1.5 text-2xl" : "gap-1 px-2 py-0.5 text-xs";
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full border-2 border-black font-bold tabular-nums ${sizeClasses} ${isUrgent ? "bg-red-100 text-red-600" : "bg-white text-black"} ${className}`}
+    >
+      <Timer className={size === "lg" ? "h-5 w-5" : "h-3 w-3"} />
+      {formatRemaining(secondsLeft)}
+    </span>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { Check, Infinity as InfinityIcon, Target, X } from "lucide-react";
+import type { DirectGuessBudgetEntry } from "@/lib/beta/selectors";
+import type { DirectGuessPolicy } from "@/lib/beta/types";
+
+interface DirectGuessPanelProps {
+  policy: DirectGuessPolicy;
+  budget: DirectGuessBudgetEntry[];
+  // The shared pool the viewer guesses from; unused outside shared mode
+  sharedGuessesLeft: number | null;
+  currentPlayerId?: string;
+  canGuess: boolean;
+  onGuessClick: () => void;
+  className?: string;
+}
+
+/**
+ * DirectGuessPanel Component
+ *
+ * Direct guess budget under the letter blocks: the shared pool, each
+ * guesser's own allowance, or the penalty in unlimited rooms, followed by
+ * the guesses made so far and the viewer's button to take a shot.
+ */
+export function DirectGuessPanel({
+  policy,
+  budget,
+  sharedGuessesLeft,
+  currentPlayerId,
+  canGuess,
+  onGuessClick,
+  className = "",
+}: DirectGuessPanelProps) {
+  const guesses = budget
+    .flatMap((entry) => entry.guesses)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return (
+    <div className={`flex flex-col items-center gap-1 ${className}`}>
+      <div className="flex flex-wrap items-center justify-center gap-1 text-xs font-bold">
+        {policy.mode === "shared" && (
+          <span className="rounded-full border-2 border-black bg-white px-2 py-0.5 tabular-nums">
+            {sharedGuessesLeft ?? 0} shared guess
+            {sharedGuessesLeft === 1 ? "" : "es"} left
+          </span>
+        )}
+        {policy.mode === "per_player" &&
+          budget.map((entry) => (
+            <span
+              key={entry.playerId}
+              className={`rounded-full border-2 border-black px-2 py-0.5 tabular-nums ${
+                entry.playerId === currentPlayerId
+                  ? "bg-yellow-100"
+                  : "bg-white"
+              } ${entry.guessesLeft === 0 ? "opacity-40" : ""}`}
+            >
+              {entry.playerName} {entry.guessesLeft}
+            </span>
+          ))}
+        {policy.mode === "unlimited" && (
+          <span className="inline-flex items-center gap-1 rounded-full border-2 border-black bg-white px-2 py-0.5">
+            <InfinityIcon className="h-3 w-3" />
+            guesses · -{policy.penalty} per miss
+          </span>
+        )}
+        {canGuess && (
+          <button
+            onClick={onGuessClick}
+            className="inline-flex items-center gap-1 rounded-full border-2 border-black bg-black px-2 py-0.5 text-white transition-transform active:scale-95"
+          >
+            <Target className="h-3 w-3" />
+            Guess the word
+          </button>
+        )}
+      </div>
+
+      {guesses.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-1 text-xs">
+          {guesses.map((guess) => (
+            <span
+              key={`${guess.playerId}-${guess.timestamp.getTime()}`}
+              className={`inline-flex items-center gap-0.5 rounded px-1.5 py-0.5 ${
+                guess.isCorrect
+                  ? "bg-green-100 text-green-700"
+                  : "bg-red-50 text-red-600"
+              }`}
+            >
+              {guess.isCorrect ? (
+                <Check className="h-3 w-3" />
+              ) : (
+                <X className="h-3 w-3" />
+              )}
+              {guess.playerName}: {guess.word}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
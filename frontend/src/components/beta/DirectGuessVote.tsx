@@ -0,0 +1,75 @@
+"use client";
+
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import type { DirectGuessVoteTally } from "@/lib/beta/selectors";
+import type { DirectGuessProposal } from "@/lib/beta/types";
+import { DeadlineCountdown } from "./DeadlineCountdown";
+
+interface DirectGuessVoteProps {
+  proposal: DirectGuessProposal;
+  tally: DirectGuessVoteTally;
+  deadline: Date;
+  currentPlayerId?: string;
+  onVote: (approve: boolean) => void;
+  className?: string;
+}
+
+/**
+ * DirectGuessVote Component
+ *
+ * A teammate's proposed direct guess with the running tally. Voters who
+ * haven't voted yet get approve/reject buttons; the guess is only spent once
+ * a majority approves.
+ */
+export function DirectGuessVote({
+  proposal,
+  tally,
+  deadline,
+  currentPlayerId,
+  onVote,
+  className = "",
+}: DirectGuessVoteProps) {
+  const isProposer = proposal.playerId === currentPlayerId;
+  const canVote =
+    !!currentPlayerId &&
+    tally.voterIds.includes(currentPlayerId) &&
+    proposal.votes[currentPlayerId] === undefined;
+
+  return (
+    <div
+      className={`flex items-center justify-between gap-2 rounded-xl border-2 border-black bg-yellow-50 px-3 py-1.5 text-xs ${className}`}
+    >
+      <div className="min-w-0">
+        <div className="truncate">
+          <strong>{isProposer ? "You" : proposal.playerName}</strong> want
+          {isProposer ? "" : "s"} to guess{" "}
+          <strong className="tracking-wider">{proposal.word}</strong>
+        </div>
+        <div className="text-neutral-500">
+          {tally.approvals}/{tally.needed} yes · {tally.rejections} no
+        </div>
+      </div>
+      <div className="flex flex-shrink-0 items-center gap-1">
+        <DeadlineCountdown deadline={deadline} />
+        {canVote && (
+          <>
+            <button
+              onClick={() => onVote(true)}
+              aria-label="Approve guess"
+              className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-black bg-green-100 transition-transform active:scale-95"
+            >
+              <ThumbsUp className="h-3 w-3" />
+            </button>
+            <button
+              onClick={() => onVote(false)}
+              aria-label="Reject guess"
+              className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-black bg-red-100 transition-transform active:scale-95"
+            >
+              <ThumbsDown className="h-3 w-3" />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
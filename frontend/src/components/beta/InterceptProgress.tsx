@@ -0,0 +1,45 @@
+"use client";
+
+import { Shield } from "lucide-react";
+
+interface InterceptProgressProps {
+  progress: { count: number; target: number } | null;
+  size?: "sm" | "lg";
+  className?: string;
+}
+
+/**
+ * InterceptProgress Component
+ *
+ * How close the setter is to winning by intercepts, one shield per signull
+ * they need to block. Renders nothing when the room has no intercept win.
+ */
+export function InterceptProgress({
+  progress,
+  size = "sm",
+  className = "",
+}: InterceptProgressProps) {
+  if (!progress) return null;
+
+  const isClose = progress.count >= progress.target - 1;
+  const iconSize = size === "lg" ? "h-6 w-6" : "h-3 w-3";
+  const sizeClasses =
+    size === "lg" ? "gap-2 px-4 py-1.5 text-xl" : "gap-1 px-2 py-0.5 text-xs";
+
+  return (
+    <span
+      title="Intercepts until the setter wins"
+      className={`inline-flex items-center rounded-full border-2 border-black font-bold tabular-nums ${sizeClasses} ${isClose ? "bg-red-100 text-red-600" : "bg-white text-black"} ${className}`}
+    >
+      {Array.from({ length: progress.target }, (_, i) => (
+        <Shield
+          key={i}
+          className={`${iconSize} ${i < progress.count ? "fill-current" : "opacity-30"}`}
+        />
+      ))}
+      <span className="ml-1">
+        {progress.count}/{progress.target}
+      </span>
+    </span>
+  );
+}
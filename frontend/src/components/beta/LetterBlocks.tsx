@@ -2,12 +2,15 @@
 
 import { motion, AnimatePresence } from "framer-motion";
 import { useState, useRef, useEffect, KeyboardEvent } from "react";
+import type { TeamId } from "@/lib/beta/types";
+import { TEAM_STYLES } from "./TeamBadge";
 
 interface LetterBlocksProps {
   secretWord: string;
   revealedCount: number;
   isDirectGuessMode?: boolean;
   isGameEnded?: boolean;
+  team?: TeamId | null; // tints the letters the viewer's team has revealed
   onSubmit?: (guess: string) => void;
   onCancel?: () => void;
   className?: string;
@@ -18,6 +21,7 @@ export const LetterBlocks = ({
   revealedCount,
   isDirectGuessMode = false,
   isGameEnded = false,
+  team = null,
   onSubmit,
   onCancel,
   className = "",
@@ -211,7 +215,7 @@ export const LetterBlocks = ({
                 }}
                 className={`
                   flex items-center justify-center 
-                  bg-white font-bold
+                  ${team && isRevealed && !isGameEnded ? TEAM_STYLES[team].fill : "bg-white"} font-bold
                   shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]
                   transition-all duration-500
                   ${
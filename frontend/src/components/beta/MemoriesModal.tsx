@@ -1,32 +1,104 @@
 "use client";
 
-import { X } from "lucide-react";
-import { SignullEntry } from "@/lib/beta/types";
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import { useBetaStore } from "@/lib/beta/store";
+import {
+  GameInsight,
+  GameWinner,
+  RoundArchive,
+  SignullEntry,
+} from "@/lib/beta/types";
 
 interface MemoriesModalProps {
   isOpen: boolean;
   onClose: () => void;
   secretWord: string;
   signullEntries: SignullEntry[];
+  winner?: GameWinner;
+  insights?: GameInsight[];
 }
 
+interface MemoryRound {
+  key: string;
+  label: string;
+  secretWord: string;
+  winner: GameWinner;
+  signullEntries: SignullEntry[];
+  insights: GameInsight[];
+}
+
+const WINNER_LABELS: Record<string, string> = {
+  guessers: "Guessers won",
+  setter: "Setter won",
+};
+
+const archiveToMemory = (archive: RoundArchive): MemoryRound => ({
+  key: archive.archiveId,
+  label: `${archive.archivedAt.toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+  })} · ${archive.archivedAt.toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`,
+  secretWord: archive.secretWord,
+  winner: archive.winner,
+  signullEntries: archive.signulls,
+  insights: archive.insights,
+});
+
 /**
  * MemoriesModal Component
  *
- * Displays a vertical modal showing:
- * - Secret word at the top
+ * Browses every round played in the room, newest first. The round that
+ * just ended comes from the live game; earlier rounds are loaded from the
+ * room's round archives each time the modal opens. Each page shows:
+ * - Secret word and who won
  * - List of all resolved signull entries with their revealed count
+ * - The round's insights
  */
 export function MemoriesModal({
   isOpen,
   onClose,
   secretWord,
   signullEntries,
+  winner = null,
+  insights = [],
 }: MemoriesModalProps) {
+  const loadRoundArchives = useBetaStore((state) => state.loadRoundArchives);
+  const [archives, setArchives] = useState<RoundArchive[]>([]);
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setPage(0);
+    void loadRoundArchives().then((loaded) => {
+      if (!cancelled) setArchives(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, loadRoundArchives]);
+
   if (!isOpen) return null;
 
+  const rounds: MemoryRound[] = [
+    {
+      key: "current",
+      label: "This round",
+      secretWord,
+      winner,
+      signullEntries,
+      insights,
+    },
+    ...archives.map(archiveToMemory),
+  ];
+  const round = rounds[Math.min(page, rounds.length - 1)];
+
   // Filter only resolved signull entries
-  const resolvedSignulls = signullEntries.filter(
+  const resolvedSignulls = round.signullEntries.filter(
     (entry) => entry.status === "resolved"
   );
 
@@ -55,14 +127,46 @@ export function MemoriesModal({
               </button>
             </div>
 
+            {/* Round Pager */}
+            {rounds.length > 1 && (
+              <div className="mt-4 flex items-center justify-between">
+                <button
+                  onClick={() => setPage((p) => Math.max(p - 1, 0))}
+                  disabled={page === 0}
+                  aria-label="Newer round"
+                  className="rounded-full border-2 border-black p-1 disabled:opacity-30"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </button>
+                <span className="text-xs font-bold uppercase tracking-wider text-neutral-600">
+                  {round.label} ({page + 1}/{rounds.length})
+                </span>
+                <button
+                  onClick={() =>
+                    setPage((p) => Math.min(p + 1, rounds.length - 1))
+                  }
+                  disabled={page === rounds.length - 1}
+                  aria-label="Older round"
+                  className="rounded-full border-2 border-black p-1 disabled:opacity-30"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+
             {/* Secret Word Display */}
             <div className="mt-4 rounded-2xl border-2 border-black bg-gradient-to-br from-yellow-50 to-yellow-100 p-4 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
               <p className="mb-1 text-xs font-bold uppercase tracking-wider text-neutral-600">
                 Secret Word
               </p>
               <p className="text-center font-mono text-2xl font-bold uppercase tracking-widest text-black">
-                {secretWord}
+                {round.secretWord}
               </p>
+              {round.winner && (
+                <p className="mt-1 text-center text-xs font-semibold text-neutral-600">
+                  {WINNER_LABELS[round.winner]}
+                </p>
+              )}
             </div>
           </div>
 
@@ -73,7 +177,7 @@ export function MemoriesModal({
           >
             {resolvedSignulls.length === 0 ? (
               <div className="py-8 text-center text-neutral-500">
-                No resolved signulls in this game.
+                No resolved signulls in this round.
               </div>
             ) : (
               <div className="space-y-3">
@@ -130,6 +234,25 @@ export function MemoriesModal({
                 })}
               </div>
             )}
+
+            {/* Insights */}
+            {round.insights.length > 0 && (
+              <div className="mt-4 space-y-2">
+                {round.insights.map((insight) => (
+                  <div
+                    key={insight.id}
+                    className="rounded-2xl border-2 border-dashed border-neutral-300 px-4 py-2"
+                  >
+                    <p className="text-sm font-bold text-black">
+                      {insight.title}
+                    </p>
+                    <p className="text-xs text-neutral-500">
+                      {insight.subtitle}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
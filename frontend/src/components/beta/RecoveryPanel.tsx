@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { LifeBuoy } from "lucide-react";
+import type { StuckState } from "@/lib/beta/selectors";
+import type {
+  PlayerId,
+  RecoveryAction,
+  RecoveryLogEntry,
+  SignullId,
+  TurnKey,
+} from "@/lib/beta/types";
+
+interface SetterCandidate {
+  id: PlayerId;
+  name: string;
+}
+
+interface RecoveryPanelProps {
+  issues: StuckState[];
+  setterCandidates: SetterCandidate[]; // seated players who could pick the word
+  recentLog: RecoveryLogEntry[]; // newest last
+  playerNames: Record<PlayerId, string>;
+  onForceFailSignull: (signullId: SignullId) => void;
+  onSkipTurn: (turnKey: TurnKey) => void;
+  onReassignSetter: (playerId: PlayerId) => void;
+  onVoidRound: () => void;
+  className?: string;
+}
+
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  force_fail_signull: "failed a signull",
+  force_skip_turn: "skipped a turn",
+  reassign_setter: "handed the word to",
+  void_round: "voided the round",
+};
+
+function describeIssue(issue: StuckState): string {
+  switch (issue.kind) {
+    case "setter_away":
+      return `${issue.playerName} is away and hasn't picked a word`;
+    case "orphaned_signull":
+      return `"${issue.clue}" was sent by someone who left`;
+    case "no_guessers":
+      return issue.signullId
+        ? `Nobody online can answer "${issue.clue}"`
+        : "Nobody is left guessing";
+    case "turn_holder_away":
+      return `${issue.playerName ?? "The turn holder"} is away on their turn`;
+  }
+}
+
+const buttonClass =
+  "flex-shrink-0 rounded-full border-2 border-black bg-white px-2 py-0.5 text-xs font-bold transition-all hover:bg-primary hover:text-white active:scale-95";
+
+/**
+ * RecoveryPanel Component
+ *
+ * Shown to the host when the game looks stuck. Lists what's holding it up
+ * with a fix for each, plus voiding the round as a last resort. Recent
+ * fixes are listed so the host can see what was already done.
+ */
+export function RecoveryPanel({
+  issues,
+  setterCandidates,
+  recentLog,
+  playerNames,
+  onForceFailSignull,
+  onSkipTurn,
+  onReassignSetter,
+  onVoidRound,
+  className = "",
+}: RecoveryPanelProps) {
+  const [confirmVoid, setConfirmVoid] = useState(false);
+
+  return (
+    <div
+      className={`space-y-1.5 rounded-xl border-2 border-black bg-orange-50 px-3 py-2 text-xs ${className}`}
+    >
+      <div className="flex items-center gap-1.5 font-bold">
+        <LifeBuoy className="h-3.5 w-3.5" />
+        The game looks stuck
+      </div>
+
+      {issues.map((issue, i) => (
+        <div
+          key={`${issue.kind}-${issue.signullId ?? issue.turnKey ?? i}`}
+          className="flex items-center justify-between gap-2"
+        >
+          <span className="min-w-0 truncate">{describeIssue(issue)}</span>
+          {issue.signullId && (
+            <button
+              onClick={() => onForceFailSignull(issue.signullId!)}
+              className={buttonClass}
+            >
+              Fail it
+            </button>
+          )}
+          {issue.turnKey && (
+            <button
+              onClick={() => onSkipTurn(issue.turnKey!)}
+              className={buttonClass}
+            >
+              Skip turn
+            </button>
+          )}
+          {issue.kind === "setter_away" && setterCandidates.length > 0 && (
+            <select
+              defaultValue=""
+              onChange={(e) =>
+                e.target.value && onReassignSetter(e.target.value)
+              }
+              className="flex-shrink-0 rounded-full border-2 border-black bg-white px-2 py-0.5 text-xs font-bold"
+            >
+              <option value="" disabled>
+                New setter
+              </option>
+              {setterCandidates.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2 border-t border-orange-200 pt-1.5">
+        <span className="text-neutral-500">
+          {confirmVoid
+            ? "Scores from this round are taken back"
+            : "Or call the round off"}
+        </span>
+        {confirmVoid ? (
+          <div className="flex flex-shrink-0 gap-1">
+            <button
+              onClick={() => setConfirmVoid(false)}
+              className="rounded-full px-2 py-0.5 text-xs font-medium text-neutral-500"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => {
+                setConfirmVoid(false);
+                onVoidRound();
+              }}
+              className="flex-shrink-0 rounded-full border-2 border-black bg-red-100 px-2 py-0.5 text-xs font-bold transition-all active:scale-95"
+            >
+              Void round
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => setConfirmVoid(true)} className={buttonClass}>
+            Back to lobby
+          </button>
+        )}
+      </div>
+
+      {recentLog.length > 0 && (
+        <ul className="space-y-0.5 border-t border-orange-200 pt-1.5 text-neutral-500">
+          {recentLog.map((entry) => (
+            <li key={`${entry.action}-${entry.at.getTime()}`}>
+              {playerNames[entry.hostId] ?? "The host"}{" "}
+              {ACTION_LABELS[entry.action]}
+              {entry.action === "reassign_setter" && entry.targetId
+                ? ` ${playerNames[entry.targetId] ?? "another player"}`
+                : ""}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -4,11 +4,13 @@ import * as React from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import { Check } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { PlayerRole } from "@/lib/beta/types";
 
 interface Player {
   id: string;
   name: string;
-  role: "setter" | "guesser";
+  role: PlayerRole;
+  isAway?: boolean; // heartbeats stopped or the page was closed
 }
 
 interface RoomInfoButtonProps {
@@ -16,6 +18,7 @@ interface RoomInfoButtonProps {
   players: Player[];
   currentPlayerId?: string;
   connectsRequired: number;
+  connectsPercent?: number; // shown instead of the count when set
   prefixMode: boolean;
   canChangeSetter?: boolean;
   onChangeSetter?: (playerId: string) => void;
@@ -35,6 +38,7 @@ export const RoomInfoButton: React.FC<RoomInfoButtonProps> = ({
   players,
   currentPlayerId,
   connectsRequired,
+  connectsPercent,
   prefixMode,
   canChangeSetter = false,
   onChangeSetter,
@@ -162,7 +166,7 @@ export const RoomInfoButton: React.FC<RoomInfoButtonProps> = ({
                 </span>
                 <div className="flex w-10 justify-center">
                   <span className="text-lg font-bold text-black">
-                    {connectsRequired}
+                    {connectsPercent ? `${connectsPercent}%` : connectsRequired}
                   </span>
                 </div>
               </div>
@@ -230,12 +234,20 @@ export const RoomInfoButton: React.FC<RoomInfoButtonProps> = ({
                   >
                     <span
                       className={cn(
-                        "text-sm text-black",
+                        "flex items-center gap-2 text-sm",
+                        player.isAway ? "text-neutral-400" : "text-black",
                         player.id === currentPlayerId
                           ? "font-bold"
                           : "font-medium"
                       )}
                     >
+                      <span
+                        className={cn(
+                          "h-2 w-2 flex-shrink-0 rounded-full",
+                          player.isAway ? "bg-neutral-300" : "bg-green-500"
+                        )}
+                        title={player.isAway ? "Away" : "Online"}
+                      />
                       {player.name}
                     </span>
 
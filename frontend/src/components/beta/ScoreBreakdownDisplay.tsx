@@ -11,6 +11,8 @@ import {
   FastForwardIcon,
 } from "lucide-react";
 import type {
+  ConnectMatchType,
+  RoundResult,
   ScoreEvent,
   Player,
   PlayerId,
@@ -19,7 +21,9 @@ import type {
   GameWinner,
   ScoreReason,
 } from "@/lib/beta/types";
-import { SCORING } from "@/lib/beta/types";
+import type { ScoringRules } from "@/lib/beta/types";
+import { DEFAULT_SCORING_RULES } from "@/lib/beta/scoring";
+import { isNearMatch } from "@/lib/beta/word-match";
 import { Logo } from "../ui/Logo";
 import { useSound } from "@/lib/beta/useSound";
 
@@ -63,6 +67,14 @@ interface DirectGuessBreakdownItem {
   events: ScoreEvent[];
 }
 
+// Earlier round of the match, summarised as one item
+interface RoundBreakdownItem {
+  type: "round";
+  round: number;
+  result?: RoundResult;
+  events: ScoreEvent[];
+}
+
 interface GameEndBreakdownItem {
   type: "game-end";
   winner: GameWinner;
@@ -71,6 +83,7 @@ interface GameEndBreakdownItem {
 
 type BreakdownItem =
   | SignullBreakdownItem
+  | RoundBreakdownItem
   | DirectGuessBreakdownItem
   | GameEndBreakdownItem;
 
@@ -81,6 +94,14 @@ interface ScoreBreakdownDisplayProps {
   winner: GameWinner;
   secretWord: string;
   onComplete: () => void;
+  /** Count only the current round (default) or every round of the match */
+  scope?: "round" | "match";
+  /** Round being played; defaults to the latest round in the events */
+  currentRound?: number;
+  /** Completed rounds, used to label earlier rounds in match scope */
+  roundResults?: RoundResult[];
+  /** The room's point values, shown in the legend */
+  scoringRules?: ScoringRules;
 }
 
 // ==================== Helper Functions ====================
@@ -91,6 +112,8 @@ const getReasonLabel = (reason: ScoreReason): string => {
       return "Correct Connect";
     case "intercept_signull":
       return "Intercepted!";
+    case "intercept_wrong":
+      return "Missed Intercept";
     case "signull_resolved":
       return "Signull Resolved";
     case "connect_to_resolved_signull":
@@ -99,6 +122,12 @@ const getReasonLabel = (reason: ScoreReason): string => {
       return "Lightning Signull!";
     case "setter_revealed_letters_bonus":
       return "Revealed Letters Bonus";
+    case "direct_guess_correct":
+      return "Guessed the Word!";
+    case "direct_guess_wrong":
+      return "Wrong Guess";
+    case "setter_survival_bonus":
+      return "Survived!";
     default:
       return "Points";
   }
@@ -110,6 +139,8 @@ const getReasonIcon = (reason: ScoreReason): string => {
       return "✓";
     case "intercept_signull":
       return "🛡️";
+    case "intercept_wrong":
+      return "✗";
     case "signull_resolved":
       return "🎯";
     case "connect_to_resolved_signull":
@@ -118,11 +149,35 @@ const getReasonIcon = (reason: ScoreReason): string => {
       return "⚡";
     case "setter_revealed_letters_bonus":
       return "⭐";
+    case "direct_guess_correct":
+      return "💡";
+    case "direct_guess_wrong":
+      return "✗";
+    case "setter_survival_bonus":
+      return "🏰";
     default:
       return "•";
   }
 };
 
+const DIRECT_GUESS_REASONS: ScoreReason[] = [
+  "direct_guess_correct",
+  "direct_guess_wrong",
+];
+
+const getItemPhase = (item: BreakdownItem): BreakdownPhase =>
+  item.type === "direct-guess"
+    ? "direct-guesses"
+    : item.type === "game-end"
+      ? "game-end"
+      : "signulls";
+
+// Connect and intercept events carry how the guess matched the signull word
+const isNearMatchEvent = (event: ScoreEvent): boolean =>
+  isNearMatch({
+    matchType: event.details?.matchType as ConnectMatchType | undefined,
+  });
+
 // ==================== Sub-Components ====================
 
 function FlyingScore({
@@ -203,6 +258,11 @@ function ScoreEventRow({
           <span className="ml-2 text-sm text-neutral-500">
             {getReasonLabel(event.reason)}
           </span>
+          {isNearMatchEvent(event) && (
+            <span className="ml-2 text-xs italic text-green-700">
+              accepted as a near match
+            </span>
+          )}
         </div>
       </div>
       <motion.span
@@ -291,6 +351,163 @@ function SignullBreakdownView({
   );
 }
 
+function RoundBreakdownView({
+  item,
+  players,
+  visibleEventCount,
+  onEventRef,
+  timing,
+}: {
+  item: RoundBreakdownItem;
+  players: Record<PlayerId, Player>;
+  visibleEventCount: number;
+  onEventRef: (index: number, el: HTMLDivElement | null) => void;
+  timing: typeof ANIMATION_TIMING;
+}) {
+  const setterName = item.result
+    ? players[item.result.setterId]?.name || "Unknown"
+    : null;
+
+  return (
+    <div className="space-y-4">
+      {/* Round Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="text-sm uppercase tracking-wide text-neutral-500">
+            Earlier in the match
+          </span>
+          <h3 className="text-xl font-bold">Round {item.round}</h3>
+        </div>
+        {item.result?.winner && (
+          <span className="rounded-full bg-neutral-100 px-3 py-1 text-sm font-semibold text-neutral-700">
+            {item.result.winner === "setter" ? "Setter won" : "Guessers won"}
+          </span>
+        )}
+      </div>
+
+      {item.result && (
+        <div className="rounded-xl border-2 border-black bg-white p-4 text-center shadow-neobrutalist-sm">
+          <p className="text-lg font-bold tracking-wider">
+            {item.result.secretWord}
+          </p>
+          <p className="mt-1 text-sm text-neutral-500">Set by {setterName}</p>
+        </div>
+      )}
+
+      {/* Score Events */}
+      <div className="space-y-2">
+        {item.events.slice(0, visibleEventCount).map((event, idx) => (
+          <ScoreEventRow
+            key={`${event.playerId}-${event.reason}-${idx}`}
+            event={event}
+            playerName={players[event.playerId]?.name || "Unknown"}
+            delay={0}
+            rowRef={(el) => onEventRef(idx, el)}
+            timing={timing}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function DirectGuessBreakdownView({
+  item,
+  visibleEventCount,
+  onEventRef,
+  timing,
+}: {
+  item: DirectGuessBreakdownItem;
+  visibleEventCount: number;
+  onEventRef: (index: number, el: HTMLDivElement | null) => void;
+  timing: typeof ANIMATION_TIMING;
+}) {
+  return (
+    <div className="space-y-4">
+      {/* Direct Guess Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="text-sm uppercase tracking-wide text-neutral-500">
+            Direct guess by
+          </span>
+          <h3 className="text-xl font-bold">{item.playerName}</h3>
+        </div>
+        <span
+          className={`rounded-full px-3 py-1 text-sm font-semibold ${
+            item.isCorrect
+              ? "bg-green-100 text-green-700"
+              : "bg-red-100 text-red-700"
+          }`}
+        >
+          {item.isCorrect ? "Correct" : "Wrong"}
+        </span>
+      </div>
+
+      <div className="rounded-xl border-2 border-black bg-white p-4 text-center shadow-neobrutalist-sm">
+        <p className="text-lg font-bold tracking-wider">{item.guess}</p>
+      </div>
+
+      {/* Score Events */}
+      <div className="space-y-2">
+        {item.events.slice(0, visibleEventCount).map((event, idx) => (
+          <ScoreEventRow
+            key={`${event.playerId}-${event.reason}-${idx}`}
+            event={event}
+            playerName={item.playerName}
+            delay={0}
+            rowRef={(el) => onEventRef(idx, el)}
+            timing={timing}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function GameEndBreakdownView({
+  item,
+  players,
+  visibleEventCount,
+  onEventRef,
+  timing,
+}: {
+  item: GameEndBreakdownItem;
+  players: Record<PlayerId, Player>;
+  visibleEventCount: number;
+  onEventRef: (index: number, el: HTMLDivElement | null) => void;
+  timing: typeof ANIMATION_TIMING;
+}) {
+  return (
+    <div className="space-y-4">
+      {/* Game End Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <span className="text-sm uppercase tracking-wide text-neutral-500">
+            Game over
+          </span>
+          <h3 className="text-xl font-bold">
+            {item.winner === "setter" ? "Setter wins" : "Guessers win"}
+          </h3>
+        </div>
+      </div>
+
+      {/* Score Events */}
+      <div className="space-y-2">
+        {item.events.slice(0, visibleEventCount).map((event, idx) => (
+          <ScoreEventRow
+            key={`${event.playerId}-${event.reason}-${idx}`}
+            event={event}
+            playerName={players[event.playerId]?.name || "Unknown"}
+            delay={0}
+            rowRef={(el) => onEventRef(idx, el)}
+            timing={timing}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function RunningScoreboard({
   players,
   currentScores,
@@ -301,9 +518,9 @@ function RunningScoreboard({
   onPlayerRef: (playerId: string, el: HTMLDivElement | null) => void;
 }) {
   const sortedPlayers = useMemo(() => {
-    return Object.values(players).sort(
-      (a, b) => (currentScores[b.id] || 0) - (currentScores[a.id] || 0)
-    );
+    return Object.values(players)
+      .filter((p) => p.role !== "spectator")
+      .sort((a, b) => (currentScores[b.id] || 0) - (currentScores[a.id] || 0));
   }, [players, currentScores]);
 
   return (
@@ -341,13 +558,27 @@ function RunningScoreboard({
 // ==================== Main Component ====================
 
 export function ScoreBreakdownDisplay({
-  scoreEvents,
+  scoreEvents: allScoreEvents,
   players,
   signullState,
   winner,
   secretWord,
   onComplete,
+  scope = "round",
+  currentRound,
+  roundResults = [],
+  scoringRules = DEFAULT_SCORING_RULES,
 }: ScoreBreakdownDisplayProps) {
+  const round =
+    currentRound ?? Math.max(1, ...allScoreEvents.map((e) => e.round ?? 1));
+  const scoreEvents = useMemo(
+    () =>
+      scope === "match"
+        ? allScoreEvents
+        : allScoreEvents.filter((e) => (e.round ?? 1) === round),
+    [allScoreEvents, scope, round]
+  );
+
   const { playSound } = useSound();
   const [currentPhase, setCurrentPhase] = useState<BreakdownPhase>("signulls");
   const [currentItemIndex, setCurrentItemIndex] = useState(0);
@@ -373,7 +604,7 @@ export function ScoreBreakdownDisplay({
       Object.keys(players).forEach((pid) => {
         baseScores[pid] = players[pid].score;
       });
-      // Subtract all events from this round to get starting scores
+      // Subtract all events in scope to get starting scores
       scoreEvents.forEach((event) => {
         baseScores[event.playerId] =
           (baseScores[event.playerId] || 0) - event.delta;
@@ -401,13 +632,38 @@ export function ScoreBreakdownDisplay({
   const breakdownItems = useMemo(() => {
     const items: BreakdownItem[] = [];
 
+    // Earlier rounds of the match come first, one item per round
+    const earlierRounds = new Map<number, ScoreEvent[]>();
+    scoreEvents.forEach((event) => {
+      const eventRound = event.round ?? 1;
+      if (eventRound === round) return;
+      earlierRounds.set(eventRound, [
+        ...(earlierRounds.get(eventRound) || []),
+        event,
+      ]);
+    });
+    Array.from(earlierRounds.keys())
+      .sort((a, b) => a - b)
+      .forEach((r) => {
+        items.push({
+          type: "round",
+          round: r,
+          result: roundResults.find((result) => result.round === r),
+          events: earlierRounds.get(r) || [],
+        });
+      });
+
     // Group events by signull
     const signullEvents = new Map<string, ScoreEvent[]>();
 
     scoreEvents.forEach((event) => {
       const signullId = event.details?.signullId as string | undefined;
 
-      if (signullId && signullState.itemsById[signullId]) {
+      if (
+        (event.round ?? 1) === round &&
+        signullId &&
+        signullState.itemsById[signullId]
+      ) {
         const existing = signullEvents.get(signullId) || [];
         existing.push(event);
         signullEvents.set(signullId, existing);
@@ -436,19 +692,54 @@ export function ScoreBreakdownDisplay({
       });
     });
 
+    // Direct guesses of this round, in the order they were made
+    scoreEvents
+      .filter(
+        (event) =>
+          (event.round ?? 1) === round &&
+          DIRECT_GUESS_REASONS.includes(event.reason)
+      )
+      .sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      )
+      .forEach((event) => {
+        items.push({
+          type: "direct-guess",
+          playerId: event.playerId,
+          playerName: players[event.playerId]?.name || "Unknown",
+          guess: (event.details?.guess as string | undefined) ?? "",
+          isCorrect: event.reason === "direct_guess_correct",
+          events: [event],
+        });
+      });
+
+    // End-of-game bonuses
+    const gameEndEvents = scoreEvents.filter(
+      (event) =>
+        (event.round ?? 1) === round && event.reason === "setter_survival_bonus"
+    );
+    if (gameEndEvents.length > 0) {
+      items.push({ type: "game-end", winner, events: gameEndEvents });
+    }
+
     return items;
-  }, [scoreEvents, signullState, players, winner]);
+  }, [scoreEvents, signullState, players, winner, round, roundResults]);
 
-  // Get current items - only signulls now
-  const signullItems = breakdownItems.filter((i) => i.type === "signull");
+  // Items play back in order: earlier rounds, signulls, direct guesses, game end
+  const playbackItems = breakdownItems;
 
   // Current display item
   const currentItem = useMemo(() => {
-    if (currentPhase === "signulls") {
-      return signullItems[currentItemIndex];
-    }
-    return undefined;
-  }, [currentPhase, currentItemIndex, signullItems]);
+    if (currentPhase === "complete") return undefined;
+    return playbackItems[currentItemIndex];
+  }, [currentPhase, currentItemIndex, playbackItems]);
+
+  // Keep the phase in step with the item being shown
+  useEffect(() => {
+    if (!currentItem) return;
+    setCurrentPhase(getItemPhase(currentItem));
+  }, [currentItem]);
 
   // Reset event index when item changes
   useEffect(() => {
@@ -458,7 +749,7 @@ export function ScoreBreakdownDisplay({
 
   // Main Orchestration Effect
   useEffect(() => {
-    if (isPaused || currentPhase !== "signulls" || !currentItem) return;
+    if (isPaused || currentPhase === "complete" || !currentItem) return;
 
     let cancelled = false;
 
@@ -506,7 +797,9 @@ export function ScoreBreakdownDisplay({
         // Step 3: Update Score and Play Sound
         if (
           event.reason === "lightning_signull_bonus" ||
-          event.reason === "setter_revealed_letters_bonus"
+          event.reason === "setter_revealed_letters_bonus" ||
+          event.reason === "direct_guess_correct" ||
+          event.reason === "setter_survival_bonus"
         ) {
           console.log("Playing extra point sound");
           playSound("extra_game_point");
@@ -541,7 +834,7 @@ export function ScoreBreakdownDisplay({
         );
         if (cancelled) return;
 
-        if (currentItemIndex < signullItems.length - 1) {
+        if (currentItemIndex < playbackItems.length - 1) {
           setCurrentItemIndex((prev) => prev + 1);
         } else {
           setCurrentPhase("complete");
@@ -564,7 +857,7 @@ export function ScoreBreakdownDisplay({
     currentItem,
     currentItemIndex,
     isPaused,
-    signullItems.length,
+    playbackItems.length,
     currentPhase,
     onComplete,
     playSound, // Added dependency
@@ -579,7 +872,7 @@ export function ScoreBreakdownDisplay({
   }, [breakdownItems.length, onComplete]);
 
   // Progress calculation
-  const totalItems = signullItems.length;
+  const totalItems = playbackItems.length;
 
   if (currentPhase === "complete" || !currentItem) {
     return null;
@@ -623,6 +916,17 @@ export function ScoreBreakdownDisplay({
                   exit={{ opacity: 0, y: -20 }}
                   transition={{ duration: 0.3 }}
                 >
+                  {currentItem.type === "round" && (
+                    <RoundBreakdownView
+                      item={currentItem}
+                      players={players}
+                      visibleEventCount={currentEventIndex + 1}
+                      onEventRef={(idx, el) => {
+                        eventRefs.current[idx] = el;
+                      }}
+                      timing={animationTiming}
+                    />
+                  )}
                   {currentItem.type === "signull" && (
                     <SignullBreakdownView
                       item={currentItem}
@@ -634,6 +938,27 @@ export function ScoreBreakdownDisplay({
                       timing={animationTiming}
                     />
                   )}
+                  {currentItem.type === "direct-guess" && (
+                    <DirectGuessBreakdownView
+                      item={currentItem}
+                      visibleEventCount={currentEventIndex + 1}
+                      onEventRef={(idx, el) => {
+                        eventRefs.current[idx] = el;
+                      }}
+                      timing={animationTiming}
+                    />
+                  )}
+                  {currentItem.type === "game-end" && (
+                    <GameEndBreakdownView
+                      item={currentItem}
+                      players={players}
+                      visibleEventCount={currentEventIndex + 1}
+                      onEventRef={(idx, el) => {
+                        eventRefs.current[idx] = el;
+                      }}
+                      timing={animationTiming}
+                    />
+                  )}
                 </motion.div>
               </AnimatePresence>
             </div>
@@ -671,7 +996,7 @@ export function ScoreBreakdownDisplay({
               </button>
               {/* </div> */}
               {/* <span className="text-sm font-medium text-neutral-500">
-                Progress: {currentItemIndex + 1} / {signullItems.length}
+                Progress: {currentItemIndex + 1} / {playbackItems.length}
               </span> */}
               <div className="flex-1">
                 <div className="h-3 overflow-hidden rounded-full bg-neutral-200">
@@ -679,7 +1004,7 @@ export function ScoreBreakdownDisplay({
                     className="h-full bg-primary"
                     initial={{ width: 0 }}
                     animate={{
-                      width: `${((currentItemIndex + 1) / signullItems.length) * 100}%`,
+                      width: `${((currentItemIndex + 1) / playbackItems.length) * 100}%`,
                     }}
                   />
                 </div>
@@ -703,23 +1028,61 @@ export function ScoreBreakdownDisplay({
             </div>
 
             <div className="flex items-center gap-2 rounded-2xl border-2 border-black bg-white p-2 shadow-neobrutalist-sm">
-              <span className="text-xl font-bold text-green-600">+5</span>{" "}
+              <span className="text-xl font-bold text-green-600">
+                +{scoringRules.connectToResolvedSignull}
+              </span>{" "}
               Correct Connect to Resolved Signull
             </div>
             <div className="flex items-center gap-2 rounded-2xl border-2 border-black bg-white p-2 shadow-neobrutalist-sm">
-              <span className="text-xl font-bold text-green-600">+5</span>{" "}
+              <span className="text-xl font-bold text-green-600">
+                +{scoringRules.intercept}
+              </span>{" "}
               Intercept
             </div>
+            {scoringRules.wrongInterceptPenalty > 0 && (
+              <div className="flex items-center gap-2 rounded-2xl border-2 border-black bg-white p-2 shadow-neobrutalist-sm">
+                <span className="text-xl font-bold text-red-600">
+                  -{scoringRules.wrongInterceptPenalty}
+                </span>{" "}
+                Wrong Intercept
+              </div>
+            )}
             <div className="flex items-center gap-2 rounded-2xl border-2 border-black bg-white p-2 shadow-neobrutalist-sm">
-              <span className="text-xl font-bold text-green-600">+10</span>{" "}
+              <span className="text-xl font-bold text-green-600">
+                +{scoringRules.signullResolved}
+              </span>{" "}
               Signull Resolved
             </div>
             <div className="flex items-center gap-2 rounded-2xl border-2 border-black bg-white p-2 shadow-neobrutalist-sm">
-              <span className="text-xl font-bold text-green-600">+5</span> Bonus
-              for Each Letter Revealed
+              <span className="text-xl font-bold text-green-600">
+                +{scoringRules.setterRevealedLetterBonus}
+              </span>{" "}
+              Bonus for Each Letter Revealed
+            </div>
+            <div className="flex items-center gap-2 rounded-2xl border-2 border-black bg-white p-2 shadow-neobrutalist-sm">
+              <span className="text-xl font-bold text-green-600">
+                +{scoringRules.directGuessPerRemainingLetter}
+              </span>{" "}
+              Correct Direct Guess, per Hidden Letter
+            </div>
+            {scoringRules.wrongDirectGuessPenalty > 0 && (
+              <div className="flex items-center gap-2 rounded-2xl border-2 border-black bg-white p-2 shadow-neobrutalist-sm">
+                <span className="text-xl font-bold text-red-600">
+                  -{scoringRules.wrongDirectGuessPenalty}
+                </span>{" "}
+                Wrong Direct Guess
+              </div>
+            )}
+            <div className="flex items-center gap-2 rounded-2xl border-2 border-black bg-white p-2 shadow-neobrutalist-sm">
+              <span className="text-xl font-bold text-green-600">
+                +{scoringRules.setterSurvivalBonus}
+              </span>{" "}
+              Setter Survives Every Direct Guess
             </div>
             {/* <div className="flex items-center gap-2 rounded-2xl border-2 border-black bg-white p-2 shadow-neobrutalist-sm">
-              <span className="text-xl font-bold text-green-600">+5</span>{" "}
+              <span className="text-xl font-bold text-green-600">
+                +{scoringRules.lightningPerRemainingLetter}
+              </span>{" "}
               Lightning Signull Bonus for Each Hidden Letter to Guesser
             </div> */}
           </div>
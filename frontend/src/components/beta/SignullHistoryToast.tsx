@@ -14,6 +14,29 @@ export interface SignullHistoryItem {
   role?: "setter" | "guesser";
   /** Whether this is the initial clue message from the signull creator */
   isClueGiver?: boolean;
+  /** Whether this connect was accepted as a near match (relaxed rooms) */
+  isNearMatch?: boolean;
+  /** Which of the player's tries this connect was, in rooms with retries */
+  attempt?: number;
+  attemptsAllowed?: number;
+}
+
+function NearMatchNote() {
+  return (
+    <p className="mt-0.5 text-right text-[10px] italic text-green-700">
+      accepted as a near match
+    </p>
+  );
+}
+
+// "try 2/3" next to a guesser's name when the room allows several tries
+function AttemptTag({ item }: { item: SignullHistoryItem }) {
+  if (!item.attempt || !item.attemptsAllowed) return null;
+  return (
+    <span className="ml-1 text-[10px] font-medium normal-case tracking-normal text-neutral-400">
+      try {item.attempt}/{item.attemptsAllowed}
+    </span>
+  );
 }
 
 interface SignullHistoryToastProps {
@@ -193,6 +216,7 @@ function HistoryToastItem({ item, isFirst }: HistoryToastItemProps) {
       <div className="mb-1 flex items-center justify-between">
         <span className="text-xs font-bold uppercase tracking-wider text-black">
           {item.username}
+          <AttemptTag item={item} />
         </span>
         {item.timestamp && (
           <span className="text-xs text-neutral-400">{item.timestamp}</span>
@@ -203,6 +227,7 @@ function HistoryToastItem({ item, isFirst }: HistoryToastItemProps) {
       <p className="line-clamp-2 text-sm leading-snug text-black">
         {item.message}
       </p>
+      {item.isNearMatch && <NearMatchNote />}
     </div>
   );
 }
@@ -324,11 +349,13 @@ export function SignullHistoryInline({
                     <div className="flex w-full items-center justify-between gap-2">
                       <span className="w-20 shrink-0 text-[10px] font-bold uppercase tracking-wider text-black">
                         {item.username}
+                        <AttemptTag item={item} />
                       </span>
                       <span className="flex-1 truncate text-right text-xs text-neutral-700">
                         {item.message}
                       </span>
                     </div>
+                    {item.isNearMatch && <NearMatchNote />}
                   </div>
                 </motion.div>
               );
@@ -398,11 +425,13 @@ export function SignullHistoryInline({
                     <div className="flex items-center justify-between gap-2">
                       <span className="shrink-0 text-[10px] font-bold uppercase tracking-wider text-black">
                         {item.username}
+                        <AttemptTag item={item} />
                       </span>
                       <span className="line-clamp-1 text-right text-xs text-neutral-700">
                         {item.message}
                       </span>
                     </div>
+                    {item.isNearMatch && <NearMatchNote />}
                   </div>
                 </motion.div>
               );
@@ -0,0 +1,42 @@
+"use client";
+
+import type { TeamId } from "@/lib/beta/types";
+
+export const TEAM_NAMES: Record<TeamId, string> = {
+  red: "Red",
+  blue: "Blue",
+};
+
+// Tailwind classes per team: a light fill for blocks and a solid badge
+export const TEAM_STYLES: Record<TeamId, { fill: string; badge: string }> = {
+  red: { fill: "bg-red-100", badge: "bg-red-500 text-white" },
+  blue: { fill: "bg-blue-100", badge: "bg-blue-500 text-white" },
+};
+
+interface TeamBadgeProps {
+  team: TeamId;
+  size?: "sm" | "lg";
+  className?: string;
+}
+
+/**
+ * TeamBadge Component
+ *
+ * Pill naming a guesser team in team mode.
+ */
+export function TeamBadge({
+  team,
+  size = "sm",
+  className = "",
+}: TeamBadgeProps) {
+  const sizeClasses =
+    size === "lg" ? "px-4 py-1.5 text-xl" : "px-2 py-0.5 text-xs";
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full border-2 border-black font-bold uppercase tracking-wider ${TEAM_STYLES[team].badge} ${sizeClasses} ${className}`}
+    >
+      {TEAM_NAMES[team]} Team
+    </span>
+  );
+}
@@ -1,12 +1,20 @@
 "use client";
 
+import { DeadlineCountdown } from "../DeadlineCountdown";
+
+interface EnterSecretWordCardProps {
+  deadline?: Date | null; // when the setter role passes on if no word is set
+}
+
 /**
  * EnterSecretWordCard Component
  *
  * Displays a card prompting the clue giver to enter the secret word
  * Features: Title, horizontal divider, instructions, and down arrow
  */
-export function EnterSecretWordCard() {
+export function EnterSecretWordCard({
+  deadline = null,
+}: EnterSecretWordCardProps) {
   return (
     <div className="flex h-full w-full flex-col bg-white">
       {/* Title */}
@@ -18,10 +26,11 @@ export function EnterSecretWordCard() {
       <div className="mb-4 w-full border-t-2 border-black" />
 
       {/* Instructions Text */}
-      <div className="flex flex-1 items-center justify-center">
+      <div className="flex flex-1 flex-col items-center justify-center gap-3">
         <p className="text-center text-sm leading-relaxed text-neutral-700">
           Enter a secret word below for others to guess, and let the game begin!
         </p>
+        <DeadlineCountdown deadline={deadline} />
       </div>
 
       {/* Down Arrow */}
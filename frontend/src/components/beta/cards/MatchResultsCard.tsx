@@ -0,0 +1,104 @@
+"use client";
+
+import { Crown } from "lucide-react";
+import { useBetaStore } from "@/lib/beta/store";
+import {
+  getMatchStandings,
+  getMatchWinnerIds,
+  isMatchOver,
+} from "@/lib/beta/selectors";
+import { TEAM_NAMES } from "../TeamBadge";
+
+/**
+ * MatchResultsCard Component
+ *
+ * Shows the match so far after each round of a multi-round match: the
+ * cumulative standings and one line per completed round. Once the last
+ * round is played it crowns the match winner.
+ */
+export function MatchResultsCard() {
+  const { game: gameState } = useBetaStore();
+  if (!gameState) return null;
+
+  const players = gameState.players;
+  const standings = getMatchStandings(gameState);
+  const winnerIds = getMatchWinnerIds(gameState);
+  const matchOver = isMatchOver(gameState);
+  const { roundResults } = gameState.match;
+  const winnerNames = winnerIds
+    .map((id) => players[id]?.name ?? "Unknown")
+    .join(" & ");
+
+  return (
+    <div className="flex h-full w-full flex-col bg-white">
+      {/* Title */}
+      <h2 className="mb-4 text-center text-sm font-bold uppercase tracking-wider text-black">
+        {matchOver
+          ? "Match Over"
+          : `Round ${roundResults.length} of ${gameState.settings.roundsPerMatch}`}
+      </h2>
+
+      {/* Horizontal Divider */}
+      <div className="mb-3 w-full border-t-2 border-black" />
+
+      {matchOver && winnerNames && (
+        <div className="mb-3 flex items-center justify-center gap-2 rounded-lg bg-yellow-200 px-3 py-2">
+          <Crown className="h-4 w-4" />
+          <span className="text-sm font-bold">
+            {winnerNames} wins the match
+          </span>
+        </div>
+      )}
+
+      <div className="flex flex-1 gap-4 overflow-y-auto">
+        {/* Standings */}
+        <div className="flex flex-1 flex-col gap-1">
+          {standings.map((standing, index) => (
+            <div
+              key={standing.playerId}
+              className={`flex items-center justify-between rounded-lg px-3 py-1.5 ${
+                winnerIds.includes(standing.playerId)
+                  ? "bg-yellow-100 font-semibold"
+                  : "bg-neutral-50"
+              }`}
+            >
+              <span className="truncate text-sm text-black">
+                <span className="mr-2 text-xs text-neutral-400">
+                  #{index + 1}
+                </span>
+                {standing.playerName}
+              </span>
+              <span className="ml-4 text-sm font-medium text-black">
+                {standing.total}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Round results */}
+        <div className="flex w-2/5 flex-col gap-1">
+          {roundResults.map((result) => (
+            <div
+              key={result.round}
+              className="rounded-lg border border-neutral-200 px-2 py-1 text-xs"
+            >
+              <div className="flex justify-between font-bold">
+                <span>R{result.round}</span>
+                <span className="tracking-wider">{result.secretWord}</span>
+              </div>
+              <div className="text-neutral-500">
+                {result.winner === "setter"
+                  ? `${players[result.setterId]?.name ?? "Setter"} held on`
+                  : result.winningTeam
+                    ? `${TEAM_NAMES[result.winningTeam]} Team cracked it`
+                    : result.winner === "guessers"
+                      ? "Guessers cracked it"
+                      : "No winner"}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ export interface ScoresCardProps {
 export function ScoresCard({ players }: ScoresCardProps) {
   // Convert players record to sorted array (highest score first)
   const sortedPlayers = Object.values(players)
+    .filter((player) => player.role !== "spectator")
     .map((player) => ({
       id: player.id,
       name: player.name,
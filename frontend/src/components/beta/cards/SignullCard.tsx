@@ -1,7 +1,10 @@
 "use client";
 
+import { useState } from "react";
+import { Check, Flag, Pencil, Shield, Trash2, X } from "lucide-react";
 import { CircularProgress } from "../CircularProgress";
-import type { SignullMetrics } from "@/lib/beta/selectors";
+import { DeadlineCountdown } from "../DeadlineCountdown";
+import type { ChallengeTally, SignullMetrics } from "@/lib/beta/selectors";
 
 /**
  * SignullCard Props
@@ -11,6 +14,17 @@ import type { SignullMetrics } from "@/lib/beta/selectors";
 export interface SignullCardProps {
   data: SignullMetrics;
   onClick?: () => void;
+  /** Creator only, while nobody has connected: withdraw the signull */
+  onRetract?: () => void;
+  /** Creator only, while nobody has connected: replace the clue */
+  onEditClue?: (clue: string) => Promise<void>;
+  /** Anyone but the creator, once: put the clue to a vote */
+  onChallenge?: () => void;
+  challengeTally?: ChallengeTally | null;
+  /** Set while the viewer still has a vote on the challenge */
+  onVoteChallenge?: (uphold: boolean) => void;
+  /** Setter only: how many intercept guesses are left on this signull */
+  showInterceptAttempts?: boolean;
 }
 
 /**
@@ -21,7 +35,18 @@ export interface SignullCardProps {
  *
  * Progress is calculated based on correct guesses from guessers only (excludes setter intercepts)
  */
-export function SignullCard({ data, onClick }: SignullCardProps) {
+export function SignullCard({
+  data,
+  onClick,
+  onRetract,
+  onEditClue,
+  onChallenge,
+  challengeTally,
+  onVoteChallenge,
+  showInterceptAttempts = false,
+}: SignullCardProps) {
+  const [draftClue, setDraftClue] = useState<string | null>(null);
+  const isEditing = draftClue !== null && !!onEditClue;
   const {
     clueGiverName,
     clue,
@@ -32,7 +57,26 @@ export function SignullCard({ data, onClick }: SignullCardProps) {
     isIntercepted,
     isInactive,
     isFailed,
+    isTimedOut,
+    deadline,
+    clueHistory,
+    challenge,
+    isVetoed,
+    interceptAttemptsUsed,
+    interceptAttemptsAllowed,
+    status,
   } = data;
+  const isChallengeOpen = challenge?.status === "pending" && !isInactive;
+
+  const handleSaveClue = async () => {
+    if (!onEditClue || draftClue === null || !draftClue.trim()) return;
+    try {
+      await onEditClue(draftClue.trim());
+      setDraftClue(null);
+    } catch {
+      // The store reports the error; keep the draft so it can be retried
+    }
+  };
 
   return (
     <div
@@ -49,6 +93,49 @@ export function SignullCard({ data, onClick }: SignullCardProps) {
           {clueGiverName}
         </div>
 
+        {/* Creator controls until someone connects */}
+        {(onEditClue || onRetract) && !isEditing && (
+          <div className="flex items-center gap-1">
+            {onEditClue && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setDraftClue(clue);
+                }}
+                aria-label="Edit clue"
+                className="flex h-7 w-7 items-center justify-center rounded-full hover:bg-neutral-100"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+            )}
+            {onRetract && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRetract();
+                }}
+                aria-label="Withdraw signull"
+                className="flex h-7 w-7 items-center justify-center rounded-full text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        )}
+        {onChallenge && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onChallenge();
+            }}
+            aria-label="Challenge clue"
+            title="Challenge this clue"
+            className="flex h-7 w-7 items-center justify-center rounded-full text-neutral-500 hover:bg-neutral-100 hover:text-black"
+          >
+            <Flag className="h-3.5 w-3.5" />
+          </button>
+        )}
+
         {/* Progress Indicator - Right aligned */}
         <div id="tour-correct-indicator" className="flex items-center gap-2">
           {/* Circular Progress - based on total connects */}
@@ -71,10 +158,105 @@ export function SignullCard({ data, onClick }: SignullCardProps) {
       </div>
 
       {/* Message - Center aligned and vertically centered */}
-      <div className="flex flex-1 justify-center">
-        <p className="text-center text-base leading-relaxed text-black">
-          {clue}
-        </p>
+      <div className="flex flex-1 flex-col items-center justify-center gap-1">
+        {isEditing ? (
+          <div
+            className="flex w-full items-start gap-2"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <textarea
+              value={draftClue ?? ""}
+              onChange={(e) => setDraftClue(e.target.value)}
+              maxLength={280}
+              rows={2}
+              autoFocus
+              className="flex-1 resize-none rounded-lg border-2 border-black p-2 text-center text-base"
+            />
+            <div className="flex flex-col gap-1">
+              <button
+                onClick={handleSaveClue}
+                aria-label="Save clue"
+                className="flex h-7 w-7 items-center justify-center rounded-full bg-black text-white"
+              >
+                <Check className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => setDraftClue(null)}
+                aria-label="Cancel editing"
+                className="flex h-7 w-7 items-center justify-center rounded-full hover:bg-neutral-100"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-center text-base leading-relaxed text-black">
+            {clue}
+          </p>
+        )}
+        {clueHistory.length > 0 && !isEditing && (
+          <span
+            className="text-xs italic text-neutral-400"
+            title={`Earlier: ${clueHistory.map((edit) => edit.clue).join(" → ")}`}
+          >
+            clue edited
+          </span>
+        )}
+      </div>
+
+      {/* Challenge vote on the clue */}
+      {isChallengeOpen && challengeTally && (
+        <div
+          className="flex items-center justify-center gap-2 text-xs font-bold"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Flag className="h-3 w-3 text-red-600" />
+          <span>
+            Challenged · {challengeTally.upholds}/{challengeTally.needed} to
+            veto
+          </span>
+          {onVoteChallenge && (
+            <>
+              <button
+                onClick={() => onVoteChallenge(true)}
+                className="rounded-full border-2 border-black bg-red-100 px-2 py-0.5 active:scale-95"
+              >
+                Veto
+              </button>
+              <button
+                onClick={() => onVoteChallenge(false)}
+                className="rounded-full border-2 border-black bg-white px-2 py-0.5 active:scale-95"
+              >
+                Keep
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Setter's intercept attempts on this signull */}
+      {showInterceptAttempts && status === "pending" && (
+        <div className="flex justify-center">
+          <span className="flex items-center gap-1 text-xs font-bold uppercase tracking-wider text-neutral-500">
+            <Shield className="h-3 w-3" />
+            Intercepts {interceptAttemptsUsed}/{interceptAttemptsAllowed}
+          </span>
+        </div>
+      )}
+
+      {/* Timer while pending, or a note once it ran out */}
+      <div className="flex justify-center">
+        {isVetoed ? (
+          <span className="text-xs font-bold uppercase tracking-wider text-red-600">
+            Clue vetoed
+          </span>
+        ) : isTimedOut ? (
+          <span className="text-xs font-bold uppercase tracking-wider text-neutral-500">
+            Time&apos;s up
+          </span>
+        ) : (
+          <DeadlineCountdown deadline={deadline} />
+        )}
       </div>
     </div>
   );
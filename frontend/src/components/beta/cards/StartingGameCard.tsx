@@ -1,6 +1,8 @@
 "use client";
 
 import { useBetaStore } from "@/lib/beta/store";
+import { getSettingDeadline } from "@/lib/beta/selectors";
+import { DeadlineCountdown } from "../DeadlineCountdown";
 
 /**
  * StartingGameCard Component
@@ -15,6 +17,7 @@ export function StartingGameCard() {
     (player) => player.role === "setter"
   );
   const setterName = setter ? setter.name : "the setter";
+  const deadline = getSettingDeadline(gameState);
   return (
     <div className="flex h-full w-full flex-col bg-white">
       {/* Title */}
@@ -26,10 +29,11 @@ export function StartingGameCard() {
       <div className="mb-4 w-full border-t-2 border-black" />
 
       {/* Instructions Text */}
-      <div className="flex flex-1 items-center justify-center">
+      <div className="flex flex-1 flex-col items-center justify-center gap-3">
         <p className="text-center text-sm leading-relaxed text-neutral-700">
           Waiting for <b>{setterName}</b> to choose a secret word...
         </p>
+        <DeadlineCountdown deadline={deadline} />
       </div>
 
       {/* Down Arrow */}
@@ -1,9 +1,10 @@
 "use client";
 
 import { use, useState } from "react";
-import { Player, PlayerId } from "@/lib/beta/types";
+import { Player, PlayerId, TeamId } from "@/lib/beta/types";
 import { useShowPlayerScores } from "@/lib/posthog";
 import { ScoresCard } from "./ScoresCard";
+import { TEAM_NAMES } from "../TeamBadge";
 import {
   useLettersRevealed,
   useSignullsGenerated,
@@ -26,13 +27,22 @@ import {
 export type WinCondition =
   | "direct_guess" // Guesser won by correctly guessing the secret word
   | "all_letters_revealed" // Guessers won by revealing all letters through signulls
-  | "out_of_guesses"; // Setter won because guessers ran out of direct guesses
+  | "out_of_guesses" // Setter won because guessers ran out of direct guesses
+  | "intercepts_reached"; // Setter won by intercepting the room's target number of signulls
+
+const WIN_CONDITION_TITLES: Record<WinCondition, string> = {
+  direct_guess: "Guessers Got the word!",
+  all_letters_revealed: "Guessers Got the word!",
+  out_of_guesses: "Setter Outlasted the Guesses!",
+  intercepts_reached: "Setter Intercepted Enough!",
+};
 
 export interface WinningCardProps {
   winnerRole: "setter" | "guessers" | null;
   winCondition?: WinCondition;
   secretWord?: string;
   winningPlayerName?: string; // The player who made the winning direct guess
+  winningTeam?: TeamId | null; // Team that cracked the word in team mode
   players?: Record<PlayerId, Player>; // Players for score display
 }
 
@@ -56,6 +66,7 @@ export function WinningCardFront({
 
   // Convert players record to sorted array (highest score first)
   const sortedPlayers = Object.values(players)
+    .filter((player) => player.role !== "spectator")
     .map((player) => ({
       id: player.id,
       name: player.name,
@@ -128,9 +139,14 @@ export function WinningCardBack({
   winCondition,
   secretWord,
   winningPlayerName,
+  winningTeam,
   showFlipHint = false,
 }: WinningCardProps & { showFlipHint?: boolean }) {
-  const title = "Guessers Got the word!"; // Default title
+  const title = winningTeam
+    ? `${TEAM_NAMES[winningTeam]} Team Got the word!`
+    : winCondition
+      ? WIN_CONDITION_TITLES[winCondition]
+      : "Guessers Got the word!"; // Default title
   const lettersRevealed = useLettersRevealed();
   const signullsGenerated = useSignullsGenerated();
   const signullsIntercepted = useSignullsIntercepted();
@@ -205,6 +221,7 @@ export function WinningCard({
   winCondition,
   secretWord,
   winningPlayerName,
+  winningTeam,
   players,
 }: WinningCardProps) {
   const [isFlipped, setIsFlipped] = useState(false);
@@ -235,6 +252,7 @@ export function WinningCard({
           winCondition={winCondition}
           secretWord={secretWord}
           winningPlayerName={winningPlayerName}
+          winningTeam={winningTeam}
           players={players}
           showFlipHint={true}
         />
@@ -26,6 +26,7 @@ export { StartingGameCard } from "./StartingGameCard";
 export { EnterSecretWordCard } from "./EnterSecretWordCard";
 export { SendASignullCard } from "./SendASignullCard";
 export { SignullCard } from "./SignullCard";
+export type { SignullCardProps } from "./SignullCard";
 export {
   WinningCard,
   WinningCardFront,
@@ -40,3 +41,4 @@ export type {
 export { ScoresCard } from "./ScoresCard";
 export type { ScoresCardProps, PlayerScoreEntry } from "./ScoresCard";
 export { ScoreBreakdownCard } from "./ScoreBreakdownCard";
+export { MatchResultsCard } from "./MatchResultsCard";
@@ -3,6 +3,12 @@ export { LetterBlocks } from "./LetterBlocks";
 export { RoundButton, RoundButtonIcon } from "./RoundButton";
 export { RoomInfoButton } from "./RoomInfoButton";
 export { CircularProgress } from "./CircularProgress";
+export { DeadlineCountdown } from "./DeadlineCountdown";
+export { InterceptProgress } from "./InterceptProgress";
+export { TeamBadge, TEAM_NAMES, TEAM_STYLES } from "./TeamBadge";
+export { DirectGuessPanel } from "./DirectGuessPanel";
+export { DirectGuessVote } from "./DirectGuessVote";
+export { RecoveryPanel } from "./RecoveryPanel";
 export type { CircularProgressProps } from "./CircularProgress";
 export { BaseCard } from "./cards/BaseCard";
 export { CardContainer } from "./cards/CardContainer";
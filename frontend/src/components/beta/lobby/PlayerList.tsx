@@ -1,14 +1,19 @@
-import { Trash2, Crown, Zap, Pencil, X } from "lucide-react";
+import { Trash2, Crown, Zap, Pencil, X, Eye, UserPlus } from "lucide-react";
 import { useState, useEffect } from "react";
 import { createPortal } from "react-dom";
 import { BaseCard } from "@/components/beta/cards/BaseCard";
 import { useShowPlayerScores } from "@/lib/posthog";
+import { TEAM_IDS } from "@/lib/beta/engine";
+import type { TeamId } from "@/lib/beta/types";
+import { TEAM_NAMES, TEAM_STYLES } from "@/components/beta/TeamBadge";
 
 interface Player {
   id: string;
   name: string;
   role?: string;
   score?: number;
+  team?: TeamId;
+  isAway?: boolean; // heartbeats stopped or the page was closed
 }
 
 interface PlayerListProps {
@@ -19,6 +24,10 @@ interface PlayerListProps {
   onRemovePlayer: (id: string) => void;
   onEditPlayerName: (id: string, newName: string) => void;
   isHost: boolean; // Can remove players
+  teamMode?: boolean; // Show team pickers for guessers
+  onSetPlayerTeam?: (id: string, team: TeamId | null) => void;
+  onPromoteSpectator?: (id: string) => void; // host seats a spectator
+  hasFreeSeat?: boolean; // whether a spectator can be seated
 }
 
 interface EditNameModalProps {
@@ -128,14 +137,20 @@ export function PlayerList({
   onRemovePlayer,
   onEditPlayerName,
   isHost,
+  teamMode = false,
+  onSetPlayerTeam,
+  onPromoteSpectator,
+  hasFreeSeat = false,
 }: PlayerListProps) {
   const showPlayerScores = useShowPlayerScores();
   const [editModalOpen, setEditModalOpen] = useState(false);
   const currentPlayer = players.find((p) => p.id === currentUserId);
+  const seatedPlayers = players.filter((p) => p.role !== "spectator");
+  const spectators = players.filter((p) => p.role === "spectator");
 
   return (
     <div className="w-full space-y-3">
-      {players.map((player) => {
+      {seatedPlayers.map((player) => {
         const isPlayerHost = player.id === hostId;
         const isPlayerSetter = player.id === setterId;
 
@@ -184,6 +199,41 @@ export function PlayerList({
                       Setter
                     </span>
                   )}
+                  <span
+                    className={`flex items-center gap-1 text-xs font-medium ${
+                      player.isAway ? "text-neutral-400" : "text-green-600"
+                    }`}
+                  >
+                    <span
+                      className={`h-2 w-2 rounded-full ${
+                        player.isAway ? "bg-neutral-300" : "bg-green-500"
+                      }`}
+                    />
+                    {player.isAway ? "Away" : "Online"}
+                  </span>
+                  {/* Team picker - players pick their own, the host moves anyone */}
+                  {teamMode &&
+                    !isPlayerSetter &&
+                    TEAM_IDS.map((team) => {
+                      const isOnTeam = player.team === team;
+                      const canPick = isHost || player.id === currentUserId;
+                      return (
+                        <button
+                          key={team}
+                          disabled={!canPick}
+                          onClick={() =>
+                            onSetPlayerTeam?.(player.id, isOnTeam ? null : team)
+                          }
+                          className={`rounded-full border-2 px-2 text-xs font-bold transition-all ${
+                            isOnTeam
+                              ? `border-black ${TEAM_STYLES[team].badge}`
+                              : "border-neutral-200 text-neutral-400"
+                          } ${canPick ? "hover:border-black" : "cursor-default"}`}
+                        >
+                          {TEAM_NAMES[team]}
+                        </button>
+                      );
+                    })}
                 </div>
               </div>
             </div>
@@ -206,12 +256,64 @@ export function PlayerList({
       })}
 
       {/* Waiting placeholder - only show when less than 5 players */}
-      {players.length < 5 && (
+      {seatedPlayers.length < 5 && (
         <div className="rounded-2xl border-2 border-dashed border-neutral-300 bg-neutral-50/50 p-6 text-center text-neutral-400">
           Waiting for player...
         </div>
       )}
 
+      {/* Spectators - joined a full room; the host can seat them */}
+      {spectators.length > 0 && (
+        <div className="space-y-2 pt-2">
+          <h3 className="flex items-center gap-1.5 text-start text-xs font-bold uppercase tracking-wider text-neutral-500">
+            <Eye className="h-3.5 w-3.5" />
+            Watching ({spectators.length})
+          </h3>
+          {spectators.map((spectator) => (
+            <div
+              key={spectator.id}
+              className={`flex items-center justify-between rounded-2xl border-2 border-dashed bg-white/60 px-4 py-2 ${
+                spectator.id === currentUserId
+                  ? "border-black"
+                  : "border-neutral-200"
+              }`}
+            >
+              <span className="font-medium text-neutral-600">
+                {spectator.name}
+                {spectator.id === currentUserId && (
+                  <span className="ml-2 text-xs text-neutral-400">(you)</span>
+                )}
+              </span>
+              {isHost && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onPromoteSpectator?.(spectator.id)}
+                    disabled={!hasFreeSeat}
+                    className="flex items-center gap-1 rounded-full border-2 border-black px-2 py-0.5 text-xs font-bold transition-all hover:bg-primary hover:text-white disabled:cursor-not-allowed disabled:border-neutral-200 disabled:text-neutral-300 disabled:hover:bg-transparent"
+                    title={
+                      hasFreeSeat
+                        ? "Seat for the next round"
+                        : "The room is full"
+                    }
+                  >
+                    <UserPlus className="h-3 w-3" />
+                    Seat
+                  </button>
+                  {spectator.id !== currentUserId && (
+                    <button
+                      onClick={() => onRemovePlayer(spectator.id)}
+                      className="rounded-full p-1.5 text-neutral-400 transition-all hover:bg-red-50 hover:text-red-500"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Edit Name Modal */}
       <EditNameModal
         isOpen={editModalOpen}
@@ -8,6 +8,16 @@ import {
   ChevronDown,
   RotateCcw,
   Trophy,
+  Timer,
+  Repeat,
+  Coins,
+  Shield,
+  Swords,
+  Target,
+  Crosshair,
+  Link2,
+  DoorOpen,
+  WifiOff,
 } from "lucide-react";
 import { BaseCard } from "@/components/beta/cards/BaseCard";
 import { useShowPlayerScores } from "@/lib/posthog";
@@ -16,14 +26,120 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import { getScoringPreset } from "@/lib/beta/scoring";
+import type {
+  DirectGuessMode,
+  DirectGuessPolicy,
+  LateJoinPolicy,
+  ScoringPreset,
+  ScoringRules,
+  SetterRotation,
+} from "@/lib/beta/types";
+
+// 0 turns the timers off
+const TIME_LIMIT_OPTIONS = [0, 30, 60, 90, 120];
+
+const WORD_VALIDATION_OPTIONS = [
+  { value: "strict", label: "Strict" },
+  { value: "relaxed", label: "Relaxed" },
+] as const;
+
+const SETTER_ROTATION_OPTIONS = [
+  { value: "seat_order", label: "In Turn" },
+  { value: "lowest_score", label: "Lowest Score" },
+] as const;
+
+const DIRECT_GUESS_MODE_OPTIONS: { value: DirectGuessMode; label: string }[] = [
+  { value: "shared", label: "Shared" },
+  { value: "per_player", label: "Each" },
+  { value: "unlimited", label: "Unlimited" },
+];
+
+const CONNECTS_MODE_OPTIONS: { usePercent: boolean; label: string }[] = [
+  { usePercent: false, label: "Count" },
+  { usePercent: true, label: "%" },
+];
+
+const LATE_JOIN_OPTIONS: {
+  value: LateJoinPolicy;
+  label: string;
+  hint: string;
+}[] = [
+  {
+    value: "spectate",
+    label: "Watch",
+    hint: "Late arrivals watch and play from the next round",
+  },
+  {
+    value: "new_signulls",
+    label: "Jump In",
+    hint: "Late arrivals play on signulls sent after they join",
+  },
+  {
+    value: "block",
+    label: "Wait",
+    hint: "Nobody joins until the round is over",
+  },
+];
+const SCORING_PRESET_OPTIONS: { value: ScoringPreset; label: string }[] = [
+  { value: "classic", label: "Classic" },
+  { value: "setter_friendly", label: "Setter-friendly" },
+  { value: "chaos", label: "Chaos" },
+];
+
+const SCORING_RULE_LABELS: Record<keyof ScoringRules, string> = {
+  intercept: "Intercept",
+  wrongInterceptPenalty: "Wrong Intercept Penalty",
+  signullResolved: "Signull Resolved",
+  connectToResolvedSignull: "Connect",
+  lightningPerRemainingLetter: "Lightning / Hidden Letter",
+  setterRevealedLetterBonus: "Setter / Revealed Letter",
+  directGuessPerRemainingLetter: "Direct Guess / Hidden Letter",
+  wrongDirectGuessPenalty: "Wrong Guess Penalty",
+  setterSurvivalBonus: "Setter Survives",
+};
 
 interface SettingsCardProps {
   connectsRequired: number;
+  connectsPercent: number; // 0 = a fixed count of connects
+  onConnectsModeChange: (usePercent: boolean) => void;
+  // Steps the count, or the percentage in percentage rooms
   onConnectsChange: (delta: number) => void;
   prefixMode: boolean;
   onTogglePrefixMode: () => void;
   showScoreBreakdown: boolean;
   onToggleScoreBreakdown: () => void;
+  wordValidation: "strict" | "relaxed";
+  onWordValidationChange: (mode: "strict" | "relaxed") => void;
+  typoTolerance: number;
+  onTypoToleranceChange: (delta: number) => void;
+  timeLimitSeconds: number;
+  onTimeLimitChange: (seconds: number) => void;
+  interceptsToWin: number;
+  onInterceptsToWinChange: (delta: number) => void;
+  interceptAttempts: number;
+  onInterceptAttemptsChange: (delta: number) => void;
+  connectAttempts: number;
+  onConnectAttemptsChange: (delta: number) => void;
+  directGuessPolicy: DirectGuessPolicy;
+  onDirectGuessModeChange: (mode: DirectGuessMode) => void;
+  // Steps the guess count, or the miss penalty in unlimited rooms
+  onDirectGuessAmountChange: (delta: number) => void;
+  directGuessVoting: boolean;
+  onToggleDirectGuessVoting: () => void;
+  teamMode: boolean;
+  onToggleTeamMode: () => void;
+  roundsPerMatch: number;
+  onRoundsChange: (delta: number) => void;
+  setterRotation: SetterRotation;
+  onSetterRotationChange: (rotation: SetterRotation) => void;
+  lateJoinPolicy: LateJoinPolicy;
+  onLateJoinPolicyChange: (policy: LateJoinPolicy) => void;
+  skipOfflineGuessers: boolean;
+  onToggleSkipOfflineGuessers: () => void;
+  scoringRules: ScoringRules;
+  onScoringPresetChange: (preset: ScoringPreset) => void;
+  onScoringRuleChange: (key: keyof ScoringRules, delta: number) => void;
   setterName: string;
   isHost: boolean;
   onSetterChange: () => void;
@@ -32,11 +148,43 @@ interface SettingsCardProps {
 
 export function SettingsCard({
   connectsRequired,
+  connectsPercent,
+  onConnectsModeChange,
   onConnectsChange,
   prefixMode,
   onTogglePrefixMode,
   showScoreBreakdown,
   onToggleScoreBreakdown,
+  wordValidation,
+  onWordValidationChange,
+  typoTolerance,
+  onTypoToleranceChange,
+  timeLimitSeconds,
+  onTimeLimitChange,
+  interceptsToWin,
+  onInterceptsToWinChange,
+  interceptAttempts,
+  onInterceptAttemptsChange,
+  connectAttempts,
+  onConnectAttemptsChange,
+  directGuessPolicy,
+  onDirectGuessModeChange,
+  onDirectGuessAmountChange,
+  directGuessVoting,
+  onToggleDirectGuessVoting,
+  teamMode,
+  onToggleTeamMode,
+  roundsPerMatch,
+  onRoundsChange,
+  setterRotation,
+  onSetterRotationChange,
+  lateJoinPolicy,
+  onLateJoinPolicyChange,
+  skipOfflineGuessers,
+  onToggleSkipOfflineGuessers,
+  scoringRules,
+  onScoringPresetChange,
+  onScoringRuleChange,
   setterName,
   isHost,
   onSetterChange,
@@ -46,6 +194,9 @@ export function SettingsCard({
   const [prefixModePopoverOpen, setPrefixModePopoverOpen] =
     React.useState(false);
   const [connectsPopoverOpen, setConnectsPopoverOpen] = React.useState(false);
+  const [wordCheckPopoverOpen, setWordCheckPopoverOpen] = React.useState(false);
+  const [showScoringRules, setShowScoringRules] = React.useState(false);
+  const scoringPreset = getScoringPreset(scoringRules);
 
   return (
     <BaseCard className="space-y-6 !p-6">
@@ -74,7 +225,9 @@ export function SettingsCard({
                 onMouseLeave={() => setConnectsPopoverOpen(false)}
               >
                 <p className="text-neutral-700">
-                  Number of people who need to connect before setter
+                  {connectsPercent > 0
+                    ? "Share of the guessers who need to connect before setter. Keeps up as players come and go"
+                    : "Number of people who need to connect before setter"}
                 </p>
               </PopoverContent>
             </Popover>
@@ -86,8 +239,8 @@ export function SettingsCard({
             >
               <Minus className="h-4 w-4" />
             </button>
-            <span className="w-10 text-center text-lg font-bold">
-              {connectsRequired}
+            <span className="w-12 text-center text-lg font-bold">
+              {connectsPercent > 0 ? `${connectsPercent}%` : connectsRequired}
             </span>
             <button
               onClick={() => onConnectsChange(1)}
@@ -96,6 +249,21 @@ export function SettingsCard({
               <Plus className="h-4 w-4" />
             </button>
           </div>
+          <div className="flex w-fit items-center gap-1 rounded-full border-2 border-black bg-white p-0.5">
+            {CONNECTS_MODE_OPTIONS.map((option) => (
+              <button
+                key={option.label}
+                onClick={() => onConnectsModeChange(option.usePercent)}
+                className={`h-6 rounded-full px-2 text-xs font-bold transition-all active:scale-95 ${
+                  connectsPercent > 0 === option.usePercent
+                    ? "bg-primary text-white"
+                    : "text-black hover:bg-neutral-100"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
         </div>
         <div className="flex flex-col items-center space-y-3">
           <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
@@ -177,6 +345,444 @@ export function SettingsCard({
             </span>
           </div>
         </div>
+
+        {/* Row 3: Word Check */}
+        <div className="col-span-2 flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Word Check</span>
+            <Popover
+              open={wordCheckPopoverOpen}
+              onOpenChange={setWordCheckPopoverOpen}
+            >
+              <PopoverTrigger asChild>
+                <button
+                  className="flex items-center"
+                  onMouseEnter={() => setWordCheckPopoverOpen(true)}
+                  onMouseLeave={() => setWordCheckPopoverOpen(false)}
+                >
+                  <Info className="h-4 w-4 cursor-pointer" />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent
+                side="top"
+                onMouseEnter={() => setWordCheckPopoverOpen(true)}
+                onMouseLeave={() => setWordCheckPopoverOpen(false)}
+              >
+                <p className="text-neutral-700">
+                  Words must be in the dictionary. Relaxed also allows names of
+                  places, brands and characters, and accepts connects that are
+                  plurals, spelling variants or small typos
+                </p>
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="flex w-fit items-center gap-1 rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            {WORD_VALIDATION_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onWordValidationChange(option.value)}
+                className={`h-8 rounded-full px-3 text-sm font-bold transition-all active:scale-95 ${
+                  wordValidation === option.value
+                    ? "bg-primary text-white"
+                    : "hover:bg-neutral-100"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {wordValidation === "relaxed" && (
+            <div className="flex items-center gap-3 text-sm font-medium text-neutral-600">
+              <span>Typo Tolerance</span>
+              <div className="flex w-fit items-center rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+                <button
+                  onClick={() => onTypoToleranceChange(-1)}
+                  className="flex h-6 w-6 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+                >
+                  <Minus className="h-3 w-3" />
+                </button>
+                <span className="w-8 text-center font-bold text-black">
+                  {typoTolerance === 0 ? "Off" : typoTolerance}
+                </span>
+                <button
+                  onClick={() => onTypoToleranceChange(1)}
+                  className="flex h-6 w-6 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+                >
+                  <Plus className="h-3 w-3" />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Row 4: Time Limit */}
+        <div className="col-span-2 flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Time Limit</span>
+            <Timer className="h-4 w-4" />
+          </div>
+          <div className="flex w-fit items-center gap-1 rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            {TIME_LIMIT_OPTIONS.map((seconds) => (
+              <button
+                key={seconds}
+                onClick={() => onTimeLimitChange(seconds)}
+                className={`h-8 rounded-full px-3 text-sm font-bold transition-all active:scale-95 ${
+                  timeLimitSeconds === seconds
+                    ? "bg-primary text-white"
+                    : "hover:bg-neutral-100"
+                }`}
+              >
+                {seconds === 0 ? "Off" : `${seconds}s`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Row 5: Intercepts to Win | Intercept Attempts */}
+        <div className="flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Setter Wins After</span>
+            <Shield className="h-4 w-4" />
+          </div>
+          <div className="flex w-fit items-center rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            <button
+              onClick={() => onInterceptsToWinChange(-1)}
+              className="flex h-8 w-8 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+            >
+              <Minus className="h-4 w-4" />
+            </button>
+            <span className="w-10 text-center text-lg font-bold">
+              {interceptsToWin === 0 ? "Off" : interceptsToWin}
+            </span>
+            <button
+              onClick={() => onInterceptsToWinChange(1)}
+              className="flex h-8 w-8 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+          {interceptsToWin > 0 && (
+            <span className="text-xs text-neutral-500">intercepts</span>
+          )}
+        </div>
+
+        <div className="flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Intercept Tries</span>
+            <Crosshair className="h-4 w-4" />
+          </div>
+          <div className="flex w-fit items-center rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            <button
+              onClick={() => onInterceptAttemptsChange(-1)}
+              className="flex h-8 w-8 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+            >
+              <Minus className="h-4 w-4" />
+            </button>
+            <span className="w-10 text-center text-lg font-bold">
+              {interceptAttempts}
+            </span>
+            <button
+              onClick={() => onInterceptAttemptsChange(1)}
+              className="flex h-8 w-8 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+          <span className="text-xs text-neutral-500">per signull</span>
+        </div>
+
+        {/* Row 6: Connect Tries */}
+        <div className="col-span-2 flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Connect Tries</span>
+            <Link2 className="h-4 w-4" />
+          </div>
+          <div className="flex w-fit items-center rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            <button
+              onClick={() => onConnectAttemptsChange(-1)}
+              className="flex h-8 w-8 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+            >
+              <Minus className="h-4 w-4" />
+            </button>
+            <span className="w-10 text-center text-lg font-bold">
+              {connectAttempts}
+            </span>
+            <button
+              onClick={() => onConnectAttemptsChange(1)}
+              className="flex h-8 w-8 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+          {connectAttempts > 1 && (
+            <span className="text-xs text-neutral-500">
+              per signull · later hits earn less
+            </span>
+          )}
+        </div>
+
+        {/* Row 7: Direct Guesses */}
+        <div className="col-span-2 flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Direct Guesses</span>
+            <Target className="h-4 w-4" />
+          </div>
+          <div className="flex w-fit items-center gap-1 rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            {DIRECT_GUESS_MODE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onDirectGuessModeChange(option.value)}
+                className={`h-8 rounded-full px-3 text-sm font-bold transition-all active:scale-95 ${
+                  directGuessPolicy.mode === option.value
+                    ? "bg-primary text-white"
+                    : "hover:bg-neutral-100"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-3 text-sm font-medium text-neutral-600">
+            <span>
+              {directGuessPolicy.mode === "unlimited"
+                ? "Miss Penalty"
+                : directGuessPolicy.mode === "per_player"
+                  ? "Guesses Each"
+                  : "Guesses"}
+            </span>
+            <div className="flex w-fit items-center rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+              <button
+                onClick={() => onDirectGuessAmountChange(-1)}
+                className="flex h-6 w-6 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+              >
+                <Minus className="h-3 w-3" />
+              </button>
+              <span className="w-8 text-center font-bold text-black">
+                {directGuessPolicy.mode === "unlimited"
+                  ? directGuessPolicy.penalty
+                  : directGuessPolicy.count}
+              </span>
+              <button
+                onClick={() => onDirectGuessAmountChange(1)}
+                className="flex h-6 w-6 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+              >
+                <Plus className="h-3 w-3" />
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center gap-3 text-sm font-medium text-neutral-600">
+            <span>Team Vote</span>
+            <button
+              onClick={onToggleDirectGuessVoting}
+              className={`relative h-8 w-14 flex-shrink-0 rounded-full border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] active:translate-y-[2px] active:shadow-none ${directGuessVoting ? "bg-primary" : "bg-neutral-200"}`}
+            >
+              <div
+                className={`absolute left-1 top-1 h-5 w-5 rounded-full bg-white transition-transform ${directGuessVoting ? "translate-x-6" : "translate-x-0"}`}
+              >
+                {directGuessVoting && (
+                  <Check className="m-1 h-3 w-3 text-primary" />
+                )}
+              </div>
+            </button>
+          </div>
+          {directGuessVoting && (
+            <span className="text-xs text-neutral-500">
+              A guess is only spent once most of the team approves
+            </span>
+          )}
+        </div>
+
+        {/* Row 8: Team Mode */}
+        <div className="col-span-2 flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Team vs Team</span>
+            <Swords className="h-4 w-4" />
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onToggleTeamMode}
+              className={`relative h-8 w-14 flex-shrink-0 rounded-full border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] active:translate-y-[2px] active:shadow-none ${teamMode ? "bg-primary" : "bg-neutral-200"}`}
+            >
+              <div
+                className={`absolute left-1 top-1 h-5 w-5 rounded-full bg-white transition-transform ${teamMode ? "translate-x-6" : "translate-x-0"}`}
+              >
+                {teamMode && <Check className="m-1 h-3 w-3 text-primary" />}
+              </div>
+            </button>
+            <span className="w-[32px] font-medium">
+              {teamMode ? "On" : "Off"}
+            </span>
+          </div>
+          {teamMode && (
+            <span className="text-xs text-neutral-500">
+              Two teams race for the same word
+            </span>
+          )}
+        </div>
+
+        {/* Row 9: Match */}
+        <div className="col-span-2 flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Rounds per Match</span>
+            <Repeat className="h-4 w-4" />
+          </div>
+          <div className="flex w-fit items-center rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            <button
+              onClick={() => onRoundsChange(-1)}
+              className="flex h-8 w-8 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+            >
+              <Minus className="h-4 w-4" />
+            </button>
+            <span className="w-10 text-center text-lg font-bold">
+              {roundsPerMatch}
+            </span>
+            <button
+              onClick={() => onRoundsChange(1)}
+              className="flex h-8 w-8 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+          {roundsPerMatch > 1 && (
+            <div className="flex items-center gap-3 text-sm font-medium text-neutral-600">
+              <span>Next Setter</span>
+              <div className="flex w-fit items-center gap-1 rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+                {SETTER_ROTATION_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => onSetterRotationChange(option.value)}
+                    className={`h-7 rounded-full px-3 text-xs font-bold transition-all active:scale-95 ${
+                      setterRotation === option.value
+                        ? "bg-primary text-white"
+                        : "text-black hover:bg-neutral-100"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Row 10: Late Joins */}
+        <div className="col-span-2 flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Late Joins</span>
+            <DoorOpen className="h-4 w-4" />
+          </div>
+          <div className="flex w-fit items-center gap-1 rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            {LATE_JOIN_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onLateJoinPolicyChange(option.value)}
+                className={`h-7 rounded-full px-3 text-xs font-bold transition-all active:scale-95 ${
+                  lateJoinPolicy === option.value
+                    ? "bg-primary text-white"
+                    : "text-black hover:bg-neutral-100"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <span className="text-xs text-neutral-500">
+            {LATE_JOIN_OPTIONS.find((o) => o.value === lateJoinPolicy)?.hint}
+          </span>
+        </div>
+
+        {/* Row 11: Away Guessers */}
+        <div className="col-span-2 flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Skip Away Guessers</span>
+            <WifiOff className="h-4 w-4" />
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onToggleSkipOfflineGuessers}
+              className={`relative h-8 w-14 flex-shrink-0 rounded-full border-2 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] active:translate-y-[2px] active:shadow-none ${skipOfflineGuessers ? "bg-primary" : "bg-neutral-200"}`}
+            >
+              <div
+                className={`absolute left-1 top-1 h-5 w-5 rounded-full bg-white transition-transform ${skipOfflineGuessers ? "translate-x-6" : "translate-x-0"}`}
+              >
+                {skipOfflineGuessers && (
+                  <Check className="m-1 h-3 w-3 text-primary" />
+                )}
+              </div>
+            </button>
+            <span className="w-[32px] font-medium">
+              {skipOfflineGuessers ? "On" : "Off"}
+            </span>
+          </div>
+          <span className="text-xs text-neutral-500">
+            {skipOfflineGuessers
+              ? "Signulls stop waiting on guessers who go offline"
+              : "Signulls wait for every guesser, even offline ones"}
+          </span>
+        </div>
+
+        {/* Row 12: House Rules */}
+        <div className="col-span-2 flex flex-col items-center space-y-3 border-t border-neutral-100 pt-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-neutral-600">
+            <span>Scoring</span>
+            <Coins className="h-4 w-4" />
+          </div>
+          <div className="flex w-fit items-center gap-1 rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+            {SCORING_PRESET_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onScoringPresetChange(option.value)}
+                className={`h-8 rounded-full px-3 text-sm font-bold transition-all active:scale-95 ${
+                  scoringPreset === option.value
+                    ? "bg-primary text-white"
+                    : "hover:bg-neutral-100"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setShowScoringRules(!showScoringRules)}
+            className="flex items-center gap-1 text-xs font-medium text-neutral-500 hover:text-black"
+          >
+            {scoringPreset ? "Customize points" : "Custom points"}
+            <ChevronDown
+              className={`h-3 w-3 transition-transform ${showScoringRules ? "rotate-180" : ""}`}
+            />
+          </button>
+          {showScoringRules && (
+            <div className="flex w-full flex-col gap-2">
+              {(Object.keys(SCORING_RULE_LABELS) as (keyof ScoringRules)[]).map(
+                (key) => (
+                  <div
+                    key={key}
+                    className="flex items-center justify-between text-sm font-medium text-neutral-600"
+                  >
+                    <span>{SCORING_RULE_LABELS[key]}</span>
+                    <div className="flex w-fit items-center rounded-full border-2 border-black bg-white p-1 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]">
+                      <button
+                        onClick={() => onScoringRuleChange(key, -1)}
+                        className="flex h-6 w-6 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+                      >
+                        <Minus className="h-3 w-3" />
+                      </button>
+                      <span className="w-8 text-center font-bold text-black">
+                        {scoringRules[key] === 0 ? "Off" : scoringRules[key]}
+                      </span>
+                      <button
+                        onClick={() => onScoringRuleChange(key, 1)}
+                        className="flex h-6 w-6 items-center justify-center rounded-full transition-all hover:bg-neutral-100 active:scale-95"
+                      >
+                        <Plus className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Setter Selection */}
@@ -0,0 +1,961 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  DIRECT_GUESS_VOTE_SECONDS,
+  PRESENCE_GRACE_MS,
+  applyAddSignull,
+  applyChallengeSignull,
+  applyDirectGuess,
+  applyEditSignullClue,
+  applyEndGame,
+  applyExpireDeadlines,
+  applyForceFailSignull,
+  applyForceSkipTurn,
+  applyJoinRoom,
+  applyLeaveRoom,
+  applyPlayAgain,
+  applyPromoteSpectator,
+  applyProposeDirectGuess,
+  applyReassignSetter,
+  applyRetractSignull,
+  applySetPlayerTeam,
+  applySetSecretWord,
+  applySkipTurn,
+  applyStartGame,
+  applySubmitConnect,
+  applyVoteChallenge,
+  applyVoteDirectGuess,
+  applyVoidRound,
+  buildRoundArchive,
+  getConnectsRequired,
+  getEffectiveConnectsRequired,
+  getMatchTotals,
+  getPlayerDirectGuessesLeft,
+  isPlayerOnline,
+} from "./engine";
+import { SCORING, type FirestoreGameRoom } from "./types";
+import {
+  HOST_ID,
+  createLobby,
+  createStartedRoom,
+  createTestClock,
+  type TestClock,
+} from "@/test/beta";
+
+const scores = (room: FirestoreGameRoom) =>
+  Object.fromEntries(
+    Object.entries(room.players).map(([id, player]) => [id, player.score])
+  );
+
+describe("host recovery", () => {
+  let clock: TestClock;
+
+  beforeEach(() => {
+    clock = createTestClock();
+  });
+
+  it("fails a stuck signull and logs it", () => {
+    const room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    expect(() => applyForceFailSignull(room, "bob", "s1", clock)).toThrow(
+      "NOT_AUTHORIZED"
+    );
+    applyForceFailSignull(room, HOST_ID, "s1", clock);
+    expect(room.signullState.itemsById.s1.status).toBe("failed");
+    expect(room.turns?.all?.playerId).toBe("cara");
+    expect(room.recoveryLog).toEqual([
+      expect.objectContaining({
+        action: "force_fail_signull",
+        hostId: HOST_ID,
+        targetId: "s1",
+      }),
+    ]);
+  });
+
+  it("passes a turn its holder isn't taking", () => {
+    const room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyForceSkipTurn(room, HOST_ID, "all", clock);
+    expect(room.turns?.all?.playerId).toBe("cara");
+    expect(room.recoveryLog?.[0]).toEqual(
+      expect.objectContaining({ action: "force_skip_turn", targetId: "bob" })
+    );
+  });
+
+  it("hands word picking to another player", () => {
+    const room = createStartedRoom(clock);
+    applyReassignSetter(room, HOST_ID, "cara", clock);
+    expect(room.setterId).toBe("cara");
+    expect(room.players.cara.role).toBe("setter");
+    expect(room.players[HOST_ID].role).toBe("guesser");
+  });
+
+  it("takes back the round's points and returns to the lobby", () => {
+    const room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applySubmitConnect(room, "cara", "s1", "piano", clock);
+    applySubmitConnect(room, "dan", "s1", "piano", clock);
+    expect(room.players.bob.score).toBeGreaterThan(0);
+
+    applyVoidRound(room, HOST_ID, clock);
+    expect(room.phase).toBe("lobby");
+    expect(scores(room)).toEqual({ alice: 0, bob: 0, cara: 0, dan: 0 });
+  });
+
+  it("moves word picking on when the setter is gone", () => {
+    const room = createStartedRoom(clock, { timeLimitSeconds: 60 });
+    delete room.players[HOST_ID];
+    clock.advance(60_000);
+    applyExpireDeadlines(room, clock);
+    expect(room.setterId).toBe("bob");
+    expect(room.players.bob.role).toBe("setter");
+    expect(room.timedOutSetterId).toBe(HOST_ID);
+  });
+});
+
+describe("signull resolution", () => {
+  let clock: TestClock;
+  let room: FirestoreGameRoom;
+
+  beforeEach(() => {
+    clock = createTestClock();
+    room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+  });
+
+  it("starts the round with the first letter revealed", () => {
+    expect(room.phase).toBe("signulls");
+    expect(room.secretWord).toBe("PLANET");
+    expect(room.revealedCount).toBe(1);
+  });
+
+  it("resolves once enough guessers connect and reveals a letter", () => {
+    applySubmitConnect(room, "cara", "s1", "piano", clock);
+    expect(room.signullState.itemsById.s1.status).toBe("pending");
+
+    applySubmitConnect(room, "dan", "s1", "PIANO", clock);
+    expect(room.signullState.itemsById.s1.status).toBe("resolved");
+    expect(room.revealedCount).toBe(2);
+    expect(scores(room)).toEqual({
+      alice: 0,
+      bob: SCORING.SIGNULL_RESOLVED,
+      cara: SCORING.CONNECT_TO_RESOLVED_SIGNULL,
+      dan: SCORING.CONNECT_TO_RESOLVED_SIGNULL,
+    });
+  });
+
+  it("fails once every guesser has missed", () => {
+    applySubmitConnect(room, "cara", "s1", "organ", clock);
+    applySubmitConnect(room, "dan", "s1", "drum", clock);
+    expect(room.signullState.itemsById.s1.status).toBe("failed");
+    expect(room.revealedCount).toBe(1);
+    expect(scores(room)).toEqual({ alice: 0, bob: 0, cara: 0, dan: 0 });
+  });
+
+  it("is blocked when the setter intercepts it", () => {
+    applySubmitConnect(room, HOST_ID, "s1", "piano", clock);
+    expect(room.signullState.itemsById.s1.status).toBe("blocked");
+    expect(room.revealedCount).toBe(1);
+    expect(scores(room).alice).toBe(SCORING.INTERCEPT_SIGNULL);
+  });
+
+  it("rejects a second connect from the same guesser", () => {
+    applySubmitConnect(room, "cara", "s1", "organ", clock);
+    expect(() =>
+      applySubmitConnect(room, "cara", "s1", "piano", clock)
+    ).toThrow("ALREADY_CONNECTED");
+  });
+});
+
+describe("ending the round", () => {
+  let clock: TestClock;
+  let room: FirestoreGameRoom;
+
+  beforeEach(() => {
+    clock = createTestClock();
+    room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+  });
+
+  it("ends with the guessers winning when a lightning signull resolves", () => {
+    applyAddSignull(room, "bob", "s1", "planet", "Earth is one", clock);
+    applySubmitConnect(room, "cara", "s1", "planet", clock);
+    applySubmitConnect(room, "dan", "s1", "planet", clock);
+
+    expect(room.phase).toBe("ended");
+    expect(room.winner).toBe("guessers");
+    // The signull and its creator's reward for the letters still hidden
+    expect(scores(room).bob).toBeGreaterThan(SCORING.SIGNULL_RESOLVED);
+  });
+
+  it("ends with the guessers winning on a correct direct guess", () => {
+    applyDirectGuess(room, "cara", "planet", clock);
+    expect(room.phase).toBe("ended");
+    expect(room.winner).toBe("guessers");
+    expect(scores(room).cara).toBe(
+      SCORING.DIRECT_GUESS_PER_REMAINING_LETTER * ("PLANET".length - 1)
+    );
+  });
+
+  it("hands the round to the setter once the direct guesses run out", () => {
+    applyDirectGuess(room, "bob", "planes", clock);
+    applyDirectGuess(room, "cara", "plants", clock);
+    expect(room.phase).toBe("signulls");
+
+    applyDirectGuess(room, "dan", "planer", clock);
+    expect(room.phase).toBe("ended");
+    expect(room.winner).toBe("setter");
+    expect(scores(room).alice).toBe(SCORING.SETTER_SURVIVAL_BONUS);
+  });
+});
+
+describe("time limit", () => {
+  let clock: TestClock;
+
+  beforeEach(() => {
+    clock = createTestClock();
+  });
+
+  it("is off unless the host sets one", () => {
+    const room = createStartedRoom(clock);
+    const updatedAt = room.updatedAt;
+    clock.advance(24 * 60 * 60 * 1000);
+    applyExpireDeadlines(room, clock);
+    expect(room.updatedAt).toBe(updatedAt);
+    expect(room.setterId).toBe(HOST_ID);
+  });
+
+  it("passes the setter role on when no word is picked in time", () => {
+    const room = createStartedRoom(clock, { timeLimitSeconds: 60 });
+    clock.advance(59_000);
+    applyExpireDeadlines(room, clock);
+    expect(room.setterId).toBe(HOST_ID);
+
+    clock.advance(1_000);
+    applyExpireDeadlines(room, clock);
+    expect(room.setterId).toBe("bob");
+    expect(room.players.bob.role).toBe("setter");
+    expect(room.players.alice.role).toBe("guesser");
+    expect(room.timedOutSetterId).toBe(HOST_ID);
+  });
+
+  it("passes the turn of a player who sends nothing in time", () => {
+    const room = createStartedRoom(clock, { timeLimitSeconds: 60 });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    expect(room.turns?.all?.playerId).toBe("bob");
+
+    clock.advance(60_000);
+    applyExpireDeadlines(room, clock);
+    expect(room.turns?.all?.playerId).toBe("cara");
+  });
+
+  it("retires a signull nobody settles in time", () => {
+    const room = createStartedRoom(clock, { timeLimitSeconds: 60 });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+
+    clock.advance(60_000);
+    applyExpireDeadlines(room, clock);
+    expect(room.signullState.itemsById.s1).toEqual(
+      expect.objectContaining({ status: "inactive", timedOut: true })
+    );
+    expect(room.phase).toBe("signulls");
+  });
+
+  it("hands the round to the setter when a lightning signull times out", () => {
+    const room = createStartedRoom(clock, { timeLimitSeconds: 60 });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "planet", "Earth is one", clock);
+
+    clock.advance(60_000);
+    applyExpireDeadlines(room, clock);
+    expect(room.signullState.itemsById.s1.status).toBe("failed");
+    expect(room.phase).toBe("ended");
+    expect(room.winner).toBe("setter");
+  });
+});
+
+describe("multi-round matches", () => {
+  let clock: TestClock;
+
+  beforeEach(() => {
+    clock = createTestClock();
+  });
+
+  // A round the guessers win straight away with a direct guess
+  const playRound = (room: FirestoreGameRoom, guesserId = "bob") => {
+    applySetSecretWord(room, room.setterId, "planet", clock);
+    applyDirectGuess(room, guesserId, "planet", clock);
+  };
+
+  it("rotates the setter in seat order and keeps the scores", () => {
+    const room = createStartedRoom(clock, { roundsPerMatch: 3 });
+    playRound(room);
+    const afterRoundOne = scores(room);
+    applyPlayAgain(room, HOST_ID, clock);
+
+    expect(room.phase).toBe("setting");
+    expect(room.match?.currentRound).toBe(2);
+    expect(room.setterId).toBe("bob");
+    expect(room.players.bob.role).toBe("setter");
+    expect(room.players.alice.role).toBe("guesser");
+    expect(scores(room)).toEqual(afterRoundOne);
+    expect(room.match?.roundResults).toHaveLength(1);
+  });
+
+  it("passes the setter to whoever joined next", () => {
+    const room = createLobby(clock, { roundsPerMatch: 3 });
+    applyJoinRoom(room, "amy", "Amy", clock);
+    applyStartGame(room, HOST_ID, clock);
+    playRound(room);
+    applyPlayAgain(room, HOST_ID, clock);
+    expect(room.setterId).toBe("bob");
+  });
+
+  it("hands the next round to the lowest scorer when asked", () => {
+    const room = createStartedRoom(clock, {
+      roundsPerMatch: 3,
+      setterRotation: "lowest_score",
+    });
+    playRound(room);
+    applyPlayAgain(room, HOST_ID, clock);
+    expect(room.setterId).toBe("cara");
+  });
+
+  it("adds up each round into the match totals", () => {
+    const room = createStartedRoom(clock, { roundsPerMatch: 2 });
+    playRound(room, "cara");
+    applyPlayAgain(room, HOST_ID, clock);
+    playRound(room, "cara");
+
+    const totals = getMatchTotals(room.match?.roundResults ?? []);
+    expect(room.match?.roundResults).toHaveLength(2);
+    expect(totals.cara).toBe(scores(room).cara);
+  });
+
+  it("counts a round the host ended towards the match", () => {
+    const room = createStartedRoom(clock, { roundsPerMatch: 2 });
+    applySetSecretWord(room, room.setterId, "planet", clock);
+    applyEndGame(room, HOST_ID, "setter", clock);
+    expect(room.match?.roundResults).toEqual([
+      expect.objectContaining({ round: 1, winner: "setter" }),
+    ]);
+
+    applyPlayAgain(room, HOST_ID, clock);
+    expect(room.match?.currentRound).toBe(2);
+  });
+
+  it("starts a new match once every round is played", () => {
+    const room = createStartedRoom(clock, { roundsPerMatch: 1 });
+    playRound(room);
+    applyPlayAgain(room, HOST_ID, clock);
+    expect(room.match?.currentRound).toBe(1);
+    expect(room.match?.roundResults).toEqual([]);
+    expect(room.scoreEvents).toEqual([]);
+    // Single-round games keep their setter
+    expect(room.setterId).toBe(HOST_ID);
+  });
+});
+
+describe("round archives", () => {
+  it("keeps the words, seats and this round's scores", () => {
+    const clock = createTestClock();
+    const room = createStartedRoom(clock, { roundsPerMatch: 2 });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyDirectGuess(room, "bob", "planet", clock);
+    applyPlayAgain(room, HOST_ID, clock);
+    applySetSecretWord(room, "bob", "piano", clock);
+    applyAddSignull(room, "cara", "s1", "pear", "A fruit", clock);
+    applyDirectGuess(room, "dan", "piano", clock);
+
+    const archive = buildRoundArchive(room, "ar_1", clock.now());
+    expect(archive).toEqual(
+      expect.objectContaining({
+        archiveId: "ar_1",
+        roomId: room.roomId,
+        round: 2,
+        secretWord: "PIANO",
+        setterId: "bob",
+        winner: "guessers",
+      })
+    );
+    expect(archive.players.bob).toEqual({ name: "BOB", role: "setter" });
+    expect(archive.signulls.map((entry) => entry.word)).toEqual(["PEAR"]);
+    expect(new Set(archive.scoreEvents.map((e) => e.round))).toEqual(
+      new Set([2])
+    );
+  });
+});
+
+describe("intercepts to win", () => {
+  it("ends the round for the setter after enough intercepts", () => {
+    const clock = createTestClock();
+    const room = createStartedRoom(clock, {
+      playMode: "free",
+      interceptsToWin: 2,
+    });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applyAddSignull(room, "cara", "s2", "pear", "A fruit", clock);
+
+    applySubmitConnect(room, HOST_ID, "s1", "piano", clock);
+    expect(room.phase).toBe("signulls");
+    applySubmitConnect(room, HOST_ID, "s2", "pear", clock);
+    expect(room.phase).toBe("ended");
+    expect(room.winner).toBe("setter");
+  });
+
+  it("never ends the round when off", () => {
+    const clock = createTestClock();
+    const room = createStartedRoom(clock, { playMode: "free" });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    for (const [id, signullId, word] of [
+      ["bob", "s1", "piano"],
+      ["cara", "s2", "pear"],
+      ["dan", "s3", "pony"],
+    ]) {
+      applyAddSignull(room, id, signullId, word, "A clue", clock);
+      applySubmitConnect(room, HOST_ID, signullId, word, clock);
+    }
+    expect(room.phase).toBe("signulls");
+  });
+});
+
+describe("team mode", () => {
+  let clock: TestClock;
+  let room: FirestoreGameRoom;
+
+  beforeEach(() => {
+    clock = createTestClock();
+    room = createLobby(clock, { teamMode: true });
+    applyJoinRoom(room, "erin", "ERIN", clock);
+  });
+
+  it("needs two players on each team", () => {
+    const smallRoom = createLobby(clock, { teamMode: true });
+    expect(() => applyStartGame(smallRoom, HOST_ID, clock)).toThrow(
+      "TEAMS_TOO_SMALL"
+    );
+  });
+
+  it("fills the teams evenly in seat order, keeping picked teams", () => {
+    applySetPlayerTeam(room, "erin", "erin", "red", clock);
+    applyStartGame(room, HOST_ID, clock);
+    const teams = Object.fromEntries(
+      Object.entries(room.players).map(([id, p]) => [id, p.team ?? null])
+    );
+    expect(teams).toEqual({
+      alice: null,
+      bob: "blue",
+      cara: "red",
+      dan: "blue",
+      erin: "red",
+    });
+  });
+
+  it("only lets players pick a team in the lobby", () => {
+    applyStartGame(room, HOST_ID, clock);
+    expect(() => applySetPlayerTeam(room, "bob", "bob", "blue", clock)).toThrow(
+      "INVALID_PHASE"
+    );
+  });
+
+  it("keeps each team to its own signulls and progress", () => {
+    applyStartGame(room, HOST_ID, clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    const { bob, cara } = room.players;
+    expect(bob.team).not.toBe(cara.team);
+
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    expect(() =>
+      applySubmitConnect(room, "cara", "s1", "piano", clock)
+    ).toThrow("NOT_YOUR_TEAM");
+
+    applySubmitConnect(room, "dan", "s1", "piano", clock);
+    expect(room.signullState.itemsById.s1.status).toBe("resolved");
+    expect(room.teams?.[bob.team!].revealedCount).toBe(2);
+    expect(room.teams?.[cara.team!].revealedCount).toBe(1);
+  });
+});
+
+describe("direct guess budget", () => {
+  let clock: TestClock;
+
+  beforeEach(() => {
+    clock = createTestClock();
+  });
+
+  it("gives each guesser their own allowance per player", () => {
+    const room = createStartedRoom(clock, {
+      directGuessPolicy: { mode: "per_player", count: 1, penalty: 0 },
+    });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    expect(room.directGuessesLeft).toBe(3);
+
+    applyDirectGuess(room, "bob", "planes", clock);
+    expect(getPlayerDirectGuessesLeft(room, "bob")).toBe(0);
+    expect(getPlayerDirectGuessesLeft(room, "cara")).toBe(1);
+    expect(() => applyDirectGuess(room, "bob", "plants", clock)).toThrow(
+      "NO_GUESSES_LEFT"
+    );
+
+    applyDirectGuess(room, "cara", "planer", clock);
+    applyDirectGuess(room, "dan", "planed", clock);
+    expect(room.winner).toBe("setter");
+  });
+
+  it("drops a leaving guesser's allowance from the total", () => {
+    const room = createStartedRoom(clock, {
+      directGuessPolicy: { mode: "per_player", count: 1, penalty: 0 },
+    });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyLeaveRoom(room, "dan", "dan", clock);
+    expect(room.directGuessesLeft).toBe(2);
+
+    applyDirectGuess(room, "bob", "planes", clock);
+    applyDirectGuess(room, "cara", "planer", clock);
+    expect(room.winner).toBe("setter");
+  });
+
+  it("draws everyone's guesses from one pool when shared", () => {
+    const room = createStartedRoom(clock, {
+      directGuessPolicy: { mode: "shared", count: 2, penalty: 0 },
+    });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyDirectGuess(room, "bob", "planes", clock);
+    expect(getPlayerDirectGuessesLeft(room, "cara")).toBe(1);
+    applyDirectGuess(room, "cara", "planer", clock);
+    expect(room.winner).toBe("setter");
+  });
+
+  it("never runs out when unlimited, charging its penalty instead", () => {
+    const room = createStartedRoom(clock, {
+      directGuessPolicy: { mode: "unlimited", count: 3, penalty: 2 },
+    });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    for (const guess of ["planes", "planer", "planed", "plants"]) {
+      applyDirectGuess(room, "bob", guess, clock);
+    }
+    expect(room.phase).toBe("signulls");
+    expect(getPlayerDirectGuessesLeft(room, "bob")).toBeNull();
+    expect(room.players.bob.score).toBe(-8);
+  });
+});
+
+describe("direct guess votes", () => {
+  let clock: TestClock;
+  let room: FirestoreGameRoom;
+
+  beforeEach(() => {
+    clock = createTestClock();
+    room = createStartedRoom(clock, { directGuessVoting: true });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+  });
+
+  const proposal = () => room.directGuessProposals![0];
+
+  it("needs a vote before a guess is spent", () => {
+    expect(() => applyDirectGuess(room, "bob", "planet", clock)).toThrow(
+      "VOTE_REQUIRED"
+    );
+  });
+
+  it("spends the guess once a majority approves", () => {
+    applyProposeDirectGuess(room, "bob", "p1", "planet", clock);
+    expect(proposal().status).toBe("pending");
+    expect(room.directGuesses).toEqual([]);
+
+    applyVoteDirectGuess(room, "cara", "p1", true, clock);
+    expect(proposal().status).toBe("approved");
+    expect(room.winner).toBe("guessers");
+  });
+
+  it("keeps the guess once a majority is out of reach", () => {
+    applyProposeDirectGuess(room, "bob", "p1", "planes", clock);
+    applyVoteDirectGuess(room, "cara", "p1", false, clock);
+    applyVoteDirectGuess(room, "dan", "p1", false, clock);
+    expect(proposal().status).toBe("rejected");
+    expect(room.directGuesses).toEqual([]);
+    expect(room.directGuessesLeft).toBe(3);
+  });
+
+  it("allows one open proposal and one vote per guesser", () => {
+    applyProposeDirectGuess(room, "bob", "p1", "planes", clock);
+    expect(() =>
+      applyProposeDirectGuess(room, "cara", "p2", "planet", clock)
+    ).toThrow("PROPOSAL_PENDING");
+    expect(() => applyVoteDirectGuess(room, "bob", "p1", true, clock)).toThrow(
+      "ALREADY_VOTED"
+    );
+  });
+
+  it("closes the vote when its time runs out", () => {
+    applyProposeDirectGuess(room, "bob", "p1", "planet", clock);
+    clock.advance(DIRECT_GUESS_VOTE_SECONDS * 1000);
+    expect(() => applyVoteDirectGuess(room, "cara", "p1", true, clock)).toThrow(
+      "PROPOSAL_CLOSED"
+    );
+    applyExpireDeadlines(room, clock);
+    expect(proposal().status).toBe("expired");
+    expect(room.phase).toBe("signulls");
+  });
+});
+
+describe("retracting and editing signulls", () => {
+  let clock: TestClock;
+  let room: FirestoreGameRoom;
+
+  beforeEach(() => {
+    clock = createTestClock();
+    room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+  });
+
+  it("takes a retracted signull back and returns the turn", () => {
+    applyRetractSignull(room, "bob", "s1", clock);
+    expect(room.signullState.itemsById.s1).toBeUndefined();
+    expect(room.signullState.order).toEqual({});
+    expect(room.turns?.all).toEqual(
+      expect.objectContaining({ playerId: "bob", signullId: null })
+    );
+  });
+
+  it("keeps earlier clues when one is edited", () => {
+    applyEditSignullClue(room, "bob", "s1", "Grand or upright", clock);
+    const entry = room.signullState.itemsById.s1;
+    expect(entry.clue).toBe("Grand or upright");
+    expect(entry.clueHistory?.map((h) => h.clue)).toEqual(["Keys and pedals"]);
+  });
+
+  it("holds an edited clue to the same checks", () => {
+    expect(() =>
+      applyEditSignullClue(room, "bob", "s1", "Play the piano", clock)
+    ).toThrow("CLUE_CONTAINS_WORD");
+  });
+
+  it("only lets the creator change it before anyone connects", () => {
+    expect(() => applyRetractSignull(room, "cara", "s1", clock)).toThrow(
+      "NOT_SIGNULL_CREATOR"
+    );
+    applySubmitConnect(room, "cara", "s1", "organ", clock);
+    expect(() => applyRetractSignull(room, "bob", "s1", clock)).toThrow(
+      "SIGNULL_HAS_CONNECTS"
+    );
+    expect(() =>
+      applyEditSignullClue(room, "bob", "s1", "Grand or upright", clock)
+    ).toThrow("SIGNULL_HAS_CONNECTS");
+  });
+});
+
+describe("clue checks and challenges", () => {
+  let clock: TestClock;
+  let room: FirestoreGameRoom;
+
+  beforeEach(() => {
+    clock = createTestClock();
+    room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+  });
+
+  it("refuses a clue that gives the word away", () => {
+    expect(() =>
+      applyAddSignull(room, "bob", "s1", "piano", "A piano", clock)
+    ).toThrow("CLUE_CONTAINS_WORD");
+    expect(room.signullState.itemsById).toEqual({});
+  });
+
+  it("vetoes a signull once a majority upholds the challenge", () => {
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applyChallengeSignull(room, "cara", "s1", clock);
+    const entry = room.signullState.itemsById.s1;
+    expect(entry.challenge?.status).toBe("pending");
+
+    applyVoteChallenge(room, HOST_ID, "s1", true, clock);
+    expect(entry.challenge?.status).toBe("upheld");
+    expect(entry.status).toBe("inactive");
+    expect(room.players.bob.score).toBe(0);
+  });
+
+  it("leaves the signull in play when the challenge is dismissed", () => {
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applyChallengeSignull(room, "cara", "s1", clock);
+    applyVoteChallenge(room, HOST_ID, "s1", false, clock);
+    applyVoteChallenge(room, "dan", "s1", false, clock);
+    const entry = room.signullState.itemsById.s1;
+    expect(entry.challenge?.status).toBe("dismissed");
+    expect(entry.status).toBe("pending");
+  });
+
+  it("won't let the clue giver challenge or vote on their own clue", () => {
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    expect(() => applyChallengeSignull(room, "bob", "s1", clock)).toThrow(
+      "CANNOT_CHALLENGE_OWN"
+    );
+    applyChallengeSignull(room, "cara", "s1", clock);
+    expect(() => applyVoteChallenge(room, "bob", "s1", false, clock)).toThrow(
+      "CANNOT_CHALLENGE_OWN"
+    );
+  });
+});
+
+describe("intercept attempts", () => {
+  let clock: TestClock;
+
+  beforeEach(() => {
+    clock = createTestClock();
+  });
+
+  it("gives the setter one try per signull by default", () => {
+    const room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applySubmitConnect(room, HOST_ID, "s1", "organ", clock);
+    expect(() =>
+      applySubmitConnect(room, HOST_ID, "s1", "piano", clock)
+    ).toThrow("NO_INTERCEPTS_LEFT");
+  });
+
+  it("allows as many tries as the room sets", () => {
+    const room = createStartedRoom(clock, { interceptAttempts: 2 });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applySubmitConnect(room, HOST_ID, "s1", "organ", clock);
+    applySubmitConnect(room, HOST_ID, "s1", "piano", clock);
+    expect(room.signullState.itemsById.s1.status).toBe("blocked");
+  });
+});
+
+describe("turn order", () => {
+  let clock: TestClock;
+
+  beforeEach(() => {
+    clock = createTestClock();
+  });
+
+  it("starts with the seat after the setter", () => {
+    const room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    expect(room.turns?.all?.seatOrder).toEqual(["bob", "cara", "dan"]);
+    expect(room.turns?.all?.playerId).toBe("bob");
+  });
+
+  it("keeps the turn until the player's signull settles", () => {
+    const room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    expect(() =>
+      applyAddSignull(room, "cara", "s1", "pear", "A fruit", clock)
+    ).toThrow("NOT_YOUR_TURN");
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    expect(() =>
+      applyAddSignull(room, "bob", "s2", "pear", "A fruit", clock)
+    ).toThrow("SIGNULL_ALREADY_SENT");
+
+    applySubmitConnect(room, "cara", "s1", "piano", clock);
+    applySubmitConnect(room, "dan", "s1", "piano", clock);
+    expect(room.turns?.all?.playerId).toBe("cara");
+  });
+
+  it("lets the player whose turn it is skip it", () => {
+    const room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    expect(() => applySkipTurn(room, "cara", clock)).toThrow("NOT_YOUR_TURN");
+    applySkipTurn(room, "bob", clock);
+    expect(room.turns?.all?.playerId).toBe("cara");
+  });
+
+  it("seats players in the order they joined, not by id", () => {
+    const room = createLobby(clock);
+    applyJoinRoom(room, "amy", "Amy", clock);
+    applyStartGame(room, HOST_ID, clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    expect(room.turns?.all?.seatOrder).toEqual(["bob", "cara", "dan", "amy"]);
+  });
+
+  it("has no turns in free play", () => {
+    const room = createStartedRoom(clock, { playMode: "free" });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    expect(room.turns).toBeNull();
+    expect(() => applySkipTurn(room, "bob", clock)).toThrow("TURNS_DISABLED");
+    applyAddSignull(room, "dan", "s1", "piano", "Keys and pedals", clock);
+    applyAddSignull(room, "cara", "s2", "pear", "A fruit", clock);
+  });
+});
+
+describe("spectators", () => {
+  let clock: TestClock;
+  let room: FirestoreGameRoom;
+
+  beforeEach(() => {
+    clock = createTestClock();
+    room = createLobby(clock, { maxPlayers: 4 });
+    applyJoinRoom(room, "erin", "Erin", clock);
+  });
+
+  it("seats a newcomer as a spectator once the room is full", () => {
+    expect(room.players.erin.role).toBe("spectator");
+  });
+
+  it("keeps spectators out of play", () => {
+    applyStartGame(room, HOST_ID, clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    expect(() =>
+      applyAddSignull(room, "erin", "s1", "piano", "Keys and pedals", clock)
+    ).toThrow("NOT_AUTHORIZED");
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    expect(() =>
+      applySubmitConnect(room, "erin", "s1", "piano", clock)
+    ).toThrow("NOT_AUTHORIZED");
+    expect(() => applyDirectGuess(room, "erin", "planet", clock)).toThrow(
+      "NOT_AUTHORIZED"
+    );
+  });
+
+  it("lets the host seat a spectator when a seat frees up", () => {
+    expect(() => applyPromoteSpectator(room, HOST_ID, "erin", clock)).toThrow(
+      "ROOM_FULL"
+    );
+    applyLeaveRoom(room, "dan", "dan", clock);
+    expect(() => applyPromoteSpectator(room, "bob", "erin", clock)).toThrow(
+      "NOT_AUTHORIZED"
+    );
+    applyPromoteSpectator(room, HOST_ID, "erin", clock);
+    expect(room.players.erin.role).toBe("guesser");
+  });
+});
+
+describe("late joins", () => {
+  let clock: TestClock;
+
+  beforeEach(() => {
+    clock = createTestClock();
+  });
+
+  const startRound = (settings: Parameters<typeof createStartedRoom>[1]) => {
+    const room = createStartedRoom(clock, settings);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    return room;
+  };
+
+  it("seats a newcomer before the first signull", () => {
+    const room = createStartedRoom(clock, { lateJoinPolicy: "block" });
+    applyJoinRoom(room, "erin", "Erin", clock);
+    expect(room.players.erin.role).toBe("guesser");
+  });
+
+  it("turns newcomers away from a blocked round", () => {
+    const room = startRound({ lateJoinPolicy: "block" });
+    expect(() => applyJoinRoom(room, "erin", "Erin", clock)).toThrow(
+      "ROUND_IN_PROGRESS"
+    );
+  });
+
+  it("has newcomers watch until the next round", () => {
+    const room = startRound({ lateJoinPolicy: "spectate" });
+    applyJoinRoom(room, "erin", "Erin", clock);
+    expect(room.players.erin).toEqual(
+      expect.objectContaining({ role: "spectator", joinsNextRound: true })
+    );
+
+    applyDirectGuess(room, "cara", "planet", clock);
+    applyPlayAgain(room, HOST_ID, clock);
+    expect(room.players.erin.role).toBe("guesser");
+    expect(room.players.erin.joinsNextRound).toBeUndefined();
+  });
+
+  it("lets newcomers play signulls sent after they joined", () => {
+    const room = startRound({ lateJoinPolicy: "new_signulls" });
+    applyJoinRoom(room, "erin", "Erin", clock);
+    expect(room.players.erin.role).toBe("guesser");
+    expect(room.turns?.all?.seatOrder).toEqual(["bob", "cara", "dan", "erin"]);
+    expect(() =>
+      applySubmitConnect(room, "erin", "s1", "piano", clock)
+    ).toThrow("JOINED_AFTER_SIGNULL");
+  });
+});
+
+describe("presence", () => {
+  let clock: TestClock;
+
+  beforeEach(() => {
+    clock = createTestClock();
+  });
+
+  it("counts a player online until the grace period after their heartbeat", () => {
+    const player = { isOnline: true, lastActive: clock.now() };
+    clock.advance(PRESENCE_GRACE_MS - 1);
+    expect(isPlayerOnline(player, clock.nowMillis())).toBe(true);
+    clock.advance(1);
+    expect(isPlayerOnline(player, clock.nowMillis())).toBe(false);
+  });
+
+  it("counts a player who closed the page offline right away", () => {
+    const player = { isOnline: false, lastActive: clock.now() };
+    expect(isPlayerOnline(player, clock.nowMillis())).toBe(false);
+  });
+
+  const startRoundWithDanAway = (skipOfflineGuessers: boolean) => {
+    const room = createStartedRoom(clock, { skipOfflineGuessers });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applySubmitConnect(room, "cara", "s1", "piano", clock);
+    room.players.dan.isOnline = false;
+    room.players.dan.lastActive = clock.now();
+    clock.advance(1000);
+    applyExpireDeadlines(room, clock);
+    return room;
+  };
+
+  it("stops waiting on guessers who went offline when the room allows", () => {
+    const room = startRoundWithDanAway(true);
+    expect(room.signullState.itemsById.s1.status).toBe("resolved");
+  });
+
+  it("keeps waiting on offline guessers by default", () => {
+    const room = startRoundWithDanAway(false);
+    expect(room.signullState.itemsById.s1.status).toBe("pending");
+  });
+});
+
+describe("connect requirement", () => {
+  let clock: TestClock;
+
+  beforeEach(() => {
+    clock = createTestClock();
+  });
+
+  it("lowers the requirement while too few guessers are left", () => {
+    const room = createLobby(clock, { connectsRequired: 3 });
+    applyJoinRoom(room, "erin", "Erin", clock);
+    expect(getEffectiveConnectsRequired(room)).toBe(3);
+
+    applyLeaveRoom(room, "dan", "dan", clock);
+    applyLeaveRoom(room, "erin", "erin", clock);
+    expect(getEffectiveConnectsRequired(room)).toBe(1);
+    expect(room.settings.connectsRequired).toBe(3);
+
+    applyJoinRoom(room, "erin", "Erin", clock);
+    applyJoinRoom(room, "dan", "Dan", clock);
+    expect(getEffectiveConnectsRequired(room)).toBe(3);
+  });
+
+  it("settles a signull whose guessers left without changing the setting", () => {
+    const room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applySubmitConnect(room, "cara", "s1", "piano", clock);
+    applyLeaveRoom(room, "dan", "dan", clock);
+    expect(room.signullState.itemsById.s1.status).toBe("resolved");
+    expect(room.settings.connectsRequired).toBe(2);
+  });
+
+  it("asks a share of the guessers in percentage rooms", () => {
+    const room = createLobby(clock, { connectsPercent: 50 });
+    expect(getEffectiveConnectsRequired(room)).toBeNull();
+    expect(getConnectsRequired(room, 3)).toBe(2);
+    expect(getConnectsRequired(room, 1)).toBe(1);
+  });
+});
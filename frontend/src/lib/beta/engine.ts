@@ -0,0 +1,2490 @@
+import { Timestamp } from "firebase/firestore";
+import type {
+  DirectGuessPolicy,
+  DirectGuessProposalId,
+  FirestoreDirectGuessProposal,
+  FirestoreGameRoom,
+  FirestoreGameInsight,
+  FirestoreMatchState,
+  FirestoreRoundArchive,
+  FirestoreSignullEntry,
+  FirestoreTimeValue,
+  FirestoreTurnState,
+  GameSettings,
+  GameState,
+  GameWinner,
+  LateJoinPolicy,
+  PlayerId,
+  PlayerRole,
+  RecoveryAction,
+  RoomId,
+  SignullId,
+  SignullStatus,
+  TeamId,
+  TurnKey,
+} from "./types";
+import {
+  calculateInterceptScore,
+  calculateWrongInterceptScore,
+  calculateSignullResolvedScore,
+  calculateFailedLightningSignullScore,
+  calculateDirectGuessScore,
+  calculateGameEndScore,
+  getScoringRules,
+  mergeScoreResults,
+  ScoreResult,
+} from "./scoring";
+import { findClueViolation, matchConnectGuess } from "./word-match";
+import { assertPermission } from "./permissions";
+
+/**
+ * Game rules for the beta schema, independent of any Firestore SDK.
+ *
+ * Every apply* function mutates the full (unprojected) room in place and
+ * throws `Error(CODE)` on rule violations, like the transactions in
+ * firebase.ts do. The caller owns reading and persisting the room, which lets
+ * the same rules run inside an Admin SDK transaction on the server or against
+ * an in-memory room.
+ */
+
+// ==================== Clock ====================
+
+/**
+ * Source of timestamps written into the room. The server supplies Admin SDK
+ * timestamps; the default is the client SDK's Timestamp.
+ */
+export interface EngineClock {
+  now: () => FirestoreTimeValue;
+  nowMillis: () => number; // same instant as now(), for deadline checks
+}
+
+const defaultClock: EngineClock = {
+  now: () => Timestamp.now(),
+  nowMillis: () => Date.now(),
+};
+
+// ==================== Helpers ====================
+
+export const INITIAL_REVEALED_COUNT = 1;
+
+export const getRevealedCount = (
+  data: Pick<FirestoreGameRoom, "phase" | "secretWord" | "revealedCount">
+) => {
+  const minimum =
+    data.phase === "signulls" && data.secretWord ? INITIAL_REVEALED_COUNT : 0;
+  return Math.max(data.revealedCount ?? minimum, minimum);
+};
+
+// Flatten stage-grouped order into a single list sorted by stage
+export const getFlattenedOrder = (
+  order: Record<string, SignullId[]>
+): SignullId[] => {
+  const keys = Object.keys(order || {})
+    .map(Number)
+    .sort((a, b) => a - b);
+  return keys.reduce(
+    (acc, key) => acc.concat(order[String(key)]),
+    [] as SignullId[]
+  );
+};
+
+// Spectators watch the round without a seat; they never send, connect or vote
+export const isSpectator = (
+  data: Pick<FirestoreGameRoom, "players">,
+  playerId: PlayerId
+): boolean => data.players[playerId]?.role === "spectator";
+
+// Players holding a seat: everyone but spectators, except those already
+// promised a seat at the next round
+export const getSeatedPlayerCount = (
+  data: Pick<FirestoreGameRoom, "players">
+): number =>
+  Object.values(data.players).filter(
+    (p) => p.role !== "spectator" || p.joinsNextRound
+  ).length;
+
+// Votes that make a majority of the voters
+export const getMajority = (voterCount: number) =>
+  Math.floor(voterCount / 2) + 1;
+
+// Point the round_robin cursor at the first signull still pending
+const advanceActiveIndex = (data: FirestoreGameRoom) => {
+  if (data.settings.playMode !== "round_robin") return;
+  const flattenedOrder = getFlattenedOrder(data.signullState.order);
+  const nextId = flattenedOrder.find(
+    (id) => data.signullState.itemsById[id]?.status === "pending"
+  );
+  data.signullState.activeIndex = nextId
+    ? flattenedOrder.indexOf(nextId)
+    : null;
+};
+
+// Append score events and apply score deltas to the room
+const applyScoreResult = (
+  data: FirestoreGameRoom,
+  result: ScoreResult,
+  clock: EngineClock
+) => {
+  data.scoreEvents = [
+    ...(data.scoreEvents || []),
+    ...result.events.map((e) => ({
+      playerId: e.playerId,
+      delta: e.delta,
+      reason: e.reason,
+      timestamp: clock.now(),
+      details: e.details,
+      round: getCurrentRound(data),
+    })),
+  ];
+  for (const [pid, delta] of Object.entries(result.updates)) {
+    if (delta !== 0 && data.players[pid]) {
+      data.players[pid].score = (data.players[pid].score ?? 0) + delta;
+    }
+  }
+};
+
+// ==================== Deadlines ====================
+
+// Stored time value in ms; a pending serverTimestamp() has none yet
+export const timeValueToMillis = (
+  t: FirestoreTimeValue | null | undefined
+): number | null => (t && "toMillis" in t ? t.toMillis() : null);
+
+const getTimeLimitMillis = (data: FirestoreGameRoom): number | null =>
+  data.settings.timeLimitSeconds > 0
+    ? data.settings.timeLimitSeconds * 1000
+    : null;
+
+export const getSettingDeadlineMillis = (
+  data: FirestoreGameRoom
+): number | null => {
+  const limit = getTimeLimitMillis(data);
+  const startedAt = timeValueToMillis(data.settingStartedAt);
+  return limit !== null && startedAt !== null ? startedAt + limit : null;
+};
+
+export const getSignullDeadlineMillis = (
+  entry: FirestoreSignullEntry,
+  data: FirestoreGameRoom
+): number | null => {
+  const limit = getTimeLimitMillis(data);
+  const createdAt = timeValueToMillis(entry.createdAt);
+  return limit !== null && createdAt !== null ? createdAt + limit : null;
+};
+
+// Seated players in the order they joined the room. Players from rooms
+// older than seat numbers sit after everyone else, in id order.
+const getSeatOrder = (data: Pick<FirestoreGameRoom, "players">): PlayerId[] => {
+  const seatOf = (id: PlayerId) => data.players[id].seat ?? Infinity;
+  return Object.keys(data.players)
+    .filter((id) => !isSpectator(data, id))
+    .sort((a, b) =>
+      seatOf(a) === seatOf(b)
+        ? a.localeCompare(b)
+        : seatOf(a) < seatOf(b)
+          ? -1
+          : 1
+    );
+};
+
+// Seat number for the next player to join
+const getNextSeat = (data: Pick<FirestoreGameRoom, "players">): number =>
+  Math.max(-1, ...Object.values(data.players).map((p) => p.seat ?? -1)) + 1;
+
+// Next player in seat order to take over as setter
+const getNextSetterId = (data: FirestoreGameRoom): PlayerId | null => {
+  const ids = getSeatOrder(data);
+  if (ids.length < 2) return null;
+  const index = ids.indexOf(data.setterId);
+  return ids[(index + 1) % ids.length];
+};
+
+// ==================== Intercept Win ====================
+
+export const MAX_INTERCEPTS_TO_WIN = 10;
+
+export const getInterceptsToWin = (
+  data: Pick<FirestoreGameRoom, "settings">
+): number => data.settings.interceptsToWin ?? 0;
+
+// Signulls the setter has blocked this round
+export const getInterceptCount = (
+  data: Pick<FirestoreGameRoom, "signullState">
+): number =>
+  Object.values(data.signullState.itemsById || {}).filter(
+    (entry) => entry.status === "blocked"
+  ).length;
+
+export const hasReachedInterceptsToWin = (data: FirestoreGameRoom): boolean => {
+  const target = getInterceptsToWin(data);
+  return target > 0 && getInterceptCount(data) >= target;
+};
+
+// ==================== Intercept Attempts ====================
+
+export const DEFAULT_INTERCEPT_ATTEMPTS = 1;
+export const MAX_INTERCEPT_ATTEMPTS = 5;
+
+export const getInterceptAttempts = (
+  data: Pick<FirestoreGameRoom, "settings">
+): number => data.settings.interceptAttempts ?? DEFAULT_INTERCEPT_ATTEMPTS;
+
+// Intercept guesses the setter has made at one signull
+export const getInterceptAttemptsUsed = (
+  entry: { connects: { playerId: PlayerId }[] },
+  setterId: PlayerId
+): number => entry.connects.filter((c) => c.playerId === setterId).length;
+
+// ==================== Connect Attempts ====================
+
+export const DEFAULT_CONNECT_ATTEMPTS = 1;
+export const MAX_CONNECT_ATTEMPTS = 3;
+
+export const getConnectAttempts = (
+  data: Pick<FirestoreGameRoom, "settings">
+): number => data.settings.connectAttempts ?? DEFAULT_CONNECT_ATTEMPTS;
+
+/**
+ * Whether a guesser is done with a signull: they hit it, or used every
+ * attempt the room allows
+ */
+export const hasFinishedConnecting = (
+  entry: { connects: { playerId: PlayerId; isCorrect: boolean }[] },
+  playerId: PlayerId,
+  attemptsAllowed: number
+): boolean => {
+  const attempts = entry.connects.filter((c) => c.playerId === playerId);
+  return (
+    attempts.length >= attemptsAllowed || attempts.some((c) => c.isCorrect)
+  );
+};
+
+// ==================== Teams ====================
+
+export const TEAM_IDS: TeamId[] = ["red", "blue"];
+export const MIN_TEAM_SIZE = 2; // a clue giver and a teammate to connect
+
+// The slice of a room (stored or client state) seats and teams depend on
+interface TeamSeating {
+  settings: Pick<FirestoreGameRoom["settings"], "teamMode">;
+  players: Record<PlayerId, { role: PlayerRole; team?: TeamId }>;
+}
+
+export const isTeamMode = (data: Pick<TeamSeating, "settings">) =>
+  data.settings.teamMode ?? false;
+
+// Team a guesser plays for; null outside team mode and for the setter
+export const getPlayerTeam = (
+  data: TeamSeating,
+  playerId: PlayerId
+): TeamId | null => {
+  if (!isTeamMode(data)) return null;
+  const player = data.players[playerId];
+  return player?.role === "guesser" ? (player.team ?? null) : null;
+};
+
+/**
+ * A team for every guesser. Players keep the team picked in the lobby;
+ * the rest join the smaller team in seat order.
+ */
+export const assignTeams = (
+  data: Pick<FirestoreGameRoom, "players">
+): Record<PlayerId, TeamId> => {
+  const assignments: Record<PlayerId, TeamId> = {};
+  const sizes: Record<TeamId, number> = { red: 0, blue: 0 };
+  const guesserIds = getSeatOrder(data).filter(
+    (id) => data.players[id].role === "guesser"
+  );
+  for (const id of guesserIds) {
+    const team = data.players[id].team;
+    if (!team) continue;
+    assignments[id] = team;
+    sizes[team]++;
+  }
+  for (const id of guesserIds) {
+    if (assignments[id]) continue;
+    const team: TeamId = sizes.red <= sizes.blue ? "red" : "blue";
+    assignments[id] = team;
+    sizes[team]++;
+  }
+  return assignments;
+};
+
+export const getTeamSizes = (
+  assignments: Record<PlayerId, TeamId>
+): Record<TeamId, number> => {
+  const sizes: Record<TeamId, number> = { red: 0, blue: 0 };
+  for (const team of Object.values(assignments)) sizes[team]++;
+  return sizes;
+};
+
+export const getTeamRevealedCount = (
+  data: FirestoreGameRoom,
+  team: TeamId
+): number => data.teams?.[team]?.revealedCount ?? getRevealedCount(data);
+
+// Room totals follow the teams: the public word is masked at the slower
+// team's progress and the setter survives once every team is out of guesses
+const syncTeamTotals = (data: FirestoreGameRoom) => {
+  if (!data.teams) return;
+  const progress = TEAM_IDS.map((team) => data.teams![team]);
+  data.revealedCount = Math.min(...progress.map((p) => p.revealedCount));
+  data.directGuessesLeft = progress.reduce(
+    (sum, p) => sum + p.directGuessesLeft,
+    0
+  );
+};
+
+// The room as one team sees it, for scoring that depends on its progress
+const withTeamProgress = (
+  data: FirestoreGameRoom,
+  team: TeamId | null
+): FirestoreGameRoom =>
+  team && data.teams ? { ...data, ...data.teams[team] } : data;
+
+// Lock in teams when the word is set; each team starts with the room's pool
+const startTeamRound = (data: FirestoreGameRoom) => {
+  const assignments = assignTeams(data);
+  for (const [id, team] of Object.entries(assignments)) {
+    data.players[id].team = team;
+  }
+  const progress = () => ({
+    revealedCount: INITIAL_REVEALED_COUNT,
+    directGuessesLeft: data.directGuessesLeft,
+  });
+  data.teams = { red: progress(), blue: progress() };
+  data.winningTeam = null;
+  syncTeamTotals(data);
+};
+
+// ==================== Connect Requirement ====================
+
+export const DEFAULT_CONNECTS_PERCENT = 50;
+export const CONNECTS_PERCENT_STEP = 10;
+
+interface ConnectSettings {
+  settings: Pick<
+    FirestoreGameRoom["settings"],
+    "connectsRequired" | "connectsPercent"
+  >;
+}
+
+// Share of a signull's guessers who must connect; 0 = the fixed count
+export const getConnectsPercent = (data: ConnectSettings): number =>
+  data.settings.connectsPercent ?? 0;
+
+/**
+ * Correct connects a signull needs from `guesserCount` guessers: a share of
+ * them in percentage rooms, otherwise the room's fixed count. Never more than
+ * there are guessers, so one whose guessers left can still resolve.
+ */
+export const getConnectsRequired = (
+  data: ConnectSettings,
+  guesserCount: number
+): number => {
+  const percent = getConnectsPercent(data);
+  const required =
+    percent > 0
+      ? Math.ceil((guesserCount * percent) / 100)
+      : data.settings.connectsRequired;
+  return Math.max(1, Math.min(required, guesserCount));
+};
+
+/**
+ * Most connects a signull could get: every guesser but its sender, within
+ * the sender's team in a team round
+ */
+export const getMaxConnectsPossible = (
+  data: TeamSeating & Pick<FirestoreGameRoom, "teams">
+): number => {
+  const guesserIds = Object.keys(data.players).filter(
+    (id) => data.players[id].role === "guesser"
+  );
+  const largestGroup = data.teams
+    ? Math.max(
+        ...TEAM_IDS.map(
+          (team) =>
+            guesserIds.filter((id) => getPlayerTeam(data, id) === team).length
+        )
+      )
+    : guesserIds.length;
+  return Math.max(1, largestGroup - 1);
+};
+
+/**
+ * Fixed requirement a signull is held to with the guessers in the room now:
+ * the host's setting, lowered while too few guessers are left to meet it.
+ * The setting itself is never changed, so the next round asks for what the
+ * host picked again. Null in percentage rooms, which have no fixed count.
+ */
+export const getEffectiveConnectsRequired = (
+  data: TeamSeating & ConnectSettings & Pick<FirestoreGameRoom, "teams">
+): number | null =>
+  getConnectsPercent(data) > 0
+    ? null
+    : Math.min(data.settings.connectsRequired, getMaxConnectsPossible(data));
+
+// ==================== Turn Order ====================
+
+// Only round robin rooms take turns; rooms started before turns existed
+// have no turn state and stay open to every guesser
+export const isTurnOrderEnforced = (
+  data: Pick<FirestoreGameRoom, "settings" | "turns">
+): boolean => data.settings.playMode === "round_robin" && !!data.turns;
+
+export const getTurnKey = (
+  data: Pick<FirestoreGameRoom, "settings" | "players">,
+  playerId: PlayerId
+): TurnKey => getPlayerTeam(data, playerId) ?? "all";
+
+// Guessers still in the round who may take a turn in the given order
+const canTakeTurn = (data: FirestoreGameRoom, key: TurnKey, id: PlayerId) => {
+  const player = data.players[id];
+  return player?.role === "guesser" && (key === "all" || player.team === key);
+};
+
+// Hand the turn to the next seat whose player is still in the round
+const passTurn = (
+  data: FirestoreGameRoom,
+  key: TurnKey,
+  clock: EngineClock
+) => {
+  const turn = data.turns?.[key];
+  if (!turn) return;
+  const { seatOrder } = turn;
+  const from = turn.playerId ? seatOrder.indexOf(turn.playerId) : -1;
+  const next = seatOrder
+    .map((_, i) => seatOrder[(from + 1 + i) % seatOrder.length])
+    .find((id) => canTakeTurn(data, key, id));
+  turn.playerId = next ?? null;
+  turn.signullId = null;
+  turn.startedAt = clock.now();
+};
+
+// Seat the round's guessers, starting after the setter so the first turn
+// moves around the table from round to round
+const startTurns = (data: FirestoreGameRoom, clock: EngineClock) => {
+  if (data.settings.playMode !== "round_robin") {
+    data.turns = null;
+    return;
+  }
+  const seats = getSeatOrder(data);
+  const setterSeat = seats.indexOf(data.setterId);
+  const rotated = [
+    ...seats.slice(setterSeat + 1),
+    ...seats.slice(0, setterSeat + 1),
+  ];
+  const keys: TurnKey[] = data.teams ? TEAM_IDS : ["all"];
+  data.turns = Object.fromEntries(
+    keys.map((key) => {
+      const seatOrder = rotated.filter((id) => canTakeTurn(data, key, id));
+      return [
+        key,
+        {
+          seatOrder,
+          playerId: seatOrder[0] ?? null,
+          signullId: null,
+          startedAt: clock.now(),
+        },
+      ];
+    })
+  );
+};
+
+// Pass every turn whose signull has settled. A withdrawn signull gives the
+// player their turn back.
+const syncTurns = (data: FirestoreGameRoom, clock: EngineClock) => {
+  for (const [key, turn] of Object.entries(data.turns || {})) {
+    if (!turn?.signullId) continue;
+    const entry = data.signullState.itemsById[turn.signullId];
+    if (!entry) {
+      turn.signullId = null;
+      turn.startedAt = clock.now();
+    } else if (entry.status !== "pending")
+      passTurn(data, key as TurnKey, clock);
+  }
+};
+
+/**
+ * Pass on any turn the player holds, e.g. when they leave the room. Call
+ * after the player has been removed from `data.players`.
+ */
+export const passTurnsHeldBy = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  clock: EngineClock = defaultClock
+): void => {
+  for (const [key, turn] of Object.entries(data.turns || {})) {
+    if (turn?.playerId === playerId) passTurn(data, key as TurnKey, clock);
+  }
+};
+
+// A player who has not sent a signull yet loses the turn after the time limit
+export const getTurnDeadlineMillis = (
+  turn: FirestoreTurnState,
+  data: FirestoreGameRoom
+): number | null => {
+  const limit = getTimeLimitMillis(data);
+  const startedAt = timeValueToMillis(turn.startedAt);
+  if (limit === null || startedAt === null) return null;
+  return turn.playerId && !turn.signullId ? startedAt + limit : null;
+};
+
+// Pass the turns of players who let the time limit run out without sending
+const expireTurns = (
+  data: FirestoreGameRoom,
+  nowMs: number,
+  clock: EngineClock
+): boolean => {
+  let expired = false;
+  for (const [key, turn] of Object.entries(data.turns || {})) {
+    if (!turn) continue;
+    const deadline = getTurnDeadlineMillis(turn, data);
+    if (deadline === null || nowMs < deadline) continue;
+    passTurn(data, key as TurnKey, clock);
+    expired = true;
+  }
+  return expired;
+};
+
+/**
+ * Give up the turn without sending a signull. Only the player whose turn it
+ * is may skip, and only before they have sent one.
+ */
+export const applySkipTurn = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  clock: EngineClock = defaultClock
+): void => {
+  if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
+  assertPermission(data, playerId, "skip_turn");
+  if (!isTurnOrderEnforced(data)) throw new Error("TURNS_DISABLED");
+  const key = getTurnKey(data, playerId);
+  const turn = data.turns?.[key];
+  if (turn?.playerId !== playerId) throw new Error("NOT_YOUR_TURN");
+  if (turn.signullId) throw new Error("SIGNULL_ALREADY_SENT");
+  passTurn(data, key, clock);
+  data.updatedAt = clock.now();
+};
+
+// ==================== Late Joins ====================
+
+export const DEFAULT_LATE_JOIN_POLICY: LateJoinPolicy = "spectate";
+
+export const getLateJoinPolicy = (
+  data: Pick<FirestoreGameRoom, "settings">
+): LateJoinPolicy => data.settings.lateJoinPolicy ?? DEFAULT_LATE_JOIN_POLICY;
+
+export interface JoinPlan {
+  role: PlayerRole;
+  team?: TeamId; // mid-round guessers in a team round
+  joinsNextRound?: boolean;
+}
+
+/**
+ * How a newcomer enters the room. Once signulls are being sent the room's
+ * late-join policy applies; otherwise they take a free seat, or watch as a
+ * spectator when the room is full.
+ */
+export const planJoin = (data: FirestoreGameRoom): JoinPlan => {
+  const policy = getLateJoinPolicy(data);
+  const midRound = data.phase === "signulls";
+  if (midRound && policy === "block") throw new Error("ROUND_IN_PROGRESS");
+  if (getSeatedPlayerCount(data) >= data.settings.maxPlayers) {
+    return { role: "spectator" };
+  }
+  if (!midRound) return { role: "guesser" };
+  if (policy === "spectate") return { role: "spectator", joinsNextRound: true };
+  if (!data.teams) return { role: "guesser" };
+  // Join the smaller team; teams were settled when the round started
+  const sizes = getTeamSizes(assignTeams(data));
+  return { role: "guesser", team: sizes.red <= sizes.blue ? "red" : "blue" };
+};
+
+// ==================== Presence ====================
+
+// Open pages heartbeat on this interval; once heartbeats stop for the grace
+// period the player counts as offline
+export const HEARTBEAT_INTERVAL_MS = 15000;
+export const PRESENCE_GRACE_MS = 45000;
+
+type PresenceFields = Pick<
+  FirestoreGameRoom["players"][PlayerId],
+  "isOnline" | "lastActive"
+>;
+
+/**
+ * When a player stops counting as online: the grace period after their last
+ * heartbeat, or right away once they closed the page. Null while the last
+ * heartbeat's server timestamp is still pending, i.e. they were just seen.
+ */
+export const getOfflineAtMillis = (player: PresenceFields): number | null => {
+  const lastActive = timeValueToMillis(player.lastActive);
+  if (lastActive === null) return null;
+  return player.isOnline ? lastActive + PRESENCE_GRACE_MS : lastActive;
+};
+
+export const isPlayerOnline = (
+  player: PresenceFields,
+  nowMs: number
+): boolean => {
+  const offlineAt = getOfflineAtMillis(player);
+  return offlineAt === null || nowMs < offlineAt;
+};
+
+export const isSkippingOfflineGuessers = (
+  data: Pick<FirestoreGameRoom, "settings">
+): boolean => data.settings.skipOfflineGuessers ?? false;
+
+// ==================== Direct Guesses ====================
+
+export const DEFAULT_DIRECT_GUESS_POLICY: DirectGuessPolicy = {
+  mode: "shared",
+  count: 3,
+  penalty: 5,
+};
+export const MAX_DIRECT_GUESSES = 10;
+
+export const getDirectGuessPolicy = (
+  data: Pick<FirestoreGameRoom, "settings">
+): DirectGuessPolicy => ({
+  ...DEFAULT_DIRECT_GUESS_POLICY,
+  ...data.settings.directGuessPolicy,
+});
+
+// Pool a room starts with before the round's guessers are known
+export const getStartingDirectGuessPool = (policy: DirectGuessPolicy) =>
+  policy.mode === "shared" ? policy.count : 0;
+
+// Direct guesses the player has made this round
+export const getDirectGuessesMade = (
+  data: Pick<FirestoreGameRoom, "directGuesses">,
+  playerId: PlayerId
+): number =>
+  (data.directGuesses || []).filter((g) => g.playerId === playerId).length;
+
+/**
+ * Direct guesses the player may still make, or null when unlimited. In a
+ * shared room this is the pool of the player's team (or the whole room).
+ */
+export const getPlayerDirectGuessesLeft = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId
+): number | null => {
+  const policy = getDirectGuessPolicy(data);
+  switch (policy.mode) {
+    case "unlimited":
+      return null;
+    case "per_player":
+      return Math.max(policy.count - getDirectGuessesMade(data, playerId), 0);
+    case "shared":
+      return withTeamProgress(data, getPlayerTeam(data, playerId))
+        .directGuessesLeft;
+  }
+};
+
+// Per-player allowances add up to the room's (and each team's) pool
+const recountDirectGuesses = (data: FirestoreGameRoom) => {
+  const policy = getDirectGuessPolicy(data);
+  if (policy.mode === "per_player") {
+    const guesserIds = Object.keys(data.players).filter(
+      (id) => data.players[id].role === "guesser"
+    );
+    const sumLeft = (ids: PlayerId[]) =>
+      ids.reduce(
+        (sum, id) =>
+          sum + Math.max(policy.count - getDirectGuessesMade(data, id), 0),
+        0
+      );
+    data.directGuessesLeft = sumLeft(guesserIds);
+    if (data.teams) {
+      for (const team of TEAM_IDS) {
+        data.teams[team].directGuessesLeft = sumLeft(
+          guesserIds.filter((id) => getPlayerTeam(data, id) === team)
+        );
+      }
+    }
+  }
+  syncTeamTotals(data);
+};
+
+// ==================== Match ====================
+
+export const DEFAULT_ROUNDS_PER_MATCH = 1;
+export const MAX_ROUNDS_PER_MATCH = 10;
+
+export const createMatchState = (): FirestoreMatchState => ({
+  currentRound: 1,
+  roundResults: [],
+});
+
+export const getCurrentRound = (
+  data: Pick<FirestoreGameRoom, "match">
+): number => data.match?.currentRound ?? 1;
+
+export const getRoundsPerMatch = (
+  data: Pick<FirestoreGameRoom, "settings">
+): number => data.settings.roundsPerMatch ?? DEFAULT_ROUNDS_PER_MATCH;
+
+// Points per player summed over the given round results
+export const getMatchTotals = (
+  roundResults: { scores: Record<PlayerId, number> }[]
+): Record<PlayerId, number> => {
+  const totals: Record<PlayerId, number> = {};
+  for (const result of roundResults) {
+    for (const [pid, points] of Object.entries(result.scores)) {
+      totals[pid] = (totals[pid] ?? 0) + points;
+    }
+  }
+  return totals;
+};
+
+export const isMatchComplete = (
+  data: Pick<FirestoreGameRoom, "match" | "settings">
+): boolean => (data.match?.roundResults.length ?? 0) >= getRoundsPerMatch(data);
+
+// Record the result of the round that just ended (once per round)
+const recordRoundResult = (data: FirestoreGameRoom, clock: EngineClock) => {
+  const match = data.match ?? createMatchState();
+  const round = match.currentRound;
+  if (match.roundResults.some((r) => r.round === round)) return;
+
+  const scores: Record<PlayerId, number> = {};
+  for (const event of data.scoreEvents || []) {
+    if ((event.round ?? 1) !== round) continue;
+    scores[event.playerId] = (scores[event.playerId] ?? 0) + event.delta;
+  }
+  data.match = {
+    ...match,
+    roundResults: [
+      ...match.roundResults,
+      {
+        round,
+        setterId: data.setterId,
+        secretWord: data.secretWord,
+        winner: data.winner,
+        winningTeam: data.winningTeam ?? null,
+        scores,
+        endedAt: clock.now(),
+      },
+    ],
+  };
+};
+
+/**
+ * Setter for the next round of a match. Lowest-score rotation picks the
+ * player (other than the current setter) with the fewest match points,
+ * breaking ties in seat order after the current setter.
+ */
+export const getNextRoundSetterId = (
+  data: FirestoreGameRoom
+): PlayerId | null => {
+  const nextInSeatOrder = getNextSetterId(data);
+  if (!nextInSeatOrder) return null;
+  if (data.settings.setterRotation !== "lowest_score") return nextInSeatOrder;
+
+  const seats = getSeatOrder(data);
+  const start = seats.indexOf(data.setterId);
+  const candidates = seats
+    .map((_, i) => seats[(start + 1 + i) % seats.length])
+    .filter((id) => id !== data.setterId);
+  const totals = getMatchTotals(data.match?.roundResults ?? []);
+  return candidates.reduce((lowest, id) =>
+    (totals[id] ?? 0) < (totals[lowest] ?? 0) ? id : lowest
+  );
+};
+
+/**
+ * Match bookkeeping for "play again": the next round of the current match,
+ * or round 1 of a new match once every round has been played. Score events
+ * are only cleared when a new match starts. In multi-round matches the
+ * setter rotates automatically; single-round games keep the current setter.
+ */
+export const planNextRound = (
+  data: FirestoreGameRoom
+): {
+  match: FirestoreMatchState;
+  scoreEvents: FirestoreGameRoom["scoreEvents"];
+  setterId: PlayerId;
+} => {
+  const newMatch = isMatchComplete(data);
+  const match = data.match ?? createMatchState();
+  const setterId =
+    getRoundsPerMatch(data) > 1
+      ? (getNextRoundSetterId(data) ?? data.setterId)
+      : data.setterId;
+  return {
+    match: newMatch
+      ? createMatchState()
+      : { ...match, currentRound: match.currentRound + 1 },
+    scoreEvents: newMatch ? [] : data.scoreEvents || [],
+    setterId,
+  };
+};
+
+// ==================== Round Archives ====================
+
+/**
+ * Snapshot of an ended round to keep after the room moves on. Only call
+ * this on a full (or fully revealed) room: once a round has ended the
+ * public document carries every word and guess.
+ */
+export const buildRoundArchive = (
+  data: FirestoreGameRoom,
+  archiveId: string,
+  archivedAt: FirestoreTimeValue
+): FirestoreRoundArchive => {
+  const round = getCurrentRound(data);
+  const itemsById = data.signullState.itemsById || {};
+  return {
+    archiveId,
+    roomId: data.roomId,
+    round,
+    secretWord: data.secretWord,
+    setterId: data.setterId,
+    players: Object.fromEntries(
+      Object.entries(data.players || {}).map(([id, p]) => [
+        id,
+        { name: p.name, role: p.role, ...(p.team && { team: p.team }) },
+      ])
+    ),
+    signulls: getFlattenedOrder(data.signullState.order)
+      .map((id) => itemsById[id])
+      .filter(Boolean),
+    winner: data.winner ?? null,
+    winningTeam: data.winningTeam ?? null,
+    scoreEvents: (data.scoreEvents || []).filter(
+      (e) => (e.round ?? 1) === round
+    ),
+    insights: data.insights || [],
+    archivedAt,
+  };
+};
+
+// ==================== Resolution ====================
+
+// Helper to compute resolution outcome
+interface ResolutionResult {
+  status: SignullStatus;
+  gameEnded: boolean;
+  winner: GameState["winner"];
+  resolvedAt: FirestoreTimeValue | null;
+}
+
+// Every guesser but the creator may connect; in team mode only the creator's
+// team. Spectators and the setter never can.
+const collectEligibleGuesserIds = (
+  data: Pick<FirestoreGameRoom, "players" | "settings">,
+  creatorId: PlayerId,
+  team: TeamId | undefined
+): PlayerId[] =>
+  Object.keys(data.players).filter(
+    (id) =>
+      id !== creatorId &&
+      data.players[id].role === "guesser" &&
+      (!team || getPlayerTeam(data, id) === team)
+  );
+
+/**
+ * Guessers a signull waits on. It keeps the guessers who could connect when
+ * it was sent, so players who join later never hold it up; anyone who has
+ * since left or become the setter drops out. Signulls from before the
+ * snapshot existed use the current guessers.
+ */
+export const getEligibleGuesserIds = (
+  data: Pick<FirestoreGameRoom, "players" | "settings">,
+  entry: Pick<FirestoreSignullEntry, "playerId" | "team" | "eligibleGuesserIds">
+): PlayerId[] => {
+  const current = collectEligibleGuesserIds(data, entry.playerId, entry.team);
+  const snapshot = entry.eligibleGuesserIds;
+  return snapshot ? current.filter((id) => snapshot.includes(id)) : current;
+};
+
+/**
+ * When a pending signull stops waiting on offline guessers: the moment the
+ * last guesser who still owes it a connect goes offline. Only rooms that
+ * skip offline guessers have one.
+ */
+export const getPresenceDeadlineMillis = (
+  entry: FirestoreSignullEntry,
+  data: FirestoreGameRoom
+): number | null => {
+  if (!isSkippingOfflineGuessers(data) || entry.status !== "pending") {
+    return null;
+  }
+  const attemptsAllowed = getConnectAttempts(data);
+  const offlineAts = getEligibleGuesserIds(data, entry)
+    .filter((id) => !hasFinishedConnecting(entry, id, attemptsAllowed))
+    .map((id) => getOfflineAtMillis(data.players[id]));
+  if (offlineAts.length === 0) return null;
+  let latest = 0;
+  for (const offlineAt of offlineAts) {
+    if (offlineAt === null) return null;
+    latest = Math.max(latest, offlineAt);
+  }
+  return latest;
+};
+
+// Exported for unit testing of resolution logic
+export const evaluateResolution = (
+  entry: FirestoreSignullEntry,
+  data: FirestoreGameRoom,
+  clock: EngineClock = defaultClock
+): ResolutionResult | null => {
+  if (entry.status !== "pending") return null; // already resolved/failed
+  // Only the guessers the signull was sent to count toward it
+  const eligibleGuesserIds = getEligibleGuesserIds(data, entry);
+  // Guessers who went offline stop holding the signull up, if the room
+  // allows; anyone who already hit it still counts
+  const nowMs = clock.nowMillis();
+  const countedIds = isSkippingOfflineGuessers(data)
+    ? eligibleGuesserIds.filter(
+        (gid) =>
+          isPlayerOnline(data.players[gid], nowMs) ||
+          entry.connects.some((c) => c.playerId === gid && c.isCorrect)
+      )
+    : eligibleGuesserIds;
+  const connectsRequired = getConnectsRequired(data, countedIds.length);
+  const connects = entry.connects;
+  const correctCount = connects.filter((c) => c.isCorrect).length;
+  const setterBlocks = connects.some(
+    (c) => data.players[c.playerId]?.role === "setter" && c.isCorrect
+  );
+  if (setterBlocks) {
+    return {
+      status: "blocked",
+      gameEnded: false,
+      winner: data.winner,
+      resolvedAt: clock.now(),
+    };
+  }
+  if (correctCount >= connectsRequired) {
+    return {
+      status: "resolved",
+      gameEnded: entry.isFinal, // Lightning signull ends game
+      winner: entry.isFinal ? "guessers" : data.winner,
+      resolvedAt: clock.now(),
+    };
+  }
+  const attemptsAllowed = getConnectAttempts(data);
+  const allGuessersAttempted = countedIds.every((gid) =>
+    hasFinishedConnecting(entry, gid, attemptsAllowed)
+  );
+  if (allGuessersAttempted && correctCount < connectsRequired) {
+    return {
+      status: "failed",
+      gameEnded: entry.isFinal, // Failed lightning signull ends game
+      winner: entry.isFinal ? "setter" : data.winner, // Setter wins if lightning signull fails
+      resolvedAt: clock.now(),
+    };
+  }
+  return null; // still pending
+};
+
+// ==================== Game Insights Computation ====================
+
+/**
+ * Compute game insights based on player performance.
+ * Returns max 2 insights, sorted by priority.
+ * Falls back to "longest word vibe" if no notable insights found.
+ */
+export const computeInsights = (
+  data: FirestoreGameRoom
+): FirestoreGameInsight[] => {
+  const insights: (FirestoreGameInsight & { priority: number })[] = [];
+  const players = data.players;
+  const signulls = Object.values(data.signullState.itemsById);
+  const resolvedSignulls = signulls.filter((s) => s.status === "resolved");
+  const blockedSignulls = signulls.filter((s) => s.status === "blocked");
+
+  // Helper to generate unique ID
+  let insightCounter = 0;
+  const genId = () => {
+    insightCounter += 1;
+    return `insight_${Date.now()}_${insightCounter.toString(36)}`;
+  };
+
+  // 1. Dynamic Duo: Two players who connected to each other's signulls ≥2 times
+  // Priority: 1 (highest)
+  const guesserIds = Object.keys(players).filter(
+    (id) => players[id].role === "guesser"
+  );
+  const mutualConnects: Record<string, Record<string, number>> = {};
+
+  for (const signull of signulls) {
+    const creatorId = signull.playerId;
+    if (!mutualConnects[creatorId]) mutualConnects[creatorId] = {};
+
+    for (const connect of signull.connects) {
+      const connecterId = connect.playerId;
+      // Only count correct connects from guessers
+      if (
+        connect.isCorrect &&
+        players[connecterId]?.role === "guesser" &&
+        connecterId !== creatorId
+      ) {
+        mutualConnects[creatorId][connecterId] =
+          (mutualConnects[creatorId][connecterId] || 0) + 1;
+      }
+    }
+  }
+
+  // Find pairs with mutual connects (each connected to other's signulls at least 2 times)
+  const qualifyingPairs: Array<{
+    p1: string;
+    p2: string;
+    totalConnects: number;
+  }> = [];
+
+  for (let i = 0; i < guesserIds.length; i++) {
+    for (let j = i + 1; j < guesserIds.length; j++) {
+      const p1 = guesserIds[i];
+      const p2 = guesserIds[j];
+      const p1ToP2 = mutualConnects[p1]?.[p2] || 0;
+      const p2ToP1 = mutualConnects[p2]?.[p1] || 0;
+
+      if (p1ToP2 >= 2 && p2ToP1 >= 2) {
+        const totalConnects = p1ToP2 + p2ToP1;
+        qualifyingPairs.push({ p1, p2, totalConnects });
+      }
+    }
+  }
+
+  // Find the maximum total connects among qualifying pairs
+  if (qualifyingPairs.length > 0) {
+    const maxConnects = Math.max(
+      ...qualifyingPairs.map((pair) => pair.totalConnects)
+    );
+
+    // Add all pairs that have the maximum connects
+    qualifyingPairs
+      .filter((pair) => pair.totalConnects === maxConnects)
+      .forEach((pair) => {
+        const name1 = players[pair.p1].name;
+        const name2 = players[pair.p2].name;
+        insights.push({
+          id: genId(),
+          type: "dynamic_duo",
+          playerIds: [pair.p1, pair.p2],
+          title: `${name1} & ${name2} are on the same wavelength!`,
+          subtitle: `Connected to each other's signulls ${pair.totalConnects} times`,
+          metadata: { connects: pair.totalConnects },
+          priority: 1,
+        });
+      });
+  }
+
+  // 2. OG Interceptor: Setter who intercepted ≥70% of signulls
+  // Priority: 2
+  if (signulls.length >= 3) {
+    const interceptRate = blockedSignulls.length / signulls.length;
+    if (interceptRate >= 0.7) {
+      const setterId = data.setterId;
+      const setterName = players[setterId]?.name || "Setter";
+      insights.push({
+        id: genId(),
+        type: "og_interceptor",
+        playerIds: [setterId],
+        title: `${setterName} is the OG Interceptor!`,
+        subtitle: `Blocked ${Math.round(interceptRate * 100)}% of all signulls`,
+        metadata: { percentage: Math.round(interceptRate * 100) },
+        priority: 2,
+      });
+    }
+  }
+
+  // 3. Signull Machine: Player who created ≥50% of resolved signulls
+  // Priority: 3
+  if (resolvedSignulls.length >= 2) {
+    const creatorCounts: Record<string, number> = {};
+    for (const signull of resolvedSignulls) {
+      creatorCounts[signull.playerId] =
+        (creatorCounts[signull.playerId] || 0) + 1;
+    }
+
+    for (const [playerId, count] of Object.entries(creatorCounts)) {
+      const percentage = count / resolvedSignulls.length;
+      if (percentage >= 0.5) {
+        const playerName = players[playerId]?.name || "Player";
+        insights.push({
+          id: genId(),
+          type: "signull_machine",
+          playerIds: [playerId],
+          title: `${playerName} is a Signull Machine!`,
+          subtitle: `Created ${count} of ${resolvedSignulls.length} resolved signulls`,
+          metadata: {
+            count,
+            total: resolvedSignulls.length,
+            percentage: Math.round(percentage * 100),
+          },
+          priority: 3,
+        });
+        break; // Only one signull machine
+      }
+    }
+  }
+
+  // 4. Knows-It-All: Player with ≥70% correct connect rate (min 3 connects)
+  // Priority: 4
+  const playerConnectStats: Record<string, { correct: number; total: number }> =
+    {};
+
+  for (const signull of signulls) {
+    for (const connect of signull.connects) {
+      const pid = connect.playerId;
+      if (players[pid]?.role === "guesser" && pid !== signull.playerId) {
+        if (!playerConnectStats[pid])
+          playerConnectStats[pid] = { correct: 0, total: 0 };
+        playerConnectStats[pid].total++;
+        if (connect.isCorrect) playerConnectStats[pid].correct++;
+      }
+    }
+  }
+
+  for (const [playerId, stats] of Object.entries(playerConnectStats)) {
+    if (stats.total >= 3) {
+      const rate = stats.correct / stats.total;
+      if (rate >= 0.7) {
+        const playerName = players[playerId]?.name || "Player";
+        insights.push({
+          id: genId(),
+          type: "knows_it_all",
+          playerIds: [playerId],
+          title: `${playerName} knows-it-all!`,
+          subtitle: `Connected correctly ${Math.round(rate * 100)}% of the time`,
+          metadata: {
+            percentage: Math.round(rate * 100),
+            correct: stats.correct,
+            total: stats.total,
+          },
+          priority: 4,
+        });
+        break; // Only one knows-it-all
+      }
+    }
+  }
+
+  // Sort by priority and take top 2
+  insights.sort((a, b) => a.priority - b.priority);
+  const topInsights = insights.slice(0, 2);
+
+  // 5. Fallback: Longest Word Vibe (if we have less than 2 insights)
+  // Priority: 5 (lowest, always last)
+  if (topInsights.length < 2 && resolvedSignulls.length > 0) {
+    // Find the longest word from resolved signulls
+    let longestSignull = resolvedSignulls[0];
+
+    // Additional safety check to handle edge cases
+    if (!longestSignull) {
+      return topInsights.map(({ priority, ...insight }) => insight);
+    }
+
+    for (const signull of resolvedSignulls) {
+      if (signull.word.length > longestSignull.word.length) {
+        longestSignull = signull;
+      }
+    }
+
+    const creatorName = players[longestSignull.playerId]?.name || "Someone";
+    const word = longestSignull.word;
+
+    topInsights.push({
+      id: genId(),
+      type: "longest_word_vibe",
+      playerIds: [longestSignull.playerId],
+      title: `${creatorName} made everyone vibe on "${word}"!`,
+      subtitle: `That's a ${word.length}-letter connection. Crazy!`,
+      metadata: { word, length: word.length },
+      priority: 5,
+    });
+  }
+
+  // Remove priority field before returning
+  return topInsights.map(({ priority, ...insight }) => insight);
+};
+
+// ==================== Actions ====================
+
+export const applySetSecretWord = (
+  data: FirestoreGameRoom,
+  setterId: PlayerId,
+  word: string,
+  clock: EngineClock = defaultClock
+): void => {
+  const upper = word.trim().toUpperCase();
+
+  // Validate that word contains only alphabets
+  if (!/^[A-Z]+$/.test(upper)) {
+    throw new Error("INVALID_WORD_FORMAT");
+  }
+  assertPermission(data, setterId, "set_secret_word");
+  if (data.phase !== "lobby" && data.phase !== "setting")
+    throw new Error("INVALID_PHASE");
+
+  data.secretWord = upper;
+  data.phase = "signulls";
+  data.revealedCount = INITIAL_REVEALED_COUNT;
+  data.directGuesses = [];
+  data.directGuessProposals = [];
+  data.directGuessesLeft = getStartingDirectGuessPool(
+    getDirectGuessPolicy(data)
+  );
+  if (isTeamMode(data)) startTeamRound(data);
+  startTurns(data, clock);
+  recountDirectGuesses(data);
+  data.settingStartedAt = null;
+  data.timedOutSetterId = null;
+  data.updatedAt = clock.now();
+};
+
+export const applyAddSignull = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  signullId: SignullId,
+  word: string,
+  clue: string,
+  clock: EngineClock = defaultClock,
+  isKnownWord?: (word: string) => boolean // see findClueViolation
+): void => {
+  if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
+  assertPermission(data, playerId, "add_signull");
+  const team = getPlayerTeam(data, playerId);
+  if (data.teams && !team) throw new Error("NOT_ON_A_TEAM");
+  const turn = data.turns?.[getTurnKey(data, playerId)];
+  if (isTurnOrderEnforced(data)) {
+    if (turn?.playerId !== playerId) throw new Error("NOT_YOUR_TURN");
+    if (turn.signullId) throw new Error("SIGNULL_ALREADY_SENT");
+  }
+  const playMode = data.settings.playMode;
+  const upperWord = word.trim().toUpperCase();
+  // Teams build on their own prefix and stage
+  const revealedCount = team
+    ? getTeamRevealedCount(data, team)
+    : getRevealedCount(data);
+
+  // Prefix Mode Validation
+  if (data.settings.prefixMode) {
+    const requiredPrefix = data.secretWord.slice(0, revealedCount);
+    if (!upperWord.startsWith(requiredPrefix)) {
+      throw new Error(`WORD_MUST_START_WITH_${requiredPrefix}`);
+    }
+  }
+
+  assertFairClue(clue, upperWord, isKnownWord);
+
+  const newEntry: FirestoreSignullEntry = {
+    id: signullId,
+    playerId,
+    word: upperWord,
+    clue,
+    connects: [],
+    isFinal: upperWord === data.secretWord,
+    status: "pending",
+    createdAt: clock.now(),
+    ...(team && { team }),
+    eligibleGuesserIds: collectEligibleGuesserIds(
+      data,
+      playerId,
+      team ?? undefined
+    ),
+  };
+
+  const currentOrder = data.signullState.order || {};
+  const stageKey = String(revealedCount);
+  const newOrder = {
+    ...currentOrder,
+    [stageKey]: [...(currentOrder[stageKey] || []), signullId],
+  };
+
+  data.signullState.order = newOrder;
+  data.signullState.itemsById = {
+    ...data.signullState.itemsById,
+    [signullId]: newEntry,
+  };
+  data.signullState.activeIndex =
+    playMode === "round_robin" ? getFlattenedOrder(newOrder).length - 1 : null;
+  if (turn && isTurnOrderEnforced(data)) turn.signullId = signullId;
+  data.updatedAt = clock.now();
+};
+
+// A clue may not contain its word, a form of it or its opening letters
+const assertFairClue = (
+  clue: string,
+  word: string,
+  isKnownWord?: (word: string) => boolean
+) => {
+  const violation = findClueViolation(clue, word, isKnownWord);
+  if (violation) throw new Error(`CLUE_CONTAINS_${violation.toUpperCase()}`);
+};
+
+// The creator may change a signull only while nobody has connected to it
+const getChangeableSignull = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  signullId: SignullId
+): FirestoreSignullEntry => {
+  if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
+  assertPermission(data, playerId, "change_signull");
+  const entry = data.signullState.itemsById[signullId];
+  if (!entry) throw new Error("SIGNULL_NOT_FOUND");
+  if (entry.playerId !== playerId) throw new Error("NOT_SIGNULL_CREATOR");
+  if (entry.status !== "pending") throw new Error("SIGNULL_NOT_PENDING");
+  if (entry.connects.length > 0) throw new Error("SIGNULL_HAS_CONNECTS");
+  return entry;
+};
+
+/**
+ * Withdraw a signull. It leaves the stage order entirely; in round_robin the
+ * cursor stays on the signull it pointed at, or moves to the first one still
+ * pending when that was the one withdrawn.
+ */
+export const applyRetractSignull = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  signullId: SignullId,
+  clock: EngineClock = defaultClock
+): void => {
+  getChangeableSignull(data, playerId, signullId);
+  const { order, activeIndex } = data.signullState;
+  const activeId =
+    activeIndex !== null ? getFlattenedOrder(order)[activeIndex] : undefined;
+
+  data.signullState.order = Object.fromEntries(
+    Object.entries(order)
+      .map(([stage, ids]) => [stage, ids.filter((id) => id !== signullId)])
+      .filter(([, ids]) => ids.length > 0)
+  );
+  const itemsById = { ...data.signullState.itemsById };
+  delete itemsById[signullId];
+  data.signullState.itemsById = itemsById;
+
+  if (data.settings.playMode === "round_robin") {
+    if (activeId && activeId !== signullId) {
+      data.signullState.activeIndex = getFlattenedOrder(
+        data.signullState.order
+      ).indexOf(activeId);
+    } else {
+      advanceActiveIndex(data);
+    }
+  }
+  syncTurns(data, clock);
+  data.updatedAt = clock.now();
+};
+
+// Replace the clue, keeping the old one in the signull's history
+export const applyEditSignullClue = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  signullId: SignullId,
+  clue: string,
+  clock: EngineClock = defaultClock,
+  isKnownWord?: (word: string) => boolean // see findClueViolation
+): void => {
+  const entry = getChangeableSignull(data, playerId, signullId);
+  if (!clue.trim()) throw new Error("CLUE_REQUIRED");
+  assertFairClue(clue, entry.word, isKnownWord);
+  if (clue === entry.clue) return;
+  entry.clueHistory = [
+    ...(entry.clueHistory || []),
+    { clue: entry.clue, editedAt: clock.now() },
+  ];
+  entry.clue = clue;
+  data.updatedAt = clock.now();
+};
+
+// ==================== Clue Challenges ====================
+
+// Everyone seated but the clue giver votes on a challenge to their clue
+export const getChallengeVoterIds = (
+  data: Pick<FirestoreGameRoom, "players">,
+  entry: Pick<FirestoreSignullEntry, "playerId">
+): PlayerId[] =>
+  Object.keys(data.players).filter(
+    (id) => id !== entry.playerId && !isSpectator(data, id)
+  );
+
+// Upheld on a majority, which vetoes the signull without scoring; dismissed
+// once a majority is out of reach
+const settleChallenge = (
+  data: FirestoreGameRoom,
+  entry: FirestoreSignullEntry,
+  clock: EngineClock
+) => {
+  const challenge = entry.challenge;
+  if (!challenge) return;
+  const voterIds = getChallengeVoterIds(data, entry);
+  const needed = getMajority(voterIds.length);
+  const upholds = voterIds.filter((id) => challenge.votes[id] === true);
+  const dismissals = voterIds.filter((id) => challenge.votes[id] === false);
+  if (upholds.length >= needed) {
+    challenge.status = "upheld";
+    challenge.resolvedAt = clock.now();
+    entry.status = "inactive";
+    entry.resolvedAt = clock.now();
+    advanceActiveIndex(data);
+    syncTurns(data, clock);
+  } else if (voterIds.length - dismissals.length < needed) {
+    challenge.status = "dismissed";
+    challenge.resolvedAt = clock.now();
+  }
+};
+
+export const applyChallengeSignull = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  signullId: SignullId,
+  clock: EngineClock = defaultClock
+): void => {
+  if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
+  assertPermission(data, playerId, "challenge");
+  const entry = data.signullState.itemsById[signullId];
+  if (!entry) throw new Error("SIGNULL_NOT_FOUND");
+  if (entry.status !== "pending") throw new Error("SIGNULL_NOT_PENDING");
+  if (entry.playerId === playerId) throw new Error("CANNOT_CHALLENGE_OWN");
+  if (entry.challenge) throw new Error("ALREADY_CHALLENGED");
+
+  entry.challenge = {
+    challengerId: playerId,
+    votes: { [playerId]: true },
+    status: "pending",
+    createdAt: clock.now(),
+    resolvedAt: null,
+  };
+  settleChallenge(data, entry, clock);
+  data.updatedAt = clock.now();
+};
+
+export const applyVoteChallenge = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  signullId: SignullId,
+  uphold: boolean,
+  clock: EngineClock = defaultClock
+): void => {
+  if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
+  assertPermission(data, playerId, "challenge");
+  const entry = data.signullState.itemsById[signullId];
+  if (!entry) throw new Error("SIGNULL_NOT_FOUND");
+  const challenge = entry.challenge;
+  if (!challenge) throw new Error("NO_CHALLENGE");
+  if (challenge.status !== "pending" || entry.status !== "pending") {
+    throw new Error("CHALLENGE_CLOSED");
+  }
+  if (!getChallengeVoterIds(data, entry).includes(playerId)) {
+    throw new Error("CANNOT_CHALLENGE_OWN");
+  }
+  if (challenge.votes[playerId] !== undefined) {
+    throw new Error("ALREADY_VOTED");
+  }
+
+  challenge.votes = { ...challenge.votes, [playerId]: uphold };
+  settleChallenge(data, entry, clock);
+  data.updatedAt = clock.now();
+};
+
+/**
+ * Apply what evaluateResolution decided for a signull: reveal and score a
+ * resolve, close the team's other pending signulls, move the turn on and end
+ * the game when the outcome decides it. `priorScore` carries points the
+ * triggering action already earned, so they land in the same update.
+ */
+const settleSignull = (
+  data: FirestoreGameRoom,
+  entry: FirestoreSignullEntry,
+  resolution: ResolutionResult | null,
+  priorScore: ScoreResult,
+  clock: EngineClock
+): void => {
+  let scoreResult = priorScore;
+  let newRevealedCount = getRevealedCount(data);
+
+  if (resolution) {
+    entry.status = resolution.status;
+    if (resolution.resolvedAt) entry.resolvedAt = resolution.resolvedAt;
+    if (resolution.status === "resolved") {
+      const team = entry.team ?? null;
+      // Scored against the progress the signull was played at
+      const scoringData = withTeamProgress(data, team);
+      let revealed: number;
+      if (team && data.teams) {
+        revealed = ++data.teams[team].revealedCount;
+      } else {
+        revealed = ++newRevealedCount;
+      }
+
+      // Check if all letters are revealed - guessers win!
+      if (revealed >= data.secretWord.length) {
+        resolution.gameEnded = true;
+        resolution.winner = "guessers";
+      }
+
+      // Award points for signull being resolved
+      scoreResult = mergeScoreResults(
+        scoreResult,
+        calculateSignullResolvedScore(entry, scoringData, getScoringRules(data))
+      );
+
+      // Invalidate other pending signulls if one is resolved
+      // This prevents multiple signulls from being active/resolved simultaneously
+      // when they were all pending at the same time. A team's resolve leaves
+      // the other team's signulls alone.
+      getFlattenedOrder(data.signullState.order)
+        .filter(
+          (id) =>
+            id !== entry.id &&
+            data.signullState.itemsById[id]?.status === "pending" &&
+            data.signullState.itemsById[id].team === entry.team
+        )
+        .forEach((id) => {
+          const pendingEntry = data.signullState.itemsById[id];
+          pendingEntry.status = "inactive";
+          pendingEntry.resolvedAt = clock.now();
+        });
+    } else if (resolution.status === "failed") {
+      // Creator and correct connectors get bonus points on a failed lightning signull
+      scoreResult = mergeScoreResults(
+        scoreResult,
+        calculateFailedLightningSignullScore(entry, data, getScoringRules(data))
+      );
+    } else if (
+      resolution.status === "blocked" &&
+      hasReachedInterceptsToWin(data)
+    ) {
+      // Enough intercepts - setter wins!
+      resolution.gameEnded = true;
+      resolution.winner = "setter";
+    }
+  }
+
+  // Advance activeIndex for round_robin if resolved/failed/blocked
+  if (resolution) {
+    advanceActiveIndex(data);
+    syncTurns(data, clock);
+  }
+
+  data.revealedCount = newRevealedCount;
+  syncTeamTotals(data);
+  if (resolution?.gameEnded) {
+    data.phase = "ended";
+    data.winner = resolution.winner;
+    if (resolution.winner === "guessers" && entry.team) {
+      data.winningTeam = entry.team;
+    }
+    if (resolution.winner) {
+      scoreResult = mergeScoreResults(
+        scoreResult,
+        calculateGameEndScore(data, resolution.winner, getScoringRules(data))
+      );
+    }
+  }
+
+  applyScoreResult(data, scoreResult, clock);
+  if (resolution?.gameEnded) {
+    data.insights = computeInsights(data);
+    recordRoundResult(data, clock);
+  }
+};
+
+// Re-run resolution on every pending signull after the guessers they wait
+// on changed. Returns whether any of them settled.
+const settlePendingSignulls = (
+  data: FirestoreGameRoom,
+  clock: EngineClock
+): boolean => {
+  let settled = false;
+  for (const id of getFlattenedOrder(data.signullState.order)) {
+    if (data.phase !== "signulls") break;
+    const entry = data.signullState.itemsById[id];
+    const resolution = entry ? evaluateResolution(entry, data, clock) : null;
+    if (!resolution) continue;
+    settleSignull(data, entry, resolution, { updates: {}, events: [] }, clock);
+    settled = true;
+  }
+  return settled;
+};
+
+export const applySubmitConnect = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  signullId: SignullId | undefined, // if provided, targets specific signull; in round_robin falls back to activeIndex if not provided
+  guess: string,
+  clock: EngineClock = defaultClock,
+  isKnownWord?: (word: string) => boolean // see matchConnectGuess
+): void => {
+  const upperGuess = (guess || "").trim().toUpperCase();
+  if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
+  assertPermission(data, playerId, "connect");
+  const player = data.players[playerId];
+
+  // Determine target signull
+  // Use the explicitly passed signullId if provided, otherwise fall back to activeIndex in round_robin mode
+  let targetId: SignullId | undefined = signullId;
+  if (!targetId && data.settings.playMode === "round_robin") {
+    const idx = data.signullState.activeIndex;
+    if (idx === null) throw new Error("NO_ACTIVE_SIGNULL");
+    targetId = getFlattenedOrder(data.signullState.order)[idx];
+  }
+  if (!targetId) throw new Error("SIGNULL_ID_REQUIRED");
+  const entry = data.signullState.itemsById[targetId];
+  if (!entry) throw new Error("SIGNULL_NOT_FOUND");
+  if (entry.status !== "pending") throw new Error("SIGNULL_NOT_PENDING");
+  // Guessers keep trying until they hit or run out of attempts; the setter
+  // gets the room's intercept attempts
+  if (player.role === "setter") {
+    if (
+      getInterceptAttemptsUsed(entry, playerId) >= getInterceptAttempts(data)
+    ) {
+      throw new Error("NO_INTERCEPTS_LEFT");
+    }
+  } else if (hasFinishedConnecting(entry, playerId, getConnectAttempts(data))) {
+    throw new Error("ALREADY_CONNECTED");
+  }
+  // In team mode guessers only connect to their own team's signulls
+  if (
+    player.role === "guesser" &&
+    entry.team &&
+    getPlayerTeam(data, playerId) !== entry.team
+  ) {
+    throw new Error("NOT_YOUR_TEAM");
+  }
+  // Guessers who joined after the signull was sent sit it out
+  if (
+    player.role === "guesser" &&
+    entry.eligibleGuesserIds &&
+    playerId !== entry.playerId &&
+    !entry.eligibleGuesserIds.includes(playerId)
+  ) {
+    throw new Error("JOINED_AFTER_SIGNULL");
+  }
+  // Setter intercepts go through the same matcher as guesser connects
+  const match = matchConnectGuess(
+    upperGuess,
+    entry.word,
+    data.settings,
+    isKnownWord
+  );
+  const isCorrect = match !== null;
+  entry.connects.push({
+    playerId,
+    guess: upperGuess,
+    timestamp: clock.now(),
+    isCorrect,
+    ...(match && { matchType: match.type, matchedAs: match.matchedAs }),
+  });
+
+  // ==================== Scoring Logic ====================
+  let scoreResult: ScoreResult = { updates: {}, events: [] };
+
+  // Award points for setter intercept only
+  // Guessers don't get immediate points - they'll get +5 when signull resolves
+  if (isCorrect && player.role === "setter") {
+    scoreResult = mergeScoreResults(
+      scoreResult,
+      calculateInterceptScore(
+        playerId,
+        getScoringRules(data),
+        targetId,
+        match?.type
+      )
+    );
+  } else if (player.role === "setter") {
+    scoreResult = mergeScoreResults(
+      scoreResult,
+      calculateWrongInterceptScore(playerId, getScoringRules(data), targetId)
+    );
+  }
+
+  settleSignull(
+    data,
+    entry,
+    evaluateResolution(entry, data, clock),
+    scoreResult,
+    clock
+  );
+  data.updatedAt = clock.now();
+};
+
+// Who may take a direct guess right now (or propose one for a vote)
+const assertCanDirectGuess = (data: FirestoreGameRoom, playerId: PlayerId) => {
+  if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
+  assertPermission(data, playerId, "direct_guess");
+  const player = data.players[playerId];
+  const team = getPlayerTeam(data, playerId);
+  if (data.teams && !team) throw new Error("NOT_ON_A_TEAM");
+  const guessesLeft = getPlayerDirectGuessesLeft(data, playerId);
+  if (guessesLeft !== null && guessesLeft <= 0) {
+    throw new Error("NO_GUESSES_LEFT");
+  }
+  return { player, team };
+};
+
+export const applyDirectGuess = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  guess: string,
+  clock: EngineClock = defaultClock
+): void => {
+  // Voting rooms only spend a guess once the proposal passes
+  if (isDirectGuessVoting(data)) throw new Error("VOTE_REQUIRED");
+  spendDirectGuess(data, playerId, guess, clock);
+};
+
+const spendDirectGuess = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  guess: string,
+  clock: EngineClock
+): void => {
+  const upperGuess = guess.trim().toUpperCase();
+  const { player, team } = assertCanDirectGuess(data, playerId);
+  const policy = getDirectGuessPolicy(data);
+
+  const isCorrect = upperGuess === data.secretWord;
+
+  // Unlimited rooms charge for wrong guesses instead of rationing them
+  const rules =
+    policy.mode === "unlimited"
+      ? { ...getScoringRules(data), wrongDirectGuessPenalty: policy.penalty }
+      : getScoringRules(data);
+
+  // Calculate direct guess score (bonus/penalty based on remaining letters)
+  let scoreResult: ScoreResult = calculateDirectGuessScore(
+    playerId,
+    isCorrect,
+    withTeamProgress(data, team),
+    rules,
+    upperGuess
+  );
+
+  data.directGuesses = [
+    ...(data.directGuesses || []),
+    {
+      playerId,
+      playerName: player.name,
+      word: upperGuess,
+      isCorrect,
+      timestamp: clock.now(),
+      ...(team && { team }),
+    },
+  ];
+  // Shared pools (the team's, in team mode) shrink with every guess
+  if (policy.mode === "shared") {
+    if (team && data.teams) data.teams[team].directGuessesLeft--;
+    else data.directGuessesLeft--;
+  }
+  recountDirectGuesses(data);
+
+  // Correct guess wins for the guessers; running out of guesses (every
+  // team's, in team mode) hands it to the setter
+  const winner: GameState["winner"] = isCorrect
+    ? "guessers"
+    : policy.mode !== "unlimited" && data.directGuessesLeft <= 0
+      ? "setter"
+      : null;
+  if (isCorrect && team) data.winningTeam = team;
+  if (winner) {
+    scoreResult = mergeScoreResults(
+      scoreResult,
+      calculateGameEndScore(data, winner, getScoringRules(data))
+    );
+    data.phase = "ended";
+    data.winner = winner;
+    data.insights = computeInsights(data);
+  }
+
+  applyScoreResult(data, scoreResult, clock);
+  if (winner) recordRoundResult(data, clock);
+  data.updatedAt = clock.now();
+};
+
+// ==================== Direct Guess Votes ====================
+
+export const DIRECT_GUESS_VOTE_SECONDS = 30;
+
+const isDirectGuessVoting = (data: FirestoreGameRoom) =>
+  !!data.settings.directGuessVoting;
+
+// Guessers who vote on a proposal: the proposer's team, or every guesser
+export const getDirectGuessVoterIds = (
+  data: Pick<FirestoreGameRoom, "players" | "settings">,
+  proposal: Pick<FirestoreDirectGuessProposal, "team">
+): PlayerId[] =>
+  Object.keys(data.players).filter(
+    (id) =>
+      data.players[id].role === "guesser" &&
+      (!proposal.team || getPlayerTeam(data, id) === proposal.team)
+  );
+
+export const getProposalDeadlineMillis = (
+  proposal: FirestoreDirectGuessProposal
+): number | null => {
+  const createdAt = timeValueToMillis(proposal.createdAt);
+  return createdAt !== null
+    ? createdAt + DIRECT_GUESS_VOTE_SECONDS * 1000
+    : null;
+};
+
+// Teams (or the room) vote on one proposal at a time
+const getOpenProposal = (
+  data: FirestoreGameRoom,
+  team: TeamId | null
+): FirestoreDirectGuessProposal | undefined =>
+  (data.directGuessProposals || []).find(
+    (p) => p.status === "pending" && (p.team ?? null) === team
+  );
+
+// Passes on a majority of the voters; fails once a majority is out of reach
+const settleProposal = (
+  data: FirestoreGameRoom,
+  proposal: FirestoreDirectGuessProposal,
+  clock: EngineClock
+) => {
+  const voterIds = getDirectGuessVoterIds(data, proposal);
+  const needed = getMajority(voterIds.length);
+  const approvals = voterIds.filter((id) => proposal.votes[id] === true);
+  const rejections = voterIds.filter((id) => proposal.votes[id] === false);
+  if (approvals.length >= needed) {
+    proposal.status = "approved";
+    proposal.resolvedAt = clock.now();
+    spendDirectGuess(data, proposal.playerId, proposal.word, clock);
+  } else if (voterIds.length - rejections.length < needed) {
+    proposal.status = "rejected";
+    proposal.resolvedAt = clock.now();
+  }
+};
+
+// Close proposals whose vote window has run out; true if any were closed
+const expireProposals = (
+  data: FirestoreGameRoom,
+  nowMs: number,
+  clock: EngineClock
+): boolean => {
+  let expired = false;
+  for (const proposal of data.directGuessProposals || []) {
+    const deadline = getProposalDeadlineMillis(proposal);
+    if (proposal.status !== "pending" || deadline === null) continue;
+    if (nowMs < deadline) continue;
+    proposal.status = "expired";
+    proposal.resolvedAt = clock.now();
+    expired = true;
+  }
+  return expired;
+};
+
+export const applyProposeDirectGuess = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  proposalId: DirectGuessProposalId,
+  guess: string,
+  clock: EngineClock = defaultClock
+): void => {
+  if (!isDirectGuessVoting(data)) throw new Error("VOTING_DISABLED");
+  const { player, team } = assertCanDirectGuess(data, playerId);
+  expireProposals(data, clock.nowMillis(), clock);
+  if (getOpenProposal(data, team)) throw new Error("PROPOSAL_PENDING");
+
+  const proposal: FirestoreDirectGuessProposal = {
+    id: proposalId,
+    playerId,
+    playerName: player.name,
+    word: guess.trim().toUpperCase(),
+    ...(team && { team }),
+    votes: { [playerId]: true },
+    status: "pending",
+    createdAt: clock.now(),
+    resolvedAt: null,
+  };
+  data.directGuessProposals = [...(data.directGuessProposals || []), proposal];
+  // A guesser with nobody to ask passes their own proposal
+  settleProposal(data, proposal, clock);
+  data.updatedAt = clock.now();
+};
+
+export const applyVoteDirectGuess = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  proposalId: DirectGuessProposalId,
+  approve: boolean,
+  clock: EngineClock = defaultClock
+): void => {
+  if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
+  const proposal = (data.directGuessProposals || []).find(
+    (p) => p.id === proposalId
+  );
+  if (!proposal) throw new Error("PROPOSAL_NOT_FOUND");
+  assertPermission(data, playerId, "vote");
+  if (!getDirectGuessVoterIds(data, proposal).includes(playerId)) {
+    throw new Error("OTHER_TEAM_PROPOSAL");
+  }
+  // Overdue proposals are closed by applyExpireDeadlines
+  const deadline = getProposalDeadlineMillis(proposal);
+  if (
+    proposal.status !== "pending" ||
+    (deadline !== null && clock.nowMillis() >= deadline)
+  ) {
+    throw new Error("PROPOSAL_CLOSED");
+  }
+  if (proposal.votes[playerId] !== undefined) throw new Error("ALREADY_VOTED");
+
+  proposal.votes = { ...proposal.votes, [playerId]: approve };
+  settleProposal(data, proposal, clock);
+  data.updatedAt = clock.now();
+};
+
+// ==================== Membership ====================
+
+/**
+ * A fresh room in the lobby. The creator sits in it as host and setter; a
+ * display device's room starts empty and its first joiner takes both.
+ * Settings are expected to be validated already.
+ */
+export const buildNewRoom = (
+  roomId: RoomId,
+  creatorId: PlayerId,
+  name: string,
+  settings: GameSettings,
+  isDisplayMode: boolean,
+  clock: EngineClock = defaultClock
+): FirestoreGameRoom => {
+  const trimmedName = name.trim();
+  if (!isDisplayMode && !trimmedName) throw new Error("INVALID_NAME");
+  const now = clock.now();
+  return {
+    schemaVersion: 2,
+    roomId,
+    phase: "lobby",
+    players: isDisplayMode
+      ? {}
+      : {
+          [creatorId]: {
+            name: trimmedName,
+            role: "setter",
+            isOnline: true,
+            lastActive: now,
+            score: 0,
+            seat: 0,
+          },
+        },
+    hostId: isDisplayMode ? null : creatorId,
+    isDisplayMode,
+    ...(isDisplayMode && { displayDeviceId: creatorId }),
+    setterId: isDisplayMode ? "" : creatorId,
+    secretWord: "",
+    revealedCount: 0,
+    signullState: {
+      order: {},
+      activeIndex: settings.playMode === "round_robin" ? 0 : null,
+      itemsById: {},
+    },
+    directGuessesLeft: getStartingDirectGuessPool(settings.directGuessPolicy),
+    directGuesses: [],
+    directGuessProposals: [],
+    settingStartedAt: null,
+    timedOutSetterId: null,
+    winner: null,
+    settings,
+    match: createMatchState(),
+    scoreEvents: [],
+    scoreCountingComplete: false,
+    insights: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Seat a newcomer where planJoin puts them. The first player into a room
+ * without a host (a display device's) hosts it and picks the first word.
+ * Someone already in the room is left as they are.
+ */
+export const applyJoinRoom = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  name: string,
+  clock: EngineClock = defaultClock
+): void => {
+  if (data.players[playerId]) return;
+  const trimmedName = name.trim();
+  if (!trimmedName) throw new Error("INVALID_NAME");
+  const becomesHost = !data.hostId || Object.keys(data.players).length === 0;
+  const { role, team, joinsNextRound }: JoinPlan = becomesHost
+    ? { role: "setter" }
+    : planJoin(data);
+  data.players[playerId] = {
+    name: trimmedName,
+    role,
+    isOnline: true,
+    lastActive: clock.now(),
+    score: 0,
+    seat: getNextSeat(data),
+    ...(team && { team }),
+    ...(joinsNextRound && { joinsNextRound }),
+  };
+  // A mid-round guesser takes turns after everyone already seated
+  const turn = data.turns?.[team ?? "all"];
+  if (role === "guesser" && data.phase === "signulls" && turn) {
+    turn.seatOrder = [...turn.seatOrder, playerId];
+  }
+  if (becomesHost) {
+    data.hostId = playerId;
+    data.setterId = playerId;
+  }
+  data.updatedAt = clock.now();
+};
+
+/**
+ * Take a player out of the room: themselves when leaving, anyone else only
+ * when the host removes them. Seated players take over as host and setter
+ * first; a spectator only steps in when no one else is left. Turns move on
+ * without them, and pending signulls stop waiting on them.
+ */
+export const applyLeaveRoom = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  requesterId: PlayerId,
+  clock: EngineClock = defaultClock
+): void => {
+  if (!data.players[playerId]) return;
+  if (requesterId !== playerId) {
+    assertPermission(data, requesterId, "remove_player");
+  }
+  delete data.players[playerId];
+  const remainingIds = Object.keys(data.players);
+  const successorId =
+    remainingIds.find((id) => !isSpectator(data, id)) ??
+    remainingIds[0] ??
+    null;
+
+  if (data.hostId === playerId) data.hostId = successorId;
+  if (data.setterId === playerId && successorId) {
+    const successor = data.players[successorId];
+    successor.role = "setter";
+    delete successor.joinsNextRound;
+    data.setterId = successorId;
+    // The new setter gets a full turn to pick a word
+    if (data.phase === "setting") data.settingStartedAt = clock.now();
+    passTurnsHeldBy(data, successorId, clock);
+  }
+  passTurnsHeldBy(data, playerId, clock);
+  // A leaving guesser takes their own direct guesses with them
+  recountDirectGuesses(data);
+  if (data.phase === "signulls") settlePendingSignulls(data, clock);
+  data.updatedAt = clock.now();
+};
+
+/**
+ * Move a guesser to a team (or back to auto-assignment with null) while in
+ * the lobby. Players pick their own team; the host may move anyone.
+ */
+export const applySetPlayerTeam = (
+  data: FirestoreGameRoom,
+  requesterId: PlayerId,
+  playerId: PlayerId,
+  team: TeamId | null,
+  clock: EngineClock = defaultClock
+): void => {
+  if (requesterId !== playerId) {
+    assertPermission(data, requesterId, "move_players");
+  }
+  if (data.phase !== "lobby") throw new Error("INVALID_PHASE");
+  const player = data.players[playerId];
+  if (!player) throw new Error("PLAYER_NOT_FOUND");
+  if (player.role === "spectator") throw new Error("SPECTATORS_CANNOT_PLAY");
+  if (team) player.team = team;
+  else delete player.team;
+  data.updatedAt = clock.now();
+};
+
+/**
+ * Give a spectator a seat as a guesser for the next round: from the lobby,
+ * and only while the room has a free seat
+ */
+export const applyPromoteSpectator = (
+  data: FirestoreGameRoom,
+  requesterId: PlayerId,
+  playerId: PlayerId,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, requesterId, "seat_spectator");
+  if (data.phase !== "lobby") throw new Error("INVALID_PHASE");
+  const player = data.players[playerId];
+  if (!player) throw new Error("PLAYER_NOT_FOUND");
+  if (player.role !== "spectator") throw new Error("NOT_SPECTATOR");
+  if (getSeatedPlayerCount(data) >= data.settings.maxPlayers) {
+    throw new Error("ROOM_FULL");
+  }
+  player.role = "guesser";
+  data.updatedAt = clock.now();
+};
+
+export const applyChangeSetter = (
+  data: FirestoreGameRoom,
+  requesterId: PlayerId,
+  newSetterId: PlayerId,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, requesterId, "change_setter");
+  const player = data.players[newSetterId];
+  if (!player) throw new Error("PLAYER_NOT_FOUND");
+  if (player.role === "spectator") throw new Error("SPECTATORS_CANNOT_PLAY");
+  const previousSetter = data.players[data.setterId];
+  if (previousSetter) previousSetter.role = "guesser";
+  player.role = "setter";
+  data.setterId = newSetterId;
+  // Restart the word-picking timer for the new setter
+  if (data.phase === "setting") {
+    data.settingStartedAt = clock.now();
+    data.timedOutSetterId = null;
+  }
+  data.updatedAt = clock.now();
+};
+
+// ==================== Round Lifecycle ====================
+
+// Wipe everything the last round left behind
+const clearRound = (data: FirestoreGameRoom) => {
+  data.secretWord = "";
+  data.revealedCount = 0;
+  data.signullState = { order: {}, itemsById: {}, activeIndex: null };
+  data.directGuessesLeft = getStartingDirectGuessPool(
+    getDirectGuessPolicy(data)
+  );
+  data.directGuesses = [];
+  data.directGuessProposals = [];
+  data.timedOutSetterId = null;
+  data.winner = null;
+  data.winningTeam = null;
+  data.teams = null;
+  data.turns = null;
+  data.scoreCountingComplete = false;
+  data.insights = [];
+};
+
+// Spectators who joined mid-round take their seats once the round is over
+const seatWaitingSpectators = (data: FirestoreGameRoom) => {
+  for (const player of Object.values(data.players)) {
+    if (!player.joinsNextRound) continue;
+    player.role = "guesser";
+    delete player.joinsNextRound;
+  }
+};
+
+/**
+ * Start a new match from the lobby. In team mode every guesser is put on a
+ * team before anyone picks a word.
+ */
+export const applyStartGame = (
+  data: FirestoreGameRoom,
+  requesterId: PlayerId,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, requesterId, "start_game");
+  if (isTeamMode(data)) {
+    const assignments = assignTeams(data);
+    const sizes = getTeamSizes(assignments);
+    if (TEAM_IDS.some((team) => sizes[team] < MIN_TEAM_SIZE)) {
+      throw new Error("TEAMS_TOO_SMALL");
+    }
+    for (const [id, team] of Object.entries(assignments)) {
+      data.players[id].team = team;
+    }
+  }
+  data.phase = "setting";
+  data.settingStartedAt = clock.now();
+  data.timedOutSetterId = null;
+  data.match = createMatchState();
+  data.updatedAt = clock.now();
+};
+
+/**
+ * Start the next round of the match (or a new match) from an ended round,
+ * keeping scores. The caller archives the ended round first.
+ */
+export const applyPlayAgain = (
+  data: FirestoreGameRoom,
+  requesterId: PlayerId,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, requesterId, "play_again");
+  if (data.phase !== "ended") throw new Error("INVALID_PHASE");
+  const { match, scoreEvents, setterId } = planNextRound(data);
+  clearRound(data);
+  data.phase = "setting";
+  data.settingStartedAt = clock.now();
+  data.match = match;
+  data.scoreEvents = scoreEvents; // kept until the match is over
+  // Rotate the setter role between rounds of a match
+  if (setterId !== data.setterId) {
+    const previousSetter = data.players[data.setterId];
+    if (previousSetter) previousSetter.role = "guesser";
+    data.players[setterId].role = "setter";
+    data.setterId = setterId;
+  }
+  seatWaitingSpectators(data);
+  data.updatedAt = clock.now();
+};
+
+/**
+ * Leave the round for the lobby, which ends the match. The caller archives
+ * an ended round first.
+ */
+export const applyBackToLobby = (
+  data: FirestoreGameRoom,
+  requesterId: PlayerId,
+  resetScores: boolean,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, requesterId, "back_to_lobby");
+  clearRound(data);
+  data.phase = "lobby";
+  data.settingStartedAt = null;
+  data.match = createMatchState();
+  data.scoreEvents = [];
+  if (resetScores) {
+    for (const player of Object.values(data.players)) player.score = 0;
+  }
+  seatWaitingSpectators(data);
+  data.updatedAt = clock.now();
+};
+
+export const applyResetScores = (
+  data: FirestoreGameRoom,
+  requesterId: PlayerId,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, requesterId, "reset_scores");
+  for (const player of Object.values(data.players)) player.score = 0;
+  data.updatedAt = clock.now();
+};
+
+export const applyEndGame = (
+  data: FirestoreGameRoom,
+  requesterId: PlayerId,
+  winner: GameWinner,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, requesterId, "end_game");
+  data.phase = "ended";
+  data.winner = winner;
+  data.insights = computeInsights(data);
+  recordRoundResult(data, clock);
+  data.updatedAt = clock.now();
+};
+
+// ==================== Recovery ====================
+
+export const RECOVERY_LOG_LIMIT = 20;
+
+// Every forced fix is kept on the room so players can see what the host did
+const logRecovery = (
+  data: FirestoreGameRoom,
+  action: RecoveryAction,
+  hostId: PlayerId,
+  clock: EngineClock,
+  targetId?: string
+) => {
+  data.recoveryLog = [
+    ...(data.recoveryLog || []),
+    { action, hostId, ...(targetId && { targetId }), at: clock.now() },
+  ].slice(-RECOVERY_LOG_LIMIT);
+  data.updatedAt = clock.now();
+};
+
+/**
+ * Fail a pending signull as if every guesser had missed it, e.g. when
+ * nobody is left who can answer it. A lightning signull still ends the game.
+ */
+export const applyForceFailSignull = (
+  data: FirestoreGameRoom,
+  hostId: PlayerId,
+  signullId: SignullId,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, hostId, "recover");
+  if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
+  const entry = data.signullState.itemsById[signullId];
+  if (!entry) throw new Error("SIGNULL_NOT_FOUND");
+  if (entry.status !== "pending") throw new Error("SIGNULL_NOT_PENDING");
+  settleSignull(
+    data,
+    entry,
+    {
+      status: "failed",
+      gameEnded: entry.isFinal,
+      winner: entry.isFinal ? "setter" : data.winner,
+      resolvedAt: clock.now(),
+    },
+    { updates: {}, events: [] },
+    clock
+  );
+  logRecovery(data, "force_fail_signull", hostId, clock, signullId);
+};
+
+// Pass a turn its holder isn't taking, e.g. because they went away
+export const applyForceSkipTurn = (
+  data: FirestoreGameRoom,
+  hostId: PlayerId,
+  key: TurnKey,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, hostId, "recover");
+  if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
+  if (!isTurnOrderEnforced(data)) throw new Error("TURNS_DISABLED");
+  const turn = data.turns?.[key];
+  if (!turn?.playerId) throw new Error("NO_TURN_TO_SKIP");
+  if (turn.signullId) throw new Error("SIGNULL_ALREADY_SENT");
+  const skippedId = turn.playerId;
+  passTurn(data, key, clock);
+  logRecovery(data, "force_skip_turn", hostId, clock, skippedId);
+};
+
+// Hand word picking to another player while the setter can't pick
+export const applyReassignSetter = (
+  data: FirestoreGameRoom,
+  hostId: PlayerId,
+  newSetterId: PlayerId,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, hostId, "recover");
+  if (data.phase !== "setting") throw new Error("INVALID_PHASE");
+  const player = data.players[newSetterId];
+  if (!player) throw new Error("PLAYER_NOT_FOUND");
+  if (player.role === "spectator") throw new Error("SPECTATORS_CANNOT_PLAY");
+  if (newSetterId === data.setterId) throw new Error("ALREADY_SETTER");
+  const previousSetter = data.players[data.setterId];
+  if (previousSetter) previousSetter.role = "guesser";
+  player.role = "setter";
+  data.setterId = newSetterId;
+  data.settingStartedAt = clock.now();
+  data.timedOutSetterId = null;
+  logRecovery(data, "reassign_setter", hostId, clock, newSetterId);
+};
+
+/**
+ * Call the round off and go back to the lobby. Points earned in it are
+ * taken back and nothing is archived; like any return to the lobby, it ends
+ * the match.
+ */
+export const applyVoidRound = (
+  data: FirestoreGameRoom,
+  hostId: PlayerId,
+  clock: EngineClock = defaultClock
+): void => {
+  assertPermission(data, hostId, "recover");
+  if (data.phase !== "setting" && data.phase !== "signulls") {
+    throw new Error("INVALID_PHASE");
+  }
+  const round = getCurrentRound(data);
+  for (const event of data.scoreEvents || []) {
+    if ((event.round ?? round) !== round) continue;
+    const player = data.players[event.playerId];
+    if (player) player.score = (player.score ?? 0) - event.delta;
+  }
+  clearRound(data);
+  data.phase = "lobby";
+  data.settingStartedAt = null;
+  data.match = createMatchState();
+  data.scoreEvents = [];
+  seatWaitingSpectators(data);
+  logRecovery(data, "void_round", hostId, clock);
+};
+
+/**
+ * Close out everything whose deadline has passed at the clock's time.
+ * Safe to call repeatedly and from several clients at once: it only acts on
+ * a setting phase or pending signulls that are actually overdue, so a second
+ * caller finds nothing left to do.
+ *
+ * - Setting phase: the setter role rotates to the next player and their
+ *   timer starts.
+ * - Pending signulls: a lightning signull fails (the setter wins, as when
+ *   every guesser misses it); any other signull goes inactive.
+ * - Offline guessers: in rooms that skip them, pending signulls are settled
+ *   without them once every guesser they still wait on has gone offline.
+ * - Direct guess proposals: the vote closes as expired and no guess is spent.
+ * - Turns: a player who has not sent a signull in time loses the turn.
+ */
+export const applyExpireDeadlines = (
+  data: FirestoreGameRoom,
+  clock: EngineClock = defaultClock
+): void => {
+  const nowMs = clock.nowMillis();
+
+  if (data.phase === "setting") {
+    const deadline = getSettingDeadlineMillis(data);
+    if (deadline === null || nowMs < deadline) return;
+    const previousSetterId = data.setterId;
+    const nextSetterId = getNextSetterId(data);
+    if (nextSetterId) {
+      // The setter may have left without handing the role on
+      const previousSetter = data.players[previousSetterId];
+      if (previousSetter) previousSetter.role = "guesser";
+      data.players[nextSetterId].role = "setter";
+      data.setterId = nextSetterId;
+    }
+    data.timedOutSetterId = previousSetterId;
+    data.settingStartedAt = clock.now();
+    data.updatedAt = clock.now();
+    return;
+  }
+
+  if (data.phase !== "signulls") return;
+
+  const proposalsExpired = expireProposals(data, nowMs, clock);
+  const turnsExpired = expireTurns(data, nowMs, clock);
+  const pending = getFlattenedOrder(data.signullState.order)
+    .map((id) => data.signullState.itemsById[id])
+    .filter((entry) => entry?.status === "pending");
+  const presenceLapsed = pending.some((entry) => {
+    const deadline = getPresenceDeadlineMillis(entry, data);
+    return deadline !== null && nowMs >= deadline;
+  });
+  const settled = presenceLapsed && settlePendingSignulls(data, clock);
+  if (data.phase !== "signulls") {
+    data.updatedAt = clock.now();
+    return;
+  }
+  const overdue = pending.filter((entry) => {
+    if (entry.status !== "pending") return false; // settled just now
+    const deadline = getSignullDeadlineMillis(entry, data);
+    return deadline !== null && nowMs >= deadline;
+  });
+  if (overdue.length === 0) {
+    if (proposalsExpired || turnsExpired || settled) {
+      data.updatedAt = clock.now();
+    }
+    return;
+  }
+
+  let scoreResult: ScoreResult = { updates: {}, events: [] };
+  let lightningFailed = false;
+  for (const entry of overdue) {
+    entry.status = entry.isFinal ? "failed" : "inactive";
+    entry.timedOut = true;
+    entry.resolvedAt = clock.now();
+    if (entry.isFinal && !lightningFailed) {
+      lightningFailed = true;
+      scoreResult = mergeScoreResults(
+        scoreResult,
+        calculateFailedLightningSignullScore(entry, data, getScoringRules(data))
+      );
+    }
+  }
+  advanceActiveIndex(data);
+  syncTurns(data, clock);
+
+  if (lightningFailed) {
+    data.phase = "ended";
+    data.winner = "setter";
+    scoreResult = mergeScoreResults(
+      scoreResult,
+      calculateGameEndScore(data, "setter", getScoringRules(data))
+    );
+  }
+  applyScoreResult(data, scoreResult, clock);
+  if (lightningFailed) {
+    data.insights = computeInsights(data);
+    recordRoundResult(data, clock);
+  }
+  data.updatedAt = clock.now();
+};
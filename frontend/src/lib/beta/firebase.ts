@@ -1,82 +1,100 @@
 import {
   collection,
   doc,
-  setDoc,
   updateDoc,
   runTransaction,
   onSnapshot,
   serverTimestamp,
   Timestamp,
-  deleteField,
-  increment,
+  getDocs,
+  orderBy,
+  query,
 } from "firebase/firestore";
-import { getDb } from "../firebase/config";
+import { getDb, getFirebaseAuth } from "../firebase/config";
 import type {
+  CreateRoomRequest,
+  CreateRoomResult,
   GameState,
+  DirectGuessProposalId,
   FirestoreGameRoom,
+  FirestoreGameInsight,
+  FirestorePlayerView,
+  FirestoreRoundArchive,
+  FirestoreScoreEvent,
+  FirestoreSignullEntry,
+  GameInsight,
   PlayerId,
   RoomId,
   SignullId,
-  FirestoreSignullEntry,
-  SignullStatus,
   GameSettings,
   GameError,
   FirestoreTimeValue,
-  ScoreUpdates,
+  RoomAction,
+  RoomActionResult,
+  RoundArchive,
   ScoreEvent,
-  FirestoreScoreEvent,
-  GameInsight,
-  FirestoreGameInsight,
-  InsightType,
+  SignullEntry,
+  TeamId,
+  TurnKey,
 } from "./types";
 import {
-  calculateCorrectSignullGuessScore,
-  calculateInterceptScore,
-  calculateSignullResolvedScore,
-  calculateFailedLightningSignullScore,
-  calculateDirectGuessScore,
-  calculateGameEndScore,
-  mergeScoreResults,
-  ScoreResult,
-} from "./scoring";
+  DEFAULT_ROUNDS_PER_MATCH,
+  getConnectAttempts,
+  getConnectsPercent,
+  getDirectGuessPolicy,
+  getInterceptAttempts,
+  getLateJoinPolicy,
+  getRevealedCount,
+  isSkippingOfflineGuessers,
+} from "./engine";
+import { getScoringRules } from "./scoring";
+import { DEFAULT_TYPO_TOLERANCE } from "./word-match";
+import {
+  BETA_COLLECTION,
+  ROUND_ARCHIVES_COLLECTION,
+  VIEWS_COLLECTION,
+  applyPlayerView,
+} from "./projection";
 import { useNotificationStore } from "./notification-store";
 import { GameErrorMessages } from "./notifications";
 
-// Collection name for beta schema
-const BETA_COLLECTION = "game_rooms_v2";
-const INITIAL_REVEALED_COUNT = 1;
-const getRoomsCollection = () => collection(getDb(), BETA_COLLECTION);
+// Rules evaluation moved to engine.ts; re-exported for existing callers
+export { evaluateResolution, computeInsights } from "./engine";
 
-// Utility generators
-export const generateRoomCode = (): string => {
-  const consonants = "BCDFGHJKMNPQRSTVWXYZ";
-  const vowels = "AEUY";
-  const numbers = "23456789";
-  return (
-    consonants[Math.floor(Math.random() * consonants.length)] +
-    vowels[Math.floor(Math.random() * vowels.length)] +
-    consonants[Math.floor(Math.random() * consonants.length)] +
-    vowels[Math.floor(Math.random() * vowels.length)] +
-    numbers[Math.floor(Math.random() * numbers.length)] +
-    numbers[Math.floor(Math.random() * numbers.length)]
-  );
-};
+const getRoomsCollection = () => collection(getDb(), BETA_COLLECTION);
 
-export const generateSignullId = (): SignullId => {
-  const ts = Date.now().toString(36);
-  const rand = Math.random().toString(36).slice(2, 9);
-  return `sn_${ts}_${rand}`;
+/**
+ * Call a beta room route. The player is identified by the Firebase ID token,
+ * so the server never trusts a player id from the client. Failures surface
+ * as `Error(CODE)` like the client-side transactions.
+ */
+const postToServer = async <T>(path: string, payload: unknown): Promise<T> => {
+  const token = await getFirebaseAuth().currentUser?.getIdToken();
+  if (!token) throw new Error("AUTH_REQUIRED");
+  const res = await fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(payload),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.code || "SERVER_ERROR");
+  return body as T;
 };
 
-const getRevealedCount = (
-  data: Pick<FirestoreGameRoom, "phase" | "secretWord" | "revealedCount">
-) => {
-  const minimum =
-    data.phase === "signulls" && data.secretWord ? INITIAL_REVEALED_COUNT : 0;
-  return Math.max(data.revealedCount ?? minimum, minimum);
-};
+// Run a hidden-state mutation on the server
+const postRoomAction = (
+  roomId: RoomId,
+  action: RoomAction
+): Promise<RoomActionResult> =>
+  postToServer<RoomActionResult>(
+    `/api/beta/rooms/${encodeURIComponent(roomId)}/actions`,
+    action
+  );
 
-const handleFirebaseError = (error: unknown) => {
+const handleFirebaseError = (error: unknown): never => {
   const message = error instanceof Error ? error.message : "Unknown error";
   let userMessage = GameErrorMessages[message] || message;
 
@@ -103,6 +121,74 @@ const handleFirebaseError = (error: unknown) => {
 const tsToDate = (t: FirestoreTimeValue): Date =>
   t instanceof Timestamp ? t.toDate() : new Date();
 
+const toSignullEntry = (entry: FirestoreSignullEntry): SignullEntry => ({
+  id: entry.id,
+  playerId: entry.playerId,
+  word: entry.word,
+  clue: entry.clue,
+  connects: (entry.connects || []).map((c) => ({
+    playerId: c.playerId,
+    guess: c.guess,
+    timestamp: tsToDate(c.timestamp),
+    isCorrect: c.isCorrect,
+    matchType: c.matchType,
+    matchedAs: c.matchedAs,
+  })),
+  isFinal: entry.isFinal,
+  status: entry.status,
+  createdAt: tsToDate(entry.createdAt),
+  resolvedAt: entry.resolvedAt ? tsToDate(entry.resolvedAt) : undefined,
+  timedOut: entry.timedOut ?? false,
+  team: entry.team,
+  clueHistory: entry.clueHistory?.map((edit) => ({
+    clue: edit.clue,
+    editedAt: tsToDate(edit.editedAt),
+  })),
+  eligibleGuesserIds: entry.eligibleGuesserIds,
+  challenge: entry.challenge && {
+    challengerId: entry.challenge.challengerId,
+    votes: entry.challenge.votes || {},
+    status: entry.challenge.status,
+    createdAt: tsToDate(entry.challenge.createdAt),
+    resolvedAt: entry.challenge.resolvedAt
+      ? tsToDate(entry.challenge.resolvedAt)
+      : null,
+  },
+});
+
+const toScoreEvent = (e: FirestoreScoreEvent): ScoreEvent => ({
+  playerId: e.playerId,
+  delta: e.delta,
+  reason: e.reason,
+  timestamp: tsToDate(e.timestamp),
+  details: e.details,
+  round: e.round,
+});
+
+const toGameInsight = (i: FirestoreGameInsight): GameInsight => ({
+  id: i.id,
+  type: i.type,
+  playerIds: i.playerIds,
+  title: i.title,
+  subtitle: i.subtitle,
+  metadata: i.metadata,
+});
+
+const toRoundArchive = (data: FirestoreRoundArchive): RoundArchive => ({
+  archiveId: data.archiveId,
+  roomId: data.roomId,
+  round: data.round,
+  secretWord: data.secretWord,
+  setterId: data.setterId,
+  players: data.players || {},
+  signulls: (data.signulls || []).map(toSignullEntry),
+  winner: data.winner ?? null,
+  winningTeam: data.winningTeam ?? null,
+  scoreEvents: (data.scoreEvents || []).map(toScoreEvent),
+  insights: (data.insights || []).map(toGameInsight),
+  archivedAt: tsToDate(data.archivedAt),
+});
+
 export const firestoreToGameState = (data: FirestoreGameRoom): GameState => {
   return {
     schemaVersion: 2,
@@ -117,6 +203,8 @@ export const firestoreToGameState = (data: FirestoreGameRoom): GameState => {
           isOnline: p.isOnline,
           lastActive: tsToDate(p.lastActive),
           score: p.score ?? 0,
+          team: p.team,
+          joinsNextRound: p.joinsNextRound,
         };
         return acc;
       },
@@ -132,60 +220,86 @@ export const firestoreToGameState = (data: FirestoreGameRoom): GameState => {
       activeIndex: data.signullState.activeIndex ?? null,
       itemsById: Object.entries(data.signullState.itemsById || {}).reduce(
         (acc, [id, entry]) => {
-          acc[id] = {
-            id: entry.id,
-            playerId: entry.playerId,
-            word: entry.word,
-            clue: entry.clue,
-            connects: (entry.connects || []).map((c) => ({
-              playerId: c.playerId,
-              guess: c.guess,
-              timestamp: tsToDate(c.timestamp),
-              isCorrect: c.isCorrect,
-            })),
-            isFinal: entry.isFinal,
-            status: entry.status,
-            createdAt: tsToDate(entry.createdAt),
-            resolvedAt: entry.resolvedAt
-              ? tsToDate(entry.resolvedAt)
-              : undefined,
-          };
+          acc[id] = toSignullEntry(entry);
           return acc;
         },
         {} as GameState["signullState"]["itemsById"]
       ),
     },
     directGuessesLeft: data.directGuessesLeft,
-    lastDirectGuess: data.lastDirectGuess
-      ? {
-          playerId: data.lastDirectGuess.playerId,
-          playerName: data.lastDirectGuess.playerName,
-          word: data.lastDirectGuess.word,
-          timestamp: tsToDate(data.lastDirectGuess.timestamp),
-        }
+    directGuesses: (data.directGuesses || []).map((g) => ({
+      playerId: g.playerId,
+      playerName: g.playerName,
+      word: g.word,
+      isCorrect: g.isCorrect,
+      timestamp: tsToDate(g.timestamp),
+      team: g.team,
+    })),
+    directGuessProposals: (data.directGuessProposals || []).map((p) => ({
+      id: p.id,
+      playerId: p.playerId,
+      playerName: p.playerName,
+      word: p.word,
+      team: p.team,
+      votes: p.votes || {},
+      status: p.status,
+      createdAt: tsToDate(p.createdAt),
+      resolvedAt: p.resolvedAt ? tsToDate(p.resolvedAt) : null,
+    })),
+    settingStartedAt: data.settingStartedAt
+      ? tsToDate(data.settingStartedAt)
       : null,
+    timedOutSetterId: data.timedOutSetterId ?? null,
     winner: data.winner ?? null,
+    teams: data.teams ?? null,
+    turns: data.turns
+      ? Object.fromEntries(
+          Object.entries(data.turns).map(([key, turn]) => [
+            key,
+            { ...turn, startedAt: tsToDate(turn.startedAt) },
+          ])
+        )
+      : null,
+    winningTeam: data.winningTeam ?? null,
+    recoveryLog: (data.recoveryLog || []).map((r) => ({
+      action: r.action,
+      hostId: r.hostId,
+      targetId: r.targetId,
+      at: tsToDate(r.at),
+    })),
     settings: {
       ...data.settings,
       showScoreBreakdown: data.settings.showScoreBreakdown ?? false,
       displaySoundMode: data.settings.displaySoundMode ?? true,
+      typoTolerance: data.settings.typoTolerance ?? DEFAULT_TYPO_TOLERANCE,
+      roundsPerMatch: data.settings.roundsPerMatch ?? DEFAULT_ROUNDS_PER_MATCH,
+      setterRotation: data.settings.setterRotation ?? "seat_order",
+      scoringRules: getScoringRules(data),
+      interceptsToWin: data.settings.interceptsToWin ?? 0,
+      interceptAttempts: getInterceptAttempts(data),
+      connectAttempts: getConnectAttempts(data),
+      teamMode: data.settings.teamMode ?? false,
+      directGuessPolicy: getDirectGuessPolicy(data),
+      directGuessVoting: data.settings.directGuessVoting ?? false,
+      lateJoinPolicy: getLateJoinPolicy(data),
+      skipOfflineGuessers: isSkippingOfflineGuessers(data),
+      connectsPercent: getConnectsPercent(data),
     },
-    scoreEvents: (data.scoreEvents || []).map((e) => ({
-      playerId: e.playerId,
-      delta: e.delta,
-      reason: e.reason,
-      timestamp: tsToDate(e.timestamp),
-      details: e.details,
-    })),
+    match: {
+      currentRound: data.match?.currentRound ?? 1,
+      roundResults: (data.match?.roundResults || []).map((r) => ({
+        round: r.round,
+        setterId: r.setterId,
+        secretWord: r.secretWord,
+        winner: r.winner ?? null,
+        winningTeam: r.winningTeam ?? null,
+        scores: r.scores || {},
+        endedAt: tsToDate(r.endedAt),
+      })),
+    },
+    scoreEvents: (data.scoreEvents || []).map(toScoreEvent),
     scoreCountingComplete: data.scoreCountingComplete ?? false,
-    insights: (data.insights || []).map((i) => ({
-      id: i.id,
-      type: i.type,
-      playerIds: i.playerIds,
-      title: i.title,
-      subtitle: i.subtitle,
-      metadata: i.metadata,
-    })),
+    insights: (data.insights || []).map(toGameInsight),
     createdAt: tsToDate(data.createdAt),
     updatedAt: tsToDate(data.updatedAt),
   };
@@ -193,148 +307,88 @@ export const firestoreToGameState = (data: FirestoreGameRoom): GameState => {
 
 // ---------------- Core Firestore Operations ----------------
 
+/**
+ * Create a room and return its code. The server fills in default settings,
+ * validates them and claims a code no live room holds.
+ */
 export const createRoom = async (
-  roomId: RoomId,
-  creatorId: PlayerId,
   username: string,
   settings?: Partial<GameSettings>,
   isDisplayMode: boolean = false
-): Promise<void> => {
+): Promise<RoomId> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    const finalSettings: GameSettings = {
-      playMode: settings?.playMode || "round_robin",
-      connectsRequired: settings?.connectsRequired || 2,
-      maxPlayers: settings?.maxPlayers || 8,
-      timeLimitSeconds: settings?.timeLimitSeconds || 30,
-      wordValidation: settings?.wordValidation || "strict",
-      prefixMode: settings?.prefixMode ?? true, // Default to true for new games
-      showScoreBreakdown: settings?.showScoreBreakdown ?? true, // Default to true for new games
-      displaySoundMode: settings?.displaySoundMode ?? true, // Default to true for new games
-    };
-
-    // Build players object conditionally - empty if display mode
-    const players: FirestoreGameRoom["players"] = isDisplayMode
-      ? {}
-      : {
-          [creatorId]: {
-            name: username,
-            role: "setter",
-            isOnline: true,
-            lastActive: serverTimestamp() as Timestamp,
-            score: 0,
-          },
-        };
-
-    const initial: FirestoreGameRoom = {
-      schemaVersion: 2,
-      roomId,
-      phase: "lobby",
-      players,
-      hostId: isDisplayMode ? null : creatorId,
+    const request: CreateRoomRequest = {
+      name: username,
+      settings,
       isDisplayMode,
-      setterId: isDisplayMode ? "" : creatorId,
-      secretWord: "",
-      revealedCount: 0,
-      signullState: {
-        order: {},
-        activeIndex: finalSettings.playMode === "round_robin" ? 0 : null,
-        itemsById: {},
-      },
-      directGuessesLeft: 3,
-      lastDirectGuess: null,
-      winner: null,
-      settings: finalSettings,
-      scoreEvents: [],
-      scoreCountingComplete: false,
-      insights: [],
-      createdAt: serverTimestamp() as Timestamp,
-      updatedAt: serverTimestamp() as Timestamp,
     };
-    await setDoc(docRef, initial);
+    const { roomId } = await postToServer<CreateRoomResult>(
+      "/api/beta/rooms",
+      request
+    );
+    return roomId;
   } catch (error) {
-    handleFirebaseError(error);
+    return handleFirebaseError(error);
   }
 };
 
 export const joinRoom = async (
   roomId: RoomId,
-  playerId: PlayerId,
   username: string
 ): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    await runTransaction(getDb(), async (trx) => {
-      const snap = await trx.get(docRef);
-      if (!snap.exists()) throw new Error("ROOM_NOT_FOUND");
-      const data = snap.data() as FirestoreGameRoom;
-      if (Object.keys(data.players).length >= data.settings.maxPlayers) {
-        throw new Error("ROOM_FULL");
-      }
-
-      // Check if this is the first player (becomes host)
-      const isFirstPlayer = Object.keys(data.players).length === 0;
-      const shouldBecomeHost = !data.hostId || isFirstPlayer;
-
-      const updates: Record<string, unknown> = {
-        [`players.${playerId}`]: {
-          name: username,
-          role: shouldBecomeHost ? "setter" : "guesser",
-          isOnline: true,
-          lastActive: serverTimestamp(),
-          score: 0,
-        },
-        updatedAt: serverTimestamp(),
-      };
-
-      // Assign host and setter if first player
-      if (shouldBecomeHost) {
-        updates.hostId = playerId;
-        updates.setterId = playerId;
-      }
-
-      trx.update(docRef, updates);
-    });
+    await postRoomAction(roomId, { type: "join_room", name: username });
   } catch (error) {
     handleFirebaseError(error);
   }
 };
 
-export const leaveRoom = async (
+/**
+ * Record whether a player's page is open. Heartbeats refresh lastActive so
+ * others can tell a live player from one whose page went away without
+ * saying so. Best effort and silent: a missed beat only shortens the grace
+ * period, and the room's updatedAt is left alone. A blind write, so the
+ * offline mark can go out while the page unloads; the rules turn away a
+ * removed player's open tab rather than let it write them back in.
+ */
+const setPresence = async (
   roomId: RoomId,
-  playerId: PlayerId
+  playerId: PlayerId,
+  isOnline: boolean
 ): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    await runTransaction(getDb(), async (trx) => {
-      const snap = await trx.get(docRef);
-      if (!snap.exists()) return; // no-op
-      const data = snap.data() as FirestoreGameRoom;
-      if (!data.players[playerId]) return;
-      const isSetter = data.setterId === playerId;
-      const isHost = data.hostId === playerId;
-      const remainingIds = Object.keys(data.players).filter(
-        (id) => id !== playerId
-      );
-      const updates: Record<string, unknown> = {
-        [`players.${playerId}`]: deleteField(),
-        updatedAt: serverTimestamp(),
-      };
+    await updateDoc(doc(getRoomsCollection(), roomId), {
+      [`players.${playerId}.isOnline`]: isOnline,
+      [`players.${playerId}.lastActive`]: serverTimestamp(),
+    });
+  } catch (error) {
+    console.warn("Failed to update presence:", error);
+  }
+};
 
-      // Transfer host to next player if leaving player is host
-      if (isHost && remainingIds.length > 0) {
-        updates.hostId = remainingIds[0];
-      } else if (isHost && remainingIds.length === 0) {
-        updates.hostId = null;
-      }
+export const sendHeartbeat = (roomId: RoomId, playerId: PlayerId) =>
+  setPresence(roomId, playerId, true);
 
-      // Transfer setter role if leaving player is setter
-      if (isSetter && remainingIds.length > 0) {
-        updates.setterId = remainingIds[0];
-        updates[`players.${remainingIds[0]}.role`] = "setter";
-      }
-      trx.update(docRef, updates);
-    });
+export const markOffline = (roomId: RoomId, playerId: PlayerId) =>
+  setPresence(roomId, playerId, false);
+
+/**
+ * Take a player out of the room: themselves when leaving, anyone else only
+ * when the host removes them. The server hands on their roles and turns and
+ * refreshes everyone's view.
+ */
+export const leaveRoom = async (
+  roomId: RoomId,
+  playerId: PlayerId,
+  requesterId: PlayerId
+): Promise<void> => {
+  try {
+    await postRoomAction(
+      roomId,
+      playerId === requesterId
+        ? { type: "leave_room" }
+        : { type: "remove_player", playerId }
+    );
   } catch (error) {
     handleFirebaseError(error);
   }
@@ -342,32 +396,10 @@ export const leaveRoom = async (
 
 export const setSecretWord = async (
   roomId: RoomId,
-  setterId: PlayerId,
   word: string
 ): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    const upper = word.trim().toUpperCase();
-
-    // Validate that word contains only alphabets
-    if (!/^[A-Z]+$/.test(upper)) {
-      throw new Error("INVALID_WORD_FORMAT");
-    }
-
-    await runTransaction(getDb(), async (trx) => {
-      const snap = await trx.get(docRef);
-      if (!snap.exists()) throw new Error("ROOM_NOT_FOUND");
-      const data = snap.data() as FirestoreGameRoom;
-      if (data.setterId !== setterId) throw new Error("NOT_SETTER");
-      if (data.phase !== "lobby" && data.phase !== "setting")
-        throw new Error("INVALID_PHASE");
-      trx.update(docRef, {
-        secretWord: upper,
-        phase: "signulls",
-        revealedCount: INITIAL_REVEALED_COUNT,
-        updatedAt: serverTimestamp(),
-      });
-    });
+    await postRoomAction(roomId, { type: "set_secret_word", word });
   } catch (error) {
     handleFirebaseError(error);
   }
@@ -375,71 +407,16 @@ export const setSecretWord = async (
 
 export const addSignull = async (
   roomId: RoomId,
-  playerId: PlayerId,
   word: string,
   clue: string
 ): Promise<SignullId> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    const signullId = generateSignullId();
-    await runTransaction(getDb(), async (trx) => {
-      const snap = await trx.get(docRef);
-      if (!snap.exists()) throw new Error("ROOM_NOT_FOUND");
-      const data = snap.data() as FirestoreGameRoom;
-      if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
-      const player = data.players[playerId];
-      if (!player) throw new Error("PLAYER_NOT_FOUND");
-      if (player.role !== "guesser") throw new Error("ONLY_GUESSER_CAN_CREATE");
-      const playMode = data.settings.playMode;
-      const upperWord = word.trim().toUpperCase();
-
-      // Prefix Mode Validation
-      if (data.settings.prefixMode) {
-        const revealedCount = getRevealedCount(data);
-        const requiredPrefix = data.secretWord.slice(0, revealedCount);
-        if (!upperWord.startsWith(requiredPrefix)) {
-          throw new Error(`WORD_MUST_START_WITH_${requiredPrefix}`);
-        }
-      }
-
-      const isFinal = upperWord === data.secretWord;
-      const newEntry: FirestoreSignullEntry = {
-        id: signullId,
-        playerId,
-        word: upperWord,
-        clue,
-        connects: [],
-        isFinal,
-        status: "pending",
-        createdAt: serverTimestamp() as Timestamp,
-      };
-
-      const currentOrder = data.signullState.order || {};
-      const revealedCount = getRevealedCount(data);
-      const stageKey = String(revealedCount);
-      const currentStageList = currentOrder[stageKey] || [];
-      const newStageList = [...currentStageList, signullId];
-
-      // Calculate flattened order for activeIndex
-      const newOrder = { ...currentOrder, [stageKey]: newStageList };
-      const sortedKeys = Object.keys(newOrder)
-        .map(Number)
-        .sort((a, b) => a - b);
-      const flattenedOrder = sortedKeys.reduce(
-        (acc, key) => acc.concat(newOrder[String(key)]),
-        [] as string[]
-      );
-
-      const activeIndex =
-        playMode === "round_robin" ? flattenedOrder.length - 1 : null;
-
-      trx.update(docRef, {
-        "signullState.order": newOrder,
-        "signullState.activeIndex": activeIndex,
-        [`signullState.itemsById.${signullId}`]: newEntry,
-        updatedAt: serverTimestamp(),
-      });
+    const { signullId } = await postRoomAction(roomId, {
+      type: "add_signull",
+      word,
+      clue,
     });
+    if (!signullId) throw new Error("SERVER_ERROR");
     return signullId;
   } catch (error) {
     handleFirebaseError(error);
@@ -447,479 +424,78 @@ export const addSignull = async (
   }
 };
 
-// Helper to compute resolution outcome
-interface ResolutionResult {
-  status: SignullStatus;
-  gameEnded: boolean;
-  winner: GameState["winner"];
-  resolvedAt: FirestoreTimeValue | null;
-}
-
-// Exported for unit testing of resolution logic
-export const evaluateResolution = (
-  entry: FirestoreSignullEntry,
-  data: FirestoreGameRoom
-): ResolutionResult | null => {
-  if (entry.status !== "pending") return null; // already resolved/failed
-  const connectsRequired = data.settings.connectsRequired;
-  const guesserIds = Object.keys(data.players).filter(
-    (id) => data.players[id].role === "guesser"
-  );
-  const connects = entry.connects;
-  const correctCount = connects.filter((c) => c.isCorrect).length;
-  const setterBlocks = connects.some(
-    (c) => data.players[c.playerId]?.role === "setter" && c.isCorrect
-  );
-  if (setterBlocks) {
-    return {
-      status: "blocked",
-      gameEnded: false,
-      winner: data.winner,
-      resolvedAt: serverTimestamp(),
-    };
-  }
-  if (correctCount >= connectsRequired) {
-    return {
-      status: "resolved",
-      gameEnded: entry.isFinal, // Lightning signull ends game
-      winner: entry.isFinal ? "guessers" : data.winner,
-      resolvedAt: serverTimestamp(),
-    };
-  }
-  // Exclude the signull creator from the "all guessers attempted" check
-  const eligibleGuesserIds = guesserIds.filter((gid) => gid !== entry.playerId);
-  const allGuessersAttempted = eligibleGuesserIds.every((gid) =>
-    connects.some((c) => c.playerId === gid)
-  );
-  if (allGuessersAttempted && correctCount < connectsRequired) {
-    return {
-      status: "failed",
-      gameEnded: entry.isFinal, // Failed lightning signull ends game
-      winner: entry.isFinal ? "setter" : data.winner, // Setter wins if lightning signull fails
-      resolvedAt: serverTimestamp(),
-    };
+export const retractSignull = async (
+  roomId: RoomId,
+  signullId: SignullId
+): Promise<void> => {
+  try {
+    await postRoomAction(roomId, { type: "retract_signull", signullId });
+  } catch (error) {
+    handleFirebaseError(error);
   }
-  return null; // still pending
 };
 
-// ==================== Game Insights Computation ====================
-
-/**
- * Compute game insights based on player performance.
- * Returns max 2 insights, sorted by priority.
- * Falls back to "longest word vibe" if no notable insights found.
- */
-export const computeInsights = (
-  data: FirestoreGameRoom
-): FirestoreGameInsight[] => {
-  const insights: (FirestoreGameInsight & { priority: number })[] = [];
-  const players = data.players;
-  const signulls = Object.values(data.signullState.itemsById);
-  const resolvedSignulls = signulls.filter((s) => s.status === "resolved");
-  const blockedSignulls = signulls.filter((s) => s.status === "blocked");
-
-  // Helper to generate unique ID
-  let insightCounter = 0;
-  const genId = () => {
-    insightCounter += 1;
-    return `insight_${Date.now()}_${insightCounter.toString(36)}`;
-  };
-
-  // 1. Dynamic Duo: Two players who connected to each other's signulls ≥2 times
-  // Priority: 1 (highest)
-  const guesserIds = Object.keys(players).filter(
-    (id) => players[id].role === "guesser"
-  );
-  const mutualConnects: Record<string, Record<string, number>> = {};
-
-  for (const signull of signulls) {
-    const creatorId = signull.playerId;
-    if (!mutualConnects[creatorId]) mutualConnects[creatorId] = {};
-
-    for (const connect of signull.connects) {
-      const connecterId = connect.playerId;
-      // Only count correct connects from guessers
-      if (
-        connect.isCorrect &&
-        players[connecterId]?.role === "guesser" &&
-        connecterId !== creatorId
-      ) {
-        mutualConnects[creatorId][connecterId] =
-          (mutualConnects[creatorId][connecterId] || 0) + 1;
-      }
-    }
-  }
-
-  // Find pairs with mutual connects (each connected to other's signulls at least 2 times)
-  const qualifyingPairs: Array<{
-    p1: string;
-    p2: string;
-    totalConnects: number;
-  }> = [];
-
-  for (let i = 0; i < guesserIds.length; i++) {
-    for (let j = i + 1; j < guesserIds.length; j++) {
-      const p1 = guesserIds[i];
-      const p2 = guesserIds[j];
-      const p1ToP2 = mutualConnects[p1]?.[p2] || 0;
-      const p2ToP1 = mutualConnects[p2]?.[p1] || 0;
-
-      if (p1ToP2 >= 2 && p2ToP1 >= 2) {
-        const totalConnects = p1ToP2 + p2ToP1;
-        qualifyingPairs.push({ p1, p2, totalConnects });
-      }
-    }
-  }
-
-  // Find the maximum total connects among qualifying pairs
-  if (qualifyingPairs.length > 0) {
-    const maxConnects = Math.max(
-      ...qualifyingPairs.map((pair) => pair.totalConnects)
-    );
-
-    // Add all pairs that have the maximum connects
-    qualifyingPairs
-      .filter((pair) => pair.totalConnects === maxConnects)
-      .forEach((pair) => {
-        const name1 = players[pair.p1].name;
-        const name2 = players[pair.p2].name;
-        insights.push({
-          id: genId(),
-          type: "dynamic_duo",
-          playerIds: [pair.p1, pair.p2],
-          title: `${name1} & ${name2} are on the same wavelength!`,
-          subtitle: `Connected to each other's signulls ${pair.totalConnects} times`,
-          metadata: { connects: pair.totalConnects },
-          priority: 1,
-        });
-      });
-  }
-
-  // 2. OG Interceptor: Setter who intercepted ≥70% of signulls
-  // Priority: 2
-  if (signulls.length >= 3) {
-    const interceptRate = blockedSignulls.length / signulls.length;
-    if (interceptRate >= 0.7) {
-      const setterId = data.setterId;
-      const setterName = players[setterId]?.name || "Setter";
-      insights.push({
-        id: genId(),
-        type: "og_interceptor",
-        playerIds: [setterId],
-        title: `${setterName} is the OG Interceptor!`,
-        subtitle: `Blocked ${Math.round(interceptRate * 100)}% of all signulls`,
-        metadata: { percentage: Math.round(interceptRate * 100) },
-        priority: 2,
-      });
-    }
-  }
-
-  // 3. Signull Machine: Player who created ≥50% of resolved signulls
-  // Priority: 3
-  if (resolvedSignulls.length >= 2) {
-    const creatorCounts: Record<string, number> = {};
-    for (const signull of resolvedSignulls) {
-      creatorCounts[signull.playerId] =
-        (creatorCounts[signull.playerId] || 0) + 1;
-    }
-
-    for (const [playerId, count] of Object.entries(creatorCounts)) {
-      const percentage = count / resolvedSignulls.length;
-      if (percentage >= 0.5) {
-        const playerName = players[playerId]?.name || "Player";
-        insights.push({
-          id: genId(),
-          type: "signull_machine",
-          playerIds: [playerId],
-          title: `${playerName} is a Signull Machine!`,
-          subtitle: `Created ${count} of ${resolvedSignulls.length} resolved signulls`,
-          metadata: {
-            count,
-            total: resolvedSignulls.length,
-            percentage: Math.round(percentage * 100),
-          },
-          priority: 3,
-        });
-        break; // Only one signull machine
-      }
-    }
-  }
-
-  // 4. Knows-It-All: Player with ≥70% correct connect rate (min 3 connects)
-  // Priority: 4
-  const playerConnectStats: Record<string, { correct: number; total: number }> =
-    {};
-
-  for (const signull of signulls) {
-    for (const connect of signull.connects) {
-      const pid = connect.playerId;
-      if (players[pid]?.role === "guesser" && pid !== signull.playerId) {
-        if (!playerConnectStats[pid])
-          playerConnectStats[pid] = { correct: 0, total: 0 };
-        playerConnectStats[pid].total++;
-        if (connect.isCorrect) playerConnectStats[pid].correct++;
-      }
-    }
+export const editSignullClue = async (
+  roomId: RoomId,
+  signullId: SignullId,
+  clue: string
+): Promise<void> => {
+  try {
+    await postRoomAction(roomId, {
+      type: "edit_signull_clue",
+      signullId,
+      clue,
+    });
+  } catch (error) {
+    handleFirebaseError(error);
   }
+};
 
-  for (const [playerId, stats] of Object.entries(playerConnectStats)) {
-    if (stats.total >= 3) {
-      const rate = stats.correct / stats.total;
-      if (rate >= 0.7) {
-        const playerName = players[playerId]?.name || "Player";
-        insights.push({
-          id: genId(),
-          type: "knows_it_all",
-          playerIds: [playerId],
-          title: `${playerName} knows-it-all!`,
-          subtitle: `Connected correctly ${Math.round(rate * 100)}% of the time`,
-          metadata: {
-            percentage: Math.round(rate * 100),
-            correct: stats.correct,
-            total: stats.total,
-          },
-          priority: 4,
-        });
-        break; // Only one knows-it-all
-      }
-    }
+export const challengeSignull = async (
+  roomId: RoomId,
+  signullId: SignullId
+): Promise<void> => {
+  try {
+    await postRoomAction(roomId, { type: "challenge_signull", signullId });
+  } catch (error) {
+    handleFirebaseError(error);
   }
+};
 
-  // Sort by priority and take top 2
-  insights.sort((a, b) => a.priority - b.priority);
-  const topInsights = insights.slice(0, 2);
-
-  // 5. Fallback: Longest Word Vibe (if we have less than 2 insights)
-  // Priority: 5 (lowest, always last)
-  if (topInsights.length < 2 && resolvedSignulls.length > 0) {
-    // Find the longest word from resolved signulls
-    let longestSignull = resolvedSignulls[0];
-
-    // Additional safety check to handle edge cases
-    if (!longestSignull) {
-      return topInsights.map(({ priority, ...insight }) => insight);
-    }
-
-    for (const signull of resolvedSignulls) {
-      if (signull.word.length > longestSignull.word.length) {
-        longestSignull = signull;
-      }
-    }
-
-    const creatorName = players[longestSignull.playerId]?.name || "Someone";
-    const word = longestSignull.word;
-
-    topInsights.push({
-      id: genId(),
-      type: "longest_word_vibe",
-      playerIds: [longestSignull.playerId],
-      title: `${creatorName} made everyone vibe on "${word}"!`,
-      subtitle: `That's a ${word.length}-letter connection. Crazy!`,
-      metadata: { word, length: word.length },
-      priority: 5,
+export const voteChallenge = async (
+  roomId: RoomId,
+  signullId: SignullId,
+  uphold: boolean
+): Promise<void> => {
+  try {
+    await postRoomAction(roomId, {
+      type: "vote_challenge",
+      signullId,
+      uphold,
     });
+  } catch (error) {
+    handleFirebaseError(error);
   }
+};
 
-  // Remove priority field before returning
-  return topInsights.map(({ priority, ...insight }) => insight);
+export const skipTurn = async (roomId: RoomId): Promise<void> => {
+  try {
+    await postRoomAction(roomId, { type: "skip_turn" });
+  } catch (error) {
+    handleFirebaseError(error);
+  }
 };
 
 export const submitConnect = async (
   roomId: RoomId,
-  playerId: PlayerId,
   signullId?: SignullId, // if provided, targets specific signull; in round_robin falls back to activeIndex if not provided
   guess?: string
 ): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    const upperGuess = (guess || "").trim().toUpperCase();
-    await runTransaction(getDb(), async (trx) => {
-      const snap = await trx.get(docRef);
-      if (!snap.exists()) throw new Error("ROOM_NOT_FOUND");
-      const data = snap.data() as FirestoreGameRoom;
-
-      if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
-      const player = data.players[playerId];
-      if (!player) throw new Error("PLAYER_NOT_FOUND");
-
-      // Helper to flatten order
-      const getFlattenedOrder = (order: Record<string, SignullId[]>) => {
-        const keys = Object.keys(order || {})
-          .map(Number)
-          .sort((a, b) => a - b);
-        return keys.reduce(
-          (acc, key) => acc.concat(order[String(key)]),
-          [] as SignullId[]
-        );
-      };
-
-      // Determine target signull
-      // Use the explicitly passed signullId if provided, otherwise fall back to activeIndex in round_robin mode
-      let targetId: SignullId | undefined = signullId;
-      if (!targetId && data.settings.playMode === "round_robin") {
-        const idx = data.signullState.activeIndex;
-        if (idx === null) throw new Error("NO_ACTIVE_SIGNULL");
-        const flattenedOrder = getFlattenedOrder(data.signullState.order);
-        targetId = flattenedOrder[idx];
-      }
-      if (!targetId) throw new Error("SIGNULL_ID_REQUIRED");
-      const entry = data.signullState.itemsById[targetId];
-      if (!entry) throw new Error("SIGNULL_NOT_FOUND");
-      if (entry.status !== "pending") throw new Error("SIGNULL_NOT_PENDING");
-      // Prevent duplicate from same player (unless setter)
-      if (
-        player.role !== "setter" &&
-        entry.connects.some((c) => c.playerId === playerId)
-      ) {
-        throw new Error("ALREADY_CONNECTED");
-      }
-      const isCorrect = upperGuess === entry.word;
-      const newConnect = {
-        playerId,
-        guess: upperGuess,
-        timestamp: Timestamp.now(),
-        isCorrect,
-      };
-      entry.connects.push(newConnect);
-
-      // ==================== Scoring Logic ====================
-      let scoreResult: ScoreResult = { updates: {}, events: [] };
-
-      // Award points for setter intercept only
-      // Guessers don't get immediate points - they'll get +5 when signull resolves
-      if (isCorrect && player.role === "setter") {
-        // Setter intercepted the signull
-        scoreResult = mergeScoreResults(
-          scoreResult,
-          calculateInterceptScore(playerId, targetId)
-        );
-      }
-
-      // Evaluate resolution
-      const resolution = evaluateResolution(entry, data);
-      let newRevealedCount = getRevealedCount(data);
-
-      if (resolution) {
-        entry.status = resolution.status;
-        if (resolution.resolvedAt) entry.resolvedAt = resolution.resolvedAt;
-        if (resolution.status === "resolved") {
-          newRevealedCount++;
-
-          // Check if all letters are revealed - guessers win!
-          if (newRevealedCount >= data.secretWord.length) {
-            data.phase = "ended";
-            data.winner = "guessers";
-            resolution.gameEnded = true;
-            resolution.winner = "guessers";
-          }
-
-          // Award points for signull being resolved
-          scoreResult = mergeScoreResults(
-            scoreResult,
-            calculateSignullResolvedScore(entry, data)
-          );
-
-          // Invalidate other pending signulls if one is resolved
-          // This prevents multiple signulls from being active/resolved simultaneously
-          // when they were all pending at the same time.
-          const flattenedOrder = getFlattenedOrder(data.signullState.order);
-          const otherPendingIds = flattenedOrder.filter(
-            (id) =>
-              id !== targetId &&
-              data.signullState.itemsById[id].status === "pending"
-          );
-
-          otherPendingIds.forEach((id) => {
-            const pendingEntry = data.signullState.itemsById[id];
-            if (pendingEntry) {
-              pendingEntry.status = "inactive";
-              pendingEntry.resolvedAt = serverTimestamp();
-            }
-          });
-        } else if (resolution.status === "failed") {
-          // Award points for failed lightning signull
-          // (creator and correct connectors get bonus points)
-          scoreResult = mergeScoreResults(
-            scoreResult,
-            calculateFailedLightningSignullScore(entry, data)
-          );
-        }
-      }
-      // Advance activeIndex for round_robin if resolved/failed/blocked
-      if (
-        data.settings.playMode === "round_robin" &&
-        resolution &&
-        ["resolved", "failed", "blocked"].includes(resolution.status)
-      ) {
-        const flattenedOrder = getFlattenedOrder(data.signullState.order);
-        const pendingIds = flattenedOrder.filter(
-          (id) => data.signullState.itemsById[id].status === "pending"
-        );
-        if (pendingIds.length === 0) {
-          data.signullState.activeIndex = null;
-        } else {
-          const nextId = pendingIds[0];
-          data.signullState.activeIndex = flattenedOrder.indexOf(nextId);
-        }
-        if (resolution.gameEnded) {
-          data.phase = "ended";
-          data.winner = resolution.winner;
-        }
-      } else if (resolution?.gameEnded) {
-        data.phase = "ended";
-        data.winner = resolution.winner;
-      }
-
-      // Calculate game end scores if the game ended
-      if (resolution?.gameEnded && resolution.winner) {
-        scoreResult = mergeScoreResults(
-          scoreResult,
-          calculateGameEndScore(data, resolution.winner)
-        );
-      }
-
-      // Convert score events to Firestore format
-      // Note: Using Timestamp.now() because serverTimestamp() is not supported inside arrays
-      const firestoreScoreEvents: FirestoreScoreEvent[] =
-        scoreResult.events.map((e) => ({
-          playerId: e.playerId,
-          delta: e.delta,
-          reason: e.reason,
-          timestamp: Timestamp.now(),
-          details: e.details,
-        }));
-
-      // Build the update object with score increments
-      const updatePayload: Record<string, unknown> = {
-        signullState: data.signullState,
-        phase: data.phase,
-        winner: data.winner ?? null,
-        revealedCount: newRevealedCount,
-        updatedAt: serverTimestamp(),
-      };
-
-      // Compute and store insights if game ended
-      if (resolution?.gameEnded) {
-        updatePayload.insights = computeInsights(data);
-      }
-
-      // Append score events to existing array
-      if (firestoreScoreEvents.length > 0) {
-        const existingEvents = data.scoreEvents || [];
-        updatePayload.scoreEvents = [
-          ...existingEvents,
-          ...firestoreScoreEvents,
-        ];
-      }
-
-      // Apply score updates using atomic increment
-      for (const [pid, delta] of Object.entries(scoreResult.updates)) {
-        if (delta !== 0) {
-          updatePayload[`players.${pid}.score`] = increment(delta);
-        }
-      }
-
-      trx.update(docRef, updatePayload);
+    await postRoomAction(roomId, {
+      type: "submit_connect",
+      guess: guess || "",
+      signullId,
     });
   } catch (error) {
     handleFirebaseError(error);
@@ -928,130 +504,95 @@ export const submitConnect = async (
 
 export const submitDirectGuess = async (
   roomId: RoomId,
-  playerId: PlayerId,
   guess: string
 ): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    const upperGuess = guess.trim().toUpperCase();
-    await runTransaction(getDb(), async (trx) => {
-      const snap = await trx.get(docRef);
-      if (!snap.exists()) throw new Error("ROOM_NOT_FOUND");
-      const data = snap.data() as FirestoreGameRoom;
-      if (data.phase !== "signulls") throw new Error("INVALID_PHASE");
-      const player = data.players[playerId];
-      if (!player || player.role !== "guesser") throw new Error("NOT_GUESSER");
-      if (data.directGuessesLeft <= 0) throw new Error("NO_GUESSES_LEFT");
-      const remaining = data.directGuessesLeft - 1;
-      const lastDirectGuess = {
-        playerId,
-        playerName: player.name,
-        word: upperGuess,
-        timestamp: serverTimestamp(),
-      };
-
-      const isCorrect = upperGuess === data.secretWord;
-
-      // Calculate direct guess score (bonus/penalty based on remaining letters)
-      let scoreResult: ScoreResult = calculateDirectGuessScore(
-        playerId,
-        isCorrect,
-        data,
-        upperGuess
-      );
-
-      // Helper to convert events to Firestore format and build update payload
-      const buildUpdatePayload = (
-        basePayload: Record<string, unknown>,
-        result: ScoreResult
-      ): Record<string, unknown> => {
-        const payload = { ...basePayload };
-
-        // Convert score events to Firestore format
-        // Note: Using Timestamp.now() because serverTimestamp() is not supported inside arrays
-        const firestoreScoreEvents: FirestoreScoreEvent[] = result.events.map(
-          (e) => ({
-            playerId: e.playerId,
-            delta: e.delta,
-            reason: e.reason,
-            timestamp: Timestamp.now(),
-            details: e.details,
-          })
-        );
-
-        // Append score events to existing array
-        if (firestoreScoreEvents.length > 0) {
-          const existingEvents = data.scoreEvents || [];
-          payload.scoreEvents = [...existingEvents, ...firestoreScoreEvents];
-        }
-
-        // Apply score updates using atomic increment
-        for (const [pid, delta] of Object.entries(result.updates)) {
-          if (delta !== 0) {
-            payload[`players.${pid}.score`] = increment(delta);
-          }
-        }
+    await postRoomAction(roomId, { type: "submit_direct_guess", guess });
+  } catch (error) {
+    handleFirebaseError(error);
+  }
+};
 
-        return payload;
-      };
+export const proposeDirectGuess = async (
+  roomId: RoomId,
+  guess: string
+): Promise<DirectGuessProposalId> => {
+  try {
+    const { proposalId } = await postRoomAction(roomId, {
+      type: "propose_direct_guess",
+      guess,
+    });
+    if (!proposalId) throw new Error("SERVER_ERROR");
+    return proposalId;
+  } catch (error) {
+    handleFirebaseError(error);
+    throw error;
+  }
+};
 
-      if (isCorrect) {
-        // Calculate game end scores for guessers winning
-        scoreResult = mergeScoreResults(
-          scoreResult,
-          calculateGameEndScore(data, "guessers")
-        );
+export const voteDirectGuess = async (
+  roomId: RoomId,
+  proposalId: DirectGuessProposalId,
+  approve: boolean
+): Promise<void> => {
+  try {
+    await postRoomAction(roomId, {
+      type: "vote_direct_guess",
+      proposalId,
+      approve,
+    });
+  } catch (error) {
+    handleFirebaseError(error);
+  }
+};
 
-        const updatePayload = buildUpdatePayload(
-          {
-            winner: "guessers",
-            phase: "ended",
-            directGuessesLeft: remaining,
-            lastDirectGuess,
-            insights: computeInsights(data),
-            updatedAt: serverTimestamp(),
-          },
-          scoreResult
-        );
+/**
+ * Ask the server to close out anything past its deadline (setting phase or
+ * pending signulls). Any client may call this when its countdown reaches
+ * zero; the server decides against its own clock and ignores early calls.
+ */
+export const expireDeadlines = async (roomId: RoomId): Promise<void> => {
+  await postRoomAction(roomId, { type: "expire_deadlines" });
+};
 
-        trx.update(docRef, updatePayload);
-      } else {
-        // Wrong guess
-        if (remaining <= 0) {
-          // Out of guesses - setter wins!
-          scoreResult = mergeScoreResults(
-            scoreResult,
-            calculateGameEndScore(data, "setter")
-          );
+// Host recovery for a game that can't move on by itself; the server checks
+// that the requester is the host and logs each one on the room
+export const forceFailSignull = async (
+  roomId: RoomId,
+  signullId: SignullId
+): Promise<void> => {
+  try {
+    await postRoomAction(roomId, { type: "force_fail_signull", signullId });
+  } catch (error) {
+    handleFirebaseError(error);
+  }
+};
 
-          const updatePayload = buildUpdatePayload(
-            {
-              winner: "setter",
-              phase: "ended",
-              insights: computeInsights(data),
-              directGuessesLeft: 0,
-              lastDirectGuess,
-              updatedAt: serverTimestamp(),
-            },
-            scoreResult
-          );
+export const forceSkipTurn = async (
+  roomId: RoomId,
+  turnKey: TurnKey
+): Promise<void> => {
+  try {
+    await postRoomAction(roomId, { type: "force_skip_turn", turnKey });
+  } catch (error) {
+    handleFirebaseError(error);
+  }
+};
 
-          trx.update(docRef, updatePayload);
-        } else {
-          // Still have guesses remaining
-          const updatePayload = buildUpdatePayload(
-            {
-              directGuessesLeft: remaining,
-              lastDirectGuess,
-              updatedAt: serverTimestamp(),
-            },
-            scoreResult
-          );
+export const reassignSetter = async (
+  roomId: RoomId,
+  playerId: PlayerId
+): Promise<void> => {
+  try {
+    await postRoomAction(roomId, { type: "reassign_setter", playerId });
+  } catch (error) {
+    handleFirebaseError(error);
+  }
+};
 
-          trx.update(docRef, updatePayload);
-        }
-      }
-    });
+export const voidRound = async (roomId: RoomId): Promise<void> => {
+  try {
+    await postRoomAction(roomId, { type: "void_round" });
   } catch (error) {
     handleFirebaseError(error);
   }
@@ -1062,47 +603,76 @@ export const endGame = async (
   winner: GameState["winner"]
 ): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    await updateDoc(docRef, {
-      phase: "ended",
-      winner: winner,
-      updatedAt: serverTimestamp(),
-    });
+    await postRoomAction(roomId, { type: "end_game", winner });
   } catch (error) {
     handleFirebaseError(error);
   }
 };
 
+/**
+ * Subscribe to a room as seen by `viewerId`: the public room document with
+ * that player's view (their own hidden values) laid over it. Display devices
+ * pass no viewer and only ever see the public projection.
+ */
 export const subscribeToRoom = (
   roomId: RoomId,
-  callback: (state: GameState | null, error?: GameError) => void
+  callback: (state: GameState | null, error?: GameError) => void,
+  viewerId?: PlayerId
 ) => {
   const docRef = doc(getRoomsCollection(), roomId);
-  return onSnapshot(
+  let publicData: FirestoreGameRoom | null = null;
+  let view: FirestorePlayerView | null = null;
+
+  const emit = () => {
+    if (!publicData) return;
+    try {
+      callback(firestoreToGameState(applyPlayerView(publicData, view)));
+    } catch (e) {
+      callback(null, { code: "PARSE_ERROR", message: (e as Error).message });
+    }
+  };
+
+  const unsubRoom = onSnapshot(
     docRef,
     (snap) => {
       if (!snap.exists()) {
+        publicData = null;
         callback(null);
         return;
       }
-      try {
-        const data = snap.data() as FirestoreGameRoom;
-        if (data.schemaVersion !== 2) {
-          callback(null, {
-            code: "UNSUPPORTED_VERSION",
-            message: "Schema version mismatch",
-          });
-          return;
-        }
-        callback(firestoreToGameState(data));
-      } catch (e) {
-        callback(null, { code: "PARSE_ERROR", message: (e as Error).message });
+      const data = snap.data() as FirestoreGameRoom;
+      if (data.schemaVersion !== 2) {
+        callback(null, {
+          code: "UNSUPPORTED_VERSION",
+          message: "Schema version mismatch",
+        });
+        return;
       }
+      publicData = data;
+      emit();
     },
     (err) => {
       callback(null, { code: "SUBSCRIBE_ERROR", message: err.message });
     }
   );
+
+  const unsubView = viewerId
+    ? onSnapshot(
+        doc(docRef, VIEWS_COLLECTION, viewerId),
+        (snap) => {
+          view = snap.exists() ? (snap.data() as FirestorePlayerView) : null;
+          emit();
+        },
+        (err) => {
+          callback(null, { code: "SUBSCRIBE_ERROR", message: err.message });
+        }
+      )
+    : null;
+
+  return () => {
+    unsubRoom();
+    unsubView?.();
+  };
 };
 
 export const checkRoomExists = async (roomId: RoomId): Promise<boolean> => {
@@ -1118,18 +688,16 @@ export const checkRoomExists = async (roomId: RoomId): Promise<boolean> => {
   }
 };
 
+/**
+ * Change the room's settings. The server holds every change to the settings
+ * schema and the room (players seated, round in progress) before saving it.
+ */
 export const updateGameSettings = async (
   roomId: RoomId,
   settings: Partial<GameSettings>
 ): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    const updates: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(settings)) {
-      updates[`settings.${key}`] = value;
-    }
-    updates.updatedAt = serverTimestamp();
-    await updateDoc(docRef, updates);
+    await postRoomAction(roomId, { type: "update_settings", settings });
   } catch (error) {
     handleFirebaseError(error);
   }
@@ -1138,9 +706,12 @@ export const updateGameSettings = async (
 export const updatePlayerName = async (
   roomId: RoomId,
   playerId: PlayerId,
-  newName: string
+  newName: string,
+  requesterId: PlayerId
 ): Promise<void> => {
   try {
+    // Players only ever rename themselves
+    if (requesterId !== playerId) throw new Error("NOT_AUTHORIZED");
     const docRef = doc(getRoomsCollection(), roomId);
     await runTransaction(getDb(), async (trx) => {
       const snap = await trx.get(docRef);
@@ -1167,32 +738,44 @@ export const updatePlayerName = async (
 
 export const changeSetter = async (
   roomId: RoomId,
-  newSetterId: PlayerId,
-  requesterId: PlayerId
+  newSetterId: PlayerId
 ): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    await runTransaction(getDb(), async (trx) => {
-      const snap = await trx.get(docRef);
-      if (!snap.exists()) throw new Error("ROOM_NOT_FOUND");
-      const data = snap.data() as FirestoreGameRoom;
-
-      // Only host can change setter
-      if (data.hostId !== requesterId) {
-        throw new Error("ONLY_HOST_CAN_CHANGE_SETTER");
-      }
-
-      if (!data.players[newSetterId]) throw new Error("PLAYER_NOT_FOUND");
+    await postRoomAction(roomId, {
+      type: "change_setter",
+      playerId: newSetterId,
+    });
+  } catch (error) {
+    handleFirebaseError(error);
+  }
+};
 
-      const oldSetterId = data.setterId;
+/**
+ * Move a guesser to a team (or back to auto-assignment with null) while in
+ * the lobby. Players pick their own team; the host may move anyone.
+ */
+export const setPlayerTeam = async (
+  roomId: RoomId,
+  playerId: PlayerId,
+  team: TeamId | null
+): Promise<void> => {
+  try {
+    await postRoomAction(roomId, { type: "set_player_team", playerId, team });
+  } catch (error) {
+    handleFirebaseError(error);
+  }
+};
 
-      trx.update(docRef, {
-        setterId: newSetterId,
-        [`players.${oldSetterId}.role`]: "guesser",
-        [`players.${newSetterId}.role`]: "setter",
-        updatedAt: serverTimestamp(),
-      });
-    });
+/**
+ * Give a spectator a seat as a guesser for the next round. Host only, from
+ * the lobby, and only while the room has a free seat.
+ */
+export const promoteSpectator = async (
+  roomId: RoomId,
+  playerId: PlayerId
+): Promise<void> => {
+  try {
+    await postRoomAction(roomId, { type: "promote_spectator", playerId });
   } catch (error) {
     handleFirebaseError(error);
   }
@@ -1200,36 +783,33 @@ export const changeSetter = async (
 
 export const startGame = async (roomId: RoomId): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-    await updateDoc(docRef, {
-      phase: "setting",
-      updatedAt: serverTimestamp(),
-    });
+    await postRoomAction(roomId, { type: "start_game" });
   } catch (error) {
     handleFirebaseError(error);
   }
 };
 
-// Start a new round while keeping existing scores intact
+/**
+ * Past rounds of a room, newest first.
+ */
+export const fetchRoundArchives = async (
+  roomId: RoomId
+): Promise<RoundArchive[]> => {
+  const archivesRef = collection(
+    doc(getRoomsCollection(), roomId),
+    ROUND_ARCHIVES_COLLECTION
+  );
+  const snap = await getDocs(query(archivesRef, orderBy("archivedAt", "desc")));
+  return snap.docs.map((d) =>
+    toRoundArchive(d.data() as FirestoreRoundArchive)
+  );
+};
+
+// Start the next round of the match (or a new match) while keeping existing
+// scores intact. The server archives the round that just ended.
 export const playAgain = async (roomId: RoomId): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-
-    await updateDoc(docRef, {
-      phase: "setting",
-      secretWord: deleteField(),
-      revealedCount: 0,
-      "signullState.order": {},
-      "signullState.itemsById": {},
-      "signullState.activeIndex": null,
-      directGuessesLeft: 3,
-      lastDirectGuess: null,
-      winner: deleteField(),
-      scoreEvents: [], // Clear score events for new round
-      scoreCountingComplete: false,
-      insights: [], // Clear insights for new round
-      updatedAt: serverTimestamp(),
-    });
+    await postRoomAction(roomId, { type: "play_again" });
   } catch (error) {
     handleFirebaseError(error);
   }
@@ -1240,56 +820,7 @@ export const backToLobby = async (
   resetScores: boolean = false
 ): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-
-    if (resetScores) {
-      // Use transaction to reset all player scores
-      await runTransaction(getDb(), async (trx) => {
-        const snap = await trx.get(docRef);
-        if (!snap.exists()) throw new Error("ROOM_NOT_FOUND");
-        const data = snap.data() as FirestoreGameRoom;
-
-        const updates: Record<string, unknown> = {
-          phase: "lobby",
-          secretWord: deleteField(),
-          revealedCount: 0,
-          "signullState.order": {},
-          "signullState.itemsById": {},
-          "signullState.activeIndex": null,
-          directGuessesLeft: 3,
-          lastDirectGuess: null,
-          winner: deleteField(),
-          scoreEvents: [], // Clear score events
-          scoreCountingComplete: false,
-          insights: [], // Clear insights
-          updatedAt: serverTimestamp(),
-        };
-
-        // Reset scores for all players
-        Object.keys(data.players).forEach((pid) => {
-          updates[`players.${pid}.score`] = 0;
-        });
-
-        trx.update(docRef, updates);
-      });
-    } else {
-      // Just reset game state, keep scores
-      await updateDoc(docRef, {
-        phase: "lobby",
-        secretWord: deleteField(),
-        revealedCount: 0,
-        "signullState.order": {},
-        "signullState.itemsById": {},
-        "signullState.activeIndex": null,
-        directGuessesLeft: 3,
-        lastDirectGuess: null,
-        winner: deleteField(),
-        scoreEvents: [], // Clear score events
-        scoreCountingComplete: false,
-        insights: [], // Clear insights
-        updatedAt: serverTimestamp(),
-      });
-    }
+    await postRoomAction(roomId, { type: "back_to_lobby", resetScores });
   } catch (error) {
     handleFirebaseError(error);
   }
@@ -1301,24 +832,7 @@ export const backToLobby = async (
  */
 export const resetScoresOnly = async (roomId: RoomId): Promise<void> => {
   try {
-    const docRef = doc(getRoomsCollection(), roomId);
-
-    await runTransaction(getDb(), async (trx) => {
-      const snap = await trx.get(docRef);
-      if (!snap.exists()) throw new Error("ROOM_NOT_FOUND");
-      const data = snap.data() as FirestoreGameRoom;
-
-      const updates: Record<string, unknown> = {
-        updatedAt: serverTimestamp(),
-      };
-
-      // Reset all player scores to 0
-      for (const playerId of Object.keys(data.players)) {
-        updates[`players.${playerId}.score`] = 0;
-      }
-
-      trx.update(docRef, updates);
-    });
+    await postRoomAction(roomId, { type: "reset_scores" });
   } catch (error) {
     handleFirebaseError(error);
   }
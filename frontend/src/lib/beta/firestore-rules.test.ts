@@ -0,0 +1,169 @@
+// @vitest-environment node
+import { readFileSync } from "fs";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, it, vi } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  deleteDoc,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from "firebase/firestore";
+
+// These tests talk to the Firestore emulator; run them with `pnpm test:rules`
+vi.unmock("firebase/app");
+vi.unmock("firebase/auth");
+vi.unmock("firebase/firestore");
+
+const ROOM_PATH = "game_rooms_v2/TEST01";
+
+const player = (name: string, role: string) => ({
+  name,
+  role,
+  isOnline: true,
+  lastActive: 0,
+  score: 0,
+});
+
+const room = {
+  hostId: "alice",
+  displayDeviceId: "screen",
+  setterId: "alice",
+  phase: "lobby",
+  players: {
+    alice: player("Alice", "setter"),
+    bob: player("Bob", "guesser"),
+  },
+  settings: { maxPlayers: 8 },
+  scoreCountingComplete: false,
+  updatedAt: 0,
+};
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)("firestore.rules", () => {
+  let env: RulesTestEnvironment;
+
+  const db = (uid: string | null) =>
+    uid
+      ? env.authenticatedContext(uid).firestore()
+      : env.unauthenticatedContext().firestore();
+
+  const update = (uid: string, data: Record<string, unknown>) =>
+    updateDoc(doc(db(uid), ROOM_PATH), {
+      ...data,
+      updatedAt: serverTimestamp(),
+    });
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: "demo-signull",
+      firestore: {
+        rules: readFileSync(
+          path.resolve(process.cwd(), "firestore.rules"),
+          "utf8"
+        ),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (context) => {
+      const firestore = context.firestore();
+      await setDoc(doc(firestore, ROOM_PATH), room);
+      await setDoc(doc(firestore, `${ROOM_PATH}/views/bob`), {
+        secretWord: null,
+      });
+      await setDoc(doc(firestore, `${ROOM_PATH}/private/secrets`), {
+        secretWord: "PLANET",
+      });
+    });
+  });
+
+  it("lets signed-in players read the room", async () => {
+    await assertSucceeds(getDoc(doc(db("erin"), ROOM_PATH)));
+    await assertFails(getDoc(doc(db(null), ROOM_PATH)));
+  });
+
+  it("leaves creating and deleting rooms to the server", async () => {
+    await assertFails(setDoc(doc(db("erin"), "game_rooms_v2/TEST02"), room));
+    await assertFails(deleteDoc(doc(db("alice"), ROOM_PATH)));
+  });
+
+  it("lets a player update their own presence and name", async () => {
+    await assertSucceeds(
+      update("bob", {
+        "players.bob.isOnline": false,
+        "players.bob.lastActive": serverTimestamp(),
+      })
+    );
+    await assertSucceeds(update("bob", { "players.bob.name": "Bobby" }));
+  });
+
+  it.each([
+    ["an empty name", { "players.bob.name": "" }],
+    ["a long name", { "players.bob.name": "B".repeat(65) }],
+    ["their own role", { "players.bob.role": "setter" }],
+    ["their own score", { "players.bob.score": 100 }],
+    [
+      "their heartbeat to a time of their own",
+      { "players.bob.lastActive": new Date(Date.now() + 86_400_000) },
+    ],
+    ["someone else's entry", { "players.alice.isOnline": false }],
+    ["the room's settings", { "settings.maxPlayers": 3 }],
+  ])("stops a player changing %s", async (_, data) => {
+    await assertFails(update("bob", data));
+  });
+
+  it("gives the host no more client writes than anyone else", async () => {
+    await assertFails(update("alice", { phase: "setting" }));
+    await assertFails(update("alice", { hostId: "bob" }));
+    await assertFails(update("alice", { "players.bob.role": "spectator" }));
+  });
+
+  it("keeps non-members from adding themselves", async () => {
+    await assertFails(
+      update("erin", { "players.erin": player("Erin", "guesser") })
+    );
+  });
+
+  describe("finishing the score count", () => {
+    const endRound = () =>
+      env.withSecurityRulesDisabled((context) =>
+        updateDoc(doc(context.firestore(), ROOM_PATH), { phase: "ended" })
+      );
+
+    it("is left to the room's display device and players", async () => {
+      await endRound();
+      await assertSucceeds(update("screen", { scoreCountingComplete: true }));
+      await assertSucceeds(update("bob", { scoreCountingComplete: true }));
+      await assertFails(update("erin", { scoreCountingComplete: true }));
+    });
+
+    it("waits for the round to end", async () => {
+      await assertFails(update("screen", { scoreCountingComplete: true }));
+    });
+  });
+
+  it("shows each player only their own view", async () => {
+    await assertSucceeds(getDoc(doc(db("bob"), `${ROOM_PATH}/views/bob`)));
+    await assertFails(getDoc(doc(db("alice"), `${ROOM_PATH}/views/bob`)));
+    await assertFails(
+      setDoc(doc(db("bob"), `${ROOM_PATH}/views/bob`), { secretWord: "X" })
+    );
+  });
+
+  it("keeps secrets from every client", async () => {
+    await assertFails(getDoc(doc(db("alice"), `${ROOM_PATH}/private/secrets`)));
+  });
+});
@@ -13,6 +13,8 @@
  * - Support for notification priorities and auto-dismiss
  */
 
+import type { RecoveryAction } from "./types";
+
 export type NotificationCategory =
   | "signull" // Signull-related events
   | "connect" // Connect/response events
@@ -71,6 +73,36 @@ export const NotificationTemplates = {
     priority: "normal" as const,
     message: `${clueGiverName}'s Signull failed`,
   }),
+  SIGNULL_TIMED_OUT: (clueGiverName: string) => ({
+    category: "signull" as const,
+    priority: "normal" as const,
+    message: `${clueGiverName}'s Signull ran out of time`,
+  }),
+  SIGNULL_RETRACTED: (clueGiverName: string) => ({
+    category: "signull" as const,
+    priority: "normal" as const,
+    message: `${clueGiverName} withdrew a Signull`,
+  }),
+  SIGNULL_CHALLENGED: (challengerName: string, clueGiverName: string) => ({
+    category: "signull" as const,
+    priority: "high" as const,
+    message: `${challengerName} challenged ${clueGiverName}'s clue. Vote now`,
+  }),
+  SIGNULL_VETOED: (clueGiverName: string) => ({
+    category: "signull" as const,
+    priority: "high" as const,
+    message: `${clueGiverName}'s clue was vetoed`,
+  }),
+  SIGNULL_CHALLENGE_DISMISSED: (clueGiverName: string) => ({
+    category: "signull" as const,
+    priority: "normal" as const,
+    message: `${clueGiverName}'s clue stands`,
+  }),
+  SIGNULL_CLUE_EDITED: (clueGiverName: string) => ({
+    category: "signull" as const,
+    priority: "normal" as const,
+    message: `${clueGiverName} edited their clue`,
+  }),
 
   // Connect Events
   CONNECT_SENT_SELF: (targetName: string) => ({
@@ -107,15 +139,68 @@ export const NotificationTemplates = {
     priority: "high" as const,
     message: `Letter ${position + 1} revealed: ${letter}`,
   }),
+  YOUR_TURN: () => ({
+    category: "game" as const,
+    priority: "high" as const,
+    message: "Your turn to send a Signull",
+  }),
+  SETTER_TIMED_OUT: (previousSetterName: string, newSetterName: string) => ({
+    category: "game" as const,
+    priority: "high" as const,
+    message: `${previousSetterName} ran out of time. ${newSetterName} is the setter now`,
+  }),
+  CONNECTS_REBALANCED: (from: number, to: number) => ({
+    category: "game" as const,
+    priority: "high" as const,
+    message: `Not enough guessers left for ${from} connects. Signulls now need ${to}`,
+  }),
+  HOST_RECOVERED: (action: RecoveryAction) => ({
+    category: "game" as const,
+    priority: "high" as const,
+    message: {
+      force_fail_signull: "The host failed a signull nobody could answer",
+      force_skip_turn: "The host skipped a turn",
+      reassign_setter: "The host picked a new setter",
+      void_round: "The host voided the round",
+    }[action],
+  }),
   SECRET_WORD_SET: () => ({
     category: "game" as const,
     priority: "normal" as const,
     message: "Secret word has been set!",
   }),
-  DIRECT_GUESS_USED: (playerName: string, word: string, remaining: number) => ({
+  // remaining is null when the room has unlimited guesses
+  DIRECT_GUESS_USED: (
+    playerName: string,
+    word: string,
+    remaining: number | null
+  ) => ({
     category: "game" as const,
     priority: "high" as const,
-    message: `${playerName} guessed "${word}" directly (${remaining} guess${remaining === 1 ? "" : "es"} left)`,
+    message:
+      remaining === null
+        ? `${playerName} guessed "${word}" directly`
+        : `${playerName} guessed "${word}" directly (${remaining} guess${remaining === 1 ? "" : "es"} left)`,
+  }),
+  DIRECT_GUESS_PROPOSED: (playerName: string, word: string) => ({
+    category: "game" as const,
+    priority: "high" as const,
+    message: `${playerName} wants to guess "${word}". Vote now`,
+  }),
+  DIRECT_GUESS_VOTE_CAST: (playerName: string, approve: boolean) => ({
+    category: "game" as const,
+    priority: "low" as const,
+    message: `${playerName} voted ${approve ? "yes" : "no"}`,
+  }),
+  DIRECT_GUESS_REJECTED: (word: string) => ({
+    category: "game" as const,
+    priority: "normal" as const,
+    message: `"${word}" was voted down`,
+  }),
+  DIRECT_GUESS_VOTE_EXPIRED: (word: string) => ({
+    category: "game" as const,
+    priority: "normal" as const,
+    message: `Vote on "${word}" ran out of time`,
   }),
 
   // Player Events
@@ -259,17 +344,53 @@ export const NotificationStyles: Record<
 export const GameErrorMessages: Record<string, string> = {
   ROOM_NOT_FOUND: "Room not found",
   ROOM_FULL: "Room is full",
-  NOT_SETTER: "Only setter can do this",
+  NO_ROOM_CODE_AVAILABLE: "Couldn't find a free room code. Please try again",
   INVALID_PHASE: "Action not allowed now",
   PLAYER_NOT_FOUND: "Player not found",
-  ONLY_GUESSER_CAN_CREATE: "Only guessers can create Signulls",
   NO_ACTIVE_SIGNULL: "No active Signull",
   SIGNULL_ID_REQUIRED: "Signull ID required",
   SIGNULL_NOT_FOUND: "Signull not found",
   SIGNULL_NOT_PENDING: "Signull already resolved",
   ALREADY_CONNECTED: "You already connected",
-  NOT_GUESSER: "Only guessers can do this",
+  NO_INTERCEPTS_LEFT: "No intercepts left on this Signull",
+  NOT_AUTHORIZED: "Your role can't do that",
   NO_GUESSES_LEFT: "No guesses left",
   INVALID_WORD_FORMAT: "Only alphabets allowed",
-  ONLY_HOST_CAN_CHANGE_SETTER: "Only the host can change the setter",
+  WORD_NOT_IN_DICTIONARY: "Not a word in the dictionary",
+  TEAMS_TOO_SMALL: "Each team needs at least 2 guessers",
+  NOT_YOUR_TEAM: "That Signull belongs to the other team",
+  NOT_ON_A_TEAM: "You're not on a team this round",
+  NOT_YOUR_TURN: "Wait for your turn to send a Signull",
+  SIGNULL_ALREADY_SENT: "You already sent a Signull this turn",
+  TURNS_DISABLED: "This room doesn't take turns",
+  SPECTATORS_CANNOT_PLAY: "You're watching this round as a spectator",
+  NOT_SPECTATOR: "That player already has a seat",
+  NO_TURN_TO_SKIP: "Nobody is holding that turn",
+  ALREADY_SETTER: "That player is already the setter",
+  ROUND_IN_PROGRESS: "A round is in progress. Try again once it's over",
+  INVALID_SETTINGS: "Those settings are out of range",
+  CONNECTS_EXCEED_GUESSERS: "Not enough guessers for that many connects",
+  MAX_PLAYERS_TOO_LOW: "More players are already seated than that",
+  JOINED_AFTER_SIGNULL: "This Signull was sent before you joined",
+  VOTE_REQUIRED: "Direct guesses need a team vote",
+  VOTING_DISABLED: "Direct guess voting is off",
+  PROPOSAL_PENDING: "Wait for the current vote to finish",
+  PROPOSAL_NOT_FOUND: "That guess is no longer up for a vote",
+  PROPOSAL_CLOSED: "Voting on that guess is over",
+  ALREADY_VOTED: "You already voted",
+  NOT_SIGNULL_CREATOR: "Only the creator can change this Signull",
+  SIGNULL_HAS_CONNECTS: "Someone already connected to this Signull",
+  CLUE_REQUIRED: "Clue can't be empty",
+  CLUE_CONTAINS_WORD: "Your clue can't contain the word itself",
+  CLUE_CONTAINS_STEM: "Your clue can't contain a form of the word",
+  CLUE_CONTAINS_PREFIX: "Your clue can't give away the start of the word",
+  CANNOT_CHALLENGE_OWN: "You can't vote on a challenge to your own clue",
+  ALREADY_CHALLENGED: "This clue was already challenged",
+  NO_CHALLENGE: "Nobody has challenged this clue",
+  CHALLENGE_CLOSED: "The challenge was already decided",
+  OTHER_TEAM_PROPOSAL: "That vote is for the other team",
+  AUTH_REQUIRED: "Please reconnect and try again",
+  INVALID_ACTION: "Invalid request",
+  SERVER_NOT_CONFIGURED: "Game server unavailable",
+  SERVER_ERROR: "Something went wrong, try again",
 };
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  ROOM_PERMISSIONS,
+  assertPermission,
+  getRoomRoles,
+  hasPermission,
+  type RoomPermission,
+} from "./permissions";
+
+const room = {
+  hostId: "alice",
+  players: {
+    alice: { role: "setter" as const },
+    bob: { role: "guesser" as const },
+    erin: { role: "spectator" as const },
+  },
+};
+
+const permissions = Object.keys(ROOM_PERMISSIONS) as RoomPermission[];
+const hostPermissions = permissions.filter((permission) =>
+  ROOM_PERMISSIONS[permission].includes("host")
+);
+
+describe("room permissions", () => {
+  it("gives the host their seat's role as well", () => {
+    expect(getRoomRoles(room, "alice")).toEqual(["host", "setter"]);
+    expect(getRoomRoles(room, "bob")).toEqual(["guesser"]);
+    expect(getRoomRoles(room, "gone")).toEqual([]);
+    expect(getRoomRoles(room, null)).toEqual([]);
+  });
+
+  it.each(hostPermissions)("lets only the host %s", (permission) => {
+    expect(hasPermission(room, "alice", permission)).toBe(true);
+    for (const id of ["bob", "erin", "gone"]) {
+      expect(() => assertPermission(room, id, permission)).toThrow(
+        "NOT_AUTHORIZED"
+      );
+    }
+  });
+
+  it.each([
+    ["set_secret_word", "alice"],
+    ["add_signull", "bob"],
+    ["change_signull", "bob"],
+    ["skip_turn", "bob"],
+    ["direct_guess", "bob"],
+    ["vote", "bob"],
+  ] as const)("leaves %s to %s's role", (permission, playerId) => {
+    for (const id of ["alice", "bob", "erin"]) {
+      expect(hasPermission(room, id, permission)).toBe(id === playerId);
+    }
+  });
+
+  it.each(["connect", "challenge"] as const)(
+    "lets the setter and guessers %s",
+    (permission) => {
+      expect(hasPermission(room, "alice", permission)).toBe(true);
+      expect(hasPermission(room, "bob", permission)).toBe(true);
+    }
+  );
+
+  it("gives spectators no permissions", () => {
+    for (const permission of permissions) {
+      expect(() => assertPermission(room, "erin", permission)).toThrow(
+        "NOT_AUTHORIZED"
+      );
+    }
+  });
+
+  it("follows the host role when it moves", () => {
+    const handedOver = { ...room, hostId: "bob" };
+    expect(hasPermission(handedOver, "bob", "start_game")).toBe(true);
+    expect(hasPermission(handedOver, "alice", "start_game")).toBe(false);
+  });
+});
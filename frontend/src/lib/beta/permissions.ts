@@ -0,0 +1,94 @@
+import type { PlayerId, PlayerRole } from "./types";
+
+/**
+ * Who may change what in a room.
+ *
+ * A player acts with their seat's role (setter, guesser or spectator) plus
+ * "host" while they run the room. Each permission lists the roles allowed to
+ * use it; anyone else gets NOT_AUTHORIZED. Host controls and play alike are
+ * checked against this table by the engine, which the actions route runs;
+ * firestore.rules only lets the client touch its own presence and name.
+ * Spectators hold no permissions.
+ */
+export type RoomRole = "host" | PlayerRole;
+
+export type RoomPermission =
+  | "update_settings"
+  | "start_game"
+  | "play_again"
+  | "back_to_lobby"
+  | "reset_scores"
+  | "end_game"
+  | "remove_player" // remove someone else; leaving yourself is always allowed
+  | "change_setter"
+  | "move_players" // pick someone else's team; your own is always yours
+  | "seat_spectator"
+  | "recover"
+  // Play
+  | "set_secret_word"
+  | "add_signull"
+  | "change_signull" // retract or edit the clue of your own signull
+  | "skip_turn"
+  | "connect" // the setter's connects are intercepts
+  | "direct_guess" // and proposing one when the room votes
+  | "vote" // on a teammate's direct guess proposal
+  | "challenge"; // raise or vote on a challenge to someone's clue
+
+export const ROOM_PERMISSIONS: Record<RoomPermission, readonly RoomRole[]> = {
+  update_settings: ["host"],
+  start_game: ["host"],
+  play_again: ["host"],
+  back_to_lobby: ["host"],
+  reset_scores: ["host"],
+  end_game: ["host"],
+  remove_player: ["host"],
+  change_setter: ["host"],
+  move_players: ["host"],
+  seat_spectator: ["host"],
+  recover: ["host"],
+  set_secret_word: ["setter"],
+  add_signull: ["guesser"],
+  change_signull: ["guesser"],
+  skip_turn: ["guesser"],
+  connect: ["setter", "guesser"],
+  direct_guess: ["guesser"],
+  vote: ["guesser"],
+  challenge: ["setter", "guesser"],
+};
+
+// The slice of a room (stored or client state) permissions depend on
+interface RoomMembership {
+  hostId: PlayerId | null;
+  players: Record<PlayerId, { role: PlayerRole }>;
+}
+
+/**
+ * Roles the player holds in the room; none once they have left
+ */
+export const getRoomRoles = (
+  room: RoomMembership,
+  playerId: PlayerId | null
+): RoomRole[] => {
+  const player = playerId ? room.players[playerId] : undefined;
+  if (!player) return [];
+  return room.hostId === playerId ? ["host", player.role] : [player.role];
+};
+
+export const hasPermission = (
+  room: RoomMembership,
+  playerId: PlayerId | null,
+  permission: RoomPermission
+): boolean =>
+  getRoomRoles(room, playerId).some((role) =>
+    ROOM_PERMISSIONS[permission].includes(role)
+  );
+
+export const assertPermission = (
+  room: RoomMembership,
+  playerId: PlayerId | null,
+  permission: RoomPermission
+): void => {
+  if (!hasPermission(room, playerId, permission)) {
+    throw new Error("NOT_AUTHORIZED");
+  }
+};
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { projectPlayerView } from "./projection";
+import { runRoomAction } from "./server/actions";
+import {
+  createInMemoryRoomRepository,
+  type InMemoryRoomRepository,
+} from "./server/room-repository";
+import {
+  HOST_ID,
+  createLobby,
+  createStartedRoom,
+  createTestClock,
+} from "@/test/beta";
+
+const ROOM_ID = "TEST01";
+
+// Every string in a document, however deeply nested
+const collectStrings = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+};
+
+describe("room projections", () => {
+  let repo: InMemoryRoomRepository;
+
+  beforeEach(async () => {
+    const clock = createTestClock();
+    repo = createInMemoryRoomRepository(clock);
+    repo.seed(createStartedRoom(clock));
+    await runRoomAction(repo, ROOM_ID, HOST_ID, {
+      type: "set_secret_word",
+      word: "planet",
+    });
+    await runRoomAction(repo, ROOM_ID, "bob", {
+      type: "add_signull",
+      word: "piano",
+      clue: "Keys and pedals",
+    });
+    await runRoomAction(repo, ROOM_ID, "cara", {
+      type: "submit_connect",
+      guess: "piano",
+    });
+  });
+
+  it("keeps the secret word and pending words out of the public room", () => {
+    const publicRoom = repo.getPublicRoom(ROOM_ID)!;
+    const strings = collectStrings(publicRoom);
+    expect(publicRoom.secretWord).toBe("P_____");
+    expect(strings).not.toContain("PLANET");
+    expect(strings).not.toContain("PIANO");
+  });
+
+  it("keeps the full room in the secrets document", () => {
+    const secrets = repo.getSecrets(ROOM_ID)!;
+    expect(secrets.secretWord).toBe("PLANET");
+    expect(Object.values(secrets.signulls)).toEqual([
+      { word: "PIANO", guesses: ["PIANO"] },
+    ]);
+  });
+
+  it("shows the setter only the secret word", () => {
+    const view = repo.getPlayerView(ROOM_ID, HOST_ID)!;
+    expect(view.secretWord).toBe("PLANET");
+    expect(collectStrings(view.signullWords)).not.toContain("PIANO");
+  });
+
+  it("shows a guesser only their own pending signull", () => {
+    expect(
+      Object.values(repo.getPlayerView(ROOM_ID, "bob")!.signullWords)
+    ).toEqual(["PIANO"]);
+
+    for (const id of ["cara", "dan"]) {
+      const strings = collectStrings(repo.getPlayerView(ROOM_ID, id));
+      expect(strings).not.toContain("PLANET");
+      expect(strings).not.toContain("PIANO");
+    }
+  });
+
+  it("reveals everything once the round is over", async () => {
+    await runRoomAction(repo, ROOM_ID, "dan", {
+      type: "submit_direct_guess",
+      guess: "planet",
+    });
+    const publicRoom = repo.getPublicRoom(ROOM_ID)!;
+    expect(publicRoom.phase).toBe("ended");
+    expect(publicRoom.secretWord).toBe("PLANET");
+    expect(collectStrings(publicRoom)).toContain("PIANO");
+  });
+});
+
+describe("spectator views", () => {
+  it("shows a spectator no more than a display device", () => {
+    const clock = createTestClock();
+    const room = createLobby(clock, { maxPlayers: 4 });
+    room.players.erin = { ...room.players.bob, role: "spectator" };
+    room.secretWord = "PLANET";
+    expect(projectPlayerView(room, "erin", clock.now())).toEqual({
+      secretWord: null,
+      team: null,
+      teamSecretWord: null,
+      signullWords: {},
+      updatedAt: clock.now(),
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { getPlayerTeam, isSpectator } from "./engine";
+import {
+  HIDDEN_LETTER,
+  type FirestoreGameRoom,
+  type FirestorePlayerView,
+  type FirestoreRoomSecrets,
+  type FirestoreSignullEntry,
+  type FirestoreTimeValue,
+  type PlayerId,
+} from "./types";
+
+/**
+ * Projections of the authoritative room.
+ *
+ * The full room (secret word, every signull word, every connect guess) only
+ * exists on the server. What gets published is:
+ * - a public room document everyone in the room (and display devices) reads
+ * - one view document per player with the hidden values that player may see
+ * - a server-only secrets document used to rebuild the full room
+ */
+
+export const BETA_COLLECTION = "game_rooms_v2";
+export const VIEWS_COLLECTION = "views"; // game_rooms_v2/{roomId}/views/{playerId}
+export const PRIVATE_COLLECTION = "private"; // game_rooms_v2/{roomId}/private/secrets
+export const SECRETS_DOC_ID = "secrets";
+export const ROUND_ARCHIVES_COLLECTION = "round_archives"; // game_rooms_v2/{roomId}/round_archives/{archiveId}
+
+// Everything is revealed once the round is over
+const isRevealed = (data: Pick<FirestoreGameRoom, "phase">) =>
+  data.phase === "ended";
+
+const isHiddenEntry = (
+  entry: FirestoreSignullEntry,
+  data: Pick<FirestoreGameRoom, "phase">
+) => entry.status === "pending" && !isRevealed(data);
+
+export const maskSecretWord = (word: string, revealedCount: number): string =>
+  word.slice(0, revealedCount) +
+  HIDDEN_LETTER.repeat(Math.max(word.length - revealedCount, 0));
+
+export const extractRoomSecrets = (
+  data: FirestoreGameRoom
+): FirestoreRoomSecrets => ({
+  secretWord: data.secretWord ?? "",
+  signulls: Object.fromEntries(
+    Object.entries(data.signullState.itemsById || {}).map(([id, entry]) => [
+      id,
+      { word: entry.word, guesses: entry.connects.map((c) => c.guess) },
+    ])
+  ),
+});
+
+/**
+ * Rebuild the full room from the public document and the server-only secrets.
+ * Missing secrets (e.g. rooms created before hidden state existed) leave the
+ * public values untouched.
+ */
+export const mergeRoomSecrets = (
+  publicData: FirestoreGameRoom,
+  secrets: FirestoreRoomSecrets | undefined
+): FirestoreGameRoom => {
+  if (!secrets) return publicData;
+  const itemsById = Object.fromEntries(
+    Object.entries(publicData.signullState.itemsById || {}).map(
+      ([id, entry]) => {
+        const hidden = secrets.signulls[id];
+        if (!hidden) return [id, entry];
+        return [
+          id,
+          {
+            ...entry,
+            word: hidden.word,
+            connects: entry.connects.map((c, i) => ({
+              ...c,
+              guess: hidden.guesses[i] ?? c.guess,
+              // matchedAs is always the signull word
+              ...(c.matchType && { matchedAs: hidden.word }),
+            })),
+          },
+        ];
+      }
+    )
+  );
+  return {
+    ...publicData,
+    secretWord: publicData.secretWord ? secrets.secretWord : "",
+    signullState: { ...publicData.signullState, itemsById },
+  };
+};
+
+/**
+ * Public projection: the secret word is masked past the revealed prefix and
+ * pending signulls lose their word and their guessers' guesses (including
+ * the word a near match was accepted as). Setter intercept attempts stay
+ * visible as before.
+ */
+export const projectPublicRoom = (
+  data: FirestoreGameRoom
+): FirestoreGameRoom => {
+  if (isRevealed(data)) return data;
+  const itemsById = Object.fromEntries(
+    Object.entries(data.signullState.itemsById || {}).map(([id, entry]) => {
+      if (!isHiddenEntry(entry, data)) return [id, entry];
+      return [
+        id,
+        {
+          ...entry,
+          word: "",
+          connects: entry.connects.map((c) =>
+            c.playerId === data.setterId
+              ? c
+              : { ...c, guess: "", ...(c.matchedAs && { matchedAs: "" }) }
+          ),
+        },
+      ];
+    })
+  );
+  return {
+    ...data,
+    secretWord: data.secretWord
+      ? maskSecretWord(data.secretWord, data.revealedCount)
+      : "",
+    signullState: { ...data.signullState, itemsById },
+  };
+};
+
+/**
+ * A player's view. Spectators get an empty one and so see exactly what a
+ * display device sees.
+ */
+export const projectPlayerView = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  updatedAt: FirestoreTimeValue
+): FirestorePlayerView => {
+  if (isSpectator(data, playerId)) {
+    return {
+      secretWord: null,
+      team: null,
+      teamSecretWord: null,
+      signullWords: {},
+      updatedAt,
+    };
+  }
+  const team = getPlayerTeam(data, playerId);
+  const teamProgress = team ? data.teams?.[team] : undefined;
+  return {
+    secretWord:
+      playerId === data.setterId && data.secretWord ? data.secretWord : null,
+    team,
+    // Teams see the word as far as they have revealed it themselves
+    teamSecretWord:
+      teamProgress && data.secretWord
+        ? maskSecretWord(data.secretWord, teamProgress.revealedCount)
+        : null,
+    signullWords: Object.fromEntries(
+      Object.values(data.signullState.itemsById || {})
+        .filter((entry) => entry.playerId === playerId)
+        .filter((entry) => isHiddenEntry(entry, data))
+        .map((entry) => [entry.id, entry.word])
+    ),
+    updatedAt,
+  };
+};
+
+/**
+ * Client-side overlay of a player's view onto the public room document.
+ * In team mode the viewer's team progress replaces the room totals.
+ */
+export const applyPlayerView = (
+  publicData: FirestoreGameRoom,
+  view: FirestorePlayerView | null
+): FirestoreGameRoom => {
+  if (!view || isRevealed(publicData)) return publicData;
+  const itemsById = Object.fromEntries(
+    Object.entries(publicData.signullState.itemsById || {}).map(
+      ([id, entry]) => [
+        id,
+        view.signullWords[id]
+          ? { ...entry, word: view.signullWords[id] }
+          : entry,
+      ]
+    )
+  );
+  const teamProgress = view.team ? publicData.teams?.[view.team] : undefined;
+  return {
+    ...publicData,
+    ...teamProgress,
+    secretWord:
+      (publicData.secretWord && (view.secretWord || view.teamSecretWord)) ||
+      publicData.secretWord,
+    signullState: { ...publicData.signullState, itemsById },
+  };
+};
@@ -0,0 +1,54 @@
+import { Timestamp } from "firebase/firestore";
+import { describe, expect, it } from "vitest";
+import {
+  ROOM_CODE_FORMAT,
+  ROOM_TTL_MS,
+  generateRoomCode,
+  isRoomExpired,
+  joinRoomCodeSchema,
+} from "./room-codes";
+import type { FirestoreGameRoom } from "./types";
+
+const NOW = Date.UTC(2025, 0, 2);
+
+const idleRoom = (updatedAtMs: number, lastActiveMs: number[] = []) =>
+  ({
+    updatedAt: Timestamp.fromMillis(updatedAtMs),
+    players: Object.fromEntries(
+      lastActiveMs.map((ms, i) => [
+        `p${i}`,
+        { lastActive: Timestamp.fromMillis(ms) },
+      ])
+    ),
+  }) as unknown as FirestoreGameRoom;
+
+describe("room codes", () => {
+  it("are made of the configured alphabet", () => {
+    const code = generateRoomCode({ length: 4, alphabet: "AB" });
+    expect(code).toMatch(/^[AB]{4}$/);
+    expect(generateRoomCode()).toHaveLength(ROOM_CODE_FORMAT.length);
+  });
+
+  it("are read back trimmed and upper-cased", () => {
+    const code = generateRoomCode();
+    expect(
+      joinRoomCodeSchema.parse({ gameCode: ` ${code.toLowerCase()} ` })
+    ).toEqual({ gameCode: code });
+  });
+
+  it.each(["ABC", "ABCDEFG", "ABCDE0", "ABCDE1"])("reject %s", (gameCode) => {
+    expect(joinRoomCodeSchema.safeParse({ gameCode }).success).toBe(false);
+  });
+});
+
+describe("isRoomExpired", () => {
+  it("expires a room idle for the whole TTL", () => {
+    expect(isRoomExpired(idleRoom(NOW - ROOM_TTL_MS), NOW)).toBe(true);
+    expect(isRoomExpired(idleRoom(NOW - ROOM_TTL_MS + 1), NOW)).toBe(false);
+  });
+
+  it("keeps a room whose players still send heartbeats", () => {
+    const room = idleRoom(NOW - 2 * ROOM_TTL_MS, [0, NOW - 60_000]);
+    expect(isRoomExpired(room, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { timeValueToMillis } from "./engine";
+import type { FirestoreGameRoom, RoomId } from "./types";
+
+/**
+ * Shape of the codes players type to join a room. Both parts can be set per
+ * deployment; a longer code or a bigger alphabet makes collisions rarer.
+ */
+export interface RoomCodeFormat {
+  length: number;
+  alphabet: string; // upper case; leaves out look-alikes (0/O, 1/I/L)
+}
+
+const DEFAULT_ROOM_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+export const ROOM_CODE_FORMAT: RoomCodeFormat = {
+  length: Number(process.env.NEXT_PUBLIC_ROOM_CODE_LENGTH) || 6,
+  alphabet: (
+    process.env.NEXT_PUBLIC_ROOM_CODE_ALPHABET || DEFAULT_ROOM_CODE_ALPHABET
+  ).toUpperCase(),
+};
+
+// Codes tried before giving up; each one is checked in its own transaction
+export const ROOM_CODE_ATTEMPTS = 5;
+
+// A room nobody has touched for this long is closed and its code released
+export const ROOM_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const generateRoomCode = (
+  format: RoomCodeFormat = ROOM_CODE_FORMAT
+): RoomId =>
+  Array.from(
+    { length: format.length },
+    () => format.alphabet[Math.floor(Math.random() * format.alphabet.length)]
+  ).join("");
+
+export const joinRoomCodeSchema = z.object({
+  gameCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .length(
+      ROOM_CODE_FORMAT.length,
+      `Game code must be exactly ${ROOM_CODE_FORMAT.length} characters`
+    )
+    .refine(
+      (code) => [...code].every((c) => ROOM_CODE_FORMAT.alphabet.includes(c)),
+      "Invalid game code format"
+    ),
+});
+
+/**
+ * Last sign of life in a room: its last change or the latest heartbeat from
+ * anyone in it (heartbeats leave updatedAt alone)
+ */
+export const getRoomLastActiveMillis = (
+  data: Pick<FirestoreGameRoom, "updatedAt" | "players">
+): number =>
+  Math.max(
+    timeValueToMillis(data.updatedAt) ?? 0,
+    ...Object.values(data.players || {}).map(
+      (p) => timeValueToMillis(p.lastActive) ?? 0
+    )
+  );
+
+export const isRoomExpired = (
+  data: Pick<FirestoreGameRoom, "updatedAt" | "players">,
+  nowMs: number
+): boolean => nowMs - getRoomLastActiveMillis(data) >= ROOM_TTL_MS;
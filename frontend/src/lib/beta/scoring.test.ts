@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SCORING_RULES,
+  SCORING_PRESETS,
+  getConnectAttemptReward,
+  getScoringPreset,
+  getScoringRules,
+} from "./scoring";
+import {
+  applyAddSignull,
+  applyDirectGuess,
+  applySetSecretWord,
+  applySubmitConnect,
+} from "./engine";
+import { HOST_ID, createStartedRoom, createTestClock } from "@/test/beta";
+
+describe("house rules", () => {
+  it("fills rules an older room lacks from Classic", () => {
+    const rules = getScoringRules({
+      settings: { scoringRules: { intercept: 20 } },
+    } as Parameters<typeof getScoringRules>[0]);
+    expect(rules).toEqual({ ...DEFAULT_SCORING_RULES, intercept: 20 });
+  });
+
+  it("recognizes presets and customised rules", () => {
+    expect(getScoringPreset(SCORING_PRESETS.chaos)).toBe("chaos");
+    expect(getScoringPreset(DEFAULT_SCORING_RULES)).toBe("classic");
+    expect(
+      getScoringPreset({ ...DEFAULT_SCORING_RULES, intercept: 1 })
+    ).toBeNull();
+  });
+
+  it("scores a round with the room's own rules", () => {
+    const clock = createTestClock();
+    const room = createStartedRoom(clock, {
+      playMode: "free",
+      scoringRules: {
+        ...DEFAULT_SCORING_RULES,
+        intercept: 12,
+        wrongInterceptPenalty: 3,
+      },
+    });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applyAddSignull(room, "cara", "s2", "pear", "A fruit", clock);
+
+    applySubmitConnect(room, HOST_ID, "s1", "organ", clock);
+    expect(room.players[HOST_ID].score).toBe(-3);
+    applySubmitConnect(room, HOST_ID, "s2", "pear", clock);
+    expect(room.players[HOST_ID].score).toBe(9);
+  });
+});
+
+describe("direct guess scoring", () => {
+  it("pays for every letter still hidden", () => {
+    const clock = createTestClock();
+    const room = createStartedRoom(clock);
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applySubmitConnect(room, "cara", "s1", "piano", clock);
+    applySubmitConnect(room, "dan", "s1", "piano", clock);
+    const before = room.players.dan.score;
+
+    applyDirectGuess(room, "dan", "planet", clock);
+    expect(room.players.dan.score - before).toBe(
+      4 * DEFAULT_SCORING_RULES.directGuessPerRemainingLetter
+    );
+  });
+
+  it("charges the room's penalty for a wrong guess", () => {
+    const clock = createTestClock();
+    const room = createStartedRoom(clock, {
+      scoringRules: { ...DEFAULT_SCORING_RULES, wrongDirectGuessPenalty: 4 },
+    });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyDirectGuess(room, "bob", "planes", clock);
+    expect(room.players.bob.score).toBe(-4);
+    expect(room.scoreEvents.map((e) => e.reason)).toEqual([
+      "direct_guess_wrong",
+    ]);
+  });
+});
+
+describe("connect attempts", () => {
+  it("halves the reward for each miss, rounding up", () => {
+    expect(getConnectAttemptReward(5, 1)).toBe(5);
+    expect(getConnectAttemptReward(5, 2)).toBe(3);
+    expect(getConnectAttemptReward(5, 3)).toBe(2);
+  });
+
+  it("lets a guesser try again and pays less for it", () => {
+    const clock = createTestClock();
+    const room = createStartedRoom(clock, {
+      playMode: "free",
+      connectAttempts: 3,
+    });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applySubmitConnect(room, "cara", "s1", "organ", clock);
+    applySubmitConnect(room, "cara", "s1", "piano", clock);
+    applySubmitConnect(room, "dan", "s1", "piano", clock);
+
+    expect(room.signullState.itemsById.s1.status).toBe("resolved");
+    expect(room.players.cara.score).toBe(
+      getConnectAttemptReward(DEFAULT_SCORING_RULES.connectToResolvedSignull, 2)
+    );
+    expect(room.players.dan.score).toBe(
+      DEFAULT_SCORING_RULES.connectToResolvedSignull
+    );
+    expect(
+      room.scoreEvents.find((e) => e.playerId === "cara")?.details
+    ).toEqual(expect.objectContaining({ attempt: 2 }));
+  });
+
+  it("stops a guesser once their attempts run out", () => {
+    const clock = createTestClock();
+    const room = createStartedRoom(clock, {
+      playMode: "free",
+      connectAttempts: 2,
+    });
+    applySetSecretWord(room, HOST_ID, "planet", clock);
+    applyAddSignull(room, "bob", "s1", "piano", "Keys and pedals", clock);
+    applySubmitConnect(room, "cara", "s1", "organ", clock);
+    applySubmitConnect(room, "cara", "s1", "violin", clock);
+    expect(() =>
+      applySubmitConnect(room, "cara", "s1", "piano", clock)
+    ).toThrow("ALREADY_CONNECTED");
+  });
+});
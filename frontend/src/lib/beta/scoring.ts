@@ -1,13 +1,16 @@
 /**
  * Scoring logic for the beta game schema.
  *
- * Scoring Rules:
+ * Point values come from the room's ScoringRules; the numbers below are the
+ * Classic preset.
  *
  * Signull Scenarios:
  * - Setter who intercepts a signull gets 5 points (immediately)
+ * - A wrong intercept may cost the setter points (no penalty in Classic)
  * - When a signull resolves:
  *   - Player whose signull gets resolved gets 10 points
- *   - Guessers with correct connect to resolved signull get 5 points each
+ *   - Guessers with correct connect to resolved signull get 5 points each,
+ *     halved (rounded up) for each earlier miss in rooms with several attempts
  * - Lightning Signull (signull word = secret word):
  *   - When resolved:
  *     - Creator of the lightning signull gets +5 points for each remaining letter
@@ -17,19 +20,93 @@
  *     - Creator gets +5 points for each remaining letter
  *     - Guessers with correct connects get +5 points for each remaining letter
  *     - No points for incorrect connects
+ *
+ * Direct Guesses:
+ * - A correct direct guess earns +5 points for each unrevealed letter
+ * - A wrong direct guess may cost points (no penalty in Classic)
+ * - Setter gets +10 points when the guessers use up all their direct guesses
  */
 
 import type {
+  ConnectMatchType,
   PlayerId,
   ScoreUpdates,
   ScoreEvent,
   ScoreReason,
   FirestoreGameRoom,
+  FirestoreSignullConnect,
   FirestoreSignullEntry,
+  ScoringPreset,
+  ScoringRules,
   SignullId,
 } from "./types";
 import { SCORING } from "./types";
 
+// ==================== Scoring Rules ====================
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  intercept: SCORING.INTERCEPT_SIGNULL,
+  wrongInterceptPenalty: SCORING.WRONG_INTERCEPT_PENALTY,
+  signullResolved: SCORING.SIGNULL_RESOLVED,
+  connectToResolvedSignull: SCORING.CONNECT_TO_RESOLVED_SIGNULL,
+  lightningPerRemainingLetter: SCORING.LIGHTNING_SIGNULL_PER_REMAINING_LETTER,
+  setterRevealedLetterBonus: SCORING.SETTER_REVEALED_LETTERS_BONUS,
+  directGuessPerRemainingLetter: SCORING.DIRECT_GUESS_PER_REMAINING_LETTER,
+  wrongDirectGuessPenalty: SCORING.WRONG_DIRECT_GUESS_PENALTY,
+  setterSurvivalBonus: SCORING.SETTER_SURVIVAL_BONUS,
+};
+
+export const SCORING_PRESETS: Record<ScoringPreset, ScoringRules> = {
+  classic: DEFAULT_SCORING_RULES,
+  // Blocking clues pays as much as making them
+  setter_friendly: {
+    intercept: 10,
+    wrongInterceptPenalty: 0,
+    signullResolved: 10,
+    connectToResolvedSignull: 5,
+    lightningPerRemainingLetter: 5,
+    setterRevealedLetterBonus: 10,
+    directGuessPerRemainingLetter: 5,
+    wrongDirectGuessPenalty: 5,
+    setterSurvivalBonus: 20,
+  },
+  // Big swings: lightning signulls can decide the game
+  chaos: {
+    intercept: 15,
+    wrongInterceptPenalty: 5,
+    signullResolved: 20,
+    connectToResolvedSignull: 2,
+    lightningPerRemainingLetter: 15,
+    setterRevealedLetterBonus: 5,
+    directGuessPerRemainingLetter: 15,
+    wrongDirectGuessPenalty: 10,
+    setterSurvivalBonus: 30,
+  },
+};
+
+export const MAX_SCORING_POINTS = 50;
+
+/**
+ * The room's scoring rules. Values missing from older rooms fall back to
+ * Classic.
+ */
+export const getScoringRules = (
+  data: Pick<FirestoreGameRoom, "settings">
+): ScoringRules => ({
+  ...DEFAULT_SCORING_RULES,
+  ...data.settings.scoringRules,
+});
+
+/**
+ * The preset the rules match exactly, or null for customised rules.
+ */
+export const getScoringPreset = (rules: ScoringRules): ScoringPreset | null =>
+  (Object.keys(SCORING_PRESETS) as ScoringPreset[]).find((preset) =>
+    (Object.keys(rules) as (keyof ScoringRules)[]).every(
+      (key) => SCORING_PRESETS[preset][key] === rules[key]
+    )
+  ) ?? null;
+
 // ==================== Score Result Type ====================
 
 /**
@@ -89,6 +166,24 @@ export const isHalfWordRemaining = (data: FirestoreGameRoom): boolean => {
 
 // ==================== Scoring Calculation Functions ====================
 
+/**
+ * Connect reward for a correct connect made on the given attempt (1-based).
+ * Each earlier miss halves the reward, rounded up.
+ */
+export const getConnectAttemptReward = (
+  reward: number,
+  attempt: number
+): number => Math.ceil(reward / 2 ** Math.max(attempt - 1, 0));
+
+// Which of the player's attempts at the signull the connect was (1-based)
+const getConnectAttempt = (
+  entry: FirestoreSignullEntry,
+  connect: FirestoreSignullConnect
+): number =>
+  entry.connects
+    .filter((c) => c.playerId === connect.playerId)
+    .indexOf(connect) + 1;
+
 /**
  * Calculate score updates for a correct guess on a signull.
  * @deprecated No longer used - guessers get points only when signull resolves.
@@ -116,18 +211,50 @@ export const calculateCorrectSignullGuessScore = (
  * Called when the setter correctly guesses the signull word (blocking it).
  *
  * @param setterId - The setter who intercepted
+ * @param rules - The room's scoring rules
  * @param signullId - The signull that was intercepted
+ * @param matchType - How the intercept guess matched the signull word
  * @returns Score result with updates and events
  */
 export const calculateInterceptScore = (
   setterId: PlayerId,
-  signullId?: SignullId
+  rules: ScoringRules,
+  signullId?: SignullId,
+  matchType?: ConnectMatchType
 ): ScoreResult => {
-  const delta = SCORING.INTERCEPT_SIGNULL;
+  const delta = rules.intercept;
+  if (delta === 0) return { updates: {}, events: [] };
   return {
     updates: { [setterId]: delta },
     events: [
-      createScoreEvent(setterId, delta, "intercept_signull", { signullId }),
+      createScoreEvent(setterId, delta, "intercept_signull", {
+        signullId,
+        ...(matchType && { matchType }),
+      }),
+    ],
+  };
+};
+
+/**
+ * Calculate score updates for a wrong intercept.
+ * The setter loses the room's penalty, if any, for each missed intercept.
+ *
+ * @param setterId - The setter who guessed wrong
+ * @param rules - The room's scoring rules
+ * @param signullId - The signull the setter tried to intercept
+ * @returns Score result with updates and events
+ */
+export const calculateWrongInterceptScore = (
+  setterId: PlayerId,
+  rules: ScoringRules,
+  signullId?: SignullId
+): ScoreResult => {
+  const penalty = rules.wrongInterceptPenalty;
+  if (penalty <= 0) return { updates: {}, events: [] };
+  return {
+    updates: { [setterId]: -penalty },
+    events: [
+      createScoreEvent(setterId, -penalty, "intercept_wrong", { signullId }),
     ],
   };
 };
@@ -138,32 +265,40 @@ export const calculateInterceptScore = (
  *
  * @param entry - The signull entry that was resolved
  * @param data - The current game room data
+ * @param rules - The room's scoring rules
  * @returns Score result with updates and events
  */
 export const calculateSignullResolvedScore = (
   entry: FirestoreSignullEntry,
-  data: FirestoreGameRoom
+  data: FirestoreGameRoom,
+  rules: ScoringRules
 ): ScoreResult => {
   const updates: ScoreUpdates = {};
   const events: ScoreEvent[] = [];
   const correctConnects = entry.connects.filter((c) => c.isCorrect);
 
   // Award points to the signull creator: +10
-  const resolvedPoints = SCORING.SIGNULL_RESOLVED;
-  updates[entry.playerId] = resolvedPoints;
-  events.push(
-    createScoreEvent(entry.playerId, resolvedPoints, "signull_resolved", {
-      signullId: entry.id,
-      word: entry.word,
-    })
-  );
+  const resolvedPoints = rules.signullResolved;
+  if (resolvedPoints > 0) {
+    updates[entry.playerId] = resolvedPoints;
+    events.push(
+      createScoreEvent(entry.playerId, resolvedPoints, "signull_resolved", {
+        signullId: entry.id,
+        word: entry.word,
+      })
+    );
+  }
 
   // Award +5 to each guesser with correct connect to resolved signull
   correctConnects.forEach((connect) => {
     // Only award to guessers (not the setter who might have connected)
     const player = data.players[connect.playerId];
-    if (player && player.role === "guesser") {
-      const connectBonus = SCORING.CONNECT_TO_RESOLVED_SIGNULL;
+    const attempt = getConnectAttempt(entry, connect);
+    const connectBonus = getConnectAttemptReward(
+      rules.connectToResolvedSignull,
+      attempt
+    );
+    if (player && player.role === "guesser" && connectBonus > 0) {
       updates[connect.playerId] =
         (updates[connect.playerId] ?? 0) + connectBonus;
       events.push(
@@ -174,6 +309,8 @@ export const calculateSignullResolvedScore = (
           {
             signullId: entry.id,
             word: entry.word,
+            ...(connect.matchType && { matchType: connect.matchType }),
+            ...(attempt > 1 && { attempt }),
           }
         )
       );
@@ -189,8 +326,7 @@ export const calculateSignullResolvedScore = (
     const revealedCount = data.revealedCount ?? 0;
 
     // Lightning signull bonus for remaining letters
-    const lightningBonus =
-      remainingLetters * SCORING.LIGHTNING_SIGNULL_PER_REMAINING_LETTER;
+    const lightningBonus = remainingLetters * rules.lightningPerRemainingLetter;
 
     // Creator of the lightning signull gets the bonus
     if (lightningBonus > 0) {
@@ -231,7 +367,7 @@ export const calculateSignullResolvedScore = (
     });
 
     // Setter gets points for revealed letters
-    const setterBonus = revealedCount * SCORING.SETTER_REVEALED_LETTERS_BONUS;
+    const setterBonus = revealedCount * rules.setterRevealedLetterBonus;
     if (setterBonus > 0) {
       updates[data.setterId] = (updates[data.setterId] ?? 0) + setterBonus;
       events.push(
@@ -259,11 +395,13 @@ export const calculateSignullResolvedScore = (
  *
  * @param entry - The failed lightning signull entry
  * @param data - The current game room data
+ * @param rules - The room's scoring rules
  * @returns Score result with updates and events
  */
 export const calculateFailedLightningSignullScore = (
   entry: FirestoreSignullEntry,
-  data: FirestoreGameRoom
+  data: FirestoreGameRoom,
+  rules: ScoringRules
 ): ScoreResult => {
   const updates: ScoreUpdates = {};
   const events: ScoreEvent[] = [];
@@ -275,8 +413,7 @@ export const calculateFailedLightningSignullScore = (
   }
 
   const remainingLetters = getRemainingLetters(data);
-  const lightningBonus =
-    remainingLetters * SCORING.LIGHTNING_SIGNULL_PER_REMAINING_LETTER;
+  const lightningBonus = remainingLetters * rules.lightningPerRemainingLetter;
 
   // Creator of the failed lightning signull gets the bonus
   if (lightningBonus > 0) {
@@ -321,38 +458,82 @@ export const calculateFailedLightningSignullScore = (
 
 /**
  * Calculate score updates for a direct guess.
- * Note: Direct guess bonuses/penalties have been removed.
+ * A correct guess pays for every letter still hidden; a wrong guess costs
+ * the room's penalty, if any. Call before the guess is applied to `data`.
  *
  * @param playerId - The player who made the direct guess
  * @param isCorrect - Whether the guess was correct
  * @param data - The current game room data
+ * @param rules - The room's scoring rules
  * @param guessWord - The word that was guessed
- * @returns Score result with updates and events (always empty)
+ * @returns Score result with updates and events
  */
 export const calculateDirectGuessScore = (
   playerId: PlayerId,
   isCorrect: boolean,
   data: FirestoreGameRoom,
+  rules: ScoringRules,
   guessWord?: string
 ): ScoreResult => {
-  // No scoring for direct guesses
-  return { updates: {}, events: [] };
+  if (isCorrect) {
+    const remainingLetters = getRemainingLetters(data);
+    const bonus = remainingLetters * rules.directGuessPerRemainingLetter;
+    if (bonus <= 0) return { updates: {}, events: [] };
+    return {
+      updates: { [playerId]: bonus },
+      events: [
+        createScoreEvent(playerId, bonus, "direct_guess_correct", {
+          guess: guessWord,
+          remainingLetters,
+        }),
+      ],
+    };
+  }
+
+  const penalty = rules.wrongDirectGuessPenalty;
+  if (penalty <= 0) return { updates: {}, events: [] };
+  return {
+    updates: { [playerId]: -penalty },
+    events: [
+      createScoreEvent(playerId, -penalty, "direct_guess_wrong", {
+        guess: guessWord,
+      }),
+    ],
+  };
 };
 
 /**
  * Calculate score updates when the game ends.
- * Note: Game end bonuses have been removed.
+ * The setter earns a survival bonus when the guessers lose by running out of
+ * direct guesses, which never happens with unlimited guesses. Call after
+ * `directGuessesLeft` has been updated.
  *
  * @param data - The current game room data
  * @param winner - Who won the game
- * @returns Score result with updates and events (always empty)
+ * @param rules - The room's scoring rules
+ * @returns Score result with updates and events
  */
 export const calculateGameEndScore = (
   data: FirestoreGameRoom,
-  winner: "guessers" | "setter"
+  winner: "guessers" | "setter",
+  rules: ScoringRules
 ): ScoreResult => {
-  // No scoring for game end
-  return { updates: {}, events: [] };
+  const bonus = rules.setterSurvivalBonus;
+  // Unlimited rooms never run out of guesses to survive
+  const outOfGuesses =
+    data.settings.directGuessPolicy?.mode !== "unlimited" &&
+    data.directGuessesLeft <= 0;
+  if (winner !== "setter" || !outOfGuesses || bonus <= 0) {
+    return { updates: {}, events: [] };
+  }
+  return {
+    updates: { [data.setterId]: bonus },
+    events: [
+      createScoreEvent(data.setterId, bonus, "setter_survival_bonus", {
+        secretWord: data.secretWord,
+      }),
+    ],
+  };
 };
 
 // ==================== Aggregation Helpers ====================
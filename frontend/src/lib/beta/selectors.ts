@@ -1,10 +1,29 @@
 import { useBetaStore } from "./store";
+import {
+  DIRECT_GUESS_VOTE_SECONDS,
+  PRESENCE_GRACE_MS,
+  TEAM_IDS,
+  getConnectsRequired,
+  getEffectiveConnectsRequired as getSeatedConnectsRequired,
+  hasFinishedConnecting,
+  getInterceptAttemptsUsed,
+  getMajority,
+  getMatchTotals,
+} from "./engine";
 import type {
+  ConnectMatchType,
+  DirectGuess,
+  DirectGuessProposal,
   GameState,
+  Player,
+  SignullChallenge,
+  SignullClueEdit,
   SignullEntry,
   PlayerId,
   PlayerRole,
   SignullId,
+  TeamId,
+  TurnKey,
 } from "./types";
 
 // Pure helpers -------------------------------------------------
@@ -43,6 +62,7 @@ export interface SignullHistoryItem {
   role: PlayerRole;
   guess: string;
   isCorrect: boolean;
+  matchType?: ConnectMatchType;
   timestamp: Date;
 }
 
@@ -61,21 +81,42 @@ export function buildSignullHistory(
         role: p?.role || "guesser",
         guess: c.guess,
         isCorrect: c.isCorrect,
+        matchType: c.matchType,
         timestamp: c.timestamp,
       };
     });
 }
 
+/**
+ * Guessers a signull waits on: those who could connect when it was sent and
+ * are still guessing (the clue giver's teammates in team mode). Older
+ * signulls without that snapshot use the current guessers.
+ */
+export function getEligibleGuesserIds(
+  state: GameState | null,
+  signull: SignullEntry
+): PlayerId[] {
+  if (!state) return [];
+  const snapshot = signull.eligibleGuesserIds;
+  return Object.values(state.players)
+    .filter(
+      (p) =>
+        p.role === "guesser" &&
+        p.id !== signull.playerId &&
+        (!signull.team || p.team === signull.team) &&
+        (!snapshot || snapshot.includes(p.id))
+    )
+    .map((p) => p.id);
+}
+
 export function getPendingConnects(
   state: GameState | null,
   signull: SignullEntry | null
 ): PlayerId[] {
   if (!state || !signull) return [];
-  const allGuessers = Object.values(state.players)
-    .filter((p) => p.role === "guesser" && p.id !== signull.playerId)
-    .map((p) => p.id);
-  const connected = new Set(signull.connects.map((c) => c.playerId));
-  return allGuessers.filter((id) => !connected.has(id));
+  return getEligibleGuesserIds(state, signull).filter(
+    (id) => !hasFinishedConnecting(signull, id, state.settings.connectAttempts)
+  );
 }
 
 export function getConnectsRemaining(
@@ -85,7 +126,41 @@ export function getConnectsRemaining(
   if (!state || !signull) return null;
   if (signull.status !== "pending") return 0;
   const correct = signull.connects.filter((c) => c.isCorrect).length;
-  return Math.max(0, state.settings.connectsRequired - correct);
+  return Math.max(0, getSignullConnectsRequired(state, signull) - correct);
+}
+
+/**
+ * Correct connects a signull needs from the guessers it was sent to who are
+ * still in the room: the fixed count or the room's percentage of them
+ */
+export function getSignullConnectsRequired(
+  state: GameState,
+  signull: SignullEntry
+): number {
+  return getConnectsRequired(
+    state,
+    getEligibleGuesserIds(state, signull).length
+  );
+}
+
+/**
+ * Fixed requirement signulls are held to right now: the engine's lowered
+ * requirement, counting only guessers still online in rooms that skip
+ * offline ones. Null in percentage rooms. Presence is judged at nowMs.
+ */
+export function getEffectiveConnectsRequired(
+  state: GameState,
+  nowMs: number
+): number | null {
+  if (!state.settings.skipOfflineGuessers) {
+    return getSeatedConnectsRequired(state);
+  }
+  const players = Object.fromEntries(
+    Object.entries(state.players).filter(
+      ([, player]) => player.role !== "guesser" || isPlayerOnline(player, nowMs)
+    )
+  );
+  return getSeatedConnectsRequired({ ...state, players });
 }
 
 /**
@@ -101,15 +176,24 @@ export interface SignullMetrics {
   status: SignullEntry["status"];
   // Progress tracking - guessers only (excludes setter intercepts)
   correctConnectsFromGuessers: number;
-  totalConnectsFromGuessers: number;
+  totalConnectsFromGuessers: number; // guessers who hit or used every attempt
+  connectAttemptsAllowed: number;
   connectsRequired: number;
   totalActiveGuessers: number;
+  eligibleGuesserIds: PlayerId[]; // guessers who may connect; see getEligibleGuesserIds
   // Status flags
   isComplete: boolean;
   isIntercepted: boolean;
   isInactive: boolean;
   isFailed: boolean;
   isFinal: boolean;
+  isTimedOut: boolean;
+  deadline: Date | null; // when this signull closes if still pending
+  clueHistory: SignullClueEdit[]; // earlier clues, oldest first
+  challenge: SignullChallenge | null;
+  isVetoed: boolean; // went inactive because a challenge was upheld
+  interceptAttemptsUsed: number; // setter guesses made at this signull
+  interceptAttemptsAllowed: number;
   // For history display - all connects (includes setter intercepts)
   allConnects: Array<{
     playerId: PlayerId;
@@ -117,7 +201,9 @@ export interface SignullMetrics {
     playerRole: PlayerRole;
     guess: string;
     isCorrect: boolean;
+    matchType?: ConnectMatchType;
     timestamp: Date;
+    attempt: number; // which of the player's tries this was (1-based)
   }>;
 }
 
@@ -142,14 +228,24 @@ export function getSignullMetrics(
     (c) => c.isCorrect
   ).length;
 
+  const eligibleGuesserIds = getEligibleGuesserIds(state, signull);
+  const connectors = eligibleGuesserIds.map((id) => state.players[id]);
+
   // Total active guessers (excluding the clue giver if they're a guesser)
-  const totalActiveGuessers = Object.values(state.players).filter(
-    (p) => p.role === "guesser" && p.id !== signull.playerId && p.isOnline
-  ).length;
+  const totalActiveGuessers = connectors.filter((p) => p.isOnline).length;
+
+  const connectAttemptsAllowed = state.settings.connectAttempts;
+  const finishedGuessers = new Set(
+    guesserConnects
+      .map((c) => c.playerId)
+      .filter((id) =>
+        hasFinishedConnecting(signull, id, connectAttemptsAllowed)
+      )
+  );
 
   // Build all connects with player names and roles for history display
   const allConnectsWithNames = signull.connects
-    .map((c) => {
+    .map((c, index) => {
       const player = state.players[c.playerId];
       return {
         playerId: c.playerId,
@@ -157,7 +253,11 @@ export function getSignullMetrics(
         playerRole: player?.role || "guesser",
         guess: c.guess,
         isCorrect: c.isCorrect,
+        matchType: c.matchType,
         timestamp: c.timestamp,
+        attempt: signull.connects
+          .slice(0, index + 1)
+          .filter((other) => other.playerId === c.playerId).length,
       };
     })
     .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
@@ -170,18 +270,116 @@ export function getSignullMetrics(
     word: signull.word,
     status: signull.status,
     correctConnectsFromGuessers,
-    totalConnectsFromGuessers: guesserConnects.length,
-    connectsRequired: state.settings.connectsRequired,
+    totalConnectsFromGuessers: finishedGuessers.size,
+    connectAttemptsAllowed,
+    connectsRequired: getSignullConnectsRequired(state, signull),
     totalActiveGuessers,
+    eligibleGuesserIds,
     isComplete: signull.status === "resolved",
     isIntercepted: signull.status === "blocked",
     isInactive: signull.status === "inactive",
     isFailed: signull.status === "failed",
     isFinal: signull.isFinal,
+    isTimedOut: signull.timedOut ?? false,
+    deadline: getSignullDeadline(state, signull.id),
+    clueHistory: signull.clueHistory ?? [],
+    challenge: signull.challenge ?? null,
+    isVetoed: signull.challenge?.status === "upheld",
+    interceptAttemptsUsed: getInterceptAttemptsUsed(signull, state.setterId),
+    interceptAttemptsAllowed: state.settings.interceptAttempts,
     allConnects: allConnectsWithNames,
   };
 }
 
+/**
+ * Whether the player may withdraw the signull or edit its clue: only its
+ * creator, and only while it is pending with no connects at all
+ */
+export function canChangeSignull(
+  state: GameState | null,
+  signullId: SignullId,
+  playerId: PlayerId | null
+): boolean {
+  if (!state || !playerId || state.phase !== "signulls") return false;
+  const signull = state.signullState.itemsById[signullId];
+  return (
+    !!signull &&
+    signull.playerId === playerId &&
+    signull.status === "pending" &&
+    signull.connects.length === 0
+  );
+}
+
+export interface ChallengeTally {
+  voterIds: PlayerId[]; // everyone but the clue giver
+  upholds: number;
+  dismissals: number;
+  needed: number; // upholds that veto the signull
+}
+
+/**
+ * Where the challenge to a signull's clue stands, or null if unchallenged
+ */
+export function getChallengeTally(
+  state: GameState | null,
+  signullId: SignullId
+): ChallengeTally | null {
+  const signull = state?.signullState.itemsById[signullId];
+  if (!state || !signull?.challenge) return null;
+  const votes = signull.challenge.votes;
+  const voterIds = getSeatedPlayers(state)
+    .map((p) => p.id)
+    .filter((id) => id !== signull.playerId);
+  return {
+    voterIds,
+    upholds: voterIds.filter((id) => votes[id] === true).length,
+    dismissals: voterIds.filter((id) => votes[id] === false).length,
+    needed: getMajority(voterIds.length),
+  };
+}
+
+/**
+ * Whether the player may challenge the signull's clue: anyone but its
+ * creator, once per signull, while it is still pending
+ */
+export function canChallengeSignull(
+  state: GameState | null,
+  signullId: SignullId,
+  playerId: PlayerId | null
+): boolean {
+  if (!state || !playerId || state.phase !== "signulls") return false;
+  const signull = state.signullState.itemsById[signullId];
+  return (
+    !!signull &&
+    !!state.players[playerId] &&
+    !isSpectator(state, playerId) &&
+    signull.playerId !== playerId &&
+    signull.status === "pending" &&
+    !signull.challenge
+  );
+}
+
+/**
+ * Whether the player still has a vote to cast on the signull's challenge
+ */
+export function canVoteOnChallenge(
+  state: GameState | null,
+  signullId: SignullId,
+  playerId: PlayerId | null
+): boolean {
+  if (!state || !playerId || state.phase !== "signulls") return false;
+  const signull = state.signullState.itemsById[signullId];
+  return (
+    !!signull?.challenge &&
+    signull.challenge.status === "pending" &&
+    signull.status === "pending" &&
+    signull.playerId !== playerId &&
+    !!state.players[playerId] &&
+    !isSpectator(state, playerId) &&
+    signull.challenge.votes[playerId] === undefined
+  );
+}
+
 /**
  * Get all signulls with computed metrics in reverse order (most recent first)
  */
@@ -218,6 +416,164 @@ export function hasPlayerConnected(
   return signull.connects.some((c) => c.playerId === playerId);
 }
 
+/**
+ * Connect attempts the guesser has left on a signull: none once they hit it
+ */
+export function getConnectAttemptsLeft(
+  state: GameState | null,
+  signullId: SignullId,
+  playerId: PlayerId
+): number {
+  if (!state) return 0;
+  const signull = state.signullState.itemsById[signullId];
+  if (!signull) return 0;
+  const allowed = state.settings.connectAttempts;
+  if (hasFinishedConnecting(signull, playerId, allowed)) return 0;
+  // Guessers who joined after it was sent sit it out
+  if (
+    state.players[playerId]?.role === "guesser" &&
+    !getEligibleGuesserIds(state, signull).includes(playerId)
+  ) {
+    return 0;
+  }
+  return (
+    allowed - signull.connects.filter((c) => c.playerId === playerId).length
+  );
+}
+
+/**
+ * Deadline for the setter to pick a word, or null when untimed
+ */
+export function getSettingDeadline(state: GameState | null): Date | null {
+  if (!state || state.phase !== "setting" || !state.settingStartedAt) {
+    return null;
+  }
+  const limit = state.settings.timeLimitSeconds;
+  if (!limit || limit <= 0) return null;
+  return new Date(state.settingStartedAt.getTime() + limit * 1000);
+}
+
+/**
+ * Deadline for a pending signull, or null when untimed or already closed
+ */
+export function getSignullDeadline(
+  state: GameState | null,
+  signullId: SignullId
+): Date | null {
+  if (!state || state.phase !== "signulls") return null;
+  const signull = state.signullState.itemsById[signullId];
+  const limit = state.settings.timeLimitSeconds;
+  if (!signull || signull.status !== "pending" || !limit || limit <= 0) {
+    return null;
+  }
+  return new Date(signull.createdAt.getTime() + limit * 1000);
+}
+
+/**
+ * When a pending signull stops waiting on offline guessers, in rooms that
+ * skip them: once its last unfinished guesser goes offline
+ */
+export function getPresenceDeadline(
+  state: GameState | null,
+  signullId: SignullId
+): Date | null {
+  if (!state || state.phase !== "signulls") return null;
+  if (!state.settings.skipOfflineGuessers) return null;
+  const signull = state.signullState.itemsById[signullId];
+  if (!signull || signull.status !== "pending") return null;
+  const offlineAts = getEligibleGuesserIds(state, signull)
+    .filter(
+      (id) =>
+        !hasFinishedConnecting(signull, id, state.settings.connectAttempts)
+    )
+    .map((id) => getPlayerOfflineAt(state.players[id]).getTime());
+  if (offlineAts.length === 0) return null;
+  return new Date(Math.max(...offlineAts));
+}
+
+export interface TurnInfo {
+  key: TurnKey; // the team in team mode, "all" otherwise
+  playerId: PlayerId | null;
+  playerName: string | null;
+  hasSent: boolean; // the player already sent their signull this turn
+  deadline: Date | null; // when an unused turn passes on
+}
+
+/**
+ * Every turn order running in the room: one per team in team mode, a single
+ * one otherwise. Empty when the room doesn't take turns.
+ */
+export function getTurns(state: GameState | null): TurnInfo[] {
+  if (!state?.turns || state.phase !== "signulls") return [];
+  if (state.settings.playMode !== "round_robin") return [];
+  const limit = state.settings.timeLimitSeconds;
+  return (Object.keys(state.turns) as TurnKey[]).flatMap((key) => {
+    const turn = state.turns?.[key];
+    if (!turn) return [];
+    const isWaiting = !!turn.playerId && !turn.signullId;
+    return [
+      {
+        key,
+        playerId: turn.playerId,
+        playerName: turn.playerId
+          ? (state.players[turn.playerId]?.name ?? "Unknown")
+          : null,
+        hasSent: !!turn.signullId,
+        deadline:
+          isWaiting && limit > 0
+            ? new Date(turn.startedAt.getTime() + limit * 1000)
+            : null,
+      },
+    ];
+  });
+}
+
+/**
+ * The turn order the player sends signulls in, or null when the room
+ * doesn't take turns (or the player takes no part, like the setter)
+ */
+export function getPlayerTurn(
+  state: GameState | null,
+  playerId: PlayerId | null
+): TurnInfo | null {
+  if (!state || !playerId) return null;
+  const player = state.players[playerId];
+  if (player?.role !== "guesser") return null;
+  const key: TurnKey = (state.teams && player.team) || "all";
+  return getTurns(state).find((turn) => turn.key === key) ?? null;
+}
+
+/**
+ * Whether the player may send a signull now as far as turns go: always in
+ * rooms without turn order
+ */
+export function canSendSignullOnTurn(
+  state: GameState | null,
+  playerId: PlayerId | null
+): boolean {
+  if (!state?.turns || state.settings.playMode !== "round_robin") return true;
+  const turn = getPlayerTurn(state, playerId);
+  return !!turn && turn.playerId === playerId && !turn.hasSent;
+}
+
+/**
+ * Earliest deadline currently running in the room
+ */
+export function getNextDeadline(state: GameState | null): Date | null {
+  if (!state) return null;
+  const deadlines = [
+    getSettingDeadline(state),
+    ...Object.keys(state.signullState.itemsById).flatMap((id) => [
+      getSignullDeadline(state, id),
+      getPresenceDeadline(state, id),
+    ]),
+    ...getOpenDirectGuessProposals(state).map(getDirectGuessProposalDeadline),
+    ...getTurns(state).map((turn) => turn.deadline),
+  ].filter((d): d is Date => d !== null);
+  if (deadlines.length === 0) return null;
+  return new Date(Math.min(...deadlines.map((d) => d.getTime())));
+}
+
 /**
  * Get the number of letters revealed to show in stats/display
  */
@@ -244,6 +600,357 @@ export function getSignullsIntercepted(state: GameState | null): number {
   ).length;
 }
 
+/**
+ * Progress toward the setter's intercept win, or null when the room plays
+ * without one
+ */
+export function getInterceptProgress(
+  state: GameState | null
+): { count: number; target: number } | null {
+  if (!state || state.settings.interceptsToWin <= 0) return null;
+  return {
+    count: getSignullsIntercepted(state),
+    target: state.settings.interceptsToWin,
+  };
+}
+
+// Spectators -------------------------------------------------
+
+export function isSpectator(
+  state: GameState | null,
+  playerId: PlayerId | null
+): boolean {
+  if (!state || !playerId) return false;
+  return state.players[playerId]?.role === "spectator";
+}
+
+/**
+ * Players with a seat in the room. Spectators have no score and stay out of
+ * player counts, scoreboards and standings.
+ */
+export function getSeatedPlayers(state: GameState | null): Player[] {
+  if (!state) return [];
+  return Object.values(state.players).filter((p) => p.role !== "spectator");
+}
+
+export function getSpectators(state: GameState | null): Player[] {
+  if (!state) return [];
+  return Object.values(state.players).filter((p) => p.role === "spectator");
+}
+
+// Presence ---------------------------------------------------
+
+/**
+ * When a player stops counting as online: a grace period after their last
+ * heartbeat, or as soon as they closed the page (mirrors the engine)
+ */
+export function getPlayerOfflineAt(player: Player): Date {
+  const lastActive = player.lastActive.getTime();
+  return new Date(
+    player.isOnline ? lastActive + PRESENCE_GRACE_MS : lastActive
+  );
+}
+
+export function isPlayerOnline(player: Player, nowMs: number): boolean {
+  return nowMs < getPlayerOfflineAt(player).getTime();
+}
+
+// Teams ------------------------------------------------------
+
+/**
+ * Team the player guesses for, or null outside team mode and for the setter
+ */
+export function getPlayerTeam(
+  state: GameState | null,
+  playerId: PlayerId | null
+): TeamId | null {
+  if (!state || !playerId || !state.settings.teamMode) return null;
+  const player = state.players[playerId];
+  return player?.role === "guesser" ? (player.team ?? null) : null;
+}
+
+/**
+ * Whether the viewer takes part in a signull: team mode guessers only follow
+ * their own team's signulls, the setter and display devices see them all
+ */
+export function isSignullVisibleTo(
+  state: GameState | null,
+  signull: SignullEntry,
+  playerId: PlayerId | null
+): boolean {
+  const team = getPlayerTeam(state, playerId);
+  return !team || !signull.team || signull.team === team;
+}
+
+export interface TeamStanding {
+  team: TeamId;
+  revealedCount: number;
+  directGuessesLeft: number | null; // null = unlimited
+  playerNames: string[];
+}
+
+/**
+ * Both teams' progress side by side, or null outside a team mode round
+ */
+export function getTeamStandings(
+  state: GameState | null
+): TeamStanding[] | null {
+  if (!state?.teams) return null;
+  const teams = state.teams;
+  return TEAM_IDS.map((team) => ({
+    team,
+    revealedCount: teams[team].revealedCount,
+    directGuessesLeft:
+      state.settings.directGuessPolicy.mode === "unlimited"
+        ? null
+        : teams[team].directGuessesLeft,
+    playerNames: Object.values(state.players)
+      .filter((p) => p.role === "guesser" && p.team === team)
+      .map((p) => p.name),
+  }));
+}
+
+// Direct guesses ---------------------------------------------
+
+/**
+ * Direct guesses the player may still make, or null when the room has
+ * unlimited guesses. Shared rooms count the pool of the player's team (or
+ * the whole room).
+ */
+export function getDirectGuessesLeft(
+  state: GameState | null,
+  playerId: PlayerId | null
+): number | null {
+  if (!state || !playerId) return 0;
+  const policy = state.settings.directGuessPolicy;
+  if (policy.mode === "unlimited") return null;
+  if (policy.mode === "per_player") {
+    const made = state.directGuesses.filter(
+      (g) => g.playerId === playerId
+    ).length;
+    return Math.max(policy.count - made, 0);
+  }
+  const team = getPlayerTeam(state, playerId);
+  return team && state.teams
+    ? state.teams[team].directGuessesLeft
+    : state.directGuessesLeft;
+}
+
+export interface DirectGuessBudgetEntry {
+  playerId: PlayerId;
+  playerName: string;
+  team: TeamId | null;
+  guessesLeft: number | null; // null = unlimited
+  guesses: DirectGuess[]; // the player's guesses this round
+}
+
+/**
+ * Every guesser's remaining direct guesses and what they have guessed
+ */
+export function getDirectGuessBudget(
+  state: GameState | null
+): DirectGuessBudgetEntry[] {
+  if (!state) return [];
+  return Object.values(state.players)
+    .filter((p) => p.role === "guesser")
+    .map((p) => ({
+      playerId: p.id,
+      playerName: p.name,
+      team: getPlayerTeam(state, p.id),
+      guessesLeft: getDirectGuessesLeft(state, p.id),
+      guesses: state.directGuesses.filter((g) => g.playerId === p.id),
+    }));
+}
+
+/**
+ * Direct guesses waiting on a vote, oldest first
+ */
+export function getOpenDirectGuessProposals(
+  state: GameState | null
+): DirectGuessProposal[] {
+  if (!state || state.phase !== "signulls") return [];
+  return state.directGuessProposals.filter((p) => p.status === "pending");
+}
+
+export function getDirectGuessProposalDeadline(
+  proposal: DirectGuessProposal
+): Date {
+  return new Date(
+    proposal.createdAt.getTime() + DIRECT_GUESS_VOTE_SECONDS * 1000
+  );
+}
+
+export interface DirectGuessVoteTally {
+  voterIds: PlayerId[]; // guessers entitled to vote
+  approvals: number;
+  rejections: number;
+  needed: number; // approvals that pass the guess
+}
+
+/**
+ * Where the vote on a proposal stands. Voters are the proposer's team in
+ * team mode, otherwise every guesser.
+ */
+export function getDirectGuessVoteTally(
+  state: GameState,
+  proposal: DirectGuessProposal
+): DirectGuessVoteTally {
+  const voterIds = Object.values(state.players)
+    .filter((p) => p.role === "guesser")
+    .filter(
+      (p) => !proposal.team || getPlayerTeam(state, p.id) === proposal.team
+    )
+    .map((p) => p.id);
+  const votes = voterIds.map((id) => proposal.votes[id]);
+  return {
+    voterIds,
+    approvals: votes.filter((v) => v === true).length,
+    rejections: votes.filter((v) => v === false).length,
+    needed: getMajority(voterIds.length),
+  };
+}
+
+// Match ------------------------------------------------------
+
+export interface MatchStanding {
+  playerId: PlayerId;
+  playerName: string;
+  total: number; // points earned across the match's completed rounds
+  roundsWon: number; // rounds where this player's side won
+}
+
+/**
+ * Whether this is a multi-round match (single games skip the match screens)
+ */
+export function isMultiRoundMatch(state: GameState | null): boolean {
+  return !!state && state.settings.roundsPerMatch > 1;
+}
+
+/**
+ * Whether the last round of the match has been played
+ */
+export function isMatchOver(state: GameState | null): boolean {
+  if (!state || state.phase !== "ended") return false;
+  return state.match.roundResults.length >= state.settings.roundsPerMatch;
+}
+
+/**
+ * Players ranked by match points (highest first)
+ */
+export function getMatchStandings(state: GameState | null): MatchStanding[] {
+  if (!state) return [];
+  const totals = getMatchTotals(state.match.roundResults);
+  return getSeatedPlayers(state)
+    .map((p) => ({
+      playerId: p.id,
+      playerName: p.name,
+      total: totals[p.id] ?? 0,
+      roundsWon: state.match.roundResults.filter((r) =>
+        r.winner === "setter"
+          ? r.setterId === p.id
+          : r.winner === "guessers"
+            ? r.setterId !== p.id &&
+              (!r.winningTeam || r.winningTeam === p.team)
+            : false
+      ).length,
+    }))
+    .sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Players tied for the most match points once the match is over
+ */
+export function getMatchWinnerIds(state: GameState | null): PlayerId[] {
+  if (!isMatchOver(state)) return [];
+  const standings = getMatchStandings(state);
+  const best = standings[0]?.total ?? 0;
+  return standings.filter((s) => s.total === best).map((s) => s.playerId);
+}
+
+// Stuck games ------------------------------------------------
+
+/**
+ * Why a game can't move on by itself:
+ * - setter_away: the setter left or went away before picking a word
+ * - orphaned_signull: a pending signull whose clue giver left the room
+ * - no_guessers: nobody online is left to answer a signull (or, without a
+ *   signull, nobody is left guessing at all)
+ * - turn_holder_away: the player whose turn it is went away without sending
+ */
+export type StuckKind =
+  | "setter_away"
+  | "orphaned_signull"
+  | "no_guessers"
+  | "turn_holder_away";
+
+export interface StuckState {
+  kind: StuckKind;
+  signullId?: SignullId; // the signull that can't resolve
+  clue?: string;
+  playerId?: PlayerId; // the setter or turn holder holding things up
+  playerName?: string;
+  turnKey?: TurnKey;
+}
+
+/**
+ * Watchdog for states the game can't leave on its own, each with what the
+ * host can act on. Presence is judged at nowMs, like the player badges.
+ */
+export function getStuckStates(
+  state: GameState | null,
+  nowMs: number
+): StuckState[] {
+  if (!state) return [];
+  const isAway = (id: PlayerId) => {
+    const player = state.players[id];
+    return !player || !isPlayerOnline(player, nowMs);
+  };
+
+  if (state.phase === "setting") {
+    if (!isAway(state.setterId)) return [];
+    return [
+      {
+        kind: "setter_away",
+        playerId: state.setterId,
+        playerName: state.players[state.setterId]?.name ?? "The setter",
+      },
+    ];
+  }
+
+  if (state.phase !== "signulls") return [];
+
+  const stuck: StuckState[] = [];
+  const hasGuessers = Object.values(state.players).some(
+    (p) => p.role === "guesser"
+  );
+  if (!hasGuessers) stuck.push({ kind: "no_guessers" });
+
+  for (const signull of Object.values(state.signullState.itemsById)) {
+    if (signull.status !== "pending") continue;
+    const base = { signullId: signull.id, clue: signull.clue };
+    if (!state.players[signull.playerId]) {
+      stuck.push({ kind: "orphaned_signull", ...base });
+    } else if (
+      hasGuessers &&
+      getPendingConnects(state, signull).every(isAway)
+    ) {
+      stuck.push({ kind: "no_guessers", ...base });
+    }
+  }
+
+  for (const turn of getTurns(state)) {
+    if (!turn.playerId || turn.hasSent || !isAway(turn.playerId)) continue;
+    stuck.push({
+      kind: "turn_holder_away",
+      playerId: turn.playerId,
+      playerName: turn.playerName ?? undefined,
+      turnKey: turn.key,
+    });
+  }
+
+  return stuck;
+}
+
 // Hooks --------------------------------------------------------
 
 export function useGame() {
@@ -254,6 +961,10 @@ export function useIsSetter() {
   return useBetaStore((s) => s.userId === s.game?.setterId);
 }
 
+export function useIsSpectator() {
+  return useBetaStore((s) => isSpectator(s.game, s.userId));
+}
+
 export function useActiveSignull() {
   return useBetaStore((s) => getActiveSignull(s.game));
 }
@@ -0,0 +1,205 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { parseRoomAction, runCreateRoom, runRoomAction } from "./actions";
+import {
+  createInMemoryRoomRepository,
+  type InMemoryRoomRepository,
+} from "./room-repository";
+import {
+  HOST_ID,
+  createLobby,
+  createStartedRoom,
+  createTestClock,
+} from "@/test/beta";
+
+const ROOM_ID = "TEST01";
+
+describe("parseRoomAction", () => {
+  it("accepts a well-formed action", () => {
+    expect(parseRoomAction({ type: "leave_room" })).toEqual({
+      type: "leave_room",
+    });
+  });
+
+  it.each([
+    null,
+    { type: "make_me_host" },
+    { type: "set_secret_word" },
+    { type: "set_secret_word", word: "x".repeat(65) },
+    { type: "update_settings", settings: { maxPlayers: 99 } },
+  ])("rejects %j", (body) => {
+    expect(() => parseRoomAction(body)).toThrow("INVALID_ACTION");
+  });
+});
+
+describe("runCreateRoom", () => {
+  let repo: InMemoryRoomRepository;
+
+  beforeEach(() => {
+    repo = createInMemoryRoomRepository(createTestClock());
+  });
+
+  it("opens a lobby with the creator as host and setter", async () => {
+    const { roomId } = await runCreateRoom(
+      repo,
+      HOST_ID,
+      { name: " Alice ", settings: { maxPlayers: 5 } },
+      () => ROOM_ID
+    );
+    const room = repo.getPublicRoom(roomId)!;
+    expect(roomId).toBe(ROOM_ID);
+    expect(room.phase).toBe("lobby");
+    expect(room.hostId).toBe(HOST_ID);
+    expect(room.setterId).toBe(HOST_ID);
+    expect(room.players[HOST_ID].name).toBe("Alice");
+    expect(room.settings.maxPlayers).toBe(5);
+    expect(room.settings.timeLimitSeconds).toBe(0);
+    expect(repo.getPlayerView(roomId, HOST_ID)).toBeDefined();
+  });
+
+  it("opens an empty, hostless room for a display device", async () => {
+    const { roomId } = await runCreateRoom(
+      repo,
+      "display",
+      { name: "", isDisplayMode: true },
+      () => ROOM_ID
+    );
+    const room = repo.getPublicRoom(roomId)!;
+    expect(room.hostId).toBeNull();
+    expect(room.displayDeviceId).toBe("display");
+    expect(room.players).toEqual({});
+  });
+
+  it("tries another code when one is taken", async () => {
+    repo.seed(createLobby(createTestClock()));
+    const codes = [ROOM_ID, "TEST02"];
+    const { roomId } = await runCreateRoom(
+      repo,
+      "erin",
+      { name: "Erin" },
+      () => codes.shift()!
+    );
+    expect(roomId).toBe("TEST02");
+    expect(repo.getPublicRoom(ROOM_ID)!.hostId).toBe(HOST_ID);
+  });
+
+  it.each([
+    [{ maxPlayers: 2 }, "INVALID_SETTINGS"],
+    [{ timeLimitSeconds: 3600 }, "INVALID_SETTINGS"],
+    [{ maxPlayers: 4, connectsRequired: 3 }, "CONNECTS_EXCEED_GUESSERS"],
+  ])("rejects settings %j", async (settings, code) => {
+    await expect(
+      runCreateRoom(repo, HOST_ID, { name: "Alice", settings }, () => ROOM_ID)
+    ).rejects.toThrow(code);
+    expect(repo.getPublicRoom(ROOM_ID)).toBeUndefined();
+  });
+});
+
+describe("runRoomAction", () => {
+  let repo: InMemoryRoomRepository;
+
+  beforeEach(() => {
+    const clock = createTestClock();
+    repo = createInMemoryRoomRepository(clock);
+    repo.seed(createStartedRoom(clock));
+  });
+
+  it("fails for a room that doesn't exist", async () => {
+    await expect(
+      runRoomAction(repo, "NOPE00", HOST_ID, { type: "leave_room" })
+    ).rejects.toThrow("ROOM_NOT_FOUND");
+  });
+
+  it("only lets the setter pick the word", async () => {
+    await expect(
+      runRoomAction(repo, ROOM_ID, "bob", {
+        type: "set_secret_word",
+        word: "planet",
+      })
+    ).rejects.toThrow("NOT_AUTHORIZED");
+    expect(repo.getSecrets(ROOM_ID)!.secretWord).toBe("");
+  });
+
+  it("checks the word against the dictionary", async () => {
+    await expect(
+      runRoomAction(repo, ROOM_ID, HOST_ID, {
+        type: "set_secret_word",
+        word: "plnaet",
+      })
+    ).rejects.toThrow("WORD_NOT_IN_DICTIONARY");
+  });
+
+  it("returns the id of a new signull", async () => {
+    await runRoomAction(repo, ROOM_ID, HOST_ID, {
+      type: "set_secret_word",
+      word: "planet",
+    });
+    const { signullId } = await runRoomAction(repo, ROOM_ID, "bob", {
+      type: "add_signull",
+      word: "piano",
+      clue: "Keys and pedals",
+    });
+    expect(signullId).toBeDefined();
+    expect(repo.getSecrets(ROOM_ID)!.signulls[signullId!].word).toBe("PIANO");
+  });
+
+  it("keeps host controls to the host", async () => {
+    await expect(
+      runRoomAction(repo, ROOM_ID, "bob", {
+        type: "update_settings",
+        settings: { displaySoundMode: false },
+      })
+    ).rejects.toThrow("NOT_AUTHORIZED");
+    await expect(
+      runRoomAction(repo, ROOM_ID, "bob", {
+        type: "remove_player",
+        playerId: "cara",
+      })
+    ).rejects.toThrow("NOT_AUTHORIZED");
+    expect(repo.getPublicRoom(ROOM_ID)!.players.cara).toBeDefined();
+  });
+
+  it("gives a player who joins mid-round a view", async () => {
+    await runRoomAction(repo, ROOM_ID, HOST_ID, {
+      type: "set_secret_word",
+      word: "planet",
+    });
+    await runRoomAction(repo, ROOM_ID, HOST_ID, {
+      type: "update_settings",
+      settings: { lateJoinPolicy: "new_signulls" },
+    });
+    await runRoomAction(repo, ROOM_ID, "erin", {
+      type: "join_room",
+      name: "Erin",
+    });
+    expect(repo.getPublicRoom(ROOM_ID)!.players.erin.role).toBe("guesser");
+    expect(repo.getPlayerView(ROOM_ID, "erin")).toEqual(
+      expect.objectContaining({ secretWord: null, signullWords: {} })
+    );
+  });
+
+  it("hands the host's roles on when they leave and drops their view", async () => {
+    await runRoomAction(repo, ROOM_ID, HOST_ID, { type: "leave_room" });
+    const room = repo.getPublicRoom(ROOM_ID)!;
+    expect(room.players[HOST_ID]).toBeUndefined();
+    expect(room.hostId).toBe("bob");
+    expect(room.setterId).toBe("bob");
+    expect(repo.getPlayerView(ROOM_ID, HOST_ID)).toBeUndefined();
+  });
+
+  it("archives the ended round when the next one starts", async () => {
+    await runRoomAction(repo, ROOM_ID, HOST_ID, {
+      type: "set_secret_word",
+      word: "planet",
+    });
+    await runRoomAction(repo, ROOM_ID, "cara", {
+      type: "submit_direct_guess",
+      guess: "planet",
+    });
+    await runRoomAction(repo, ROOM_ID, HOST_ID, { type: "play_again" });
+
+    expect(repo.getPublicRoom(ROOM_ID)!.phase).toBe("setting");
+    expect(repo.getRoundArchives(ROOM_ID)).toEqual([
+      expect.objectContaining({ secretWord: "PLANET", winner: "guessers" }),
+    ]);
+  });
+});
@@ -0,0 +1,415 @@
+// Dispatch of hidden-state mutations against the authoritative room
+import { z } from "zod";
+import {
+  applyAddSignull,
+  applyBackToLobby,
+  applyChallengeSignull,
+  applyChangeSetter,
+  applyDirectGuess,
+  applyEditSignullClue,
+  applyEndGame,
+  applyExpireDeadlines,
+  applyForceFailSignull,
+  applyForceSkipTurn,
+  applyJoinRoom,
+  applyLeaveRoom,
+  applyPlayAgain,
+  applyPromoteSpectator,
+  applyProposeDirectGuess,
+  applyReassignSetter,
+  applyResetScores,
+  applyRetractSignull,
+  applySetPlayerTeam,
+  applySetSecretWord,
+  applySkipTurn,
+  applyStartGame,
+  applySubmitConnect,
+  applyVoteChallenge,
+  applyVoteDirectGuess,
+  applyVoidRound,
+  buildNewRoom,
+  buildRoundArchive,
+  type EngineClock,
+} from "../engine";
+import type {
+  CreateRoomRequest,
+  CreateRoomResult,
+  DirectGuessProposalId,
+  FirestoreGameRoom,
+  PlayerId,
+  RoomAction,
+  RoomActionResult,
+  RoomId,
+  SignullId,
+} from "../types";
+import {
+  applyUpdateSettings,
+  gameSettingsPatchSchema,
+  resolveNewRoomSettings,
+} from "../settings";
+import { ROOM_CODE_ATTEMPTS, generateRoomCode } from "../room-codes";
+import { assertAllowedWord, isAllowedWord } from "./dictionary";
+import type { RoomRepository, RoomWrites } from "./room-repository";
+
+const wordField = z.string().max(64);
+const playerIdField = z.string().max(128);
+
+const roomActionSchema: z.ZodType<RoomAction> = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("set_secret_word"), word: wordField }),
+  z.object({
+    type: z.literal("add_signull"),
+    word: wordField,
+    clue: z.string().max(280),
+  }),
+  z.object({
+    type: z.literal("submit_connect"),
+    guess: wordField,
+    signullId: z.string().max(64).optional(),
+  }),
+  z.object({
+    type: z.literal("retract_signull"),
+    signullId: z.string().max(64),
+  }),
+  z.object({
+    type: z.literal("edit_signull_clue"),
+    signullId: z.string().max(64),
+    clue: z.string().max(280),
+  }),
+  z.object({
+    type: z.literal("challenge_signull"),
+    signullId: z.string().max(64),
+  }),
+  z.object({
+    type: z.literal("vote_challenge"),
+    signullId: z.string().max(64),
+    uphold: z.boolean(),
+  }),
+  z.object({ type: z.literal("submit_direct_guess"), guess: wordField }),
+  z.object({ type: z.literal("propose_direct_guess"), guess: wordField }),
+  z.object({
+    type: z.literal("vote_direct_guess"),
+    proposalId: z.string().max(64),
+    approve: z.boolean(),
+  }),
+  z.object({ type: z.literal("skip_turn") }),
+  z.object({ type: z.literal("expire_deadlines") }),
+  z.object({ type: z.literal("join_room"), name: z.string().max(64) }),
+  z.object({ type: z.literal("leave_room") }),
+  z.object({ type: z.literal("remove_player"), playerId: playerIdField }),
+  z.object({
+    type: z.literal("set_player_team"),
+    playerId: playerIdField,
+    team: z.enum(["red", "blue"]).nullable(),
+  }),
+  z.object({ type: z.literal("promote_spectator"), playerId: playerIdField }),
+  z.object({ type: z.literal("change_setter"), playerId: playerIdField }),
+  z.object({ type: z.literal("start_game") }),
+  z.object({ type: z.literal("play_again") }),
+  z.object({ type: z.literal("back_to_lobby"), resetScores: z.boolean() }),
+  z.object({ type: z.literal("reset_scores") }),
+  z.object({
+    type: z.literal("end_game"),
+    winner: z.enum(["guessers", "setter"]).nullable(),
+  }),
+  z.object({
+    type: z.literal("force_fail_signull"),
+    signullId: z.string().max(64),
+  }),
+  z.object({
+    type: z.literal("force_skip_turn"),
+    turnKey: z.enum(["all", "red", "blue"]),
+  }),
+  z.object({
+    type: z.literal("reassign_setter"),
+    playerId: playerIdField,
+  }),
+  z.object({ type: z.literal("void_round") }),
+  z.object({
+    type: z.literal("update_settings"),
+    settings: gameSettingsPatchSchema,
+  }),
+]);
+
+export const parseRoomAction = (body: unknown): RoomAction => {
+  const parsed = roomActionSchema.safeParse(body);
+  if (!parsed.success) throw new Error("INVALID_ACTION");
+  return parsed.data;
+};
+
+const createRoomSchema: z.ZodType<CreateRoomRequest> = z.object({
+  name: z.string().max(64),
+  settings: gameSettingsPatchSchema.optional(),
+  isDisplayMode: z.boolean().optional(),
+});
+
+export const parseCreateRoomRequest = (body: unknown): CreateRoomRequest => {
+  const parsed = createRoomSchema.safeParse(body);
+  if (!parsed.success) throw new Error("INVALID_ACTION");
+  return parsed.data;
+};
+
+/**
+ * Open a room under a fresh code. Settings are checked before any code is
+ * claimed; a taken code is retried a few times with a new one.
+ */
+export const runCreateRoom = async (
+  repo: RoomRepository,
+  creatorId: PlayerId,
+  request: CreateRoomRequest,
+  nextRoomCode: () => RoomId = generateRoomCode
+): Promise<CreateRoomResult> => {
+  const settings = resolveNewRoomSettings(request.settings);
+  const isDisplayMode = request.isDisplayMode ?? false;
+  for (let attempt = 0; attempt < ROOM_CODE_ATTEMPTS; attempt++) {
+    const roomId = nextRoomCode();
+    const created = await repo.create(roomId, (clock) =>
+      buildNewRoom(
+        roomId,
+        creatorId,
+        request.name,
+        settings,
+        isDisplayMode,
+        clock
+      )
+    );
+    if (created) return { roomId };
+  }
+  throw new Error("NO_ROOM_CODE_AVAILABLE");
+};
+
+// Tells inflections and typos from other real words, whatever the room's
+// own validation mode
+const isKnownWord = (word: string) => isAllowedWord(word, "strict");
+
+const generateSignullId = (): SignullId => {
+  const ts = Date.now().toString(36);
+  const rand = Math.random().toString(36).slice(2, 9);
+  return `sn_${ts}_${rand}`;
+};
+
+const generateProposalId = (): DirectGuessProposalId => {
+  const ts = Date.now().toString(36);
+  const rand = Math.random().toString(36).slice(2, 9);
+  return `dg_${ts}_${rand}`;
+};
+
+const generateArchiveId = (): string => {
+  const ts = Date.now().toString(36);
+  const rand = Math.random().toString(36).slice(2, 9);
+  return `ar_${ts}_${rand}`;
+};
+
+// Keep the round that just ended before play_again or back_to_lobby clear
+// it. Ended rounds are fully revealed, so nothing hidden is archived early.
+const archiveEndedRound = (
+  room: FirestoreGameRoom,
+  archiveId: string,
+  clock: EngineClock,
+  writes: RoomWrites
+) => {
+  if (room.phase !== "ended" || !room.secretWord) return;
+  writes.archiveRound(buildRoundArchive(room, archiveId, clock.now()));
+};
+
+export const runRoomAction = (
+  repo: RoomRepository,
+  roomId: RoomId,
+  actorId: PlayerId,
+  action: RoomAction
+): Promise<RoomActionResult> => {
+  switch (action.type) {
+    case "set_secret_word":
+      return repo.transact(roomId, (room, clock) => {
+        assertAllowedWord(action.word, room.settings.wordValidation);
+        applySetSecretWord(room, actorId, action.word, clock);
+        return {};
+      });
+    case "add_signull": {
+      const signullId = generateSignullId();
+      return repo.transact(roomId, (room, clock) => {
+        assertAllowedWord(action.word, room.settings.wordValidation);
+        applyAddSignull(
+          room,
+          actorId,
+          signullId,
+          action.word,
+          action.clue,
+          clock,
+          isKnownWord
+        );
+        return { signullId };
+      });
+    }
+    case "submit_connect":
+      return repo.transact(roomId, (room, clock) => {
+        applySubmitConnect(
+          room,
+          actorId,
+          action.signullId,
+          action.guess,
+          clock,
+          isKnownWord
+        );
+        return {};
+      });
+    case "retract_signull":
+      return repo.transact(roomId, (room, clock) => {
+        applyRetractSignull(room, actorId, action.signullId, clock);
+        return {};
+      });
+    case "edit_signull_clue":
+      return repo.transact(roomId, (room, clock) => {
+        applyEditSignullClue(
+          room,
+          actorId,
+          action.signullId,
+          action.clue,
+          clock,
+          isKnownWord
+        );
+        return {};
+      });
+    case "challenge_signull":
+      return repo.transact(roomId, (room, clock) => {
+        applyChallengeSignull(room, actorId, action.signullId, clock);
+        return {};
+      });
+    case "vote_challenge":
+      return repo.transact(roomId, (room, clock) => {
+        applyVoteChallenge(
+          room,
+          actorId,
+          action.signullId,
+          action.uphold,
+          clock
+        );
+        return {};
+      });
+    case "submit_direct_guess":
+      return repo.transact(roomId, (room, clock) => {
+        // Rejected before it can use up one of the team's guesses
+        assertAllowedWord(action.guess, room.settings.wordValidation);
+        applyDirectGuess(room, actorId, action.guess, clock);
+        return {};
+      });
+    case "propose_direct_guess": {
+      const proposalId = generateProposalId();
+      return repo.transact(roomId, (room, clock) => {
+        // Checked up front so the team never votes on an unplayable word
+        assertAllowedWord(action.guess, room.settings.wordValidation);
+        applyProposeDirectGuess(room, actorId, proposalId, action.guess, clock);
+        return { proposalId };
+      });
+    }
+    case "vote_direct_guess":
+      return repo.transact(roomId, (room, clock) => {
+        applyVoteDirectGuess(
+          room,
+          actorId,
+          action.proposalId,
+          action.approve,
+          clock
+        );
+        return {};
+      });
+    case "skip_turn":
+      return repo.transact(roomId, (room, clock) => {
+        applySkipTurn(room, actorId, clock);
+        return {};
+      });
+    case "expire_deadlines":
+      // Anyone watching the room may trigger expiry; the rules check the clock
+      return repo.transact(roomId, (room, clock) => {
+        applyExpireDeadlines(room, clock);
+        return {};
+      });
+    case "join_room":
+      return repo.transact(roomId, (room, clock) => {
+        applyJoinRoom(room, actorId, action.name, clock);
+        return {};
+      });
+    case "leave_room":
+      return repo.transact(roomId, (room, clock) => {
+        applyLeaveRoom(room, actorId, actorId, clock);
+        return {};
+      });
+    case "remove_player":
+      return repo.transact(roomId, (room, clock) => {
+        applyLeaveRoom(room, action.playerId, actorId, clock);
+        return {};
+      });
+    case "set_player_team":
+      return repo.transact(roomId, (room, clock) => {
+        applySetPlayerTeam(room, actorId, action.playerId, action.team, clock);
+        return {};
+      });
+    // Host only from here on; the rules reject anyone else
+    case "promote_spectator":
+      return repo.transact(roomId, (room, clock) => {
+        applyPromoteSpectator(room, actorId, action.playerId, clock);
+        return {};
+      });
+    case "change_setter":
+      return repo.transact(roomId, (room, clock) => {
+        applyChangeSetter(room, actorId, action.playerId, clock);
+        return {};
+      });
+    case "start_game":
+      return repo.transact(roomId, (room, clock) => {
+        applyStartGame(room, actorId, clock);
+        return {};
+      });
+    case "play_again": {
+      const archiveId = generateArchiveId();
+      return repo.transact(roomId, (room, clock, writes) => {
+        archiveEndedRound(room, archiveId, clock, writes);
+        applyPlayAgain(room, actorId, clock);
+        return {};
+      });
+    }
+    case "back_to_lobby": {
+      const archiveId = generateArchiveId();
+      return repo.transact(roomId, (room, clock, writes) => {
+        archiveEndedRound(room, archiveId, clock, writes);
+        applyBackToLobby(room, actorId, action.resetScores, clock);
+        return {};
+      });
+    }
+    case "reset_scores":
+      return repo.transact(roomId, (room, clock) => {
+        applyResetScores(room, actorId, clock);
+        return {};
+      });
+    case "end_game":
+      return repo.transact(roomId, (room, clock) => {
+        applyEndGame(room, actorId, action.winner, clock);
+        return {};
+      });
+    // Host recovery; the rules reject anyone but the host
+    case "force_fail_signull":
+      return repo.transact(roomId, (room, clock) => {
+        applyForceFailSignull(room, actorId, action.signullId, clock);
+        return {};
+      });
+    case "force_skip_turn":
+      return repo.transact(roomId, (room, clock) => {
+        applyForceSkipTurn(room, actorId, action.turnKey, clock);
+        return {};
+      });
+    case "reassign_setter":
+      return repo.transact(roomId, (room, clock) => {
+        applyReassignSetter(room, actorId, action.playerId, clock);
+        return {};
+      });
+    case "void_round":
+      return repo.transact(roomId, (room, clock) => {
+        applyVoidRound(room, actorId, clock);
+        return {};
+      });
+    case "update_settings":
+      return repo.transact(roomId, (room, clock) => {
+        applyUpdateSettings(room, actorId, action.settings, clock);
+        return {};
+      });
+  }
+};
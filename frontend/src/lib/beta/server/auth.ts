@@ -0,0 +1,20 @@
+// Identify the player behind a beta API request
+import { adminAuth } from "../../firebase/admin";
+import type { PlayerId } from "../types";
+
+/**
+ * Resolve the requester from the `Authorization: Bearer <Firebase ID token>`
+ * header. Player ids in the beta schema are anonymous-auth uids, so the
+ * verified uid is the acting player.
+ */
+export const getRequesterId = async (request: Request): Promise<PlayerId> => {
+  const header = request.headers.get("authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token || !adminAuth) throw new Error("AUTH_REQUIRED");
+  try {
+    const decoded = await adminAuth.verifyIdToken(token);
+    return decoded.uid;
+  } catch {
+    throw new Error("AUTH_REQUIRED");
+  }
+};
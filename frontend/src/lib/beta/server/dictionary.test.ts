@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { assertAllowedWord, isAllowedWord } from "./dictionary";
+
+describe("isAllowedWord", () => {
+  it("accepts dictionary words in any case", () => {
+    expect(isAllowedWord("Planet", "strict")).toBe(true);
+    expect(isAllowedWord(" piano ", "strict")).toBe(true);
+  });
+
+  it("rejects made-up words", () => {
+    expect(isAllowedWord("plnaet", "strict")).toBe(false);
+    expect(isAllowedWord("plnaet", "relaxed")).toBe(false);
+  });
+
+  it("only accepts proper nouns in relaxed mode", () => {
+    expect(isAllowedWord("london", "strict")).toBe(false);
+    expect(isAllowedWord("London", "relaxed")).toBe(true);
+  });
+});
+
+describe("assertAllowedWord", () => {
+  it("throws WORD_NOT_IN_DICTIONARY for an unknown word", () => {
+    expect(() => assertAllowedWord("plnaet", "strict")).toThrow(
+      "WORD_NOT_IN_DICTIONARY"
+    );
+  });
+
+  it("leaves malformed input to the engine", () => {
+    expect(() => assertAllowedWord("two words", "strict")).not.toThrow();
+  });
+});
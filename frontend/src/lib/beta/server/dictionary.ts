@@ -0,0 +1,35 @@
+// Offline dictionary behind GameSettings.wordValidation
+import englishWords from "an-array-of-english-words";
+import type { GameSettings } from "../types";
+import { PROPER_NOUNS } from "./proper-nouns";
+
+type WordValidation = GameSettings["wordValidation"];
+
+// ~275k entries, so the set is only built on first use
+let dictionary: Set<string> | null = null;
+const properNouns = new Set(PROPER_NOUNS);
+
+const getDictionary = (): Set<string> => {
+  if (!dictionary) dictionary = new Set(englishWords);
+  return dictionary;
+};
+
+/**
+ * Strict mode accepts dictionary words only; relaxed mode also accepts the
+ * supplementary proper nouns.
+ */
+export const isAllowedWord = (word: string, mode: WordValidation): boolean => {
+  const lower = word.trim().toLowerCase();
+  if (getDictionary().has(lower)) return true;
+  return mode === "relaxed" && properNouns.has(lower);
+};
+
+/**
+ * Throws WORD_NOT_IN_DICTIONARY for a well-formed word the mode rejects.
+ * Malformed input is left to the engine so it keeps reporting
+ * INVALID_WORD_FORMAT.
+ */
+export const assertAllowedWord = (word: string, mode: WordValidation): void => {
+  if (!/^[A-Za-z]+$/.test(word.trim())) return;
+  if (!isAllowedWord(word, mode)) throw new Error("WORD_NOT_IN_DICTIONARY");
+};
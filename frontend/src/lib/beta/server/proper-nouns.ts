@@ -0,0 +1,323 @@
+// Supplementary proper nouns accepted when wordValidation is "relaxed".
+// Single words only, lower-case; grouped loosely so additions are easy to place.
+export const PROPER_NOUNS: readonly string[] = [
+  // Continents, oceans and regions
+  "africa",
+  "antarctica",
+  "arctic",
+  "asia",
+  "atlantic",
+  "australia",
+  "europe",
+  "oceania",
+  "pacific",
+  "sahara",
+  "siberia",
+  "scandinavia",
+  "balkans",
+  "caribbean",
+  "mediterranean",
+  "himalayas",
+  "alps",
+  "andes",
+  "amazon",
+  "nile",
+  "ganges",
+  "danube",
+  "thames",
+  "mississippi",
+  "everest",
+
+  // Countries
+  "afghanistan",
+  "albania",
+  "algeria",
+  "argentina",
+  "armenia",
+  "austria",
+  "bangladesh",
+  "belgium",
+  "bhutan",
+  "bolivia",
+  "brazil",
+  "bulgaria",
+  "cambodia",
+  "cameroon",
+  "canada",
+  "chile",
+  "china",
+  "colombia",
+  "croatia",
+  "cuba",
+  "cyprus",
+  "denmark",
+  "egypt",
+  "england",
+  "estonia",
+  "ethiopia",
+  "fiji",
+  "finland",
+  "france",
+  "georgia",
+  "germany",
+  "ghana",
+  "greece",
+  "guatemala",
+  "haiti",
+  "honduras",
+  "hungary",
+  "iceland",
+  "india",
+  "indonesia",
+  "iran",
+  "iraq",
+  "ireland",
+  "israel",
+  "italy",
+  "jamaica",
+  "japan",
+  "jordan",
+  "kazakhstan",
+  "kenya",
+  "korea",
+  "kuwait",
+  "laos",
+  "latvia",
+  "lebanon",
+  "libya",
+  "lithuania",
+  "luxembourg",
+  "madagascar",
+  "malaysia",
+  "maldives",
+  "mali",
+  "malta",
+  "mexico",
+  "monaco",
+  "mongolia",
+  "morocco",
+  "mozambique",
+  "myanmar",
+  "nepal",
+  "netherlands",
+  "nigeria",
+  "norway",
+  "oman",
+  "pakistan",
+  "panama",
+  "paraguay",
+  "peru",
+  "philippines",
+  "poland",
+  "portugal",
+  "qatar",
+  "romania",
+  "russia",
+  "rwanda",
+  "scotland",
+  "senegal",
+  "serbia",
+  "singapore",
+  "slovakia",
+  "slovenia",
+  "somalia",
+  "spain",
+  "sudan",
+  "sweden",
+  "switzerland",
+  "syria",
+  "taiwan",
+  "tanzania",
+  "thailand",
+  "tibet",
+  "tunisia",
+  "turkey",
+  "uganda",
+  "ukraine",
+  "uruguay",
+  "uzbekistan",
+  "venezuela",
+  "vietnam",
+  "wales",
+  "yemen",
+  "zambia",
+  "zimbabwe",
+
+  // Cities
+  "amsterdam",
+  "athens",
+  "bangkok",
+  "barcelona",
+  "beijing",
+  "berlin",
+  "bombay",
+  "boston",
+  "brussels",
+  "budapest",
+  "cairo",
+  "chennai",
+  "chicago",
+  "delhi",
+  "dubai",
+  "dublin",
+  "edinburgh",
+  "florence",
+  "goa",
+  "hollywood",
+  "istanbul",
+  "jaipur",
+  "jerusalem",
+  "kolkata",
+  "lisbon",
+  "london",
+  "madrid",
+  "manchester",
+  "melbourne",
+  "miami",
+  "milan",
+  "moscow",
+  "mumbai",
+  "munich",
+  "nairobi",
+  "naples",
+  "paris",
+  "prague",
+  "rio",
+  "rome",
+  "seattle",
+  "seoul",
+  "shanghai",
+  "sydney",
+  "tokyo",
+  "toronto",
+  "venice",
+  "vienna",
+  "warsaw",
+  "zurich",
+
+  // Space
+  "mercury",
+  "venus",
+  "earth",
+  "mars",
+  "jupiter",
+  "saturn",
+  "uranus",
+  "neptune",
+  "pluto",
+  "sirius",
+  "orion",
+  "andromeda",
+
+  // Calendar
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+  "christmas",
+  "easter",
+  "diwali",
+  "holi",
+  "eid",
+  "hanukkah",
+  "halloween",
+  "ramadan",
+
+  // Myth, religion and legend
+  "apollo",
+  "athena",
+  "zeus",
+  "hera",
+  "hades",
+  "poseidon",
+  "hermes",
+  "thor",
+  "odin",
+  "loki",
+  "krishna",
+  "shiva",
+  "vishnu",
+  "ganesha",
+  "buddha",
+  "hercules",
+  "achilles",
+  "medusa",
+  "pegasus",
+  "merlin",
+  "excalibur",
+  "atlantis",
+  "olympus",
+  "valhalla",
+
+  // Brands and products
+  "adidas",
+  "amazon",
+  "apple",
+  "bmw",
+  "cadbury",
+  "disney",
+  "facebook",
+  "ferrari",
+  "google",
+  "gucci",
+  "ikea",
+  "instagram",
+  "lego",
+  "microsoft",
+  "netflix",
+  "nike",
+  "nintendo",
+  "pepsi",
+  "porsche",
+  "puma",
+  "samsung",
+  "sony",
+  "spotify",
+  "starbucks",
+  "tesla",
+  "toyota",
+  "twitter",
+  "uber",
+  "youtube",
+
+  // Characters and people
+  "batman",
+  "superman",
+  "spiderman",
+  "hulk",
+  "sherlock",
+  "dracula",
+  "frankenstein",
+  "gandalf",
+  "harry",
+  "hermione",
+  "mickey",
+  "pikachu",
+  "mario",
+  "yoda",
+  "shakespeare",
+  "einstein",
+  "newton",
+  "darwin",
+  "gandhi",
+  "picasso",
+  "mozart",
+  "beethoven",
+  "elvis",
+  "beatles",
+];
@@ -0,0 +1,23 @@
+// HTTP responses for the beta room routes
+import { NextResponse } from "next/server";
+
+// Game rule violations are thrown as upper-case codes (e.g. "NOT_YOUR_TURN")
+const ERROR_CODE_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+export const toErrorResponse = (error: unknown, context: string) => {
+  const message = error instanceof Error ? error.message : "";
+  if (message === "AUTH_REQUIRED") {
+    return NextResponse.json({ code: message }, { status: 401 });
+  }
+  if (message === "SERVER_NOT_CONFIGURED") {
+    return NextResponse.json({ code: message }, { status: 503 });
+  }
+  if (message === "ROOM_NOT_FOUND") {
+    return NextResponse.json({ code: message }, { status: 404 });
+  }
+  if (ERROR_CODE_PATTERN.test(message)) {
+    return NextResponse.json({ code: message }, { status: 400 });
+  }
+  console.error(`${context}:`, error);
+  return NextResponse.json({ code: "SERVER_ERROR" }, { status: 500 });
+};
@@ -0,0 +1,103 @@
+// @vitest-environment node
+import { Timestamp, type Firestore } from "firebase-admin/firestore";
+import { describe, expect, it } from "vitest";
+import { ROOM_TTL_MS } from "../room-codes";
+import { releaseExpiredRooms } from "./room-cleanup";
+
+const NOW = Date.UTC(2025, 0, 2);
+
+interface StoredRoom {
+  id: string;
+  updatedAt: Timestamp;
+  players: Record<string, { lastActive: Timestamp }>;
+}
+
+/**
+ * Just enough of a Firestore for the cleanup query: one collection filtered
+ * on and ordered by updatedAt, paged with limit and startAfter
+ */
+const createFakeDb = (rooms: StoredRoom[]) => {
+  const deleted: string[] = [];
+  let reads = 0;
+  const sorted = [...rooms].sort(
+    (a, b) => a.updatedAt.toMillis() - b.updatedAt.toMillis()
+  );
+  const toDoc = (room: StoredRoom) => ({
+    id: room.id,
+    ref: { id: room.id },
+    data: () => room,
+  });
+
+  const query = (cutoffMs: number, size: number, afterId?: string) => ({
+    limit: (n: number) => query(cutoffMs, n, afterId),
+    startAfter: (doc: { id: string }) => query(cutoffMs, size, doc.id),
+    get: async () => {
+      const stale = sorted.filter((r) => r.updatedAt.toMillis() < cutoffMs);
+      const start = afterId ? stale.findIndex((r) => r.id === afterId) + 1 : 0;
+      const docs = stale.slice(start, start + size).map(toDoc);
+      reads += docs.length;
+      return { docs };
+    },
+  });
+
+  const db = {
+    collection: () => ({
+      where: (_field: string, _op: string, cutoff: Timestamp) => ({
+        orderBy: () => query(cutoff.toMillis(), Infinity),
+      }),
+    }),
+    recursiveDelete: async (ref: { id: string }) => {
+      deleted.push(ref.id);
+    },
+  };
+  return {
+    db: db as unknown as Firestore,
+    deleted,
+    getReads: () => reads,
+  };
+};
+
+const createRooms = (count: number, prefix: string, heartbeatMs?: number) =>
+  Array.from(
+    { length: count },
+    (_, i): StoredRoom => ({
+      id: `${prefix}${i}`,
+      updatedAt: Timestamp.fromMillis(NOW - 2 * ROOM_TTL_MS + i),
+      players: heartbeatMs
+        ? { p: { lastActive: Timestamp.fromMillis(heartbeatMs) } }
+        : {},
+    })
+  );
+
+describe("releaseExpiredRooms", () => {
+  it("deletes idle rooms and leaves fresh ones", async () => {
+    const fresh = {
+      id: "FRESH",
+      updatedAt: Timestamp.fromMillis(NOW - 1000),
+      players: {},
+    };
+    const { db, deleted } = createFakeDb([...createRooms(3, "OLD"), fresh]);
+    expect(await releaseExpiredRooms(db, NOW)).toBe(3);
+    expect(deleted).toEqual(["OLD0", "OLD1", "OLD2"]);
+  });
+
+  it("pages past stale rooms that still get heartbeats", async () => {
+    const heartbeating = createRooms(250, "LIVE", NOW - 60_000);
+    const idle = createRooms(5, "IDLE").map((room) => ({
+      ...room,
+      updatedAt: Timestamp.fromMillis(NOW - ROOM_TTL_MS - 1),
+    }));
+    const { db, deleted } = createFakeDb([...heartbeating, ...idle]);
+    expect(await releaseExpiredRooms(db, NOW)).toBe(5);
+    expect(deleted).toEqual(idle.map((room) => room.id));
+  });
+
+  it("stops after a run's worth of deletes and reads", async () => {
+    const idle = createFakeDb(createRooms(150, "IDLE"));
+    expect(await releaseExpiredRooms(idle.db, NOW)).toBe(100);
+
+    const heartbeating = createFakeDb(createRooms(3000, "LIVE", NOW));
+    expect(await releaseExpiredRooms(heartbeating.db, NOW)).toBe(0);
+    expect(heartbeating.getReads()).toBe(2000);
+  });
+});
@@ -0,0 +1,52 @@
+// Frees the codes of beta rooms nobody is using any more
+import {
+  Timestamp,
+  type Firestore,
+  type QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { BETA_COLLECTION } from "../projection";
+import { ROOM_TTL_MS, isRoomExpired } from "../room-codes";
+import type { FirestoreGameRoom } from "../types";
+
+// Rooms read per query, and deleted per run; anything left over is picked
+// up by the next run
+const CLEANUP_PAGE_SIZE = 100;
+const CLEANUP_MAX_DELETES = 100;
+// Caps the reads a run spends on stale rooms that still get heartbeats
+const CLEANUP_MAX_PAGES = 20;
+
+/**
+ * Deletes rooms that have been idle for longer than ROOM_TTL_MS, along with
+ * their views, secrets and round archives, so their codes can be allocated
+ * again. A room whose last change is old but whose players still send
+ * heartbeats is left alone; heartbeats don't touch updatedAt, so the query
+ * pages past such rooms instead of stopping at the first page of them.
+ * Returns how many rooms were deleted.
+ */
+export const releaseExpiredRooms = async (
+  db: Firestore,
+  nowMs: number = Date.now()
+): Promise<number> => {
+  const staleRooms = db
+    .collection(BETA_COLLECTION)
+    .where("updatedAt", "<", Timestamp.fromMillis(nowMs - ROOM_TTL_MS))
+    .orderBy("updatedAt")
+    .limit(CLEANUP_PAGE_SIZE);
+
+  let released = 0;
+  let lastDoc: QueryDocumentSnapshot | undefined;
+  for (let page = 0; page < CLEANUP_MAX_PAGES; page++) {
+    const snapshot = await (
+      lastDoc ? staleRooms.startAfter(lastDoc) : staleRooms
+    ).get();
+    for (const doc of snapshot.docs) {
+      if (released >= CLEANUP_MAX_DELETES) return released;
+      if (!isRoomExpired(doc.data() as FirestoreGameRoom, nowMs)) continue;
+      await db.recursiveDelete(doc.ref);
+      released++;
+    }
+    if (snapshot.docs.length < CLEANUP_PAGE_SIZE) break;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+  return released;
+};
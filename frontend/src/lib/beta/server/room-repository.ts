@@ -0,0 +1,233 @@
+// Server-side access to the authoritative beta room
+import { Timestamp } from "firebase/firestore";
+import {
+  Timestamp as AdminTimestamp,
+  type Firestore,
+} from "firebase-admin/firestore";
+import type { EngineClock } from "../engine";
+import {
+  BETA_COLLECTION,
+  PRIVATE_COLLECTION,
+  ROUND_ARCHIVES_COLLECTION,
+  SECRETS_DOC_ID,
+  VIEWS_COLLECTION,
+  extractRoomSecrets,
+  mergeRoomSecrets,
+  projectPlayerView,
+  projectPublicRoom,
+} from "../projection";
+import type {
+  FirestoreGameRoom,
+  FirestorePlayerView,
+  FirestoreRoomSecrets,
+  FirestoreRoundArchive,
+  PlayerId,
+  RoomId,
+} from "../types";
+
+/**
+ * Documents a mutation writes next to the room, in the same transaction
+ */
+export interface RoomWrites {
+  archiveRound(archive: FirestoreRoundArchive): void;
+}
+
+/**
+ * Reads the full room (public document + secrets), lets `mutate` change it
+ * and persists every projection atomically. Every player still in the room
+ * gets a fresh view and players who left lose theirs. `mutate` may run more
+ * than once when a transaction is retried, so it must not have side effects
+ * outside the room and `writes` it is given. A mutation that leaves
+ * `updatedAt` untouched changed nothing and is not written.
+ */
+export interface RoomRepository {
+  /**
+   * Stores the room `build` returns under `roomId`, with the same
+   * projections as `transact`, unless that id is taken. Resolves to whether
+   * the room was created.
+   */
+  create(
+    roomId: RoomId,
+    build: (clock: EngineClock) => FirestoreGameRoom
+  ): Promise<boolean>;
+  transact<T>(
+    roomId: RoomId,
+    mutate: (
+      room: FirestoreGameRoom,
+      clock: EngineClock,
+      writes: RoomWrites
+    ) => T
+  ): Promise<T>;
+}
+
+// ---------------- Firestore (Admin SDK) ----------------
+
+const adminClock: EngineClock = {
+  now: () => AdminTimestamp.now(),
+  nowMillis: () => Date.now(),
+};
+
+export const createAdminRoomRepository = (db: Firestore): RoomRepository => ({
+  create: (roomId, build) => {
+    const roomRef = db.collection(BETA_COLLECTION).doc(roomId);
+    return db.runTransaction(async (trx) => {
+      const snap = await trx.get(roomRef);
+      if (snap.exists) return false;
+      const room = build(adminClock);
+      trx.set(roomRef, projectPublicRoom(room));
+      trx.set(
+        roomRef.collection(PRIVATE_COLLECTION).doc(SECRETS_DOC_ID),
+        extractRoomSecrets(room)
+      );
+      for (const playerId of Object.keys(room.players)) {
+        trx.set(
+          roomRef.collection(VIEWS_COLLECTION).doc(playerId),
+          projectPlayerView(room, playerId, adminClock.now())
+        );
+      }
+      return true;
+    });
+  },
+  transact: (roomId, mutate) => {
+    const roomRef = db.collection(BETA_COLLECTION).doc(roomId);
+    const secretsRef = roomRef
+      .collection(PRIVATE_COLLECTION)
+      .doc(SECRETS_DOC_ID);
+
+    return db.runTransaction(async (trx) => {
+      const [roomSnap, secretsSnap] = await trx.getAll(roomRef, secretsRef);
+      if (!roomSnap.exists) throw new Error("ROOM_NOT_FOUND");
+
+      const room = mergeRoomSecrets(
+        roomSnap.data() as FirestoreGameRoom,
+        secretsSnap.data() as FirestoreRoomSecrets | undefined
+      );
+      const updatedAt = room.updatedAt;
+      const playerIdsBefore = Object.keys(room.players);
+      const archives: FirestoreRoundArchive[] = [];
+      const result = mutate(room, adminClock, {
+        archiveRound: (archive) => archives.push(archive),
+      });
+      if (room.updatedAt === updatedAt) return result;
+
+      trx.set(roomRef, projectPublicRoom(room));
+      trx.set(secretsRef, extractRoomSecrets(room));
+      const viewsRef = roomRef.collection(VIEWS_COLLECTION);
+      for (const playerId of Object.keys(room.players)) {
+        trx.set(
+          viewsRef.doc(playerId),
+          projectPlayerView(room, playerId, adminClock.now())
+        );
+      }
+      for (const playerId of playerIdsBefore) {
+        if (!room.players[playerId]) trx.delete(viewsRef.doc(playerId));
+      }
+      for (const archive of archives) {
+        trx.set(
+          roomRef.collection(ROUND_ARCHIVES_COLLECTION).doc(archive.archiveId),
+          archive
+        );
+      }
+      return result;
+    });
+  },
+});
+
+// ---------------- In-memory stand-in ----------------
+
+// Deep copy that keeps class instances (timestamps) by reference
+const cloneRoomValue = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(cloneRoomValue) as T;
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, cloneRoomValue(v)])
+    ) as T;
+  }
+  return value;
+};
+
+export interface InMemoryRoomRepository extends RoomRepository {
+  seed(room: FirestoreGameRoom): void;
+  getPublicRoom(roomId: RoomId): FirestoreGameRoom | undefined;
+  getSecrets(roomId: RoomId): FirestoreRoomSecrets | undefined;
+  getPlayerView(
+    roomId: RoomId,
+    playerId: PlayerId
+  ): FirestorePlayerView | undefined;
+  getRoundArchives(roomId: RoomId): FirestoreRoundArchive[];
+}
+
+/**
+ * Keeps the same public/secrets/views split as Firestore so projections can
+ * be exercised without an emulator. Transactions are serialized. Pass a
+ * clock to control the time deadlines are checked against.
+ */
+export const createInMemoryRoomRepository = (
+  clock: EngineClock = {
+    now: () => Timestamp.now(),
+    nowMillis: () => Date.now(),
+  }
+): InMemoryRoomRepository => {
+  const rooms = new Map<RoomId, FirestoreGameRoom>();
+  const secrets = new Map<RoomId, FirestoreRoomSecrets>();
+  const views = new Map<string, FirestorePlayerView>();
+  const archives = new Map<RoomId, FirestoreRoundArchive[]>();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const persist = (room: FirestoreGameRoom) => {
+    rooms.set(room.roomId, projectPublicRoom(cloneRoomValue(room)));
+    secrets.set(room.roomId, extractRoomSecrets(room));
+    for (const key of views.keys()) {
+      const [roomId, playerId] = key.split("/");
+      if (roomId === room.roomId && !room.players[playerId]) views.delete(key);
+    }
+    for (const playerId of Object.keys(room.players)) {
+      views.set(
+        `${room.roomId}/${playerId}`,
+        projectPlayerView(room, playerId, clock.now())
+      );
+    }
+  };
+
+  return {
+    seed: (room) => persist(cloneRoomValue(room)),
+    getPublicRoom: (roomId) => rooms.get(roomId),
+    getSecrets: (roomId) => secrets.get(roomId),
+    getPlayerView: (roomId, playerId) => views.get(`${roomId}/${playerId}`),
+    getRoundArchives: (roomId) => archives.get(roomId) ?? [],
+    create: (roomId, build) => {
+      const run = queue.then(() => {
+        if (rooms.has(roomId)) return false;
+        persist(build(clock));
+        return true;
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+    transact: (roomId, mutate) => {
+      const run = queue.then(() => {
+        const publicRoom = rooms.get(roomId);
+        if (!publicRoom) throw new Error("ROOM_NOT_FOUND");
+        const room = cloneRoomValue(
+          mergeRoomSecrets(publicRoom, secrets.get(roomId))
+        );
+        const updatedAt = room.updatedAt;
+        const archived: FirestoreRoundArchive[] = [];
+        const result = mutate(room, clock, {
+          archiveRound: (archive) => archived.push(archive),
+        });
+        if (room.updatedAt !== updatedAt) {
+          persist(room);
+          archives.set(roomId, [...(archives.get(roomId) ?? []), ...archived]);
+        }
+        return result;
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+};
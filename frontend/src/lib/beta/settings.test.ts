@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_GAME_SETTINGS,
+  MAX_PLAYERS,
+  resolveNewRoomSettings,
+  validateSettingsChange,
+} from "./settings";
+import { createLobby, createStartedRoom, createTestClock } from "@/test/beta";
+
+describe("resolveNewRoomSettings", () => {
+  it("fills what the creator left out from the defaults", () => {
+    expect(resolveNewRoomSettings()).toEqual(DEFAULT_GAME_SETTINGS);
+    expect(resolveNewRoomSettings({ roundsPerMatch: 3 })).toEqual({
+      ...DEFAULT_GAME_SETTINGS,
+      roundsPerMatch: 3,
+    });
+  });
+
+  it.each([
+    [{ maxPlayers: MAX_PLAYERS + 1 }, "INVALID_SETTINGS"],
+    [{ connectsRequired: 0 }, "INVALID_SETTINGS"],
+    [{ wordValidation: "loose" }, "INVALID_SETTINGS"],
+    [{ maxPlayers: 5, connectsRequired: 4 }, "CONNECTS_EXCEED_GUESSERS"],
+  ])("rejects %j", (choices, code) => {
+    expect(() =>
+      resolveNewRoomSettings(
+        choices as Parameters<typeof resolveNewRoomSettings>[0]
+      )
+    ).toThrow(code);
+  });
+});
+
+describe("validateSettingsChange", () => {
+  const clock = createTestClock();
+
+  it("applies a change the lobby allows", () => {
+    const room = createLobby(clock);
+    expect(
+      validateSettingsChange(room, { connectsRequired: 1, maxPlayers: 6 })
+    ).toEqual(expect.objectContaining({ connectsRequired: 1, maxPlayers: 6 }));
+  });
+
+  it("only allows display and join settings mid-round", () => {
+    const room = createStartedRoom(clock);
+    expect(() => validateSettingsChange(room, { connectsRequired: 3 })).toThrow(
+      "ROUND_IN_PROGRESS"
+    );
+    expect(
+      validateSettingsChange(room, {
+        displaySoundMode: false,
+        lateJoinPolicy: "block",
+      })
+    ).toEqual(
+      expect.objectContaining({
+        displaySoundMode: false,
+        lateJoinPolicy: "block",
+      })
+    );
+  });
+
+  it("ignores values sent unchanged mid-round", () => {
+    const room = createStartedRoom(clock);
+    expect(() =>
+      validateSettingsChange(room, {
+        connectsRequired: room.settings.connectsRequired,
+        displaySoundMode: false,
+      })
+    ).not.toThrow();
+  });
+
+  it("keeps connects within what the guessers can give", () => {
+    const room = createLobby(clock);
+    expect(() => validateSettingsChange(room, { connectsRequired: 3 })).toThrow(
+      "CONNECTS_EXCEED_GUESSERS"
+    );
+  });
+
+  it("keeps connects within the seats left when lowering max players", () => {
+    const room = createLobby(clock, { connectsRequired: 3 });
+    expect(() => validateSettingsChange(room, { maxPlayers: 4 })).toThrow(
+      "CONNECTS_EXCEED_GUESSERS"
+    );
+  });
+
+  it("keeps a seat for everyone already seated", () => {
+    const room = createLobby(clock);
+    expect(() => validateSettingsChange(room, { maxPlayers: 3 })).toThrow(
+      "MAX_PLAYERS_TOO_LOW"
+    );
+  });
+});
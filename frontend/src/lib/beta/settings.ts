@@ -0,0 +1,218 @@
+import { z } from "zod";
+import {
+  DEFAULT_CONNECT_ATTEMPTS,
+  DEFAULT_DIRECT_GUESS_POLICY,
+  DEFAULT_INTERCEPT_ATTEMPTS,
+  DEFAULT_LATE_JOIN_POLICY,
+  DEFAULT_ROUNDS_PER_MATCH,
+  MAX_CONNECT_ATTEMPTS,
+  MAX_DIRECT_GUESSES,
+  MAX_INTERCEPT_ATTEMPTS,
+  MAX_INTERCEPTS_TO_WIN,
+  MAX_ROUNDS_PER_MATCH,
+  getMaxConnectsPossible,
+  getSeatedPlayerCount,
+  type EngineClock,
+} from "./engine";
+import { assertPermission } from "./permissions";
+import { DEFAULT_SCORING_RULES, MAX_SCORING_POINTS } from "./scoring";
+import type { FirestoreGameRoom, GameSettings, PlayerId } from "./types";
+import { DEFAULT_TYPO_TOLERANCE, MAX_TYPO_TOLERANCE } from "./word-match";
+
+export const MIN_PLAYERS = 3; // a setter and two guessers, so a signull can be connected
+export const MAX_PLAYERS = 12;
+export const MAX_TIME_LIMIT_SECONDS = 300;
+
+const points = z.number().int().min(0).max(MAX_SCORING_POINTS);
+
+/**
+ * Bounds for every beta setting on its own. What depends on the room (how
+ * many players are in it, whether a round is running) is checked by
+ * validateSettingsChange.
+ */
+export const gameSettingsSchema = z
+  .object({
+    playMode: z.enum(["round_robin", "free"]),
+    connectsRequired: z
+      .number()
+      .int("Connects must be a whole number")
+      .min(1, "At least 1 connect is required")
+      .max(MAX_PLAYERS - 2),
+    connectsPercent: z.number().int().min(0).max(100),
+    maxPlayers: z
+      .number()
+      .int("Max players must be a whole number")
+      .min(MIN_PLAYERS, `Must allow at least ${MIN_PLAYERS} players`)
+      .max(MAX_PLAYERS, `Cannot exceed ${MAX_PLAYERS} players`),
+    timeLimitSeconds: z
+      .number()
+      .int("Time limit must be a whole number")
+      .min(0)
+      .max(MAX_TIME_LIMIT_SECONDS, "Time limit cannot exceed 5 minutes"),
+    wordValidation: z.enum(["strict", "relaxed"]),
+    typoTolerance: z.number().int().min(0).max(MAX_TYPO_TOLERANCE),
+    prefixMode: z.boolean(),
+    displaySoundMode: z.boolean(),
+    showScoreBreakdown: z.boolean(),
+    roundsPerMatch: z.number().int().min(1).max(MAX_ROUNDS_PER_MATCH),
+    setterRotation: z.enum(["seat_order", "lowest_score"]),
+    scoringRules: z
+      .object({
+        intercept: points,
+        wrongInterceptPenalty: points,
+        signullResolved: points,
+        connectToResolvedSignull: points,
+        lightningPerRemainingLetter: points,
+        setterRevealedLetterBonus: points,
+        directGuessPerRemainingLetter: points,
+        wrongDirectGuessPenalty: points,
+        setterSurvivalBonus: points,
+      })
+      .strict(),
+    interceptsToWin: z.number().int().min(0).max(MAX_INTERCEPTS_TO_WIN),
+    interceptAttempts: z.number().int().min(1).max(MAX_INTERCEPT_ATTEMPTS),
+    connectAttempts: z.number().int().min(1).max(MAX_CONNECT_ATTEMPTS),
+    teamMode: z.boolean(),
+    directGuessPolicy: z
+      .object({
+        mode: z.enum(["shared", "per_player", "unlimited"]),
+        count: z.number().int().min(1).max(MAX_DIRECT_GUESSES),
+        penalty: points,
+      })
+      .strict(),
+    directGuessVoting: z.boolean(),
+    lateJoinPolicy: z.enum(["spectate", "new_signulls", "block"]),
+    skipOfflineGuessers: z.boolean(),
+  })
+  .strict();
+
+export const gameSettingsPatchSchema = gameSettingsSchema.partial();
+
+/**
+ * Settings the host may still change while a round is being played. Only
+ * what doesn't touch the rules of the round in progress (how the display
+ * behaves, who may join) is safe.
+ */
+export const MID_ROUND_SETTINGS: ReadonlySet<keyof GameSettings> = new Set<
+  keyof GameSettings
+>(["displaySoundMode", "showScoreBreakdown", "lateJoinPolicy"]);
+
+const isRoundLive = (data: Pick<FirestoreGameRoom, "phase">) =>
+  data.phase === "setting" || data.phase === "signulls";
+
+// What a new room plays with unless its creator picks otherwise
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  playMode: "round_robin",
+  connectsRequired: 2,
+  maxPlayers: 8,
+  timeLimitSeconds: 0, // Off until the host sets one
+  wordValidation: "strict",
+  typoTolerance: DEFAULT_TYPO_TOLERANCE,
+  prefixMode: true,
+  showScoreBreakdown: true,
+  displaySoundMode: true,
+  roundsPerMatch: DEFAULT_ROUNDS_PER_MATCH,
+  setterRotation: "seat_order",
+  scoringRules: DEFAULT_SCORING_RULES,
+  interceptsToWin: 0,
+  interceptAttempts: DEFAULT_INTERCEPT_ATTEMPTS,
+  connectAttempts: DEFAULT_CONNECT_ATTEMPTS,
+  teamMode: false,
+  directGuessPolicy: DEFAULT_DIRECT_GUESS_POLICY,
+  directGuessVoting: false,
+  lateJoinPolicy: DEFAULT_LATE_JOIN_POLICY,
+  skipOfflineGuessers: false,
+  connectsPercent: 0,
+};
+
+// Even a full room has only its guessers other than the sender to connect:
+// every seat but the setter's and the sender's
+const assertConnectsFitSeats = (
+  settings: Pick<GameSettings, "connectsRequired" | "maxPlayers">
+): void => {
+  if (settings.connectsRequired > settings.maxPlayers - 2) {
+    throw new Error("CONNECTS_EXCEED_GUESSERS");
+  }
+};
+
+/**
+ * Settings a new room starts with. The creator is alone in it, so the
+ * connect requirement is checked against the guessers it has room for.
+ */
+export const validateNewRoomSettings = (settings: GameSettings): void => {
+  const parsed = gameSettingsSchema.safeParse(settings);
+  if (!parsed.success) throw new Error("INVALID_SETTINGS");
+  assertConnectsFitSeats(settings);
+};
+
+/**
+ * The creator's choices on top of the defaults, held to the same bounds as
+ * validateNewRoomSettings
+ */
+export const resolveNewRoomSettings = (
+  choices: Partial<GameSettings> = {}
+): GameSettings => {
+  const parsed = gameSettingsPatchSchema.safeParse(choices);
+  if (!parsed.success) throw new Error("INVALID_SETTINGS");
+  const settings = { ...DEFAULT_GAME_SETTINGS, ...parsed.data };
+  validateNewRoomSettings(settings);
+  return settings;
+};
+
+/**
+ * The room's settings with `patch` applied, or an error code when the change
+ * isn't allowed:
+ * - INVALID_SETTINGS: a changed value is out of bounds or unknown
+ * - ROUND_IN_PROGRESS: a round is live and the setting isn't safe mid-round
+ * - CONNECTS_EXCEED_GUESSERS: more connects than a signull could get, in
+ *   the room now or once it's full
+ * - MAX_PLAYERS_TOO_LOW: fewer seats than players already seated
+ *
+ * The merged settings are held together the way a new room's are. Checks
+ * against who is in the room only cover the settings being changed, so an
+ * old value the room has since outgrown doesn't block unrelated changes.
+ */
+export const validateSettingsChange = (
+  data: FirestoreGameRoom,
+  patch: Partial<GameSettings>
+): FirestoreGameRoom["settings"] => {
+  // Older rooms lack newer settings, so only the patch is held to the schema
+  const parsed = gameSettingsPatchSchema.safeParse(patch);
+  if (!parsed.success) throw new Error("INVALID_SETTINGS");
+  const settings = { ...data.settings, ...parsed.data };
+
+  const changed = (Object.keys(patch) as (keyof GameSettings)[]).filter(
+    (key) => JSON.stringify(patch[key]) !== JSON.stringify(data.settings[key])
+  );
+  if (
+    isRoundLive(data) &&
+    changed.some((key) => !MID_ROUND_SETTINGS.has(key))
+  ) {
+    throw new Error("ROUND_IN_PROGRESS");
+  }
+  if (
+    changed.includes("connectsRequired") &&
+    settings.connectsRequired > getMaxConnectsPossible(data)
+  ) {
+    throw new Error("CONNECTS_EXCEED_GUESSERS");
+  }
+  if (
+    changed.includes("maxPlayers") &&
+    settings.maxPlayers < getSeatedPlayerCount(data)
+  ) {
+    throw new Error("MAX_PLAYERS_TOO_LOW");
+  }
+  assertConnectsFitSeats(settings);
+  return settings;
+};
+
+export const applyUpdateSettings = (
+  data: FirestoreGameRoom,
+  playerId: PlayerId,
+  patch: Partial<GameSettings>,
+  clock: EngineClock
+): void => {
+  assertPermission(data, playerId, "update_settings");
+  data.settings = validateSettingsChange(data, patch);
+  data.updatedAt = clock.now();
+};
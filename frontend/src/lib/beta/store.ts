@@ -7,19 +7,37 @@ import {
   leaveRoom as fxLeaveRoom,
   setSecretWord as fxSetSecretWord,
   addSignull as fxAddSignull,
+  retractSignull as fxRetractSignull,
+  editSignullClue as fxEditSignullClue,
+  challengeSignull as fxChallengeSignull,
+  voteChallenge as fxVoteChallenge,
+  skipTurn as fxSkipTurn,
   submitConnect as fxSubmitConnect,
   submitDirectGuess as fxSubmitDirectGuess,
+  proposeDirectGuess as fxProposeDirectGuess,
+  voteDirectGuess as fxVoteDirectGuess,
+  expireDeadlines as fxExpireDeadlines,
+  sendHeartbeat as fxSendHeartbeat,
+  markOffline as fxMarkOffline,
   endGame as fxEndGame,
   updateGameSettings as fxUpdateGameSettings,
   changeSetter as fxChangeSetter,
+  setPlayerTeam as fxSetPlayerTeam,
+  promoteSpectator as fxPromoteSpectator,
+  forceFailSignull as fxForceFailSignull,
+  forceSkipTurn as fxForceSkipTurn,
+  reassignSetter as fxReassignSetter,
+  voidRound as fxVoidRound,
   startGame as fxStartGame,
   playAgain as fxPlayAgain,
   backToLobby as fxBackToLobby,
   resetScoresOnly as fxResetScoresOnly,
+  fetchRoundArchives as fxFetchRoundArchives,
   updatePlayerName as fxUpdatePlayerName,
   subscribeToRoom,
 } from "./firebase";
 import type {
+  DirectGuessProposalId,
   GameState,
   GameError,
   RoomId,
@@ -27,6 +45,9 @@ import type {
   SignullId,
   GameSettings,
   GameWinner,
+  RoundArchive,
+  TeamId,
+  TurnKey,
 } from "./types";
 
 // Generate a random nickname
@@ -76,10 +97,10 @@ interface BetaStoreState {
   setShowTutorial: (show: boolean) => void;
 
   // Game Actions
+  // A null roomId creates a new room under a freshly allocated code
   initRoom: (
-    roomId: RoomId,
+    roomId: RoomId | null,
     opts?: {
-      createIfMissing?: boolean;
       settings?: Partial<GameSettings>;
       isDisplayMode?: boolean;
     }
@@ -87,16 +108,34 @@ interface BetaStoreState {
   initRoomAsDisplay: (roomId: RoomId) => Promise<void>;
   updateGameSettings: (settings: Partial<GameSettings>) => Promise<void>;
   changeSetter: (newSetterId: PlayerId) => Promise<void>;
+  setPlayerTeam: (playerId: PlayerId, team: TeamId | null) => Promise<void>;
+  promoteSpectator: (playerId: PlayerId) => Promise<void>;
+  forceFailSignull: (signullId: SignullId) => Promise<void>;
+  forceSkipTurn: (turnKey: TurnKey) => Promise<void>;
+  reassignSetter: (playerId: PlayerId) => Promise<void>;
+  voidRound: () => Promise<void>;
   removePlayerFromRoom: (playerId: PlayerId) => Promise<void>;
   updatePlayerName: (playerId: PlayerId, newName: string) => Promise<void>;
   startGame: () => Promise<void>;
   playAgain: () => Promise<void>;
   backToLobby: (resetScores?: boolean) => Promise<void>;
   resetScores: () => Promise<void>;
+  loadRoundArchives: () => Promise<RoundArchive[]>;
   setSecretWord: (word: string) => Promise<void>;
   addSignull: (word: string, clue: string) => Promise<SignullId | null>;
+  retractSignull: (signullId: SignullId) => Promise<void>;
+  editSignullClue: (signullId: SignullId, clue: string) => Promise<void>;
+  challengeSignull: (signullId: SignullId) => Promise<void>;
+  voteChallenge: (signullId: SignullId, uphold: boolean) => Promise<void>;
+  skipTurn: () => Promise<void>;
   submitConnect: (guess: string, signullId?: SignullId) => Promise<void>;
   submitDirectGuess: (guess: string) => Promise<void>;
+  voteDirectGuess: (
+    proposalId: DirectGuessProposalId,
+    approve: boolean
+  ) => Promise<void>;
+  expireDeadlines: () => Promise<void>;
+  updatePresence: (isOnline: boolean) => Promise<void>;
   leaveRoom: () => Promise<void>;
   endGame: (winner: GameWinner) => Promise<void>;
   clearError: () => void;
@@ -111,6 +150,10 @@ function mapError(e: unknown): GameError {
     const codeMap: Record<string, { code: string; message: string }> = {
       ROOM_NOT_FOUND: { code: "ROOM_NOT_FOUND", message: "Room not found" },
       ROOM_FULL: { code: "ROOM_FULL", message: "Room is full" },
+      NO_ROOM_CODE_AVAILABLE: {
+        code: "NO_ROOM_CODE_AVAILABLE",
+        message: "No free room code",
+      },
       INVALID_PHASE: { code: "INVALID_PHASE", message: "Invalid phase" },
       SIGNULL_NOT_PENDING: {
         code: "SIGNULL_NOT_PENDING",
@@ -132,23 +175,138 @@ function mapError(e: unknown): GameError {
         code: "ALREADY_CONNECTED",
         message: "Already submitted connect",
       },
+      NO_INTERCEPTS_LEFT: {
+        code: "NO_INTERCEPTS_LEFT",
+        message: "No intercept attempts left",
+      },
       NO_ACTIVE_SIGNULL: {
         code: "NO_ACTIVE_SIGNULL",
         message: "No active signull",
       },
-      NOT_SETTER: { code: "NOT_SETTER", message: "Not the setter" },
-      ONLY_GUESSER_CAN_CREATE: {
-        code: "ONLY_GUESSER_CAN_CREATE",
-        message: "Only a guesser can create signull",
+      NOT_AUTHORIZED: {
+        code: "NOT_AUTHORIZED",
+        message: "Not allowed to do that",
       },
-      NOT_GUESSER: { code: "NOT_GUESSER", message: "Not a guesser" },
       NO_GUESSES_LEFT: {
         code: "NO_GUESSES_LEFT",
         message: "No direct guesses left",
       },
-      ONLY_HOST_CAN_CHANGE_SETTER: {
-        code: "ONLY_HOST_CAN_CHANGE_SETTER",
-        message: "Only the host can change the setter",
+      WORD_NOT_IN_DICTIONARY: {
+        code: "WORD_NOT_IN_DICTIONARY",
+        message: "Word not in dictionary",
+      },
+      TEAMS_TOO_SMALL: {
+        code: "TEAMS_TOO_SMALL",
+        message: "Each team needs at least 2 guessers",
+      },
+      NOT_YOUR_TEAM: {
+        code: "NOT_YOUR_TEAM",
+        message: "Signull belongs to the other team",
+      },
+      NOT_ON_A_TEAM: { code: "NOT_ON_A_TEAM", message: "Not on a team" },
+      NOT_YOUR_TURN: { code: "NOT_YOUR_TURN", message: "Not your turn" },
+      SIGNULL_ALREADY_SENT: {
+        code: "SIGNULL_ALREADY_SENT",
+        message: "Signull already sent this turn",
+      },
+      TURNS_DISABLED: {
+        code: "TURNS_DISABLED",
+        message: "Turn order is off",
+      },
+      SPECTATORS_CANNOT_PLAY: {
+        code: "SPECTATORS_CANNOT_PLAY",
+        message: "Spectators can't play this round",
+      },
+      NOT_SPECTATOR: { code: "NOT_SPECTATOR", message: "Not a spectator" },
+      NO_TURN_TO_SKIP: {
+        code: "NO_TURN_TO_SKIP",
+        message: "No turn to skip",
+      },
+      ALREADY_SETTER: {
+        code: "ALREADY_SETTER",
+        message: "Already the setter",
+      },
+      INVALID_SETTINGS: {
+        code: "INVALID_SETTINGS",
+        message: "Invalid settings",
+      },
+      CONNECTS_EXCEED_GUESSERS: {
+        code: "CONNECTS_EXCEED_GUESSERS",
+        message: "More connects than guessers",
+      },
+      MAX_PLAYERS_TOO_LOW: {
+        code: "MAX_PLAYERS_TOO_LOW",
+        message: "Fewer seats than players",
+      },
+      ROUND_IN_PROGRESS: {
+        code: "ROUND_IN_PROGRESS",
+        message: "Round in progress",
+      },
+      JOINED_AFTER_SIGNULL: {
+        code: "JOINED_AFTER_SIGNULL",
+        message: "Joined after this signull was sent",
+      },
+      VOTE_REQUIRED: {
+        code: "VOTE_REQUIRED",
+        message: "Direct guesses need a team vote",
+      },
+      VOTING_DISABLED: {
+        code: "VOTING_DISABLED",
+        message: "Direct guess voting is off",
+      },
+      PROPOSAL_PENDING: {
+        code: "PROPOSAL_PENDING",
+        message: "A direct guess is already up for a vote",
+      },
+      PROPOSAL_NOT_FOUND: {
+        code: "PROPOSAL_NOT_FOUND",
+        message: "Proposal not found",
+      },
+      PROPOSAL_CLOSED: {
+        code: "PROPOSAL_CLOSED",
+        message: "Voting on that guess is over",
+      },
+      ALREADY_VOTED: { code: "ALREADY_VOTED", message: "Already voted" },
+      NOT_SIGNULL_CREATOR: {
+        code: "NOT_SIGNULL_CREATOR",
+        message: "Only the creator can change a signull",
+      },
+      SIGNULL_HAS_CONNECTS: {
+        code: "SIGNULL_HAS_CONNECTS",
+        message: "Signull already has connects",
+      },
+      CLUE_REQUIRED: { code: "CLUE_REQUIRED", message: "Clue required" },
+      CLUE_CONTAINS_WORD: {
+        code: "CLUE_CONTAINS_WORD",
+        message: "Clue contains the signull word",
+      },
+      CLUE_CONTAINS_STEM: {
+        code: "CLUE_CONTAINS_STEM",
+        message: "Clue contains a form of the signull word",
+      },
+      CLUE_CONTAINS_PREFIX: {
+        code: "CLUE_CONTAINS_PREFIX",
+        message: "Clue contains the start of the signull word",
+      },
+      CANNOT_CHALLENGE_OWN: {
+        code: "CANNOT_CHALLENGE_OWN",
+        message: "Can't challenge your own signull",
+      },
+      ALREADY_CHALLENGED: {
+        code: "ALREADY_CHALLENGED",
+        message: "Signull already challenged",
+      },
+      NO_CHALLENGE: {
+        code: "NO_CHALLENGE",
+        message: "No challenge to vote on",
+      },
+      CHALLENGE_CLOSED: {
+        code: "CHALLENGE_CLOSED",
+        message: "Challenge already decided",
+      },
+      OTHER_TEAM_PROPOSAL: {
+        code: "OTHER_TEAM_PROPOSAL",
+        message: "That vote is for the other team",
       },
     };
     const key = Object.keys(codeMap).find((k) => msg.includes(k));
@@ -231,43 +389,45 @@ export const useBetaStore = create<BetaStoreState>()(
 
         if (get().unsubscribe) get().teardown();
         set({ isLoading: true, error: null, roomId, isDisplayMode });
-        const createIfMissing = opts?.createIfMissing ?? false;
         try {
-          if (createIfMissing) {
-            await fxCreateRoom(
-              roomId,
-              userId,
+          if (!roomId) {
+            roomId = await fxCreateRoom(
               username || "",
               opts?.settings,
               isDisplayMode
             );
+            set({ roomId });
           } else if (!isDisplayMode) {
             // Only join as player if not in display mode
             try {
-              await fxJoinRoom(roomId, userId, username || "");
+              await fxJoinRoom(roomId, username || "");
             } catch (e) {
               const mapped = mapError(e);
               if (mapped.code === "ROOM_NOT_FOUND") throw e;
             }
           }
-          // In display mode without createIfMissing, we just subscribe (handled below)
+          // Joining an existing room in display mode only subscribes (handled below)
         } catch (e) {
           set({ error: mapError(e), isLoading: false, isDisplayMode: false });
           return;
         }
 
-        const unsub = subscribeToRoom(roomId, (state, subError) => {
-          if (subError) {
-            set({ error: subError });
-            return;
-          }
-          set((prev) => ({
-            game: state,
-            initialized: true,
-            isLoading:
-              prev.isLoading && !prev.initialized ? false : prev.isLoading,
-          }));
-        });
+        const unsub = subscribeToRoom(
+          roomId,
+          (state, subError) => {
+            if (subError) {
+              set({ error: subError });
+              return;
+            }
+            set((prev) => ({
+              game: state,
+              initialized: true,
+              isLoading:
+                prev.isLoading && !prev.initialized ? false : prev.isLoading,
+            }));
+          },
+          isDisplayMode ? undefined : userId
+        );
         set({ unsubscribe: unsub });
       },
 
@@ -315,7 +475,7 @@ export const useBetaStore = create<BetaStoreState>()(
         if (!roomId || !userId || !game) return;
         set({ isLoading: true });
         try {
-          await fxSetSecretWord(roomId, userId, word);
+          await fxSetSecretWord(roomId, word);
         } catch (e) {
           set({ error: mapError(e) });
           throw e;
@@ -329,7 +489,7 @@ export const useBetaStore = create<BetaStoreState>()(
         if (!roomId || !userId || !game) return null;
         set({ isLoading: true });
         try {
-          const id = await fxAddSignull(roomId, userId, word, clue);
+          const id = await fxAddSignull(roomId, word, clue);
           return id;
         } catch (e) {
           set({ error: mapError(e) });
@@ -339,12 +499,82 @@ export const useBetaStore = create<BetaStoreState>()(
         }
       },
 
+      retractSignull: async (signullId) => {
+        const { roomId, userId, game } = get();
+        if (!roomId || !userId || !game) return;
+        set({ isLoading: true });
+        try {
+          await fxRetractSignull(roomId, signullId);
+        } catch (e) {
+          set({ error: mapError(e) });
+          throw e;
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      editSignullClue: async (signullId, clue) => {
+        const { roomId, userId, game } = get();
+        if (!roomId || !userId || !game) return;
+        set({ isLoading: true });
+        try {
+          await fxEditSignullClue(roomId, signullId, clue);
+        } catch (e) {
+          set({ error: mapError(e) });
+          throw e;
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      challengeSignull: async (signullId) => {
+        const { roomId, userId, game } = get();
+        if (!roomId || !userId || !game) return;
+        set({ isLoading: true });
+        try {
+          await fxChallengeSignull(roomId, signullId);
+        } catch (e) {
+          set({ error: mapError(e) });
+          throw e;
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      voteChallenge: async (signullId, uphold) => {
+        const { roomId, userId, game } = get();
+        if (!roomId || !userId || !game) return;
+        set({ isLoading: true });
+        try {
+          await fxVoteChallenge(roomId, signullId, uphold);
+        } catch (e) {
+          set({ error: mapError(e) });
+          throw e;
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      skipTurn: async () => {
+        const { roomId, userId, game } = get();
+        if (!roomId || !userId || !game) return;
+        set({ isLoading: true });
+        try {
+          await fxSkipTurn(roomId);
+        } catch (e) {
+          set({ error: mapError(e) });
+          throw e;
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
       submitConnect: async (guess, signullId) => {
         const { roomId, userId, game } = get();
         if (!roomId || !userId || !game) return;
         set({ isLoading: true });
         try {
-          await fxSubmitConnect(roomId, userId, signullId, guess);
+          await fxSubmitConnect(roomId, signullId, guess);
         } catch (e) {
           set({ error: mapError(e) });
           throw e;
@@ -358,7 +588,12 @@ export const useBetaStore = create<BetaStoreState>()(
         if (!roomId || !userId || !game) return;
         set({ isLoading: true });
         try {
-          await fxSubmitDirectGuess(roomId, userId, guess);
+          // Voting rooms put the guess to the team instead of spending it
+          if (game.settings.directGuessVoting) {
+            await fxProposeDirectGuess(roomId, guess);
+          } else {
+            await fxSubmitDirectGuess(roomId, guess);
+          }
         } catch (e) {
           set({ error: mapError(e) });
           throw e;
@@ -367,12 +602,43 @@ export const useBetaStore = create<BetaStoreState>()(
         }
       },
 
+      voteDirectGuess: async (proposalId, approve) => {
+        const { roomId, userId, game } = get();
+        if (!roomId || !userId || !game) return;
+        set({ isLoading: true });
+        try {
+          await fxVoteDirectGuess(roomId, proposalId, approve);
+        } catch (e) {
+          set({ error: mapError(e) });
+          throw e;
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      expireDeadlines: async () => {
+        const { roomId } = get();
+        if (!roomId) return;
+        try {
+          await fxExpireDeadlines(roomId);
+        } catch (e) {
+          // Background housekeeping; another client may still expire it
+          console.warn("Failed to expire deadlines:", e);
+        }
+      },
+
+      updatePresence: async (isOnline: boolean) => {
+        const { roomId, userId } = get();
+        if (!roomId || !userId) return;
+        await (isOnline ? fxSendHeartbeat : fxMarkOffline)(roomId, userId);
+      },
+
       leaveRoom: async () => {
         const { roomId, userId } = get();
         if (!roomId || !userId) return;
         set({ isLoading: true });
         try {
-          await fxLeaveRoom(roomId, userId);
+          await fxLeaveRoom(roomId, userId, userId);
           get().teardown();
         } catch (e) {
           set({ error: mapError(e) });
@@ -407,25 +673,79 @@ export const useBetaStore = create<BetaStoreState>()(
         const { roomId, userId } = get();
         if (!roomId || !userId) return;
         try {
-          await fxChangeSetter(roomId, newSetterId, userId);
+          await fxChangeSetter(roomId, newSetterId);
         } catch (e) {
           set({ error: mapError(e) });
         }
       },
-      removePlayerFromRoom: async (playerId) => {
+      setPlayerTeam: async (playerId, team) => {
+        const { roomId, userId } = get();
+        if (!roomId || !userId) return;
+        try {
+          await fxSetPlayerTeam(roomId, playerId, team);
+        } catch (e) {
+          set({ error: mapError(e) });
+        }
+      },
+      promoteSpectator: async (playerId) => {
+        const { roomId, userId } = get();
+        if (!roomId || !userId) return;
+        try {
+          await fxPromoteSpectator(roomId, playerId);
+        } catch (e) {
+          set({ error: mapError(e) });
+        }
+      },
+      forceFailSignull: async (signullId) => {
         const { roomId } = get();
         if (!roomId) return;
         try {
-          await fxLeaveRoom(roomId, playerId);
+          await fxForceFailSignull(roomId, signullId);
+        } catch (e) {
+          set({ error: mapError(e) });
+        }
+      },
+      forceSkipTurn: async (turnKey) => {
+        const { roomId } = get();
+        if (!roomId) return;
+        try {
+          await fxForceSkipTurn(roomId, turnKey);
+        } catch (e) {
+          set({ error: mapError(e) });
+        }
+      },
+      reassignSetter: async (playerId) => {
+        const { roomId } = get();
+        if (!roomId) return;
+        try {
+          await fxReassignSetter(roomId, playerId);
+        } catch (e) {
+          set({ error: mapError(e) });
+        }
+      },
+      voidRound: async () => {
+        const { roomId } = get();
+        if (!roomId) return;
+        try {
+          await fxVoidRound(roomId);
+        } catch (e) {
+          set({ error: mapError(e) });
+        }
+      },
+      removePlayerFromRoom: async (playerId) => {
+        const { roomId, userId } = get();
+        if (!roomId || !userId) return;
+        try {
+          await fxLeaveRoom(roomId, playerId, userId);
         } catch (e) {
           set({ error: mapError(e) });
         }
       },
       updatePlayerName: async (playerId, newName) => {
         const { roomId, userId } = get();
-        if (!roomId) return;
+        if (!roomId || !userId) return;
         try {
-          await fxUpdatePlayerName(roomId, playerId, newName);
+          await fxUpdatePlayerName(roomId, playerId, newName, userId);
           // Also update local username if it's the current user
           if (playerId === userId) {
             set({ username: newName.trim() });
@@ -435,8 +755,8 @@ export const useBetaStore = create<BetaStoreState>()(
         }
       },
       startGame: async () => {
-        const { roomId } = get();
-        if (!roomId) return;
+        const { roomId, userId } = get();
+        if (!roomId || !userId) return;
         try {
           await fxStartGame(roomId);
         } catch (e) {
@@ -444,8 +764,8 @@ export const useBetaStore = create<BetaStoreState>()(
         }
       },
       playAgain: async () => {
-        const { roomId } = get();
-        if (!roomId) return;
+        const { roomId, userId } = get();
+        if (!roomId || !userId) return;
         try {
           await fxPlayAgain(roomId);
         } catch (e) {
@@ -453,8 +773,8 @@ export const useBetaStore = create<BetaStoreState>()(
         }
       },
       backToLobby: async (resetScores?: boolean) => {
-        const { roomId } = get();
-        if (!roomId) return;
+        const { roomId, userId } = get();
+        if (!roomId || !userId) return;
         try {
           await fxBackToLobby(roomId, resetScores);
         } catch (e) {
@@ -462,14 +782,24 @@ export const useBetaStore = create<BetaStoreState>()(
         }
       },
       resetScores: async () => {
-        const { roomId } = get();
-        if (!roomId) return;
+        const { roomId, userId } = get();
+        if (!roomId || !userId) return;
         try {
           await fxResetScoresOnly(roomId);
         } catch (e) {
           set({ error: mapError(e) });
         }
       },
+      loadRoundArchives: async () => {
+        const { roomId } = get();
+        if (!roomId) return [];
+        try {
+          return await fxFetchRoundArchives(roomId);
+        } catch (e) {
+          set({ error: mapError(e) });
+          return [];
+        }
+      },
     }),
     {
       name: "beta-store",
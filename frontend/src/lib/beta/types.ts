@@ -1,6 +1,6 @@
 // New beta schema types (no backward compatibility)
-// Firestore Timestamp imported only for runtime conversion typing; prefer Date in state.
-import { Timestamp, FieldValue } from "firebase/firestore";
+// Firestore FieldValue imported only for write sentinel typing; prefer Date in state.
+import type { FieldValue } from "firebase/firestore";
 
 export type PlayerId = string;
 export type RoomId = string;
@@ -20,8 +20,32 @@ export const SCORING = {
   CONNECT_TO_RESOLVED_SIGNULL: 5, // Points for guessers with correct connect to resolved signull
   LIGHTNING_SIGNULL_PER_REMAINING_LETTER: 5, // Points per remaining letter when signull word equals secret word
   SETTER_REVEALED_LETTERS_BONUS: 5, // Points to setter per revealed letter when lightning signull occurs
+  // Direct guess scenarios
+  DIRECT_GUESS_PER_REMAINING_LETTER: 5, // Points per unrevealed letter for a correct direct guess
+  WRONG_DIRECT_GUESS_PENALTY: 0, // Points lost for a wrong direct guess (off by default)
+  WRONG_INTERCEPT_PENALTY: 0, // Points the setter loses for a wrong intercept (off by default)
+  SETTER_SURVIVAL_BONUS: 10, // Setter bonus when guessers run out of direct guesses
 } as const;
 
+/**
+ * Points a room awards ("house rules"). Rooms start from the Classic preset,
+ * which matches SCORING; the host may switch presets or tune single values.
+ * A value of 0 turns that award off.
+ */
+export interface ScoringRules {
+  intercept: number; // setter, per intercepted signull
+  wrongInterceptPenalty: number; // taken from the setter for a wrong intercept
+  signullResolved: number; // creator of a resolved signull
+  connectToResolvedSignull: number; // each guesser who connected to it
+  lightningPerRemainingLetter: number; // lightning signull, per hidden letter
+  setterRevealedLetterBonus: number; // setter, per revealed letter on a lightning signull
+  directGuessPerRemainingLetter: number; // correct direct guess, per unrevealed letter
+  wrongDirectGuessPenalty: number; // taken from the guesser for a wrong direct guess
+  setterSurvivalBonus: number; // setter, when guessers use up their direct guesses
+}
+
+export type ScoringPreset = "classic" | "setter_friendly" | "chaos";
+
 /**
  * Represents a single score change event for audit/history
  */
@@ -31,6 +55,7 @@ export interface ScoreEvent {
   reason: ScoreReason;
   timestamp: Date;
   details?: Record<string, unknown>;
+  round?: number; // match round the event was scored in (absent = round 1)
 }
 
 /**
@@ -39,11 +64,15 @@ export interface ScoreEvent {
 export type ScoreReason =
   | "correct_signull_guess" // Player guessed the signull word correctly
   | "intercept_signull" // Setter intercepted a signull
+  | "intercept_wrong" // Penalty for a wrong intercept
   | "signull_resolved" // Player's signull was resolved
   | "connect_to_resolved_signull" // Points for correct connect to resolved signull
   | "lightning_signull_bonus" // Bonus for remaining letters when signull word matches secret word
   | "setter_revealed_letters_bonus" // Setter bonus for revealed letters on lightning signull
-  | "failed_lightning_signull_bonus"; // Bonus for creator and correct connectors when lightning signull fails
+  | "failed_lightning_signull_bonus" // Bonus for creator and correct connectors when lightning signull fails
+  | "direct_guess_correct" // Bonus for guessing the secret word outright
+  | "direct_guess_wrong" // Penalty for a wrong direct guess
+  | "setter_survival_bonus"; // Setter outlasted every direct guess
 
 /**
  * Represents score updates to be applied in a transaction
@@ -52,7 +81,8 @@ export interface ScoreUpdates {
   [playerId: PlayerId]: number; // delta to add to current score
 }
 
-export type PlayerRole = "setter" | "guesser";
+export type PlayerRole = "setter" | "guesser" | "spectator"; // spectators only watch
+export type TeamId = "red" | "blue"; // guesser teams in team mode
 export type GamePhase = "lobby" | "setting" | "signulls" | "ended";
 export type PlayMode = "round_robin" | "free"; // free = no enforced turn order
 export type SignullStatus =
@@ -66,16 +96,26 @@ export interface Player {
   id: PlayerId;
   name: string;
   role: PlayerRole;
-  isOnline: boolean;
-  lastActive: Date; // normalized client-side
+  isOnline: boolean; // false once the player closed the page
+  lastActive: Date; // normalized client-side; last heartbeat while the page was open
   score: number; // cumulative points (initialize 0)
+  team?: TeamId; // only meaningful for guessers in team mode
+  joinsNextRound?: boolean; // spectator who joined mid-round and plays from the next round
 }
 
+/**
+ * How a correct connect matched the signull word. Anything but "exact" is
+ * only possible in relaxed rooms.
+ */
+export type ConnectMatchType = "exact" | "spelling" | "inflection" | "typo";
+
 export interface SignullConnect {
   playerId: PlayerId;
   guess: string; // uppercase canonical form
   timestamp: Date;
   isCorrect: boolean;
+  matchType?: ConnectMatchType; // set on correct connects
+  matchedAs?: string; // signull word a correct connect was accepted as
 }
 
 export interface SignullEntry {
@@ -88,6 +128,32 @@ export interface SignullEntry {
   status: SignullStatus;
   createdAt: Date;
   resolvedAt?: Date;
+  timedOut?: boolean; // closed because its deadline passed
+  team?: TeamId; // creator's team in team mode; only that team may connect
+  clueHistory?: SignullClueEdit[]; // earlier clues, oldest first; absent if never edited
+  challenge?: SignullChallenge; // a vote on whether the clue breaks the rules
+  eligibleGuesserIds?: PlayerId[]; // guessers who could connect when it was sent; absent on older signulls
+}
+
+/**
+ * A challenge to a clue that gives its word away. Every player but the clue
+ * giver votes; a majority upholding it vetoes the signull (it goes inactive
+ * without scoring). A signull can only be challenged once.
+ */
+export type SignullChallengeStatus = "pending" | "upheld" | "dismissed";
+
+export interface SignullChallenge {
+  challengerId: PlayerId;
+  votes: Record<PlayerId, boolean>; // true = uphold; the challenger upholds
+  status: SignullChallengeStatus;
+  createdAt: Date;
+  resolvedAt: Date | null;
+}
+
+// A clue the creator replaced before anyone connected
+export interface SignullClueEdit {
+  clue: string;
+  editedAt: Date;
 }
 
 export interface SignullState {
@@ -99,19 +165,179 @@ export interface SignullState {
 export interface GameSettings {
   playMode: PlayMode;
   connectsRequired: number; // number of correct connects required to resolve
+  connectsPercent: number; // share of a signull's guessers who must connect instead (0 = use connectsRequired)
   maxPlayers: number;
-  timeLimitSeconds: number; // limit for setting secret word or signull
+  timeLimitSeconds: number; // limit for setting secret word or signull (0 = no limit)
   wordValidation: "strict" | "relaxed";
+  typoTolerance: number; // max edit distance for near-miss connects in relaxed mode (0 = off)
   prefixMode: boolean;
   displaySoundMode: boolean;
   showScoreBreakdown: boolean; // Whether to show score counting animation at game end
+  roundsPerMatch: number; // rounds in a match (1 = single games, host picks setters)
+  setterRotation: SetterRotation; // how the setter changes between rounds of a match
+  scoringRules: ScoringRules;
+  interceptsToWin: number; // setter wins after this many blocked signulls; 0 = off
+  interceptAttempts: number; // intercept guesses the setter gets per signull
+  connectAttempts: number; // connect guesses each guesser gets per signull
+  teamMode: boolean; // guessers split into two teams racing for the same word
+  directGuessPolicy: DirectGuessPolicy;
+  directGuessVoting: boolean; // guessers vote on a direct guess before it is spent
+  lateJoinPolicy: LateJoinPolicy; // what happens to players who join mid-round
+  skipOfflineGuessers: boolean; // signulls stop waiting on guessers who have gone offline
+}
+
+/**
+ * How a player who joins while signulls are being sent enters the round:
+ * - spectate: watches as a spectator and takes a seat from the next round
+ * - new_signulls: plays straight away, but only on signulls sent after joining
+ * - block: can't join until the round is over
+ */
+export type LateJoinPolicy = "spectate" | "new_signulls" | "block";
+
+// ==================== Direct Guess Types ====================
+
+/**
+ * How the guessers' direct guesses are budgeted:
+ * - shared: one pool of `count` guesses for every guesser (per team in team mode)
+ * - per_player: `count` guesses for each guesser
+ * - unlimited: no budget, but each wrong guess costs `penalty` points
+ */
+export type DirectGuessMode = "shared" | "per_player" | "unlimited";
+
+export interface DirectGuessPolicy {
+  mode: DirectGuessMode;
+  count: number;
+  penalty: number;
+}
+
+/**
+ * A direct guess waiting on the other guessers' votes (the proposer's team
+ * in team mode). It is spent once a majority approves, and closes when a
+ * majority can no longer be reached or the vote window runs out.
+ */
+export type DirectGuessProposalStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "expired";
+
+export type DirectGuessProposalId = string;
+
+// ==================== Team Types ====================
+
+/**
+ * Where one team stands in a team mode round. Each team reveals the secret
+ * word at its own pace and has its own pool of direct guesses.
+ */
+export interface TeamProgress {
+  revealedCount: number;
+  directGuessesLeft: number;
+}
+
+// ==================== Turn Types ====================
+
+// A turn order is kept per team in team mode and for the whole room otherwise
+export type TurnKey = TeamId | "all";
+
+/**
+ * Whose turn it is to send a signull in round robin play. Seats are the
+ * round's guessers in seat order; the turn passes once the signull sent on
+ * it settles, when the player skips, or when they run out of time to send.
+ */
+export interface TurnState {
+  seatOrder: PlayerId[];
+  playerId: PlayerId | null; // null once nobody is left to take a turn
+  signullId: SignullId | null; // the signull sent this turn
+  startedAt: Date;
+}
+
+// ==================== Recovery Types ====================
+
+/**
+ * Host fixes for a game that can't move on by itself (a setter who vanished,
+ * a signull nobody is left to answer, ...)
+ */
+export type RecoveryAction =
+  | "force_fail_signull"
+  | "force_skip_turn"
+  | "reassign_setter"
+  | "void_round";
+
+export interface RecoveryLogEntry {
+  action: RecoveryAction;
+  hostId: PlayerId;
+  targetId?: string; // the signull, skipped player or new setter acted on
+  at: Date;
+}
+
+// ==================== Match Types ====================
+
+/**
+ * Who sets the word in the next round of a match:
+ * - seat_order: the next player after the current setter
+ * - lowest_score: the player with the lowest match score so far
+ */
+export type SetterRotation = "seat_order" | "lowest_score";
+
+export interface RoundResult {
+  round: number; // 1-based
+  setterId: PlayerId;
+  secretWord: string;
+  winner: GameWinner;
+  winningTeam?: TeamId | null; // team mode rounds won by a team
+  scores: Record<PlayerId, number>; // points earned during this round
+  endedAt: Date;
+}
+
+/**
+ * A match is a fixed number of rounds. Score events are kept for the whole
+ * match (tagged with their round) and a result is recorded as each round ends.
+ */
+export interface MatchState {
+  currentRound: number; // 1-based
+  roundResults: RoundResult[]; // completed rounds, oldest first
+}
+
+// ==================== Round Archive Types ====================
+
+/**
+ * Snapshot of a finished round, kept at
+ * game_rooms_v2/{roomId}/round_archives/{archiveId} after the room moves on.
+ */
+export interface RoundArchive {
+  archiveId: string;
+  roomId: RoomId;
+  round: number; // round within its match, 1-based
+  secretWord: string;
+  setterId: PlayerId;
+  players: Record<PlayerId, { name: string; role: PlayerRole; team?: TeamId }>; // as of the round's end
+  signulls: SignullEntry[]; // in play order
+  winner: GameWinner;
+  winningTeam?: TeamId | null;
+  scoreEvents: ScoreEvent[]; // events earned during this round only
+  insights: GameInsight[];
+  archivedAt: Date;
 }
 
-export interface LastDirectGuess {
+export interface DirectGuess {
   playerId: PlayerId;
   playerName: string;
   word: string; // UPPERCASE
+  isCorrect: boolean;
   timestamp: Date;
+  team?: TeamId; // guesser's team in team mode
+}
+
+export interface DirectGuessProposal {
+  id: DirectGuessProposalId;
+  playerId: PlayerId; // proposer
+  playerName: string;
+  word: string; // UPPERCASE
+  team?: TeamId; // proposer's team in team mode
+  votes: Record<PlayerId, boolean>; // true = approve; the proposer approves
+  status: DirectGuessProposalStatus;
+  createdAt: Date;
+  resolvedAt: Date | null;
 }
 
 // ==================== Game Insights Types ====================
@@ -146,20 +372,88 @@ export interface GameState {
   hostId: PlayerId | null; // Host player who controls game settings (first joiner in display mode)
   isDisplayMode: boolean; // Whether room was created with a display device
   setterId: PlayerId;
-  secretWord: string; // UPPERCASE
+  secretWord: string; // UPPERCASE; unrevealed letters are HIDDEN_LETTER unless this viewer may see them
   revealedCount: number;
   signullState: SignullState;
-  directGuessesLeft: number;
-  lastDirectGuess: LastDirectGuess | null; // tracks who made the last direct guess
+  directGuessesLeft: number; // guesses left across the room (unused when unlimited)
+  directGuesses: DirectGuess[]; // this round's direct guesses, oldest first
+  directGuessProposals: DirectGuessProposal[]; // this round's proposals, oldest first
+  settingStartedAt: Date | null; // start of the current setter's turn to pick a word
+  timedOutSetterId: PlayerId | null; // setter who last ran out of time picking a word
   winner: GameWinner;
+  teams: Record<TeamId, TeamProgress> | null; // set while a team mode round is played
+  winningTeam: TeamId | null; // team that cracked the word in team mode
+  turns: Partial<Record<TurnKey, TurnState>> | null; // set while a round robin round is played
+  recoveryLog: RecoveryLogEntry[]; // host recovery actions, oldest first
   settings: GameSettings;
-  scoreEvents: ScoreEvent[]; // Chronological history of all scoring events
+  match: MatchState;
+  scoreEvents: ScoreEvent[]; // Chronological history of the match's scoring events
   scoreCountingComplete: boolean; // Whether score counting animation has completed
   insights: GameInsight[]; // Game insights computed at game end
   createdAt: Date; // snapshot conversion from Firestore Timestamp
   updatedAt: Date;
 }
 
+// ==================== Server Actions ====================
+
+/**
+ * Mutations that touch hidden state, seats or roles and therefore run on
+ * the server (POST /api/beta/rooms/{roomId}/actions). The acting player is
+ * taken from the caller's Firebase ID token, never from the payload.
+ */
+export type RoomAction =
+  | { type: "set_secret_word"; word: string }
+  | { type: "add_signull"; word: string; clue: string }
+  | { type: "submit_connect"; guess: string; signullId?: SignullId }
+  | { type: "retract_signull"; signullId: SignullId }
+  | { type: "edit_signull_clue"; signullId: SignullId; clue: string }
+  | { type: "challenge_signull"; signullId: SignullId }
+  | { type: "vote_challenge"; signullId: SignullId; uphold: boolean }
+  | { type: "submit_direct_guess"; guess: string }
+  | { type: "propose_direct_guess"; guess: string }
+  | {
+      type: "vote_direct_guess";
+      proposalId: DirectGuessProposalId;
+      approve: boolean;
+    }
+  | { type: "skip_turn" }
+  | { type: "expire_deadlines" }
+  | { type: "join_room"; name: string }
+  | { type: "leave_room" }
+  | { type: "remove_player"; playerId: PlayerId }
+  | { type: "set_player_team"; playerId: PlayerId; team: TeamId | null }
+  | { type: "promote_spectator"; playerId: PlayerId }
+  | { type: "change_setter"; playerId: PlayerId }
+  | { type: "start_game" }
+  | { type: "play_again" }
+  | { type: "back_to_lobby"; resetScores: boolean }
+  | { type: "reset_scores" }
+  | { type: "end_game"; winner: GameWinner }
+  | { type: "force_fail_signull"; signullId: SignullId }
+  | { type: "force_skip_turn"; turnKey: TurnKey }
+  | { type: "reassign_setter"; playerId: PlayerId }
+  | { type: "void_round" }
+  | { type: "update_settings"; settings: Partial<GameSettings> };
+
+export interface RoomActionResult {
+  signullId?: SignullId; // set for add_signull
+  proposalId?: DirectGuessProposalId; // set for propose_direct_guess
+}
+
+/**
+ * Body of POST /api/beta/rooms. Settings left out take their defaults; the
+ * server validates the rest before the room exists.
+ */
+export interface CreateRoomRequest {
+  name: string; // ignored for a display device, which doesn't take a seat
+  settings?: Partial<GameSettings>;
+  isDisplayMode?: boolean;
+}
+
+export interface CreateRoomResult {
+  roomId: RoomId;
+}
+
 export interface GameError {
   code: string; // machine readable
   message: string; // human readable
@@ -169,13 +463,24 @@ export interface GameError {
 // Firestore raw shapes (used internally in firebase.ts) – keep minimal.
 // Firestore raw timestamp values may be either a concrete Timestamp (after read)
 // or a serverTimestamp() FieldValue sentinel during writes.
-export type FirestoreTimeValue = Timestamp | FieldValue;
+export type FirestoreTimeValue = StoredTimestamp | FieldValue;
+
+// What the game reads from a concrete Timestamp. The client and Admin SDK
+// classes both have this shape, so the server writes its own timestamps.
+export interface StoredTimestamp {
+  readonly seconds: number;
+  readonly nanoseconds: number;
+  toMillis(): number;
+  toDate(): Date;
+}
 
 export interface FirestoreSignullConnect {
   playerId: PlayerId;
   guess: string;
   timestamp: FirestoreTimeValue; // serverTimestamp sentinel until resolved
   isCorrect: boolean;
+  matchType?: ConnectMatchType;
+  matchedAs?: string;
 }
 
 export interface FirestoreSignullEntry {
@@ -188,13 +493,60 @@ export interface FirestoreSignullEntry {
   status: SignullStatus;
   createdAt: FirestoreTimeValue;
   resolvedAt?: FirestoreTimeValue;
+  timedOut?: boolean;
+  team?: TeamId;
+  clueHistory?: FirestoreSignullClueEdit[];
+  challenge?: FirestoreSignullChallenge;
+  eligibleGuesserIds?: PlayerId[];
+}
+
+export interface FirestoreSignullChallenge {
+  challengerId: PlayerId;
+  votes: Record<PlayerId, boolean>;
+  status: SignullChallengeStatus;
+  createdAt: FirestoreTimeValue;
+  resolvedAt?: FirestoreTimeValue | null;
+}
+
+export interface FirestoreSignullClueEdit {
+  clue: string;
+  editedAt: FirestoreTimeValue;
+}
+
+export interface FirestoreRoundResult {
+  round: number;
+  setterId: PlayerId;
+  secretWord: string;
+  winner: GameWinner;
+  winningTeam?: TeamId | null;
+  scores: Record<PlayerId, number>;
+  endedAt: FirestoreTimeValue;
+}
+
+export interface FirestoreMatchState {
+  currentRound: number;
+  roundResults: FirestoreRoundResult[];
 }
 
-export interface FirestoreLastDirectGuess {
+export interface FirestoreDirectGuess {
   playerId: PlayerId;
   playerName: string;
   word: string;
+  isCorrect: boolean;
   timestamp: FirestoreTimeValue;
+  team?: TeamId;
+}
+
+export interface FirestoreDirectGuessProposal {
+  id: DirectGuessProposalId;
+  playerId: PlayerId;
+  playerName: string;
+  word: string;
+  team?: TeamId;
+  votes: Record<PlayerId, boolean>;
+  status: DirectGuessProposalStatus;
+  createdAt: FirestoreTimeValue;
+  resolvedAt?: FirestoreTimeValue | null;
 }
 
 export interface FirestoreScoreEvent {
@@ -203,6 +555,7 @@ export interface FirestoreScoreEvent {
   reason: ScoreReason;
   timestamp: FirestoreTimeValue;
   details?: Record<string, unknown>;
+  round?: number;
 }
 
 /**
@@ -218,6 +571,13 @@ export interface FirestoreGameInsight {
   metadata?: Record<string, unknown>;
 }
 
+export interface FirestoreTurnState {
+  seatOrder: PlayerId[];
+  playerId: PlayerId | null;
+  signullId: SignullId | null;
+  startedAt: FirestoreTimeValue;
+}
+
 export interface FirestoreGameRoom {
   schemaVersion: 2;
   roomId: RoomId;
@@ -230,10 +590,14 @@ export interface FirestoreGameRoom {
       isOnline: boolean;
       lastActive: FirestoreTimeValue;
       score: number; // stored as number; increment via transactions
+      team?: TeamId;
+      joinsNextRound?: boolean;
+      seat?: number; // order they joined the room in; absent in older rooms
     }
   >;
   hostId: PlayerId | null; // Host player who controls game settings
   isDisplayMode: boolean; // Whether room was created with a display device
+  displayDeviceId?: PlayerId; // uid of that display device; it holds no seat
   setterId: PlayerId;
   secretWord: string;
   revealedCount: number;
@@ -243,21 +607,99 @@ export interface FirestoreGameRoom {
     itemsById: Record<SignullId, FirestoreSignullEntry>;
   };
   directGuessesLeft: number;
-  lastDirectGuess: FirestoreLastDirectGuess | null;
+  directGuesses?: FirestoreDirectGuess[]; // absent on rooms created before guess history
+  directGuessProposals?: FirestoreDirectGuessProposal[];
+  settingStartedAt?: FirestoreTimeValue | null;
+  timedOutSetterId?: PlayerId | null;
   winner: GameWinner;
+  teams?: Record<TeamId, TeamProgress> | null; // absent outside team mode rounds
+  winningTeam?: TeamId | null;
+  turns?: Partial<Record<TurnKey, FirestoreTurnState>> | null; // absent outside round robin rounds
+  recoveryLog?: FirestoreRecoveryLogEntry[]; // absent until the host first steps in
   settings: {
     playMode: PlayMode;
     connectsRequired: number;
     maxPlayers: number;
     timeLimitSeconds: number;
     wordValidation: "strict" | "relaxed";
+    typoTolerance?: number; // absent on rooms created before fuzzy matching
     prefixMode: boolean;
     showScoreBreakdown: boolean;
     displaySoundMode: boolean;
+    roundsPerMatch?: number; // absent on rooms created before matches
+    setterRotation?: SetterRotation;
+    scoringRules?: Partial<ScoringRules>; // absent on rooms created before house rules
+    interceptsToWin?: number;
+    interceptAttempts?: number;
+    connectAttempts?: number;
+    teamMode?: boolean;
+    directGuessPolicy?: DirectGuessPolicy;
+    directGuessVoting?: boolean;
+    lateJoinPolicy?: LateJoinPolicy;
+    skipOfflineGuessers?: boolean;
+    connectsPercent?: number; // absent on rooms created before percentage connects
   };
+  match?: FirestoreMatchState; // absent on rooms created before matches
   scoreEvents: FirestoreScoreEvent[];
   scoreCountingComplete: boolean;
   insights: FirestoreGameInsight[]; // Game insights computed at game end
   createdAt: FirestoreTimeValue;
   updatedAt: FirestoreTimeValue;
 }
+
+export interface FirestoreRecoveryLogEntry {
+  action: RecoveryAction;
+  hostId: PlayerId;
+  targetId?: string;
+  at: FirestoreTimeValue;
+}
+
+export interface FirestoreRoundArchive {
+  archiveId: string;
+  roomId: RoomId;
+  round: number;
+  secretWord: string;
+  setterId: PlayerId;
+  players: Record<PlayerId, { name: string; role: PlayerRole; team?: TeamId }>;
+  signulls: FirestoreSignullEntry[];
+  winner: GameWinner;
+  winningTeam?: TeamId | null;
+  scoreEvents: FirestoreScoreEvent[];
+  insights: FirestoreGameInsight[];
+  archivedAt: FirestoreTimeValue;
+}
+
+// ==================== Hidden State Types ====================
+
+/**
+ * Placeholder for a letter of the secret word the viewer is not allowed to see.
+ * Public room documents carry the secret word masked with this character.
+ */
+export const HIDDEN_LETTER = "_";
+
+/**
+ * Server-only record of everything stripped from the public room document.
+ * Stored at game_rooms_v2/{roomId}/private/secrets and never readable by clients.
+ */
+export interface FirestoreRoomSecrets {
+  secretWord: string;
+  signulls: Record<
+    SignullId,
+    {
+      word: string;
+      guesses: string[]; // aligned with the entry's connects array
+    }
+  >;
+}
+
+/**
+ * Per-player projection stored at game_rooms_v2/{roomId}/views/{playerId}.
+ * Holds only the hidden values that player is entitled to see.
+ */
+export interface FirestorePlayerView {
+  secretWord: string | null; // only for the setter
+  team?: TeamId | null; // the player's team in team mode
+  teamSecretWord?: string | null; // masked at the team's own progress
+  signullWords: Record<SignullId, string>; // the player's own pending signulls
+  updatedAt: FirestoreTimeValue;
+}
@@ -0,0 +1,65 @@
+/**
+ * useDeadlineExpiry Hook
+ *
+ * When the earliest running deadline in the room passes, asks the server to
+ * expire it. The host asks first; every other client in the room (display
+ * included) only asks a little later, in case the host is gone. The server
+ * applies expiry in a transaction and ignores calls that arrive early or
+ * after another client already handled it.
+ */
+
+import { useEffect, useState } from "react";
+import { useBetaStore } from "./store";
+import { getNextDeadline } from "./selectors";
+import { getServerNow, syncServerClock } from "./useServerClock";
+
+// Small delay past the deadline, plus jitter so clients don't all fire at once
+const EXPIRY_GRACE_MS = 750;
+const EXPIRY_JITTER_MS = 500;
+// How long everyone else leaves the host to handle it
+const HOST_HEAD_START_MS = 3000;
+// A deadline that survives an attempt (e.g. clock skew) is retried less
+// and less often
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 30000;
+
+export function useDeadlineExpiry() {
+  const game = useBetaStore((state) => state.game);
+  const userId = useBetaStore((state) => state.userId);
+  const expireDeadlines = useBetaStore((state) => state.expireDeadlines);
+  const deadlineMs = getNextDeadline(game)?.getTime() ?? null;
+  const isHost = !!userId && game?.hostId === userId;
+  // Attempts at the current deadline; a new deadline starts over
+  const [tries, setTries] = useState({ deadlineMs, count: 0 });
+  const attempt = tries.deadlineMs === deadlineMs ? tries.count : 0;
+
+  useEffect(() => {
+    if (deadlineMs === null) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    syncServerClock().then(() => {
+      if (cancelled) return;
+      const backoff =
+        attempt > 0
+          ? Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS)
+          : 0;
+      const delay =
+        Math.max(deadlineMs - getServerNow(), 0) +
+        EXPIRY_GRACE_MS +
+        (isHost ? 0 : HOST_HEAD_START_MS) +
+        backoff +
+        Math.random() * EXPIRY_JITTER_MS;
+      timer = setTimeout(() => {
+        expireDeadlines().finally(() => {
+          if (!cancelled) setTries({ deadlineMs, count: attempt + 1 });
+        });
+      }, delay);
+    });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [deadlineMs, attempt, isHost, expireDeadlines]);
+}
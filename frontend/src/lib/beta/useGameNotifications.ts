@@ -4,9 +4,16 @@
  * This hook watches for game state changes and triggers appropriate
  * notifications. It compares previous and current state to detect:
  * - New signulls from other players
- * - Signull status changes (resolved, intercepted, failed)
+ * - Signull status changes (resolved, intercepted, failed, timed out)
+ * - Signulls withdrawn or clues edited by their creator
+ * - Clue challenges and whether the clue was vetoed
  * - Letter reveals
  * - Game phase changes
+ * - Setter rotation when the setter runs out of time
+ * - Connects required lowered mid-round after guessers left or went offline
+ * - The turn to send a signull coming round to you
+ * - The host stepping in to unstick the game
+ * - Direct guess proposals, their votes and how the vote went
  * - Player join/leave events
  */
 
@@ -14,17 +21,36 @@ import { useEffect, useRef } from "react";
 import { useBetaStore } from "./store";
 import { useNotificationStore } from "./notification-store";
 import { NotificationTemplates, createNotification } from "./notifications";
+import { useServerNow } from "./useServerClock";
+import {
+  getDirectGuessesLeft,
+  getEffectiveConnectsRequired,
+  getPlayerTeam,
+  getPlayerTurn,
+} from "./selectors";
 import type {
+  DirectGuessProposalStatus,
   GameState,
+  RecoveryAction,
+  SignullChallengeStatus,
   SignullEntry,
   SignullStatus,
-  LastDirectGuess,
+  DirectGuess,
 } from "./types";
 
 interface SignullTracker {
   id: string;
+  playerId: string;
   status: SignullStatus;
   connectCount: number;
+  clueEdits: number;
+  challengeStatus: SignullChallengeStatus | null;
+}
+
+interface ProposalTracker {
+  id: string;
+  status: DirectGuessProposalStatus;
+  voterIds: string[];
 }
 
 interface GameStateSnapshot {
@@ -34,20 +60,36 @@ interface GameStateSnapshot {
   playerIds: string[];
   winner: GameState["winner"];
   secretWordSet: boolean;
-  lastDirectGuess: LastDirectGuess | null;
+  lastDirectGuess: DirectGuess | null;
+  proposals: ProposalTracker[];
   directGuessesLeft: number;
+  setterId: string;
+  settingStartedAt: number | null;
+  timedOutSetterId: string | null;
+  turnPlayerId: string | null; // whose turn it is in the viewer's turn order
+  connectsRequired: number | null; // what signulls are held to, not the setting
+  lastRecoveryAt: number | null; // newest host recovery, to spot new ones
+  lastRecoveryAction: RecoveryAction | null;
 }
 
-function createSnapshot(game: GameState | null): GameStateSnapshot | null {
+function createSnapshot(
+  game: GameState | null,
+  userId: string,
+  nowMs: number
+): GameStateSnapshot | null {
   if (!game) return null;
 
   const signulls: SignullTracker[] = Object.values(
     game.signullState.itemsById
   ).map((s: SignullEntry) => ({
     id: s.id,
+    playerId: s.playerId,
     status: s.status,
     connectCount: s.connects.length,
+    clueEdits: s.clueHistory?.length ?? 0,
+    challengeStatus: s.challenge?.status ?? null,
   }));
+  const lastRecovery = game.recoveryLog[game.recoveryLog.length - 1];
 
   return {
     phase: game.phase,
@@ -56,8 +98,20 @@ function createSnapshot(game: GameState | null): GameStateSnapshot | null {
     playerIds: Object.keys(game.players),
     winner: game.winner,
     secretWordSet: !!game.secretWord,
-    lastDirectGuess: game.lastDirectGuess,
+    lastDirectGuess: game.directGuesses[game.directGuesses.length - 1] ?? null,
+    proposals: game.directGuessProposals.map((p) => ({
+      id: p.id,
+      status: p.status,
+      voterIds: Object.keys(p.votes),
+    })),
     directGuessesLeft: game.directGuessesLeft,
+    setterId: game.setterId,
+    settingStartedAt: game.settingStartedAt?.getTime() ?? null,
+    timedOutSetterId: game.timedOutSetterId,
+    turnPlayerId: getPlayerTurn(game, userId)?.playerId ?? null,
+    connectsRequired: getEffectiveConnectsRequired(game, nowMs),
+    lastRecoveryAt: lastRecovery?.at.getTime() ?? null,
+    lastRecoveryAction: lastRecovery?.action ?? null,
   };
 }
 
@@ -67,6 +121,8 @@ export function useGameNotifications() {
   const addNotification = useNotificationStore(
     (state) => state.addNotification
   );
+  // Ticks mid-round so guessers going offline are noticed without a write
+  const nowMs = useServerNow(game?.phase === "signulls", 5000);
 
   // Keep track of previous state to detect changes
   const prevSnapshotRef = useRef<GameStateSnapshot | null>(null);
@@ -75,7 +131,7 @@ export function useGameNotifications() {
   useEffect(() => {
     if (!game || !userId) return;
 
-    const currentSnapshot = createSnapshot(game);
+    const currentSnapshot = createSnapshot(game, userId, nowMs);
     const prevSnapshot = prevSnapshotRef.current;
 
     // Skip first render to avoid notification flood on page load
@@ -114,6 +170,62 @@ export function useGameNotifications() {
       }
     }
 
+    // Detect setter rotation after the setter ran out of time
+    if (
+      currentSnapshot.phase === "setting" &&
+      currentSnapshot.timedOutSetterId &&
+      currentSnapshot.settingStartedAt !== prevSnapshot.settingStartedAt
+    ) {
+      const previousName =
+        game.players[currentSnapshot.timedOutSetterId]?.name ?? "The setter";
+      const newName = game.players[currentSnapshot.setterId]?.name ?? "Someone";
+      addNotification(
+        createNotification(
+          NotificationTemplates.SETTER_TIMED_OUT(previousName, newName)
+        )
+      );
+    }
+
+    // Detect the connect requirement coming down mid-round because guessers
+    // left or went offline; the host's setting stays as it was
+    if (
+      currentSnapshot.phase === "signulls" &&
+      currentSnapshot.connectsRequired !== null &&
+      prevSnapshot.connectsRequired !== null &&
+      currentSnapshot.connectsRequired < prevSnapshot.connectsRequired
+    ) {
+      addNotification(
+        createNotification(
+          NotificationTemplates.CONNECTS_REBALANCED(
+            prevSnapshot.connectsRequired,
+            currentSnapshot.connectsRequired
+          )
+        )
+      );
+    }
+
+    // Detect the host stepping in to unstick the game
+    if (
+      currentSnapshot.lastRecoveryAction &&
+      currentSnapshot.lastRecoveryAt !== prevSnapshot.lastRecoveryAt
+    ) {
+      addNotification(
+        createNotification(
+          NotificationTemplates.HOST_RECOVERED(
+            currentSnapshot.lastRecoveryAction
+          )
+        )
+      );
+    }
+
+    // Detect the turn coming round to this player
+    if (
+      currentSnapshot.turnPlayerId === userId &&
+      prevSnapshot.turnPlayerId !== userId
+    ) {
+      addNotification(createNotification(NotificationTemplates.YOUR_TURN()));
+    }
+
     // Detect letter reveals
     if (currentSnapshot.revealedCount > prevSnapshot.revealedCount) {
       const letter = game.secretWord[prevSnapshot.revealedCount] ?? "?";
@@ -143,7 +255,7 @@ export function useGameNotifications() {
             NotificationTemplates.DIRECT_GUESS_USED(
               currentGuess.playerName,
               currentGuess.word,
-              currentSnapshot.directGuessesLeft
+              getDirectGuessesLeft(game, currentGuess.playerId)
             ),
             {
               playerId: currentGuess.playerId,
@@ -154,6 +266,66 @@ export function useGameNotifications() {
       }
     }
 
+    // Detect direct guess proposals and votes (the viewer's team only)
+    const viewerTeam = getPlayerTeam(game, userId);
+    for (const currentProposal of currentSnapshot.proposals) {
+      const proposal = game.directGuessProposals.find(
+        (p) => p.id === currentProposal.id
+      );
+      if (!proposal || (viewerTeam && proposal.team !== viewerTeam)) continue;
+      const prevProposal = prevSnapshot.proposals.find(
+        (p) => p.id === currentProposal.id
+      );
+
+      if (!prevProposal) {
+        if (proposal.playerId !== userId && proposal.status === "pending") {
+          addNotification(
+            createNotification(
+              NotificationTemplates.DIRECT_GUESS_PROPOSED(
+                proposal.playerName,
+                proposal.word
+              ),
+              { playerId: proposal.playerId, playerName: proposal.playerName }
+            )
+          );
+        }
+        continue;
+      }
+
+      for (const voterId of currentProposal.voterIds) {
+        if (prevProposal.voterIds.includes(voterId) || voterId === userId) {
+          continue;
+        }
+        const voterName = game.players[voterId]?.name ?? "Someone";
+        addNotification(
+          createNotification(
+            NotificationTemplates.DIRECT_GUESS_VOTE_CAST(
+              voterName,
+              proposal.votes[voterId]
+            ),
+            { playerId: voterId, playerName: voterName }
+          )
+        );
+      }
+
+      // Approved proposals show up as the direct guess itself
+      if (prevProposal.status !== currentProposal.status) {
+        if (currentProposal.status === "rejected") {
+          addNotification(
+            createNotification(
+              NotificationTemplates.DIRECT_GUESS_REJECTED(proposal.word)
+            )
+          );
+        } else if (currentProposal.status === "expired") {
+          addNotification(
+            createNotification(
+              NotificationTemplates.DIRECT_GUESS_VOTE_EXPIRED(proposal.word)
+            )
+          );
+        }
+      }
+    }
+
     // Detect new signulls from other players
     const prevSignullIds = new Set(prevSnapshot.signulls.map((s) => s.id));
     const newSignulls = currentSnapshot.signulls.filter(
@@ -177,11 +349,93 @@ export function useGameNotifications() {
       }
     }
 
+    // Detect signulls withdrawn by their creator (same round only)
+    if (
+      prevSnapshot.phase === "signulls" &&
+      currentSnapshot.phase === "signulls"
+    ) {
+      const currentSignullIds = new Set(
+        currentSnapshot.signulls.map((s) => s.id)
+      );
+      for (const prevSignull of prevSnapshot.signulls) {
+        if (
+          currentSignullIds.has(prevSignull.id) ||
+          prevSignull.status !== "pending" ||
+          prevSignull.playerId === userId
+        ) {
+          continue;
+        }
+        const playerName =
+          game.players[prevSignull.playerId]?.name ?? "Someone";
+        addNotification(
+          createNotification(
+            NotificationTemplates.SIGNULL_RETRACTED(playerName)
+          )
+        );
+      }
+    }
+
     // Detect signull status changes
     for (const currentSignull of currentSnapshot.signulls) {
       const prevSignull = prevSnapshot.signulls.find(
         (s) => s.id === currentSignull.id
       );
+
+      // Challenges: raised, then upheld (vetoed) or dismissed
+      if (
+        prevSignull &&
+        prevSignull.challengeStatus !== currentSignull.challengeStatus
+      ) {
+        const entry = game.signullState.itemsById[currentSignull.id];
+        const clueGiverName =
+          game.players[currentSignull.playerId]?.name ?? "Someone";
+        const challengerId = entry?.challenge?.challengerId;
+        if (
+          currentSignull.challengeStatus === "pending" &&
+          challengerId !== userId
+        ) {
+          const challengerName =
+            (challengerId && game.players[challengerId]?.name) || "Someone";
+          addNotification(
+            createNotification(
+              NotificationTemplates.SIGNULL_CHALLENGED(
+                challengerName,
+                clueGiverName
+              ),
+              { signullId: currentSignull.id }
+            )
+          );
+        } else if (currentSignull.challengeStatus === "upheld") {
+          addNotification(
+            createNotification(
+              NotificationTemplates.SIGNULL_VETOED(clueGiverName),
+              { signullId: currentSignull.id }
+            )
+          );
+        } else if (currentSignull.challengeStatus === "dismissed") {
+          addNotification(
+            createNotification(
+              NotificationTemplates.SIGNULL_CHALLENGE_DISMISSED(clueGiverName),
+              { signullId: currentSignull.id }
+            )
+          );
+        }
+      }
+
+      if (
+        prevSignull &&
+        currentSignull.clueEdits > prevSignull.clueEdits &&
+        currentSignull.playerId !== userId
+      ) {
+        const playerName =
+          game.players[currentSignull.playerId]?.name ?? "Someone";
+        addNotification(
+          createNotification(
+            NotificationTemplates.SIGNULL_CLUE_EDITED(playerName),
+            { signullId: currentSignull.id }
+          )
+        );
+      }
       if (prevSignull && prevSignull.status !== currentSignull.status) {
         const entry = game.signullState.itemsById[currentSignull.id];
         if (!entry) continue;
@@ -190,6 +444,18 @@ export function useGameNotifications() {
         const setterId = game.setterId;
         const setterName = game.players[setterId]?.name ?? "Setter";
 
+        if (entry.timedOut) {
+          addNotification(
+            createNotification(
+              NotificationTemplates.SIGNULL_TIMED_OUT(clueGiverName),
+              {
+                signullId: currentSignull.id,
+              }
+            )
+          );
+          continue;
+        }
+
         switch (currentSignull.status) {
           case "resolved":
             addNotification(
@@ -281,5 +547,5 @@ export function useGameNotifications() {
 
     // Update ref for next comparison
     prevSnapshotRef.current = currentSnapshot;
-  }, [game, userId, addNotification]);
+  }, [game, userId, nowMs, addNotification]);
 }
@@ -0,0 +1,42 @@
+/**
+ * usePresence Hook
+ *
+ * Keeps the current player's presence fresh while the page is visible:
+ * a heartbeat on an interval and whenever the tab comes back, and an offline
+ * mark when the page is hidden for good. Other players read it to tell who is
+ * still around, and rooms can stop waiting on guessers who have gone away.
+ */
+
+import { useEffect } from "react";
+import { useBetaStore } from "./store";
+import { HEARTBEAT_INTERVAL_MS } from "./engine";
+
+export function usePresence() {
+  const roomId = useBetaStore((state) => state.roomId);
+  const isPlayer = useBetaStore(
+    (state) => !!state.userId && !!state.game?.players[state.userId]
+  );
+  const updatePresence = useBetaStore((state) => state.updatePresence);
+
+  useEffect(() => {
+    if (!roomId || !isPlayer) return;
+
+    const beat = () => {
+      if (document.visibilityState === "visible") updatePresence(true);
+    };
+    const handlePageHide = () => {
+      updatePresence(false);
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener("visibilitychange", beat);
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", beat);
+      window.removeEventListener("pagehide", handlePageHide);
+    };
+  }, [roomId, isPlayer, updatePresence]);
+}
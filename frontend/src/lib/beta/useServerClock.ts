@@ -0,0 +1,56 @@
+/**
+ * useServerClock Hook
+ *
+ * Countdowns must agree with the server, which is what decides when a
+ * deadline has passed. The offset between this device's clock and the
+ * server's is measured once per page load (halving the round trip) and
+ * shared by every countdown.
+ */
+
+import { useEffect, useState } from "react";
+
+let serverOffsetMs = 0;
+let syncPromise: Promise<void> | null = null;
+
+export function syncServerClock(): Promise<void> {
+  if (!syncPromise) {
+    syncPromise = (async () => {
+      try {
+        const sentAt = Date.now();
+        const res = await fetch("/api/beta/time", { cache: "no-store" });
+        const { now } = (await res.json()) as { now: number };
+        const receivedAt = Date.now();
+        serverOffsetMs = now - (sentAt + receivedAt) / 2;
+      } catch (error) {
+        // Fall back to the local clock and try again next time
+        console.warn("Failed to sync server clock:", error);
+        syncPromise = null;
+      }
+    })();
+  }
+  return syncPromise;
+}
+
+/** Current server time in ms, using the last measured offset */
+export function getServerNow(): number {
+  return Date.now() + serverOffsetMs;
+}
+
+/**
+ * Server time in ms, re-rendering every `tickMs` while `active`
+ */
+export function useServerNow(active = true, tickMs = 1000): number {
+  const [now, setNow] = useState(getServerNow);
+
+  useEffect(() => {
+    syncServerClock().then(() => setNow(getServerNow()));
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(() => setNow(getServerNow()), tickMs);
+    return () => clearInterval(interval);
+  }, [active, tickMs]);
+
+  return now;
+}
@@ -18,7 +18,7 @@ import {
   useEnableSoundsOnInteraction,
   usePreloadSounds,
 } from "./useSound";
-import type { GameState, SignullStatus, LastDirectGuess } from "./types";
+import type { GameState, SignullStatus, DirectGuess } from "./types";
 import type { SoundEvent } from "./sound-types";
 
 interface SignullTracker {
@@ -34,7 +34,7 @@ interface GameStateSnapshot {
   playerIds: string[];
   winner: GameState["winner"];
   secretWordSet: boolean;
-  lastDirectGuess: LastDirectGuess | null;
+  lastDirectGuess: DirectGuess | null;
   directGuessesLeft: number;
 }
 
@@ -56,7 +56,7 @@ function createSnapshot(game: GameState | null): GameStateSnapshot | null {
     playerIds: Object.keys(game.players),
     winner: game.winner,
     secretWordSet: !!game.secretWord,
-    lastDirectGuess: game.lastDirectGuess,
+    lastDirectGuess: game.directGuesses[game.directGuesses.length - 1] ?? null,
     directGuessesLeft: game.directGuessesLeft,
   };
 }
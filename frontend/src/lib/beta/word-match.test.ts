@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { findClueViolation, matchConnectGuess } from "./word-match";
+import { isAllowedWord } from "./server/dictionary";
+
+const relaxed = { wordValidation: "relaxed" as const };
+const isKnownWord = (word: string) => isAllowedWord(word, "strict");
+
+const matchType = (guess: string, word: string) =>
+  matchConnectGuess(guess, word, relaxed, isKnownWord)?.type ?? null;
+
+describe("matchConnectGuess inflections", () => {
+  it.each([
+    ["CATS", "CAT"],
+    ["BOXES", "BOX"],
+    ["PARTIES", "PARTY"],
+    ["PIES", "PIE"],
+    ["BAKING", "BAKE"],
+    ["BAKED", "BAKES"],
+    ["HOPED", "HOPE"],
+    ["HOPPED", "HOP"],
+    ["RUNNING", "RUN"],
+    ["SINGING", "SING"],
+    ["WANTED", "WANT"],
+    ["MICE", "MOUSE"],
+  ])("accepts %s for %s", (guess, word) => {
+    expect(matchType(guess, word)).toBe("inflection");
+  });
+
+  it.each([
+    ["HATE", "HAT"],
+    ["PLANE", "PLAN"],
+    ["NEWS", "NEW"],
+    ["RATED", "RAT"],
+    ["HOPING", "HOP"],
+    ["SITE", "SIT"],
+    ["CANE", "CAN"],
+    ["SEED", "SEE"],
+    ["SINGE", "SING"],
+  ])("rejects %s for %s", (guess, word) => {
+    expect(matchType(guess, word)).toBeNull();
+  });
+
+  it("only knows irregular forms without a dictionary", () => {
+    expect(matchConnectGuess("CATS", "CAT", relaxed)).toBeNull();
+    expect(matchConnectGuess("MICE", "MOUSE", relaxed)?.type).toBe(
+      "inflection"
+    );
+  });
+
+  it("leaves strict rooms to the exact word", () => {
+    expect(
+      matchConnectGuess(
+        "CATS",
+        "CAT",
+        { wordValidation: "strict" },
+        isKnownWord
+      )
+    ).toBeNull();
+  });
+});
+
+describe("findClueViolation forms of the word", () => {
+  it.each([
+    ["Baking bread", "BAKE"],
+    ["Lots of parties", "PARTY"],
+    ["Ponies in a field", "PONY"],
+  ])("rejects %j for %s", (clue, word) => {
+    expect(findClueViolation(clue, word, isKnownWord)).toBe("stem");
+  });
+
+  it.each([
+    ["Wears a hat", "HATE"],
+    ["A can of soup", "CANE"],
+    ["Please sit", "SITE"],
+    ["A rat", "RATED"],
+  ])("accepts %j for %s", (clue, word) => {
+    expect(findClueViolation(clue, word, isKnownWord)).toBeNull();
+  });
+});
+
+describe("findClueViolation the word itself", () => {
+  it.each([
+    ["A smart heart", "ART"],
+    ["Pick a category", "CAT"],
+    ["A giant plant", "ANT"],
+    ["Boarding the airplane", "PLAN"],
+    ["I hate it", "HAT"],
+  ])("accepts %j for %s", (clue, word) => {
+    expect(findClueViolation(clue, word, isKnownWord)).toBeNull();
+  });
+
+  it.each([
+    ["The cat sat", "CAT"],
+    ["The cat's whiskers", "CAT"],
+    ["C A T", "CAT"],
+    ["Grey skies", "GRAY"],
+    ["Planetarium show", "PLANET"],
+    ["Sunflower seeds", "FLOWER"],
+  ])("rejects %j for %s", (clue, word) => {
+    expect(findClueViolation(clue, word, isKnownWord)).toBe("word");
+  });
+
+  it("rejects an opening fragment of a long word", () => {
+    expect(findClueViolation("Eleph", "ELEPHANT", isKnownWord)).toBe("prefix");
+  });
+});
@@ -0,0 +1,307 @@
+import type { ConnectMatchType, GameSettings } from "./types";
+
+/**
+ * Connect matching.
+ *
+ * Strict rooms only accept the signull word itself. Relaxed rooms also
+ * accept, in order of preference:
+ * - British/American spelling variants (COLOUR for COLOR)
+ * - plurals and other inflections (CATS for CAT, RUNNING for RUN)
+ * - near-miss typos within the room's typo tolerance (edit distance)
+ */
+
+export const DEFAULT_TYPO_TOLERANCE = 1;
+export const MAX_TYPO_TOLERANCE = 2;
+
+// Typos are only forgiven on words at least this long; CAT vs BAT is a
+// different word, not a slip of the finger
+const MIN_TYPO_WORD_LENGTH = 4;
+
+export interface ConnectMatch {
+  type: ConnectMatchType;
+  matchedAs: string; // the signull word the guess was accepted as
+}
+
+// Connects accepted as something other than the exact word
+export const isNearMatch = (connect: { matchType?: ConnectMatchType }) =>
+  !!connect.matchType && connect.matchType !== "exact";
+
+// ==================== Spelling variants ====================
+
+// British -> American forms the suffix rules below don't cover
+const SPELLING_PAIRS: Record<string, string> = {
+  AEROPLANE: "AIRPLANE",
+  ALUMINIUM: "ALUMINUM",
+  ANALOGUE: "ANALOG",
+  CATALOGUE: "CATALOG",
+  CHEQUE: "CHECK",
+  COSY: "COZY",
+  DEFENCE: "DEFENSE",
+  DIALOGUE: "DIALOG",
+  DOUGHNUT: "DONUT",
+  DRAUGHT: "DRAFT",
+  GREY: "GRAY",
+  JEWELLERY: "JEWELRY",
+  KERB: "CURB",
+  LICENCE: "LICENSE",
+  MOULD: "MOLD",
+  MOUSTACHE: "MUSTACHE",
+  MUM: "MOM",
+  OFFENCE: "OFFENSE",
+  PLOUGH: "PLOW",
+  PRACTISE: "PRACTICE",
+  PROGRAMME: "PROGRAM",
+  PYJAMAS: "PAJAMAS",
+  SCEPTIC: "SKEPTIC",
+  SMOULDER: "SMOLDER",
+  TYRE: "TIRE",
+};
+
+// Each rule is guarded by a minimum length so short words that only look
+// like the pattern (FOUR/FOR, PRISE/PRIZE) stay distinct
+const SPELLING_RULES: {
+  pattern: RegExp;
+  replace: string;
+  minLength: number;
+}[] = [
+  { pattern: /OUR(S?)$/, replace: "OR$1", minLength: 6 }, // COLOUR
+  { pattern: /OURED$/, replace: "ORED", minLength: 7 }, // FLAVOURED
+  { pattern: /OURITE(S?)$/, replace: "ORITE$1", minLength: 8 }, // FAVOURITE
+  { pattern: /IS(E|ED|ES|ING|ATION)$/, replace: "IZ$1", minLength: 7 }, // REALISE
+  { pattern: /YS(E|ED|ES|ING)$/, replace: "YZ$1", minLength: 7 }, // ANALYSE
+  { pattern: /([BT])RE(S?)$/, replace: "$1ER$2", minLength: 5 }, // CENTRE
+  { pattern: /ELL(ED|ING|ER|ERS)$/, replace: "EL$1", minLength: 7 }, // TRAVELLED
+];
+
+const toAmericanSpelling = (word: string): string => {
+  if (SPELLING_PAIRS[word]) return SPELLING_PAIRS[word];
+  for (const rule of SPELLING_RULES) {
+    if (word.length >= rule.minLength && rule.pattern.test(word)) {
+      return word.replace(rule.pattern, rule.replace);
+    }
+  }
+  return word;
+};
+
+// ==================== Inflections ====================
+
+const IRREGULAR_FORMS: Record<string, string> = {
+  CHILDREN: "CHILD",
+  FEET: "FOOT",
+  GEESE: "GOOSE",
+  HALVES: "HALF",
+  KNIVES: "KNIFE",
+  LEAVES: "LEAF",
+  LIVES: "LIFE",
+  MEN: "MAN",
+  MICE: "MOUSE",
+  PEOPLE: "PERSON",
+  SHELVES: "SHELF",
+  TEETH: "TOOTH",
+  WIVES: "WIFE",
+  WOLVES: "WOLF",
+  WOMEN: "WOMAN",
+};
+
+// Words whose endings only look like inflections: NEWS is not NEW + S, and
+// SEED is not SEE + D
+const NOT_INFLECTED = new Set([
+  "BLEED",
+  "BREED",
+  "CEILING",
+  "DEED",
+  "EVENING",
+  "FEED",
+  "GREED",
+  "HEED",
+  "MORNING",
+  "NEED",
+  "NEWS",
+  "PUDDING",
+  "REED",
+  "SEED",
+  "SPEED",
+  "STEED",
+  "TWEED",
+  "WEED",
+  "WICKED",
+]);
+
+// Bases shorter than this are too ambiguous to compare (THING is not TH+ING)
+const MIN_STEM_LENGTH = 3;
+
+// Words an inflected form could have been made from, most likely first:
+// HOPED is HOPE + D before it is HOP + ED, HOPPED is HOP + PED
+const getBaseCandidates = (word: string): string[] => {
+  const cut = (suffix: string) => word.slice(0, -suffix.length);
+  const undouble = (stem: string) =>
+    /([^AEIOU])\1$/.test(stem) ? [stem.slice(0, -1)] : [];
+
+  if (word.endsWith("IES")) return [cut("IES") + "Y", cut("S")];
+  if (/(S|X|Z|CH|SH)ES$/.test(word)) return [cut("S"), cut("ES")];
+  if (/[^S]S$/.test(word)) return [cut("S")];
+  if (word.endsWith("IED")) return [cut("IED") + "Y", cut("D")];
+  if (word.endsWith("ED")) {
+    return [cut("D"), cut("ED"), ...undouble(cut("ED"))];
+  }
+  if (word.endsWith("ING")) {
+    const stem = cut("ING");
+    // SINGING is SING + ING, not SINGE + ING
+    return stem.endsWith("NG")
+      ? [stem, stem + "E"]
+      : [stem + "E", stem, ...undouble(stem)];
+  }
+  return [];
+};
+
+/**
+ * The word an inflected form comes from: CATS and BAKING become CAT and
+ * BAKE, while HATE and PLANE stay as they are. A suffix only comes off when
+ * what is left is a word itself, so without `isKnownWord` only irregular
+ * forms (MICE for MOUSE) are recognized.
+ */
+const toBaseForm = (
+  word: string,
+  isKnownWord?: (word: string) => boolean
+): string => {
+  if (IRREGULAR_FORMS[word]) return IRREGULAR_FORMS[word];
+  if (!isKnownWord || NOT_INFLECTED.has(word)) return word;
+  const base = getBaseCandidates(word).find(
+    (candidate) => candidate.length >= MIN_STEM_LENGTH && isKnownWord(candidate)
+  );
+  return base ?? word;
+};
+
+// ==================== Typos ====================
+
+// Optimal string alignment distance: insertions, deletions, substitutions
+// and swaps of adjacent letters each cost 1
+export const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// ==================== Matcher ====================
+
+/**
+ * Decide whether a connect guess counts as the signull word. Both are
+ * expected in uppercase. Returns null when the guess is wrong.
+ *
+ * `isKnownWord` lets the server tell inflections from look-alikes (see
+ * toBaseForm) and rule out typos that are real words in their own right
+ * (HORSE is not a typo of HOUSE). Without it any guess within the tolerance
+ * is forgiven.
+ */
+export const matchConnectGuess = (
+  guess: string,
+  word: string,
+  settings: Pick<GameSettings, "wordValidation"> & { typoTolerance?: number },
+  isKnownWord?: (word: string) => boolean
+): ConnectMatch | null => {
+  if (!guess || !word) return null;
+  if (guess === word) return { type: "exact", matchedAs: word };
+  if (settings.wordValidation !== "relaxed") return null;
+
+  const guessSpelling = toAmericanSpelling(guess);
+  const wordSpelling = toAmericanSpelling(word);
+  if (guessSpelling === wordSpelling) {
+    return { type: "spelling", matchedAs: word };
+  }
+  if (
+    toBaseForm(guessSpelling, isKnownWord) ===
+    toBaseForm(wordSpelling, isKnownWord)
+  ) {
+    return { type: "inflection", matchedAs: word };
+  }
+
+  const tolerance = settings.typoTolerance ?? DEFAULT_TYPO_TOLERANCE;
+  if (
+    tolerance > 0 &&
+    word.length >= MIN_TYPO_WORD_LENGTH &&
+    editDistance(guess, word) <= tolerance &&
+    !isKnownWord?.(guess)
+  ) {
+    return { type: "typo", matchedAs: word };
+  }
+  return null;
+};
+
+// ==================== Clue checks ====================
+
+// Shorter fragments ("CA" for CAT) are too common to give the word away
+const MIN_FRAGMENT_LENGTH = 4;
+
+// Shorter words turn up inside unrelated ones (CAT in CATEGORY, PLAN in
+// AIRPLANE), so they only count as whole words
+const MIN_EMBEDDED_WORD_LENGTH = 6;
+
+export type ClueViolation = "word" | "stem" | "prefix";
+
+/**
+ * Whether a clue gives its signull word away: it contains the word itself
+ * (also spelled out across spaces or in the other spelling, and inside a
+ * longer word once the word is long enough to be unmistakable), a form of the
+ * word (BAKING for BAKE), or an obvious opening fragment (ELEPH for
+ * ELEPHANT). Returns null for a fair clue. The word is expected uppercase;
+ * `isKnownWord` is used as in matchConnectGuess.
+ */
+export const findClueViolation = (
+  clue: string,
+  word: string,
+  isKnownWord?: (word: string) => boolean
+): ClueViolation | null => {
+  if (!word) return null;
+  const words = clue
+    .toUpperCase()
+    .split(/[^A-Z]+/)
+    .filter(Boolean);
+  // Letters spelled out one by one ("C A T") count as one token
+  const tokens = words.reduce<string[]>((acc, t, i) => {
+    if (t.length === 1 && i > 0 && words[i - 1].length === 1) {
+      acc[acc.length - 1] += t;
+    } else {
+      acc.push(t);
+    }
+    return acc;
+  }, []);
+  const wordSpelling = toAmericanSpelling(word);
+
+  const containsWord = (token: string) => {
+    const spelling = toAmericanSpelling(token);
+    return wordSpelling.length >= MIN_EMBEDDED_WORD_LENGTH
+      ? spelling.includes(wordSpelling)
+      : spelling === wordSpelling;
+  };
+  if (tokens.some(containsWord)) return "word";
+  const wordBase = toBaseForm(wordSpelling, isKnownWord);
+  if (
+    tokens.some(
+      (t) => toBaseForm(toAmericanSpelling(t), isKnownWord) === wordBase
+    )
+  ) {
+    return "stem";
+  }
+  if (
+    tokens.some((t) => t.length >= MIN_FRAGMENT_LENGTH && word.startsWith(t))
+  ) {
+    return "prefix";
+  }
+  return null;
+};
@@ -10,6 +10,16 @@ import {
   BlogTags,
 } from "@/components/blog/BlogContent";
 import { BlogPost } from "@/lib/blog/posts";
+import { DEFAULT_SCORING_RULES, SCORING_PRESETS } from "@/lib/beta/scoring";
+import type { ScoringPreset } from "@/lib/beta/types";
+
+const points = DEFAULT_SCORING_RULES;
+
+const PRESET_NAMES: Record<ScoringPreset, string> = {
+  classic: "Classic",
+  setter_friendly: "Setter-friendly",
+  chaos: "Chaos",
+};
 
 interface BlogPostContentProps {
   post: BlogPost;
@@ -101,24 +111,31 @@ export default function ScoringSystemBlog({ post }: BlogPostContentProps) {
         <BlogList
           items={[
             <>
-              <strong>+5 for an Intercept:</strong> When the word-setter
-              successfully identifies a signull before the guessing team can
-              solve it, they earn 5 points. This rewards the setter for staying
-              engaged and making strategic decisions about which clues to block.
+              <strong>+{points.intercept} for an Intercept:</strong> When the
+              word-setter successfully identifies a signull before the guessing
+              team can solve it, they earn {points.intercept} points. This
+              rewards the setter for staying engaged and making strategic
+              decisions about which clues to block. The setter gets one
+              intercept attempt per signull unless the host allows more.
             </>,
             <>
-              <strong>+5 for a Connect:</strong> When a guesser successfully
-              solves a signull (recognizes the cultural reference) and it
-              resolves to reveal a letter, the guesser who made the connection
-              earns 5 points. This rewards active participation and cultural
-              knowledge.
+              <strong>+{points.connectToResolvedSignull} for a Connect:</strong>{" "}
+              When a guesser successfully solves a signull (recognizes the
+              cultural reference) and it resolves to reveal a letter, the
+              guesser who made the connection earns{" "}
+              {points.connectToResolvedSignull} points. This rewards active
+              participation and cultural knowledge. Rooms can allow a few tries
+              per signull; each miss before the hit halves the reward.
             </>,
             <>
-              <strong>+10 for Making a Signull (if it resolves):</strong> When a
-              player creates a signull that's successfully guessed by the team
-              (before the setter intercepts it), the creator earns 10 points.
-              This incentivizes thoughtful, clever clue-making and rewards
-              creativity that helps the team progress.
+              <strong>
+                +{points.signullResolved} for Making a Signull (if it resolves):
+              </strong>{" "}
+              When a player creates a signull that's successfully guessed by the
+              team (before the setter intercepts it), the creator earns{" "}
+              {points.signullResolved} points. This incentivizes thoughtful,
+              clever clue-making and rewards creativity that helps the team
+              progress.
             </>,
           ]}
         />
@@ -133,22 +150,49 @@ export default function ScoringSystemBlog({ post }: BlogPostContentProps) {
         <BlogList
           items={[
             <>
-              <strong>+5 for every letter revealed to the setter:</strong> If
-              the guessing team forced the word-setter to reveal 5 letters
-              before solving the word, the setter earns 25 bonus points. This
-              rewards setters for choosing difficult words that keep the game
+              <strong>
+                +{points.setterRevealedLetterBonus} for every letter revealed to
+                the setter:
+              </strong>{" "}
+              If the guessing team forced the word-setter to reveal 5 letters
+              before solving the word, the setter earns{" "}
+              {5 * points.setterRevealedLetterBonus} bonus points. This rewards
+              setters for choosing difficult words that keep the game
               competitive.
             </>,
             <>
-              <strong>+5 for every letter guessers didn't require:</strong> If
-              the word is 7 letters long but the team solved it after only 4
-              letters were revealed, they earn 15 bonus points (5 × 3). This
-              rewards clever deduction and celebrates moments where the team
-              'gets' the word faster than expected.
+              <strong>
+                +{points.lightningPerRemainingLetter} for every letter guessers
+                didn&apos;t require:
+              </strong>{" "}
+              If the word is 7 letters long but the team solved it after only 4
+              letters were revealed, they earn{" "}
+              {3 * points.lightningPerRemainingLetter} bonus points (
+              {points.lightningPerRemainingLetter} × 3). This rewards clever
+              deduction and celebrates moments where the team 'gets' the word
+              faster than expected.
             </>,
           ]}
         />
 
+        <BlogHeading level={3}>Direct Guesses</BlogHeading>
+
+        <BlogParagraph>
+          Guessers can also go for the secret word outright. A correct direct
+          guess earns +{points.directGuessPerRemainingLetter} for every letter
+          that was still hidden, so a bold early guess pays the most. If the
+          team burns all of its direct guesses, the setter survives and earns +
+          {points.setterSurvivalBonus}. Hosts who want guessing to sting can add
+          a penalty for every wrong guess.
+        </BlogParagraph>
+
+        <BlogParagraph>
+          The host decides how many shots there are: a pool the whole team
+          shares, a separate allowance for each guesser, or unlimited guesses
+          where every miss costs points instead. With unlimited guesses the
+          setter can only win by intercepting, so there is no survival bonus.
+        </BlogParagraph>
+
         <BlogCallout type="info">
           <p>
             <strong>The Philosophy:</strong> These bonus points are deliberately
@@ -197,20 +241,28 @@ export default function ScoringSystemBlog({ post }: BlogPostContentProps) {
         <BlogHeading level={2}>Why These Point Values?</BlogHeading>
 
         <BlogParagraph>
-          The specific point values (5, 5, 10, 5, 5) were chosen to balance
-          different playstyles:
+          The specific point values (
+          {[
+            points.intercept,
+            points.connectToResolvedSignull,
+            points.signullResolved,
+            points.setterRevealedLetterBonus,
+            points.lightningPerRemainingLetter,
+          ].join(", ")}
+          ) were chosen to balance different playstyles:
         </BlogParagraph>
 
         <BlogList
           items={[
             <>
-              Intercepting and connecting both earn 5 points, ensuring that the
-              word-setter and guessers have equivalent value for their actions.
+              Intercepting and connecting both earn {points.intercept} points,
+              ensuring that the word-setter and guessers have equivalent value
+              for their actions.
             </>,
             <>
-              Making a successful signull earns 10 points because it requires
-              the most creativity and risk—you're creating something that might
-              be intercepted. This rewards initiative.
+              Making a successful signull earns {points.signullResolved} points
+              because it requires the most creativity and risk—you're creating
+              something that might be intercepted. This rewards initiative.
             </>,
             <>
               Bonus points scale with choosing words strategically, not just by
@@ -227,6 +279,47 @@ export default function ScoringSystemBlog({ post }: BlogPostContentProps) {
           players toward optimal behavior without feeling restrictive.
         </BlogParagraph>
 
+        <BlogHeading level={2}>House Rules</BlogHeading>
+
+        <BlogParagraph>
+          Every group plays a little differently, so the host can change the
+          point values in the lobby. Classic is what we described above; the
+          other presets shift the balance:
+        </BlogParagraph>
+
+        <BlogList
+          items={(Object.keys(SCORING_PRESETS) as ScoringPreset[]).map(
+            (preset) => {
+              const rules = SCORING_PRESETS[preset];
+              return (
+                <>
+                  <strong>{PRESET_NAMES[preset]}:</strong> +{rules.intercept}{" "}
+                  per intercept
+                  {rules.wrongInterceptPenalty > 0
+                    ? ` (-${rules.wrongInterceptPenalty} for a miss)`
+                    : ""}
+                  , +{rules.connectToResolvedSignull} per connect, +
+                  {rules.signullResolved} per resolved signull, +
+                  {rules.lightningPerRemainingLetter} per hidden letter on a
+                  lightning signull and +{rules.setterRevealedLetterBonus} to
+                  the setter per revealed letter. A correct direct guess pays +
+                  {rules.directGuessPerRemainingLetter} per hidden letter
+                  {rules.wrongDirectGuessPenalty > 0
+                    ? `, a wrong one costs ${rules.wrongDirectGuessPenalty}`
+                    : ""}
+                  , and a setter who outlasts every direct guess earns +
+                  {rules.setterSurvivalBonus}.
+                </>
+              );
+            }
+          )}
+        />
+
+        <BlogParagraph>
+          Any single value can also be tuned, or set to zero to switch that
+          award off entirely.
+        </BlogParagraph>
+
         <BlogHeading level={2}>What We Learned</BlogHeading>
 
         <BlogParagraph>
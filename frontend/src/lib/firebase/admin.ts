@@ -6,6 +6,7 @@ import {
   ServiceAccount,
 } from "firebase-admin/app";
 import { getFirestore, DocumentData } from "firebase-admin/firestore";
+import { getAuth } from "firebase-admin/auth";
 
 // Initialize Firebase Admin SDK
 const initializeFirebaseAdmin = () => {
@@ -14,6 +15,13 @@ const initializeFirebaseAdmin = () => {
     return getApps()[0];
   }
 
+  // The emulators accept any project without credentials
+  if (process.env.FIRESTORE_EMULATOR_HOST) {
+    return initializeApp({
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || "demo-signull",
+    });
+  }
+
   // Validate required environment variables
   const privateKey = process.env.FIREBASE_PRIVATE_KEY;
   const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
@@ -43,10 +51,16 @@ const initializeFirebaseAdmin = () => {
 // Initialize admin app and firestore
 let adminApp: ReturnType<typeof initializeFirebaseAdmin>;
 let adminDb: ReturnType<typeof getFirestore>;
+let adminAuth: ReturnType<typeof getAuth>;
 
 try {
+  const isFreshApp = getApps().length === 0;
   adminApp = initializeFirebaseAdmin();
   adminDb = getFirestore(adminApp);
+  // Optional fields (e.g. resolvedAt, score event details) may be undefined.
+  // Settings can only be applied once, before the first use of the instance.
+  if (isFreshApp) adminDb.settings({ ignoreUndefinedProperties: true });
+  adminAuth = getAuth(adminApp);
 } catch (error) {
   console.error("Failed to initialize Firebase Admin:", error);
   // In development, we might not have admin credentials
@@ -57,7 +71,7 @@ try {
   }
 }
 
-export { adminApp, adminDb };
+export { adminApp, adminDb, adminAuth };
 
 // Helper functions for server-side operations
 export const createGameRoom = async (
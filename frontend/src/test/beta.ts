@@ -0,0 +1,63 @@
+// Rooms and clocks for the beta game's tests
+import { Timestamp } from "firebase/firestore";
+import {
+  applyJoinRoom,
+  applyStartGame,
+  buildNewRoom,
+  type EngineClock,
+} from "@/lib/beta/engine";
+import { resolveNewRoomSettings } from "@/lib/beta/settings";
+import type { FirestoreGameRoom, GameSettings } from "@/lib/beta/types";
+
+export interface TestClock extends EngineClock {
+  advance(ms: number): void;
+}
+
+// A clock that only moves when told to
+export const createTestClock = (
+  startMs: number = Date.UTC(2025, 0, 1)
+): TestClock => {
+  let nowMs = startMs;
+  return {
+    now: () => Timestamp.fromMillis(nowMs),
+    nowMillis: () => nowMs,
+    advance: (ms) => {
+      nowMs += ms;
+    },
+  };
+};
+
+export const HOST_ID = "alice";
+export const GUESSER_IDS = ["bob", "cara", "dan"];
+
+/**
+ * A lobby hosted by alice, who sets the first word, with bob, cara and dan
+ * seated as guessers in that order
+ */
+export const createLobby = (
+  clock: EngineClock,
+  settings: Partial<GameSettings> = {}
+): FirestoreGameRoom => {
+  const room = buildNewRoom(
+    "TEST01",
+    HOST_ID,
+    "Alice",
+    resolveNewRoomSettings(settings),
+    false,
+    clock
+  );
+  for (const id of GUESSER_IDS) {
+    applyJoinRoom(room, id, id.toUpperCase(), clock);
+  }
+  return room;
+};
+
+// The same room with the first round started, waiting for the secret word
+export const createStartedRoom = (
+  clock: EngineClock,
+  settings: Partial<GameSettings> = {}
+): FirestoreGameRoom => {
+  const room = createLobby(clock, settings);
+  applyStartGame(room, HOST_ID, clock);
+  return room;
+};
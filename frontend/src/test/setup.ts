@@ -15,7 +15,11 @@ vi.mock("next/navigation", () => ({
   useSearchParams: () => new URLSearchParams(),
 }));
 
-// Mock Firebase (will be replaced with actual Firebase setup later)
+// Mock Firebase (will be replaced with actual Firebase setup later). The beta
+// engine stamps times with Timestamp, a plain value class, so it stays real.
 vi.mock("firebase/app", () => ({}));
 vi.mock("firebase/auth", () => ({}));
-vi.mock("firebase/firestore", () => ({}));
+vi.mock("firebase/firestore", async (importOriginal) => ({
+  Timestamp: (await importOriginal<typeof import("firebase/firestore")>())
+    .Timestamp,
+}));